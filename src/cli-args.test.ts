@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+
+import { formatHelp, parseArgs } from "./cli-args";
+import type { CommandSpec } from "./cli-args";
+
+const SPEC: CommandSpec = {
+  name: "rename",
+  summary: "Rename a requirement",
+  args: ["<old-id>", "<new-id>"],
+  flags: [
+    { name: "write", description: "Apply the changes" },
+    { name: "actor", value: "<name>", description: "Who renames it" },
+    { name: "field", value: "<name>=<value>", description: "A custom field", repeatable: true },
+  ],
+  notes: ["IDs are case-sensitive."],
+};
+
+describe("parseArgs", () => {
+  test("splits positional arguments, values and switches", () => {
+    const result = parseArgs(SPEC, ["req-001", "--write", "--actor", "bob", "req-002", "--field=a=1", "--field", "b"]);
+
+    expect(result).toEqual({
+      ok: true,
+      args: {
+        positional: ["req-001", "req-002"],
+        values: { actor: ["bob"], field: ["a=1", "b"] },
+        switches: new Set(["write"]),
+        help: false,
+      },
+    });
+  });
+
+  test("treats everything after -- as positional", () => {
+    const result = parseArgs(SPEC, ["--", "--write", "-h"]);
+
+    expect(result.ok && result.args.positional).toEqual(["--write", "-h"]);
+  });
+
+  test("skips the checks when help is asked for", () => {
+    expect(parseArgs(SPEC, ["--bogus", "-h"])).toMatchObject({ ok: true, args: { help: true } });
+    expect(parseArgs(SPEC, ["--help"])).toMatchObject({ ok: true, args: { help: true } });
+  });
+
+  test("rejects unknown, repeated and malformed flags", () => {
+    const run = (...argv: string[]) => parseArgs(SPEC, ["a", "b", ...argv]);
+
+    expect(run("--bogus")).toEqual({ ok: false, error: "Unknown option for rename: --bogus" });
+    expect(run("-w")).toEqual({ ok: false, error: "Unknown option for rename: -w" });
+    expect(run("--actor", "a", "--actor=b")).toEqual({ ok: false, error: "--actor can only be given once" });
+    expect(run("--write=yes")).toEqual({ ok: false, error: "--write doesn't take a value" });
+    expect(run("--actor")).toEqual({ ok: false, error: "Missing value for --actor" });
+    expect(run("--actor", "--write")).toEqual({ ok: false, error: "Missing value for --actor" });
+  });
+
+  test("checks the number of positional arguments", () => {
+    expect(parseArgs(SPEC, ["a"])).toEqual({ ok: false, error: "Expected <old-id> <new-id>, got 1 argument(s)" });
+    expect(parseArgs({ name: "trace", summary: "", flags: [] }, ["x"])).toEqual({
+      ok: false,
+      error: "trace takes no arguments, got: x",
+    });
+  });
+});
+
+describe("formatHelp", () => {
+  test("lists the usage, the flags and the notes", () => {
+    expect(formatHelp(SPEC)).toBe(
+      [
+        "Usage: design-duck rename <old-id> <new-id> [options]",
+        "",
+        "Rename a requirement",
+        "",
+        "Options:",
+        "  --write                 Apply the changes",
+        "  --actor <name>          Who renames it",
+        "  --field <name>=<value>  A custom field (repeatable)",
+        "  -h, --help              Show this help",
+        "",
+        "IDs are case-sensitive.",
+      ].join("\n"),
+    );
+  });
+});
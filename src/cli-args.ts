@@ -0,0 +1,125 @@
+/**
+ * Argument parsing and help text for the CLI commands.
+ *
+ * Each command describes its positional arguments and flags in a
+ * CommandSpec; parseArgs() checks an argv slice against it and formatHelp()
+ * turns it into the text `design-duck <command> --help` prints. Flags take
+ * their value as `--flag value` or `--flag=value`; flags without a value
+ * placeholder are switches. Checking the values themselves (formats,
+ * statuses, ...) is up to the command.
+ */
+
+/** A flag a command accepts. */
+export interface FlagSpec {
+  /** Without the leading dashes, e.g. `format`. */
+  name: string;
+  /** Placeholder for the flag's value, e.g. `<text|json>`; flags without one are switches. */
+  value?: string;
+  description: string;
+  /** Whether the flag may be given more than once; its values then add up. */
+  repeatable?: boolean;
+}
+
+/** A command's arguments, for parsing and help. */
+export interface CommandSpec {
+  name: string;
+  /** One line on what the command does. */
+  summary: string;
+  /** Required positional arguments, e.g. `["<old-id>", "<new-id>"]`. */
+  args?: string[];
+  flags: FlagSpec[];
+  /** Lines printed after the options. */
+  notes?: string[];
+}
+
+/** A command line that matches its spec. */
+export interface ParsedArgs {
+  positional: string[];
+  /** Values of the flags that take one, by flag name, in the order given. */
+  values: Record<string, string[]>;
+  /** Names of the switches that were given. */
+  switches: Set<string>;
+  /** Whether `--help` or `-h` was given; the rest isn't checked then. */
+  help: boolean;
+}
+
+export type ArgsResult = { ok: true; args: ParsedArgs } | { ok: false; error: string };
+
+const HELP_FLAG: FlagSpec = { name: "help", description: "Show this help" };
+
+/**
+ * Parses the arguments after the command name. An argument of `--` ends the
+ * flags; everything after it is positional.
+ */
+export function parseArgs(spec: CommandSpec, argv: string[]): ArgsResult {
+  if (argv.some((arg, i) => (arg === "--help" || arg === "-h") && !argv.slice(0, i).includes("--"))) {
+    return { ok: true, args: { positional: [], values: {}, switches: new Set(), help: true } };
+  }
+
+  const parsed: ParsedArgs = { positional: [], values: {}, switches: new Set(), help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--") {
+      parsed.positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith("-") || arg === "-") {
+      parsed.positional.push(arg);
+      continue;
+    }
+
+    const eq = arg.indexOf("=");
+    const name = (eq === -1 ? arg : arg.slice(0, eq)).replace(/^--?/, "");
+    const flag = spec.flags.find((f) => f.name === name);
+    if (!flag || !arg.startsWith("--")) {
+      return { ok: false, error: `Unknown option for ${spec.name}: ${arg}` };
+    }
+    if (!flag.repeatable && (parsed.switches.has(name) || name in parsed.values)) {
+      return { ok: false, error: `--${name} can only be given once` };
+    }
+
+    if (flag.value === undefined) {
+      if (eq !== -1) {
+        return { ok: false, error: `--${name} doesn't take a value` };
+      }
+      parsed.switches.add(name);
+      continue;
+    }
+
+    const value = eq === -1 ? argv[++i] : arg.slice(eq + 1);
+    if (value === undefined || (eq === -1 && value.startsWith("--"))) {
+      return { ok: false, error: `Missing value for --${name}` };
+    }
+    parsed.values[name] = [...(parsed.values[name] ?? []), value];
+  }
+
+  const expected = spec.args ?? [];
+  if (parsed.positional.length !== expected.length) {
+    const error = expected.length === 0
+      ? `${spec.name} takes no arguments, got: ${parsed.positional.join(" ")}`
+      : `Expected ${expected.join(" ")}, got ${parsed.positional.length} argument(s)`;
+    return { ok: false, error };
+  }
+  return { ok: true, args: parsed };
+}
+
+/** The text printed by `design-duck <command> --help`. */
+export function formatHelp(spec: CommandSpec): string {
+  const usage = ["design-duck", spec.name, ...(spec.args ?? []), ...(spec.flags.length > 0 ? ["[options]"] : [])];
+  const flags = [...spec.flags, HELP_FLAG];
+  const labels = flags.map((f) => {
+    const name = f === HELP_FLAG ? "-h, --help" : `--${f.name}`;
+    return f.value === undefined ? name : `${name} ${f.value}`;
+  });
+  const width = Math.max(...labels.map((l) => l.length));
+
+  const lines = [`Usage: ${usage.join(" ")}`, "", spec.summary, "", "Options:"];
+  flags.forEach((f, i) => {
+    const repeatable = f.repeatable ? " (repeatable)" : "";
+    lines.push(`  ${labels[i].padEnd(width)}  ${f.description}${repeatable}`);
+  });
+  if (spec.notes && spec.notes.length > 0) {
+    lines.push("", ...spec.notes);
+  }
+  return lines.join("\n");
+}
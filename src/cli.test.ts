@@ -1,11 +1,31 @@
 import { describe, expect, test } from "bun:test";
 
-import { COMMANDS } from "./cli";
+import { COMMANDS, COMMAND_SPECS } from "./cli";
+import { formatHelp } from "./cli-args";
 
 describe("cli", () => {
-  test("COMMANDS include init, ui, validate", () => {
+  test("COMMANDS include init, ui, validate, add, list, show, rename, status, trace, coverage, matrix, export", () => {
     expect(COMMANDS).toContain("init");
     expect(COMMANDS).toContain("ui");
     expect(COMMANDS).toContain("validate");
+    expect(COMMANDS).toContain("add");
+    expect(COMMANDS).toContain("list");
+    expect(COMMANDS).toContain("show");
+    expect(COMMANDS).toContain("rename");
+    expect(COMMANDS).toContain("status");
+    expect(COMMANDS).toContain("trace");
+    expect(COMMANDS).toContain("coverage");
+    expect(COMMANDS).toContain("matrix");
+    expect(COMMANDS).toContain("export");
+  });
+
+  test("every command has a spec for parsing and --help", () => {
+    for (const command of COMMANDS) {
+      expect(COMMAND_SPECS[command].name).toBe(command);
+    }
+    expect(formatHelp(COMMAND_SPECS.ui)).toContain("--port <number>");
+    expect(formatHelp(COMMAND_SPECS.ui)).toContain("--no-open");
+    expect(formatHelp(COMMAND_SPECS.ui)).toContain("--read-only");
+    expect(formatHelp(COMMAND_SPECS.ui)).toContain("The API has no authentication");
   });
 });
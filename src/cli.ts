@@ -1,43 +1,441 @@
 #!/usr/bin/env bun
 /**
  * Design Duck CLI – requirements gathering and management.
- * Commands: init | ui | validate
+ * Commands: init | ui | validate | add | list | show | rename | status | trace | coverage | matrix | export
+ *
+ * Each command's arguments are described in COMMAND_SPECS, which both
+ * parses them (see ./cli-args) and prints `design-duck <command> --help`.
  */
 
 import { init } from "./commands/init";
 import { ui } from "./commands/ui";
-import { validate } from "./commands/validate";
+import type { UiOptions } from "./commands/ui";
+import { validate, isOutputFormat, OUTPUT_FORMATS } from "./commands/validate";
+import type { ValidateOptions } from "./commands/validate";
+import { add, createTerminalPrompt } from "./commands/add";
+import type { AddOptions } from "./commands/add";
+import { list } from "./commands/list";
+import type { ListOptions } from "./commands/list";
+import { show } from "./commands/show";
+import { rename } from "./commands/rename";
+import { status } from "./commands/status";
+import { trace } from "./commands/trace";
+import { coverage } from "./commands/coverage";
+import type { CoverageOptions } from "./commands/coverage";
+import { matrix, isMatrixFormat, MATRIX_FORMATS } from "./commands/matrix";
+import type { MatrixOptions } from "./commands/matrix";
+import { exportRequirements, isExportFormat, EXPORT_FORMATS } from "./commands/export";
+import type { ExportOptions } from "./commands/export";
+import { formatHelp, parseArgs } from "./cli-args";
+import type { CommandSpec, ParsedArgs } from "./cli-args";
+import { REQUIREMENT_KINDS, SORT_KEYS, isRequirementKind, isSortKey } from "./domain/requirements/query";
+import { MATRIX_GROUPINGS, isMatrixGrouping } from "./domain/requirements/matrix";
 
-export const COMMANDS = ["init", "ui", "validate"] as const;
+export const COMMANDS = [
+  "init",
+  "ui",
+  "validate",
+  "add",
+  "list",
+  "show",
+  "rename",
+  "status",
+  "trace",
+  "coverage",
+  "matrix",
+  "export",
+] as const;
 type Command = (typeof COMMANDS)[number];
 
 function isCommand(s: string): s is Command {
   return COMMANDS.includes(s as Command);
 }
 
-function printUsage(): void {
-  console.error("Usage: design-duck <command>");
-  console.error("Commands: init | ui | validate");
+const JSON_FLAG = { name: "json", description: "Print JSON instead of text" };
+
+export const COMMAND_SPECS: Record<Command, CommandSpec> = {
+  init: {
+    name: "init",
+    summary: "Scaffold desgin-duck/ with starter requirement files",
+    flags: [],
+  },
+  ui: {
+    name: "ui",
+    summary: "Start the UI server with live reload",
+    flags: [
+      {
+        name: "port",
+        value: "<number>",
+        description: "Port to try first; the next free one is used if it's taken (default: 3456)",
+      },
+      {
+        name: "host",
+        value: "<host>",
+        description: "Interface to listen on; 0.0.0.0 opens the UI to your network (default: localhost)",
+      },
+      { name: "no-open", description: "Don't open the browser" },
+      { name: "dir", value: "<path>", description: "Requirements directory (default: desgin-duck/requirements)" },
+      { name: "read-only", description: "Refuse edits from the UI and the API" },
+    ],
+    notes: [
+      "config.yaml is read from the parent of the requirements directory.",
+      "The API has no authentication: with --host set to anything but localhost, anyone who can reach",
+      "the machine can edit the requirements. Add --read-only when sharing the UI.",
+    ],
+  },
+  validate: {
+    name: "validate",
+    summary: "Validate all requirement files against the schema",
+    flags: [
+      { name: "format", value: `<${OUTPUT_FORMATS.join("|")}>`, description: "Output format (default: text)" },
+      { name: "warnings-as-errors", description: "Exit with code 2 when only warnings are found" },
+    ],
+  },
+  add: {
+    name: "add",
+    summary: "Append a main or derived requirement",
+    args: [`<${REQUIREMENT_KINDS.join("|")}>`],
+    flags: [
+      { name: "id", value: "<id>", description: "Requirement ID (default: the next free one)" },
+      { name: "description", value: "<text>", description: "What is needed" },
+      { name: "user-value", value: "<text>", description: "Why it matters to the user (main)" },
+      { name: "from", value: "<id,id,...>", description: "Main requirements it derives from (derived)" },
+      { name: "rationale", value: "<text>", description: "Why it is needed (derived)" },
+      { name: "category", value: "<category>", description: "Category (derived)" },
+      { name: "priority", value: "<priority>", description: "Priority, e.g. high, medium or low" },
+      { name: "status", value: "<status>", description: "Status, e.g. draft" },
+      { name: "field", value: "<name>=<value>", description: "Custom field from config.yaml", repeatable: true },
+    ],
+    notes: ["Missing fields are prompted for when run in a terminal."],
+  },
+  list: {
+    name: "list",
+    summary: "List requirements as a table, with filters",
+    flags: [
+      { name: "kind", value: "<main|derived>", description: "Only this kind", repeatable: true },
+      { name: "status", value: "<status,...>", description: "Only these statuses", repeatable: true },
+      { name: "priority", value: "<priority,...>", description: "Only these priorities", repeatable: true },
+      { name: "category", value: "<category,...>", description: "Only these categories", repeatable: true },
+      {
+        name: "field",
+        value: "<name>=<value,...>",
+        description: "Only these values of a custom field",
+        repeatable: true,
+      },
+      { name: "sort", value: `<${SORT_KEYS.join("|")}>`, description: "Sort order (default: id)" },
+      JSON_FLAG,
+    ],
+  },
+  show: {
+    name: "show",
+    summary: "Show one requirement with its derived requirements or parents",
+    args: ["<id>"],
+    flags: [JSON_FLAG],
+  },
+  rename: {
+    name: "rename",
+    summary: "Rename a requirement ID and update every derivedFrom reference",
+    args: ["<old-id>", "<new-id>"],
+    flags: [{ name: "write", description: "Apply the changes instead of only printing them" }],
+  },
+  status: {
+    name: "status",
+    summary: "Change a requirement's status, following the workflow",
+    args: ["<id>", "<status>"],
+    flags: [{ name: "actor", value: "<name>", description: "Who makes the change (default: $DESIGN_DUCK_ACTOR)" }],
+  },
+  trace: {
+    name: "trace",
+    summary: "Map requirements to the files tagged with @req <id> or design-duck: <id>",
+    flags: [JSON_FLAG],
+  },
+  coverage: {
+    name: "coverage",
+    summary: "Summarize which requirements are verified by passing tests",
+    flags: [
+      { name: "threshold", value: "<percent>", description: "Fail when fewer main requirements are verified" },
+      { name: "results", value: "<glob>", description: "JUnit XML or bun test output to read", repeatable: true },
+      JSON_FLAG,
+    ],
+  },
+  matrix: {
+    name: "matrix",
+    summary: "Print the main x derived traceability matrix",
+    flags: [
+      { name: "format", value: `<${MATRIX_FORMATS.join("|")}>`, description: "Output format (default: markdown)" },
+      {
+        name: "group-by",
+        value: `<${MATRIX_GROUPINGS.join("|")}>`,
+        description: "Columns (default: one per derived requirement)",
+      },
+    ],
+  },
+  export: {
+    name: "export",
+    summary: "Export the requirements as a specification document or a static copy of the UI",
+    flags: [
+      { name: "format", value: `<${EXPORT_FORMATS.join("|")}>`, description: "What to export (required)" },
+      { name: "status", value: "<status,...>", description: "Only these statuses (markdown)", repeatable: true },
+      { name: "template", value: "<file.yaml>", description: "Headings to use instead of the defaults (markdown)" },
+    ],
+  },
+};
+
+/** Prints the list of commands; to stdout when asked for, otherwise as an error. */
+function printUsage(asked = false): void {
+  const width = Math.max(...COMMANDS.map((c) => c.length));
+  const lines = [
+    "Usage: design-duck <command> [options]",
+    "",
+    "Commands:",
+    ...COMMANDS.map((c) => `  ${c.padEnd(width)}  ${COMMAND_SPECS[c].summary}`),
+    "",
+    "Run 'design-duck <command> --help' for a command's options.",
+    "Statuses, priorities and categories can be changed under vocabulary in config.yaml.",
+  ];
+  const print = asked ? console.log : console.error;
+  for (const line of lines) print(line);
+  if (!asked) process.exitCode = 1;
+}
+
+/**
+ * Parses a command's arguments. Prints the help, or the error with a hint,
+ * and returns null when the command shouldn't run.
+ */
+function parseCommandArgs(command: Command, argv: string[]): ParsedArgs | null {
+  const spec = COMMAND_SPECS[command];
+  const result = parseArgs(spec, argv);
+  if (!result.ok) {
+    console.error(result.error);
+    console.error(`Run 'design-duck ${command} --help' for usage.`);
+    process.exitCode = 1;
+    return null;
+  }
+  if (result.args.help) {
+    console.log(formatHelp(spec));
+    return null;
+  }
+  return result.args;
+}
+
+/** Reports a command that failed unexpectedly, e.g. a prompt closed with Ctrl-D. */
+function reportFailure(err: unknown): void {
+  console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
   process.exitCode = 1;
 }
 
-function cmdInit(): void {
-  init();
+/** The comma-separated values of a flag, over all its occurrences. */
+function commaValues(args: ParsedArgs, name: string): string[] | undefined {
+  const values = args.values[name];
+  return values?.flatMap((v) => v.split(",").map((s) => s.trim()));
+}
+
+/** Splits a `--field name=value` argument; prints an error and returns null when malformed. */
+function splitFieldValue(value: string): [name: string, value: string] | null {
+  const eq = value.indexOf("=");
+  if (eq <= 0) {
+    console.error(`Expected --field <name>=<value>, got: ${value}`);
+    process.exitCode = 1;
+    return null;
+  }
+  return [value.slice(0, eq).trim(), value.slice(eq + 1)];
+}
+
+async function cmdUi(args: ParsedArgs): Promise<void> {
+  const options: UiOptions = {
+    host: args.values.host?.[0],
+    dir: args.values.dir?.[0],
+    open: !args.switches.has("no-open"),
+    readOnly: args.switches.has("read-only"),
+  };
+
+  const port = args.values.port?.[0];
+  if (port !== undefined) {
+    if (!/^\d+$/.test(port) || Number(port) > 65535) {
+      console.error(`--port must be a number between 0 and 65535, got: ${port}`);
+      process.exitCode = 1;
+      return;
+    }
+    options.port = Number(port);
+  }
+
+  await ui(options);
+}
+
+function cmdValidate(args: ParsedArgs): void {
+  const options: ValidateOptions = { warningsAsErrors: args.switches.has("warnings-as-errors") };
+
+  const format = args.values.format?.[0];
+  if (format !== undefined) {
+    if (!isOutputFormat(format)) {
+      console.error(`Unknown format: ${format}. Expected one of: ${OUTPUT_FORMATS.join(", ")}`);
+      process.exitCode = 1;
+      return;
+    }
+    options.format = format;
+  }
+
+  validate(process.cwd(), options);
+}
+
+/** Maps `add` flags to the AddOptions field they set. */
+const ADD_FLAGS: Record<string, Exclude<keyof AddOptions, "from" | "fields">> = {
+  id: "id",
+  description: "description",
+  "user-value": "userValue",
+  rationale: "rationale",
+  category: "category",
+  priority: "priority",
+  status: "status",
+};
+
+async function cmdAdd(args: ParsedArgs): Promise<void> {
+  const [kind] = args.positional;
+  if (!isRequirementKind(kind)) {
+    console.error(`Unknown requirement kind: ${kind}. Expected one of: ${REQUIREMENT_KINDS.join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const options: AddOptions = {};
+  for (const [flag, field] of Object.entries(ADD_FLAGS)) {
+    const value = args.values[flag]?.[0];
+    if (value !== undefined) options[field] = value;
+  }
+  if (args.values.from) {
+    options.from = commaValues(args, "from")?.filter((s) => s !== "");
+  }
+  for (const value of args.values.field ?? []) {
+    const field = splitFieldValue(value);
+    if (field === null) return;
+    options.fields = { ...options.fields, [field[0]]: field[1] };
+  }
+
+  // Only prompt when someone is there to answer; scripts get an error for missing flags
+  const prompt = process.stdin.isTTY ? createTerminalPrompt() : undefined;
+  await add(kind, options, process.cwd(), prompt);
+}
+
+/** Maps `list` filter flags to the ListOptions field they add values to. */
+const LIST_FILTER_FLAGS: Record<string, "kinds" | "statuses" | "priorities" | "categories"> = {
+  kind: "kinds",
+  status: "statuses",
+  priority: "priorities",
+  category: "categories",
+};
+
+function cmdList(args: ParsedArgs): void {
+  const options: ListOptions = { json: args.switches.has("json") };
+
+  for (const [flag, field] of Object.entries(LIST_FILTER_FLAGS)) {
+    const values = commaValues(args, flag);
+    if (values) options[field] = values;
+  }
+
+  const sort = args.values.sort?.[0];
+  if (sort !== undefined) {
+    if (!isSortKey(sort)) {
+      console.error(`Unknown sort key: ${sort}. Expected one of: ${SORT_KEYS.join(", ")}`);
+      process.exitCode = 1;
+      return;
+    }
+    options.sort = sort;
+  }
+
+  for (const value of args.values.field ?? []) {
+    const field = splitFieldValue(value);
+    if (field === null) return;
+    const [name, values] = field;
+    options.fields = {
+      ...options.fields,
+      [name]: [...(options.fields?.[name] ?? []), ...values.split(",").map((s) => s.trim())],
+    };
+  }
+
+  list(options);
+}
+
+function cmdShow(args: ParsedArgs): void {
+  show(args.positional[0], { json: args.switches.has("json") });
+}
+
+function cmdRename(args: ParsedArgs): void {
+  rename(args.positional[0], args.positional[1], { write: args.switches.has("write") });
+}
+
+function cmdStatus(args: ParsedArgs): void {
+  status(args.positional[0], args.positional[1], { actor: args.values.actor?.[0] });
 }
 
-function cmdUi(): void {
-  ui();
+function cmdTrace(args: ParsedArgs): void {
+  trace({ json: args.switches.has("json") });
 }
 
-function cmdValidate(): void {
-  validate();
+function cmdCoverage(args: ParsedArgs): void {
+  const options: CoverageOptions = { json: args.switches.has("json"), results: args.values.results };
+
+  const value = args.values.threshold?.[0];
+  if (value !== undefined) {
+    const threshold = Number(value);
+    if (value.trim() === "" || !Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+      console.error(`--threshold must be a percentage between 0 and 100, got: ${value}`);
+      process.exitCode = 1;
+      return;
+    }
+    options.threshold = threshold;
+  }
+
+  coverage(options);
+}
+
+function cmdMatrix(args: ParsedArgs): void {
+  const options: MatrixOptions = {};
+
+  const format = args.values.format?.[0];
+  if (format !== undefined) {
+    if (!isMatrixFormat(format)) {
+      console.error(`Unknown format: ${format}. Expected one of: ${MATRIX_FORMATS.join(", ")}`);
+      process.exitCode = 1;
+      return;
+    }
+    options.format = format;
+  }
+
+  const groupBy = args.values["group-by"]?.[0];
+  if (groupBy !== undefined) {
+    if (!isMatrixGrouping(groupBy)) {
+      console.error(`Unknown grouping: ${groupBy}. Expected one of: ${MATRIX_GROUPINGS.join(", ")}`);
+      process.exitCode = 1;
+      return;
+    }
+    options.groupBy = groupBy;
+  }
+
+  matrix(options);
+}
+
+function cmdExport(args: ParsedArgs): void {
+  const format = args.values.format?.[0];
+  if (!format || !isExportFormat(format)) {
+    console.error(`Unknown format: ${format ?? "(missing)"}. Expected one of: ${EXPORT_FORMATS.join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const options: ExportOptions = { format, statuses: commaValues(args, "status"), template: args.values.template?.[0] };
+  exportRequirements(options);
 }
 
 function main(): void {
-  const args = process.argv.slice(2);
-  const command = args[0];
+  const argv = process.argv.slice(2);
+  const command = argv[0];
 
+  if (command === "--help" || command === "-h" || command === "help") {
+    printUsage(true);
+    return;
+  }
   if (!command || !isCommand(command)) {
+    if (command) console.error(`Unknown command: ${command}`);
     printUsage();
     return;
   }
@@ -46,15 +444,47 @@ function main(): void {
     console.error("[design-duck] command:", command);
   }
 
+  const args = parseCommandArgs(command, argv.slice(1));
+  if (!args) {
+    return;
+  }
+
   switch (command) {
     case "init":
-      cmdInit();
+      init();
       break;
     case "ui":
-      cmdUi();
+      cmdUi(args).catch(reportFailure);
       break;
     case "validate":
-      cmdValidate();
+      cmdValidate(args);
+      break;
+    case "add":
+      cmdAdd(args).catch(reportFailure);
+      break;
+    case "list":
+      cmdList(args);
+      break;
+    case "show":
+      cmdShow(args);
+      break;
+    case "rename":
+      cmdRename(args);
+      break;
+    case "status":
+      cmdStatus(args);
+      break;
+    case "trace":
+      cmdTrace(args);
+      break;
+    case "coverage":
+      cmdCoverage(args);
+      break;
+    case "matrix":
+      cmdMatrix(args);
+      break;
+    case "export":
+      cmdExport(args);
       break;
   }
 }
@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { add } from "./add";
+import type { Prompt } from "./add";
+
+const MAIN_YAML = `# main.yaml - User-value requirements
+requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high       # high | medium | low
+    status: draft
+`;
+
+const DERIVED_YAML = `# derived.yaml - Technical/enabling requirements
+requirements: []
+`;
+
+/** A prompt that answers from a script and records the questions asked. */
+function scriptedPrompt(answers: string[]): Prompt & { questions: string[] } {
+  const questions: string[] = [];
+  const prompt = async (question: string) => {
+    questions.push(question);
+    return answers.shift() ?? "";
+  };
+  return Object.assign(prompt, { questions });
+}
+
+describe("add", () => {
+  let testDir: string;
+  let reqDir: string;
+  let errorSpy: ReturnType<typeof spyOn>;
+  let logSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+    logSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const readFile = (name: string) => readFileSync(join(reqDir, name), "utf-8");
+  const errors = () => errorSpy.mock.calls.map((c: unknown[]) => String(c[0]));
+
+  test("appends a main requirement with the next free ID and keeps comments", async () => {
+    await add("main", { description: "Users can export reports", userValue: "Share results", priority: "medium" }, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(readFile("main.yaml")).toBe(`${MAIN_YAML}  - id: req-002
+    description: Users can export reports
+    userValue: Share results
+    priority: medium
+    status: draft
+`);
+  });
+
+  test("appends a derived requirement to an empty list", async () => {
+    await add(
+      "derived",
+      {
+        description: "Use Elasticsearch",
+        from: ["req-001"],
+        rationale: "Full-text search",
+        category: "technical",
+        priority: "high",
+      },
+      testDir,
+    );
+
+    expect(process.exitCode).toBe(0);
+    expect(readFile("derived.yaml")).toContain("# derived.yaml - Technical/enabling requirements\n");
+    expect(readFile("derived.yaml")).toContain("  - id: der-001\n    description: Use Elasticsearch\n    derivedFrom:\n      - req-001\n");
+  });
+
+  test("appends to the last top-level file when the set spans several files", async () => {
+    mkdirSync(join(reqDir, "checkout"));
+    writeFileSync(join(reqDir, "main-2.yaml"), "requirements: []\n", "utf-8");
+    writeFileSync(join(reqDir, "checkout", "main.yaml"), "requirements: []\n", "utf-8");
+
+    await add("main", { description: "Users can export reports", userValue: "Share results", priority: "medium" }, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(readFile("main.yaml")).toBe(MAIN_YAML);
+    expect(readFile("main-2.yaml")).toContain("id: req-002");
+    expect(logSpy.mock.calls.map((c: unknown[]) => String(c[0]))).toContain(
+      "✓ Added req-002 to desgin-duck/requirements/main-2.yaml",
+    );
+  });
+
+  test("sets custom fields, converting them to their declared type", async () => {
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "fields:\n  owner: { type: string, required: true }\n  estimate: { type: number }\n",
+      "utf-8",
+    );
+
+    await add(
+      "main",
+      {
+        description: "Users can export reports",
+        userValue: "Share results",
+        priority: "medium",
+        fields: { owner: "alice", estimate: "3" },
+      },
+      testDir,
+    );
+
+    expect(process.exitCode).toBe(0);
+    expect(readFile("main.yaml")).toContain("    owner: alice\n    estimate: 3\n");
+  });
+
+  test("rejects missing required and undeclared custom fields", async () => {
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "fields:\n  owner: { type: string, required: true }\n",
+      "utf-8",
+    );
+
+    await add(
+      "main",
+      { description: "Users can export reports", userValue: "Share results", priority: "medium", fields: { team: "web" } },
+      testDir,
+    );
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toEqual([
+      "✗ Cannot add req-002:",
+      "  owner is required",
+      "  team is not a declared field (declare it under fields in config.yaml)",
+    ]);
+    expect(readFile("main.yaml")).toBe(MAIN_YAML);
+  });
+
+  test("rejects a derived requirement that references an unknown parent", async () => {
+    await add(
+      "derived",
+      { description: "x", from: ["req-999"], rationale: "y", category: "technical", priority: "high" },
+      testDir,
+    );
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain(
+      "  derivedFrom references unknown requirement req-999",
+    );
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML);
+  });
+
+  test("rejects values that fail schema validation", async () => {
+    await add("main", { description: "x", userValue: "y", priority: "urgent" }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("  priority must be one of: high, medium, low");
+    expect(readFile("main.yaml")).toBe(MAIN_YAML);
+  });
+
+  test("rejects an explicit ID that is already used", async () => {
+    await add("main", { id: "req-001", description: "x", userValue: "y", priority: "low" }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(readFile("main.yaml")).toBe(MAIN_YAML);
+  });
+
+  test("reports missing options when there is no prompt", async () => {
+    await add("main", { description: "x" }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain(
+      "Missing required option(s): --user-value, --priority",
+    );
+  });
+
+  test("prompts for missing fields and re-asks on invalid choices", async () => {
+    const prompt = scriptedPrompt(["Share results", "urgent", "low"]);
+
+    await add("main", { description: "Users can export reports" }, testDir, prompt);
+
+    expect(process.exitCode).toBe(0);
+    expect(prompt.questions).toEqual([
+      "User value: ",
+      "Priority (high/medium/low): ",
+      "Priority (high/medium/low): ",
+    ]);
+    expect(readFile("main.yaml")).toContain("    userValue: Share results\n    priority: low\n");
+  });
+
+  test("gives up after repeated invalid answers", async () => {
+    const prompt = scriptedPrompt(["x", "y", "z"]);
+
+    await add("derived", { description: "d", from: ["req-001"], rationale: "r", priority: "high" }, testDir, prompt);
+
+    expect(process.exitCode).toBe(1);
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML);
+  });
+
+  test("refuses to add when the existing files are invalid", async () => {
+    writeFileSync(join(reqDir, "main.yaml"), "requirements: [invalid yaml", "utf-8");
+
+    await add("main", { description: "x", userValue: "y", priority: "low" }, testDir);
+
+    expect(process.exitCode).toBe(1);
+  });
+});
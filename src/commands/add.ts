@@ -0,0 +1,291 @@
+/**
+ * Adds a requirement to main.yaml or derived.yaml (or, when the set is split
+ * over several files, to the last top-level file of its kind).
+ *
+ * Fields can be given as options; any required field that is missing is
+ * asked for interactively when a prompt is available. The new requirement
+ * gets the next free ID, is checked against the schema and the existing
+ * requirements, and is appended without touching the rest of the file.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { createInterface } from "node:readline/promises";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  appendRequirement,
+  readConfig,
+} from "../infrastructure/file-store";
+import { discoverRequirementFiles, newRequirementFile } from "../infrastructure/requirement-files";
+import {
+  validateMainRequirement,
+  validateDerivedRequirement,
+} from "../domain/requirements/requirement";
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { checkReferentialIntegrity } from "../domain/requirements/integrity";
+import type { IntegrityIssue } from "../domain/requirements/integrity";
+import { nextRequirementId } from "../domain/requirements/ids";
+import type { RequirementKind } from "../domain/requirements/query";
+import { customFieldErrors, parseCustomFieldValue } from "../domain/requirements/custom-fields";
+import { vocabularyValues } from "../domain/requirements/vocabulary";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+import type { DesignDuckConfig } from "../domain/config/config";
+
+/** Field values given on the command line. Fields that don't apply to the kind are ignored. */
+export interface AddOptions {
+  /** Explicit ID; allocated automatically when omitted. */
+  id?: string;
+  description?: string;
+  /** Main requirements only. */
+  userValue?: string;
+  /** Derived requirements only: IDs of the main requirements this derives from. */
+  from?: string[];
+  /** Derived requirements only. */
+  rationale?: string;
+  /** Derived requirements only. */
+  category?: string;
+  priority?: string;
+  /** @default the first status in the vocabulary ("draft" unless configured) */
+  status?: string;
+  /** Custom field values by field name, converted to the type declared in config.yaml. */
+  fields?: Record<string, string>;
+}
+
+/** Asks the user a question and resolves with their answer. */
+export type Prompt = (question: string) => Promise<string>;
+
+/** Invalid answers accepted for one field before giving up. */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Adds a requirement of the given kind.
+ *
+ * @param kind - "main" or "derived"
+ * @param options - Field values; missing required fields are prompted for
+ * @param targetDir - Directory containing desgin-duck/requirements/ folder (defaults to cwd)
+ * @param prompt - Used to ask for missing fields; without one, missing fields are an error
+ * @returns Promise<void> - sets process.exitCode to 1 on failure
+ */
+export async function add(
+  kind: RequirementKind,
+  options: AddOptions,
+  targetDir: string = process.cwd(),
+  prompt?: Prompt,
+): Promise<void> {
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:add] targetDir:", targetDir);
+    console.error("[design-duck:add] kind:", kind);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let config: DesignDuckConfig;
+  let main: MainRequirement[];
+  let derived: DerivedRequirement[];
+  try {
+    config = readConfig(duckDir);
+    main = readMainRequirements(reqDir, config.vocabulary);
+    derived = readDerivedRequirements(reqDir, config.vocabulary);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' and fix the errors before adding requirements.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const { fields: schema, vocabulary } = config;
+  const values = await collectValues(fieldSpecs(kind, vocabulary), options, prompt);
+  if (values === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const allIds = [...main, ...derived].map((r) => r.id);
+  const fileIds = (kind === "main" ? main : derived).map((r) => r.id);
+  const id = options.id ?? nextRequirementId(fileIds, kind === "main" ? "req-" : "der-", allIds);
+  const status = options.status ?? vocabulary.statuses[0].value;
+
+  const requirement = kind === "main"
+    ? {
+        id,
+        description: values.description,
+        userValue: values.userValue,
+        priority: values.priority,
+        status,
+      }
+    : {
+        id,
+        description: values.description,
+        derivedFrom: splitList(values.from),
+        rationale: values.rationale,
+        category: values.category,
+        priority: values.priority,
+        status,
+      };
+
+  const undeclared = Object.keys(options.fields ?? {}).filter((name) => !schema[name]);
+  for (const [name, value] of Object.entries(options.fields ?? {})) {
+    if (schema[name]) {
+      Object.assign(requirement, { [name]: parseCustomFieldValue(value, schema[name]) });
+    }
+  }
+
+  const result = kind === "main"
+    ? validateMainRequirement(requirement, vocabulary)
+    : validateDerivedRequirement(requirement, vocabulary);
+  const errors = [
+    ...(result.valid ? [] : result.errors),
+    ...customFieldErrors(requirement, kind, schema).map((e) => e.message),
+    ...undeclared.map((name) => `${name} is not a declared field (declare it under fields in config.yaml)`),
+  ];
+  if (errors.length > 0) {
+    console.error(`✗ Cannot add ${id}:`);
+    for (const error of errors) {
+      console.error(`  ${error}`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  // Only report problems the new requirement introduces, not pre-existing ones
+  const issueKey = (issue: IntegrityIssue) => `${issue.file}:${issue.index}:${issue.message}`;
+  const existingIssues = new Set(checkReferentialIntegrity(main, derived).map(issueKey));
+  const issues = kind === "main"
+    ? checkReferentialIntegrity([...main, requirement as MainRequirement], derived)
+    : checkReferentialIntegrity(main, [...derived, requirement as DerivedRequirement]);
+  const newIssues = issues.filter((issue) => !existingIssues.has(issueKey(issue)));
+  if (newIssues.length > 0) {
+    console.error(`✗ Cannot add ${id}:`);
+    for (const issue of newIssues) {
+      console.error(`  ${issue.message}`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  const fileName = newRequirementFile(discoverRequirementFiles(reqDir)[kind]);
+  try {
+    appendRequirement(reqDir, fileName, requirement as MainRequirement | DerivedRequirement);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`✓ Added ${id} to desgin-duck/requirements/${fileName}`);
+  process.exitCode = 0;
+}
+
+/**
+ * Prompts on stdin/stdout. Only usable when stdin is a terminal.
+ */
+export function createTerminalPrompt(): Prompt {
+  return async (question) => {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      return await rl.question(question);
+    } finally {
+      rl.close();
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Field collection
+// ---------------------------------------------------------------------------
+
+type FieldName = "description" | "userValue" | "from" | "rationale" | "category" | "priority";
+
+interface FieldSpec {
+  name: FieldName;
+  /** Command-line flag, for "missing option" errors. */
+  flag: string;
+  label: string;
+  /** Allowed values, checked while prompting. */
+  choices?: readonly string[];
+}
+
+/** The fields asked for when adding a requirement of this kind, with the project's choices. */
+function fieldSpecs(kind: RequirementKind, vocabulary: Vocabularies): FieldSpec[] {
+  const priority: FieldSpec = {
+    name: "priority",
+    flag: "--priority",
+    label: "Priority",
+    choices: vocabularyValues(vocabulary.priorities),
+  };
+  if (kind === "main") {
+    return [
+      { name: "description", flag: "--description", label: "Description" },
+      { name: "userValue", flag: "--user-value", label: "User value" },
+      priority,
+    ];
+  }
+  return [
+    { name: "description", flag: "--description", label: "Description" },
+    { name: "from", flag: "--from", label: "Derived from (comma-separated IDs)" },
+    { name: "rationale", flag: "--rationale", label: "Rationale" },
+    { name: "category", flag: "--category", label: "Category", choices: vocabularyValues(vocabulary.categories) },
+    priority,
+  ];
+}
+
+/**
+ * Takes each field from the options, prompting for the ones that are missing.
+ * Returns null (after printing why) when fields are missing and there is no prompt.
+ */
+async function collectValues(
+  fields: FieldSpec[],
+  options: AddOptions,
+  prompt: Prompt | undefined,
+): Promise<Record<FieldName, string> | null> {
+  const given = (name: FieldName): string | undefined =>
+    name === "from" ? options.from?.join(",") : options[name];
+
+  const missing = fields.filter((f) => given(f.name) === undefined);
+  if (missing.length > 0 && !prompt) {
+    console.error(`Missing required option(s): ${missing.map((f) => f.flag).join(", ")}`);
+    return null;
+  }
+
+  const values = {} as Record<FieldName, string>;
+  for (const field of fields) {
+    const value = given(field.name) ?? (await ask(prompt!, field));
+    if (value === null) {
+      console.error(`No valid ${field.label.toLowerCase()} given. Aborting.`);
+      return null;
+    }
+    values[field.name] = value;
+  }
+  return values;
+}
+
+/**
+ * Asks for one field until the answer is non-empty (and one of the choices,
+ * if any). Returns null after MAX_ATTEMPTS invalid answers.
+ */
+async function ask(prompt: Prompt, field: FieldSpec): Promise<string | null> {
+  const hint = field.choices ? ` (${field.choices.join("/")})` : "";
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const answer = (await prompt(`${field.label}${hint}: `)).trim();
+    if (answer === "") continue;
+    if (field.choices && !field.choices.includes(answer)) {
+      console.error(`  Expected one of: ${field.choices.join(", ")}`);
+      continue;
+    }
+    return answer;
+  }
+  return null;
+}
+
+function splitList(value: string): string[] {
+  return value.split(",").map((s) => s.trim()).filter((s) => s !== "");
+}
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { coverage } from "./coverage";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: review
+  - id: req-002
+    description: Users need to export reports
+    userValue: Share results
+    priority: low
+    status: draft
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom:
+      - req-001
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: review
+`;
+
+const JUNIT_XML = `<testsuites><testsuite name="src/search.test.ts">
+  <testcase classname="search" name="req-001 finds products"/>
+  <testcase classname="search" name="uses the index"><failure message="timeout"/></testcase>
+</testsuite></testsuites>
+`;
+
+describe("coverage", () => {
+  let testDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    const reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    writeFileSync(join(testDir, "junit.xml"), JUNIT_XML, "utf-8");
+    writeFileSync(join(testDir, "desgin-duck", "test-mapping.yaml"), '"search > uses the index": der-001\n', "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+
+  test("prints each requirement's verification state", () => {
+    coverage({}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toBe(
+      [
+        "Read 2 test result(s) from 1 file(s)",
+        "",
+        "req-001 (main)     verified  1 passed",
+        "req-002 (main)     untested",
+        "der-001 (derived)  failing   1 failed",
+        "  ✗ search > uses the index",
+        "",
+        "Verified: 1/3 (33%)  Failing: 1  Untested: 1",
+      ].join("\n"),
+    );
+  });
+
+  test("fails below the threshold", () => {
+    coverage({ threshold: 50 }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(output()).toContain("✗ 33% of requirements verified, below the threshold of 50%");
+  });
+
+  test("passes at or above the threshold", () => {
+    coverage({ threshold: 33 }, testDir);
+
+    expect(process.exitCode).toBe(0);
+  });
+
+  test("reads the result files given instead of the configured ones", () => {
+    mkdirSync(join(testDir, "out"));
+    writeFileSync(join(testDir, "out", "bun.txt"), "(pass) req-002 exports a CSV [1.00ms]\n", "utf-8");
+
+    coverage({ json: true, results: ["out/*.txt"] }, testDir);
+
+    const report = JSON.parse(output());
+    expect(report.counts).toEqual({ verified: 1, failing: 0, untested: 2 });
+    expect(report.verifiedPercent).toBe(33);
+  });
+
+  test("fails when the requirements directory is missing", () => {
+    rmSync(join(testDir, "desgin-duck"), { recursive: true, force: true });
+
+    coverage({}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain("desgin-duck/requirements/ directory not found");
+  });
+});
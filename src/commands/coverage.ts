@@ -0,0 +1,116 @@
+/**
+ * Summarizes which requirements are verified by passing tests, using the
+ * test result files configured under `verification` in config.yaml.
+ *
+ * Tests map to requirements by an ID in their name, the test mapping file
+ * or an `@req` annotation (see `design-duck trace`). With `--threshold`, the
+ * command fails when too few requirements are verified, for use in CI.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  readConfig,
+} from "../infrastructure/file-store";
+import { scanSources } from "../infrastructure/source-scanner";
+import { readTestMapping, readTestResults } from "../infrastructure/test-results";
+import { buildTraceReport } from "../domain/requirements/trace";
+import { buildVerificationReport, verifiedPercent } from "../domain/requirements/verification";
+import type { VerificationReport } from "../domain/requirements/verification";
+
+export interface CoverageOptions {
+  /** Print the JSON report instead of text. */
+  json?: boolean;
+  /** Minimum share of verified requirements, in percent; below it the command fails. */
+  threshold?: number;
+  /** Result file globs relative to the project root; replace the configured ones. */
+  results?: string[];
+}
+
+/**
+ * Reads the test results for the project in `targetDir` and prints the
+ * verification state of every requirement.
+ *
+ * @param options - Output format, threshold and result files
+ * @param targetDir - Project root, containing desgin-duck/requirements/ (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 when below the threshold or on failure
+ */
+export function coverage(options: CoverageOptions = {}, targetDir: string = process.cwd()): void {
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:coverage] targetDir:", targetDir);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let report: VerificationReport;
+  let resultFiles: string[];
+  try {
+    const config = readConfig(duckDir);
+    const main = readMainRequirements(reqDir, config.vocabulary);
+    const derived = readDerivedRequirements(reqDir, config.vocabulary);
+    const { files, results } = readTestResults(targetDir, options.results ?? config.verification.results);
+    report = buildVerificationReport(main, derived, results, {
+      mapping: readTestMapping(join(targetDir, config.verification.mapping)),
+      trace: buildTraceReport(main, derived, scanSources(targetDir, config.trace).annotations),
+    });
+    resultFiles = files;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' to see every problem.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const percent = verifiedPercent(report);
+  if (options.json) {
+    console.log(JSON.stringify({ ...report, verifiedPercent: percent }, null, 2));
+  } else {
+    printReport(report, resultFiles);
+  }
+
+  if (options.threshold !== undefined && percent < options.threshold) {
+    if (!options.json) {
+      console.log("");
+      console.log(`✗ ${percent}% of requirements verified, below the threshold of ${options.threshold}%`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+  process.exitCode = 0;
+}
+
+function printReport(report: VerificationReport, resultFiles: string[]): void {
+  if (resultFiles.length === 0) {
+    console.log("No test result files found; configure verification.results in config.yaml or pass --results");
+  } else {
+    console.log(`Read ${report.testCount} test result(s) from ${resultFiles.length} file(s)`);
+  }
+  console.log("");
+
+  const label = (r: { id: string; kind: string }) => `${r.id} (${r.kind})`;
+  const width = Math.max(...report.requirements.map((r) => label(r).length), 0);
+  for (const requirement of report.requirements) {
+    const passed = requirement.tests.filter((t) => t.outcome === "passed").length;
+    const failed = requirement.tests.filter((t) => t.outcome === "failed").length;
+    const tally = [failed > 0 && `${failed} failed`, passed > 0 && `${passed} passed`].filter(Boolean).join(", ");
+    console.log(`${label(requirement).padEnd(width)}  ${requirement.state.padEnd(8)}  ${tally}`.trimEnd());
+    for (const test of requirement.tests.filter((t) => t.outcome === "failed")) {
+      console.log(`  ✗ ${test.name}`);
+    }
+  }
+
+  const { verified, failing, untested } = report.counts;
+  console.log("");
+  const total = report.requirements.length;
+  console.log(`Verified: ${verified}/${total} (${verifiedPercent(report)}%)  Failing: ${failing}  Untested: ${untested}`);
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { exportRequirements } from "./export";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: approved
+    acceptanceCriteria:
+      - Results appear within a second
+  - id: req-002
+    description: Users need to export reports
+    userValue: Share results
+    priority: low
+    status: draft
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom:
+      - req-001
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: approved
+`;
+
+describe("exportRequirements", () => {
+  let testDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    const reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    writeFileSync(join(reqDir, "project.yaml"), "name: Shop\n", "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+
+  test("prints a Markdown specification", () => {
+    exportRequirements({ format: "markdown" }, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toStartWith("# Shop\n");
+    expect(output()).toContain("## req-002: Users need to export reports");
+    expect(output()).toContain("- Results appear within a second");
+    expect(output()).toContain("#### der-001: Use Elasticsearch for search");
+  });
+
+  test("filters by status", () => {
+    exportRequirements({ format: "markdown", statuses: ["approved"] }, testDir);
+
+    expect(output()).toContain("## req-001");
+    expect(output()).not.toContain("## req-002");
+  });
+
+  test("rejects statuses that aren't configured", () => {
+    exportRequirements({ format: "markdown", statuses: ["signed-off"] }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toBe("Unknown status: signed-off. Expected one of: draft, review, approved");
+  });
+
+  test("reads headings from the template file", () => {
+    writeFileSync(join(testDir, "spec.yaml"), "title: \"{{project}} Requirements\"\ncontents: Overview\n", "utf-8");
+
+    exportRequirements({ format: "markdown", template: "spec.yaml" }, testDir);
+
+    expect(output()).toStartWith("# Shop Requirements\n");
+    expect(output()).toContain("## Overview\n");
+  });
+
+  test("fails on an invalid template", () => {
+    writeFileSync(join(testDir, "spec.yaml"), "footer: x\n", "utf-8");
+
+    exportRequirements({ format: "markdown", template: "spec.yaml" }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain("Error reading template spec.yaml: Invalid template");
+  });
+
+  test("prints the UI with the requirements embedded", () => {
+    const uiDir = join(testDir, "dist-ui");
+    mkdirSync(join(uiDir, "assets"), { recursive: true });
+    writeFileSync(
+      join(uiDir, "index.html"),
+      '<html><head><script type="module" src="/assets/app.js"></script></head><body></body></html>',
+      "utf-8",
+    );
+    writeFileSync(join(uiDir, "assets", "app.js"), "render();", "utf-8");
+
+    exportRequirements({ format: "html", distUiDir: uiDir }, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toContain('<script type="module">render();</script>');
+    const json = output().match(/id="design-duck-snapshot">(.*?)<\/script>/)?.[1] ?? "{}";
+    const snapshot = JSON.parse(json);
+    expect(snapshot.files).toEqual({ main: ["main.yaml"], derived: ["derived.yaml"] });
+    expect(snapshot.contents["main.yaml"]).toBe(MAIN_YAML);
+    expect(snapshot.contents["project.yaml"]).toBe("name: Shop\n");
+    expect(snapshot.trace.requirements).toHaveLength(3);
+    expect(snapshot.verification.testCount).toBe(0);
+  });
+
+  test("fails when the UI hasn't been built", () => {
+    exportRequirements({ format: "html", distUiDir: join(testDir, "dist-ui") }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toStartWith("Error bundling the UI:");
+  });
+
+  test("rejects markdown options for html", () => {
+    exportRequirements({ format: "html", statuses: ["approved"] }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toBe("Error: --status and --template only apply to --format markdown.");
+  });
+
+  test("fails when the requirements directory is missing", () => {
+    rmSync(join(testDir, "desgin-duck"), { recursive: true, force: true });
+
+    exportRequirements({ format: "markdown" }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain("desgin-duck/requirements/ directory not found");
+  });
+});
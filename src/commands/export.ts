@@ -0,0 +1,199 @@
+/**
+ * Exports the requirements as a document for people who don't read YAML.
+ *
+ * `--format markdown` prints a specification with the project metadata, a
+ * table of contents, every main requirement with its derived requirements
+ * and an appendix of orphans. Headings can be customized with a template
+ * file, and `--status` limits the export to e.g. the signed-off requirements.
+ *
+ * `--format html` prints a read-only snapshot of the UI instead: the built
+ * dist-ui/ app in a single page with the requirement files, config, trace
+ * and verification reports embedded, so it opens from disk and can be
+ * shared without running `design-duck ui`.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join, resolve } from "node:path";
+import { load as parseYaml } from "js-yaml";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  readConfig,
+  readRequirementContents,
+  readProject,
+} from "../infrastructure/file-store";
+import { formatMarkdownSpec, toMarkdownTemplate } from "../infrastructure/markdown-spec";
+import type { MarkdownTemplate } from "../infrastructure/markdown-spec";
+import { bundleStaticHtml } from "../infrastructure/static-export";
+import type { RequirementsSnapshot } from "../infrastructure/static-export";
+import { discoverRequirementFiles } from "../infrastructure/requirement-files";
+import { scanSources } from "../infrastructure/source-scanner";
+import { readTestMapping, readTestResults } from "../infrastructure/test-results";
+import { findDistUiDir } from "../infrastructure/ui-server";
+import { buildTraceReport } from "../domain/requirements/trace";
+import type { TraceReport } from "../domain/requirements/trace";
+import { buildVerificationReport } from "../domain/requirements/verification";
+import type { VerificationReport } from "../domain/requirements/verification";
+import type { DesignDuckConfig } from "../domain/config/config";
+import { vocabularyValues } from "../domain/requirements/vocabulary";
+
+export const EXPORT_FORMATS = ["markdown", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(s: string): s is ExportFormat {
+  return EXPORT_FORMATS.includes(s as ExportFormat);
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Only export requirements with one of these statuses (markdown only). */
+  statuses?: string[];
+  /** Path to a YAML file with custom headings, relative to `targetDir` (markdown only). */
+  template?: string;
+  /** Directory of the built UI to bundle for html; found next to the CLI when omitted. */
+  distUiDir?: string;
+}
+
+/**
+ * Prints the requirements in `targetDir` in the given format.
+ *
+ * @param options - Format, status filter, template and UI directory
+ * @param targetDir - Project root, containing desgin-duck/requirements/ (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 on failure
+ */
+export function exportRequirements(options: ExportOptions, targetDir: string = process.cwd()): void {
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:export] targetDir:", targetDir, "format:", options.format);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.format === "html") {
+    if (options.statuses || options.template) {
+      console.error("Error: --status and --template only apply to --format markdown.");
+      process.exitCode = 1;
+      return;
+    }
+    exportHtml(options.distUiDir, targetDir);
+    return;
+  }
+
+  let template: MarkdownTemplate | undefined;
+  try {
+    template = options.template
+      ? toMarkdownTemplate(parseYaml(readFileSync(resolve(targetDir, options.template), "utf-8")) ?? {})
+      : undefined;
+  } catch (err) {
+    console.error(`Error reading template ${options.template}: ${err instanceof Error ? err.message : String(err)}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let output: string;
+  try {
+    const config = readConfig(duckDir);
+
+    const allowed = vocabularyValues(config.vocabulary.statuses);
+    const unknown = (options.statuses ?? []).filter((s) => !allowed.includes(s));
+    if (unknown.length > 0) {
+      console.error(`Unknown status: ${unknown.join(", ")}. Expected one of: ${allowed.join(", ")}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    output = formatMarkdownSpec(
+      {
+        project: readProject(reqDir),
+        mainRequirements: readMainRequirements(reqDir, config.vocabulary),
+        derivedRequirements: readDerivedRequirements(reqDir, config.vocabulary),
+        vocabularies: config.vocabulary,
+        fields: config.fields,
+        statuses: options.statuses,
+      },
+      template,
+    );
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' to see every problem.");
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(output);
+  process.exitCode = 0;
+}
+
+/** Prints the UI as a single page with a snapshot of the requirements embedded. */
+function exportHtml(distUiDir: string | undefined, targetDir: string): void {
+  const duckDir = join(targetDir, "desgin-duck");
+
+  let snapshot: RequirementsSnapshot;
+  try {
+    snapshot = takeSnapshot(targetDir, readConfig(duckDir));
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' to see every problem.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let output: string;
+  try {
+    const uiDir = distUiDir ?? findDistUiDir();
+    output = bundleStaticHtml(
+      readFileSync(join(uiDir, "index.html"), "utf-8"),
+      (path) => readFileSync(join(uiDir, path), "utf-8"),
+      snapshot,
+    );
+  } catch (err) {
+    console.error(`Error bundling the UI: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'bun run build:ui' to build the UI first.");
+    process.exitCode = 1;
+    return;
+  }
+
+  if (process.env.DEBUG) {
+    console.error(`[design-duck:export] Bundled ${Object.keys(snapshot.contents).length} files into the UI`);
+  }
+
+  console.log(output);
+  process.exitCode = 0;
+}
+
+/**
+ * Captures what the UI server would serve. Invalid requirements don't stop
+ * the export: the UI lists them as diagnostics, just without trace and
+ * verification reports.
+ */
+function takeSnapshot(targetDir: string, config: DesignDuckConfig): RequirementsSnapshot {
+  const reqDir = join(targetDir, "desgin-duck", "requirements");
+  const files = discoverRequirementFiles(reqDir);
+  const contents = readRequirementContents(reqDir);
+
+  let trace: TraceReport | null = null;
+  let verification: VerificationReport | null = null;
+  try {
+    const main = readMainRequirements(reqDir, config.vocabulary);
+    const derived = readDerivedRequirements(reqDir, config.vocabulary);
+    trace = buildTraceReport(main, derived, scanSources(targetDir, config.trace).annotations);
+    const { results } = readTestResults(targetDir, config.verification.results);
+    verification = buildVerificationReport(main, derived, results, {
+      mapping: readTestMapping(join(targetDir, config.verification.mapping)),
+      trace,
+    });
+  } catch (err) {
+    if (process.env.DEBUG) {
+      console.error("[design-duck:export] No trace or verification reports:", err);
+    }
+  }
+
+  return { exportedAt: new Date().toISOString(), files, contents, config, trace, verification };
+}
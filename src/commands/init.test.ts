@@ -1,9 +1,11 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import { existsSync, mkdirSync, readFileSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
-import { join } from "node:path";
+import { basename, join } from "node:path";
 
 import { init } from "./init";
+import { parseConfigYaml, parseProjectYaml } from "../infrastructure/yaml-parser";
+import { DEFAULT_CONFIG } from "../domain/config/config";
 
 describe("init", () => {
   let testDir: string;
@@ -39,6 +41,12 @@ describe("init", () => {
     expect(content).toContain("description:");
   });
 
+  test("project.yaml is valid and named after the directory", () => {
+    init(testDir);
+    const content = readFileSync(join(testDir, "desgin-duck", "requirements", "project.yaml"), "utf-8");
+    expect(parseProjectYaml(content).name).toBe(basename(testDir));
+  });
+
   test("main.yaml contains empty requirements array", () => {
     init(testDir);
     const content = readFileSync(join(testDir, "desgin-duck", "requirements", "main.yaml"), "utf-8");
@@ -51,6 +59,19 @@ describe("init", () => {
     expect(content).toContain("requirements: []");
   });
 
+  test("creates config.yaml with every lint rule at its default severity", () => {
+    init(testDir);
+    const content = readFileSync(join(testDir, "desgin-duck", "config.yaml"), "utf-8");
+    expect(content).toContain("ambiguous-wording: warning");
+    expect(content).toContain("main-without-derived: warning");
+  });
+
+  test("creates config.yaml with the default status workflow", () => {
+    init(testDir);
+    const content = readFileSync(join(testDir, "desgin-duck", "config.yaml"), "utf-8");
+    expect(parseConfigYaml(content).workflow).toEqual(DEFAULT_CONFIG.workflow);
+  });
+
   test("aborts with exit code 1 if desgin-duck/requirements/ already exists", () => {
     mkdirSync(join(testDir, "desgin-duck", "requirements"), { recursive: true });
     init(testDir);
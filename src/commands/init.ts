@@ -1,11 +1,18 @@
 import { execSync } from "node:child_process";
 import { existsSync, mkdirSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
+import { basename, join, resolve } from "node:path";
 
-const PROJECT_YAML = `# Project metadata
-name: ""
+/** project.yaml, named after the directory it is created in. */
+function projectYaml(name: string): string {
+  return `# Project metadata
+name: ${JSON.stringify(name)}
 description: ""
+# version: "1.0.0"
+# owners: []
+# links:
+#   - { title: Repository, url: https://example.com/repo }
 `;
+}
 
 const MAIN_YAML = `# main.yaml - User-value requirements
 requirements: []
@@ -15,8 +22,58 @@ const DERIVED_YAML = `# derived.yaml - Technical/enabling requirements
 requirements: []
 `;
 
+const CONFIG_YAML = `# config.yaml - Design Duck settings
+lint:
+  # Severity per lint rule: error, warning or off
+  rules:
+    ambiguous-wording: warning
+    measurable-quality: warning
+    user-value-restates-description: warning
+    id-pattern: warning
+    main-without-derived: warning
+    approved-without-acceptance-criteria: warning
+
+workflow:
+  # Allowed status changes, checked by 'design-duck status' and by validate
+  # (against the last git commit). Add "by: [name, ...]" to a transition to
+  # limit who may make it, e.g. by: [human] on review -> approved.
+  transitions:
+    - { from: draft, to: review }
+    - { from: review, to: draft }
+    - { from: review, to: approved }
+    - { from: approved, to: review }
+
+# Project-specific fields on requirements, checked by validate and shown in
+# the UI. Types: string, number, enum (with values), date, list.
+# fields:
+#   owner: { type: string, required: true }
+#   targetRelease: { type: enum, values: ["2025.1", "2025.2"] }
+#   tags: { type: list, kinds: [derived] }
+
+# Allowed priorities (highest first), statuses (in workflow order) and derived
+# categories. Each list replaces its default; entries can set a label and a
+# badge color for the UI. Replacing draft/review/approved needs transitions.
+# vocabulary:
+#   priorities:
+#     - { value: p0, label: Blocker, color: red }
+#     - { value: p1, label: Normal, color: blue }
+#     - { value: p2, label: Nice to have, color: gray }
+#   categories: [technical, operational, quality, constraint, security]
+
+# Files scanned by 'design-duck trace' for @req annotations, relative to the
+# project root.
+# trace:
+#   include: ["src/**", "lib/**", "app/**", "test/**", "tests/**"]
+#   exclude: ["src/generated/**"]
+
+# Test result files read by 'design-duck coverage' (JUnit XML or bun test
+# output) and the file mapping test names to requirement IDs.
+# verification:
+#   results: ["junit.xml", "test-results/**"]
+#   mapping: desgin-duck/test-mapping.yaml
+`;
+
 const FILES = [
-  { name: "project.yaml", content: PROJECT_YAML },
   { name: "main.yaml", content: MAIN_YAML },
   { name: "derived.yaml", content: DERIVED_YAML },
 ] as const;
@@ -38,12 +95,15 @@ export function init(targetDir: string = process.cwd()): void {
   mkdirSync(reqDir, { recursive: true });
   console.log("Created desgin-duck/requirements/");
 
-  for (const file of FILES) {
+  for (const file of [{ name: "project.yaml", content: projectYaml(basename(resolve(targetDir))) }, ...FILES]) {
     const filePath = join(reqDir, file.name);
     writeFileSync(filePath, file.content, "utf-8");
     console.log(`  Created desgin-duck/requirements/${file.name}`);
   }
 
+  writeFileSync(join(duckDir, "config.yaml"), CONFIG_YAML, "utf-8");
+  console.log("Created desgin-duck/config.yaml");
+
   if (!existsSync(join(targetDir, ".git"))) {
     try {
       execSync("git init", { cwd: targetDir, stdio: "pipe" });
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { list } from "./list";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: review
+  - id: req-002
+    description: Users need to export reports
+    userValue: Share results
+    priority: low
+    status: draft
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom:
+      - req-001
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: review
+`;
+
+describe("list", () => {
+  let testDir: string;
+  let reqDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+
+  test("prints a table of every requirement", () => {
+    list({}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toBe(
+      [
+        "ID       KIND     PRIORITY  STATUS  CATEGORY   DESCRIPTION",
+        "der-001  derived  high      review  technical  Use Elasticsearch for search",
+        "req-001  main     high      review  -          Users need to search products",
+        "req-002  main     low       draft   -          Users need to export reports",
+      ].join("\n"),
+    );
+  });
+
+  test("applies filters and sorting", () => {
+    list({ statuses: ["review"], priorities: ["high"], kinds: ["main"], json: true }, testDir);
+
+    const json = JSON.parse(output());
+    expect(json).toHaveLength(1);
+    expect(json[0]).toEqual({
+      kind: "main",
+      id: "req-001",
+      description: "Users need to search products",
+      userValue: "Reduces time to find products",
+      priority: "high",
+      status: "review",
+    });
+  });
+
+  test("sorts by status", () => {
+    list({ sort: "status", json: true }, testDir);
+
+    expect(JSON.parse(output()).map((r: { id: string }) => r.id)).toEqual(["req-002", "der-001", "req-001"]);
+  });
+
+  test("reports when nothing matches", () => {
+    list({ categories: ["quality"] }, testDir);
+
+    expect(output()).toBe("No requirements match.");
+  });
+
+  test("rejects unknown filter values", () => {
+    list({ statuses: ["done"] }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toBe("Unknown status: done. Expected one of: draft, review, approved");
+  });
+
+  test("uses the priorities configured in config.yaml", () => {
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "vocabulary:\n  priorities: [p0, p1, p2]\n",
+      "utf-8",
+    );
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML.replace("high", "p2").replace("low", "p0"), "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML.replace("high", "p1"), "utf-8");
+
+    list({ sort: "priority", json: true }, testDir);
+    list({ priorities: ["high"] }, testDir);
+
+    expect(JSON.parse(String(logSpy.mock.calls[0][0])).map((r: { id: string }) => r.id)).toEqual([
+      "req-002",
+      "der-001",
+      "req-001",
+    ]);
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toBe("Unknown priority: high. Expected one of: p0, p1, p2");
+  });
+
+  test("filters on custom fields declared in config.yaml", () => {
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "fields:\n  owner: { type: string }\n  tags: { type: list }\n",
+      "utf-8",
+    );
+    writeFileSync(
+      join(reqDir, "main.yaml"),
+      MAIN_YAML.replace("status: review", "status: review\n    owner: alice\n    tags: [search, ui]"),
+      "utf-8",
+    );
+
+    list({ fields: { owner: ["alice", "bob"] } }, testDir);
+    list({ fields: { tags: ["ui"] }, json: true }, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(String(logSpy.mock.calls[0][0]).split("\n")).toHaveLength(2);
+    expect(String(logSpy.mock.calls[0][0])).toContain("req-001");
+    expect(JSON.parse(String(logSpy.mock.calls[1][0]))).toMatchObject([{ id: "req-001", tags: ["search", "ui"] }]);
+  });
+
+  test("rejects filters on undeclared custom fields", () => {
+    list({ fields: { owner: ["alice"] } }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toBe("Unknown field: owner. No custom fields are declared in config.yaml");
+  });
+
+  test("exits with code 1 when the requirement files are invalid", () => {
+    writeFileSync(join(reqDir, "main.yaml"), "requirements: [invalid yaml", "utf-8");
+
+    list({}, testDir);
+
+    expect(process.exitCode).toBe(1);
+  });
+});
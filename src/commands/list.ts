@@ -0,0 +1,152 @@
+/**
+ * Lists requirements from main.yaml and derived.yaml as a table (or JSON),
+ * optionally filtered by kind, status, priority, category and custom fields.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  readConfig,
+} from "../infrastructure/file-store";
+import {
+  REQUIREMENT_KINDS,
+  toEntries,
+  filterRequirements,
+  sortRequirements,
+} from "../domain/requirements/query";
+import type { RequirementEntry, RequirementFilter, SortKey } from "../domain/requirements/query";
+import { vocabularyValues } from "../domain/requirements/vocabulary";
+import type { DesignDuckConfig } from "../domain/config/config";
+
+export interface ListOptions {
+  /** Values for each filter; every value must be one of the allowed values. */
+  kinds?: string[];
+  statuses?: string[];
+  priorities?: string[];
+  categories?: string[];
+  /** Allowed values per custom field; every field must be declared in config.yaml. */
+  fields?: Record<string, string[]>;
+  /** @default "id" */
+  sort?: SortKey;
+  /** Print a JSON array instead of a table. */
+  json?: boolean;
+}
+
+/**
+ * Prints the requirements that match the filters.
+ *
+ * @param options - Filters, sort order and output format
+ * @param targetDir - Directory containing desgin-duck/requirements/ folder (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 on failure
+ */
+export function list(options: ListOptions = {}, targetDir: string = process.cwd()): void {
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:list] targetDir:", targetDir);
+    console.error("[design-duck:list] options:", options);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let config: DesignDuckConfig;
+  let entries: RequirementEntry[];
+  try {
+    config = readConfig(duckDir);
+    entries = toEntries(
+      readMainRequirements(reqDir, config.vocabulary),
+      readDerivedRequirements(reqDir, config.vocabulary),
+    );
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' to see every problem.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const filter = toFilter(options, config);
+  if (filter === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const matching = sortRequirements(
+    filterRequirements(entries, filter),
+    options.sort ?? "id",
+    config.vocabulary,
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(matching.map((e) => ({ kind: e.kind, ...e.requirement })), null, 2));
+  } else if (matching.length === 0) {
+    console.log("No requirements match.");
+  } else {
+    const rows = matching.map((e) => [
+      e.requirement.id,
+      e.kind,
+      e.requirement.priority,
+      e.requirement.status,
+      e.kind === "derived" ? e.requirement.category : "-",
+      e.requirement.description,
+    ]);
+    console.log(formatTable(["ID", "KIND", "PRIORITY", "STATUS", "CATEGORY", "DESCRIPTION"], rows));
+  }
+
+  process.exitCode = 0;
+}
+
+/**
+ * Checks every filter value against the allowed values from the config.
+ * Returns null (after printing why) when one isn't allowed.
+ */
+function toFilter(options: ListOptions, config: DesignDuckConfig): RequirementFilter | null {
+  const { fields: schema, vocabulary } = config;
+  const checks: [string, string[] | undefined, readonly string[]][] = [
+    ["kind", options.kinds, REQUIREMENT_KINDS],
+    ["status", options.statuses, vocabularyValues(vocabulary.statuses)],
+    ["priority", options.priorities, vocabularyValues(vocabulary.priorities)],
+    ["category", options.categories, vocabularyValues(vocabulary.categories)],
+  ];
+
+  for (const [name, values, allowed] of checks) {
+    const unknown = (values ?? []).find((v) => !allowed.includes(v));
+    if (unknown !== undefined) {
+      console.error(`Unknown ${name}: ${unknown}. Expected one of: ${allowed.join(", ")}`);
+      return null;
+    }
+  }
+
+  for (const [name, values] of Object.entries(options.fields ?? {})) {
+    const definition = schema[name];
+    if (!definition) {
+      const declared = Object.keys(schema);
+      console.error(
+        `Unknown field: ${name}. ${declared.length > 0 ? `Declared fields: ${declared.join(", ")}` : "No custom fields are declared in config.yaml"}`,
+      );
+      return null;
+    }
+    const unknown = definition.values && values.find((v) => !definition.values!.includes(v));
+    if (unknown) {
+      console.error(`Unknown ${name}: ${unknown}. Expected one of: ${definition.values!.join(", ")}`);
+      return null;
+    }
+  }
+
+  return options as RequirementFilter;
+}
+
+/** Left-aligns each column to its widest cell; the last column isn't padded. */
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  return [header, ...rows]
+    .map((row) => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join("  "))
+    .join("\n");
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { matrix, isMatrixFormat } from "./matrix";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: review
+  - id: req-002
+    description: Users need to export reports
+    userValue: Share results
+    priority: low
+    status: draft
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom:
+      - req-001
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: review
+`;
+
+describe("matrix", () => {
+  let testDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    const reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+
+  test("prints a Markdown matrix by default", () => {
+    matrix({}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toContain("| Main requirement | der-001 |");
+    expect(output()).toContain("| **req-001** Users need to search products | ✓ |");
+    expect(output()).toContain("**Main requirements without derived requirements:** req-002");
+  });
+
+  test("prints CSV grouped by category", () => {
+    matrix({ format: "csv", groupBy: "category" }, testDir);
+
+    expect(output()).toStartWith("id,description,technical\r\nreq-001,Users need to search products,1\r\n");
+  });
+
+  test("titles the HTML page after the project", () => {
+    writeFileSync(join(testDir, "desgin-duck", "requirements", "project.yaml"), "name: Shop\n", "utf-8");
+
+    matrix({ format: "html" }, testDir);
+
+    expect(output()).toContain("<title>Shop – Traceability matrix</title>");
+  });
+
+  test("fails when the requirements directory is missing", () => {
+    rmSync(join(testDir, "desgin-duck"), { recursive: true, force: true });
+
+    matrix({}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain("desgin-duck/requirements/ directory not found");
+  });
+});
+
+describe("isMatrixFormat", () => {
+  test("accepts markdown, csv and html", () => {
+    expect(isMatrixFormat("markdown")).toBe(true);
+    expect(isMatrixFormat("csv")).toBe(true);
+    expect(isMatrixFormat("html")).toBe(true);
+    expect(isMatrixFormat("pdf")).toBe(false);
+  });
+});
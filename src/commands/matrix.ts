@@ -0,0 +1,82 @@
+/**
+ * Prints the main × derived traceability matrix as Markdown, CSV or HTML,
+ * for review documents and spreadsheets.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  readConfig,
+  readProject,
+} from "../infrastructure/file-store";
+import { formatMatrixCsv, formatMatrixHtml, formatMatrixMarkdown } from "../infrastructure/matrix-formats";
+import { buildTraceabilityMatrix } from "../domain/requirements/matrix";
+import type { MatrixGrouping } from "../domain/requirements/matrix";
+
+export const MATRIX_FORMATS = ["markdown", "csv", "html"] as const;
+export type MatrixFormat = (typeof MATRIX_FORMATS)[number];
+
+export function isMatrixFormat(s: string): s is MatrixFormat {
+  return MATRIX_FORMATS.includes(s as MatrixFormat);
+}
+
+export interface MatrixOptions {
+  /** @default "markdown" */
+  format?: MatrixFormat;
+  /**
+   * One column per derived requirement, or one per category.
+   * @default "requirement"
+   */
+  groupBy?: MatrixGrouping;
+}
+
+/**
+ * Prints the traceability matrix of the requirements in `targetDir` to stdout.
+ *
+ * @param options - Output format and column grouping
+ * @param targetDir - Project root, containing desgin-duck/requirements/ (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 on failure
+ */
+export function matrix(options: MatrixOptions = {}, targetDir: string = process.cwd()): void {
+  const { format = "markdown", groupBy = "requirement" } = options;
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:matrix] targetDir:", targetDir, "format:", format, "groupBy:", groupBy);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let output: string;
+  try {
+    const config = readConfig(duckDir);
+    const table = buildTraceabilityMatrix(
+      readMainRequirements(reqDir, config.vocabulary),
+      readDerivedRequirements(reqDir, config.vocabulary),
+      groupBy,
+      config.vocabulary.categories,
+    );
+    if (format === "html") {
+      const project = readProject(reqDir);
+      output = formatMatrixHtml(table, project ? `${project.name} – Traceability matrix` : undefined);
+    } else {
+      output = format === "csv" ? formatMatrixCsv(table) : formatMatrixMarkdown(table);
+    }
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' to see every problem.");
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(output);
+  process.exitCode = 0;
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { rename } from "./rename";
+
+const MAIN_YAML = `# Main requirements
+requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high   # must ship first
+    status: review
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom: [req-001]
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: draft
+
+  - id: der-002
+    description: Index product names
+    derivedFrom:
+      - req-001
+    rationale: Search by name
+    category: technical
+    priority: medium
+    status: draft
+`;
+
+describe("rename", () => {
+  let testDir: string;
+  let reqDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+  const errors = () => errorSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+  const readFile = (name: string) => readFileSync(join(reqDir, name), "utf-8");
+
+  test("shows a diff and leaves the files alone by default", () => {
+    rename("req-001", "req-100", {}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toContain("--- a/desgin-duck/requirements/main.yaml");
+    expect(output()).toContain("-  - id: req-001\n+  - id: req-100");
+    expect(output()).toContain("-    derivedFrom: [req-001]\n+    derivedFrom: [req-100]");
+    expect(output()).toContain("-      - req-001\n+      - req-100");
+    expect(output()).toContain("Dry run: no files were changed. Re-run with --write to apply.");
+    expect(readFile("main.yaml")).toBe(MAIN_YAML);
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML);
+  });
+
+  test("writes the rename and keeps comments and formatting", () => {
+    rename("req-001", "req-100", { write: true }, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toContain("✓ Renamed req-001 to req-100 (2 file(s) updated)");
+    expect(readFile("main.yaml")).toBe(MAIN_YAML.replace("req-001", "req-100"));
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML.replaceAll("req-001", "req-100"));
+  });
+
+  test("only touches derived.yaml when renaming a derived requirement", () => {
+    rename("der-002", "der-020", { write: true }, testDir);
+
+    expect(output()).toContain("(1 file(s) updated)");
+    expect(output()).not.toContain("main.yaml");
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML.replace("id: der-002", "id: der-020"));
+  });
+
+  test("refuses a new ID that already exists", () => {
+    rename("der-001", "der-002", { write: true }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("✗ Requirement ID der-002 already exists");
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML);
+  });
+
+  test("refuses an unknown requirement", () => {
+    rename("req-999", "req-100", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("✗ Requirement req-999 not found");
+  });
+
+  test("refuses to rename while the files are invalid", () => {
+    writeFileSync(join(reqDir, "main.yaml"), "requirements:\n  - id: req-001\n", "utf-8");
+
+    rename("req-001", "req-100", { write: true }, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("Run 'design-duck validate' and fix the errors before renaming.");
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML);
+  });
+
+  test("fails when the requirements directory is missing", () => {
+    rmSync(testDir, { recursive: true, force: true });
+
+    rename("req-001", "req-100", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("Error: desgin-duck/requirements/ directory not found.");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Renames a requirement ID and every `derivedFrom` reference to it.
+ *
+ * Shows the change as a diff without touching the files unless `write` is
+ * set, so renames can be reviewed first.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { renameRequirement, readConfig } from "../infrastructure/file-store";
+import type { RenameOutcome } from "../infrastructure/file-store";
+import { unifiedDiff } from "../infrastructure/text-diff";
+
+export interface RenameOptions {
+  /**
+   * Write the changes. Without this, only the diff is printed.
+   * @default false
+   */
+  write?: boolean;
+}
+
+/**
+ * Renames `oldId` to `newId` in main.yaml and derived.yaml.
+ *
+ * @param targetDir - Directory containing desgin-duck/requirements/ folder (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 when the rename is refused
+ */
+export function rename(
+  oldId: string,
+  newId: string,
+  options: RenameOptions = {},
+  targetDir: string = process.cwd(),
+): void {
+  const { write = false } = options;
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:rename] targetDir:", targetDir);
+    console.error(`[design-duck:rename] ${oldId} -> ${newId} (write: ${write})`);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let outcome: RenameOutcome;
+  try {
+    const { vocabulary } = readConfig(duckDir);
+    outcome = renameRequirement(reqDir, oldId, newId, { write, vocabularies: vocabulary });
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' and fix the errors before renaming.");
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!outcome.ok) {
+    console.error(`✗ ${outcome.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const change of outcome.changes) {
+    console.log(unifiedDiff(change.before, change.after, `desgin-duck/requirements/${change.file}`).trimEnd());
+  }
+
+  console.log("");
+  if (write) {
+    console.log(`✓ Renamed ${oldId} to ${newId} (${outcome.changes.length} file(s) updated)`);
+  } else {
+    console.log("Dry run: no files were changed. Re-run with --write to apply.");
+  }
+  process.exitCode = 0;
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { show } from "./show";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: review
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom:
+      - req-001
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: draft
+`;
+
+describe("show", () => {
+  let testDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    const reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+
+  test("prints a main requirement with its derived children", () => {
+    show("req-001", {}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toBe(
+      [
+        "req-001 (main)",
+        "  Description:  Users need to search products",
+        "  User value:   Reduces time to find products",
+        "  Priority:     high",
+        "  Status:       review",
+        "",
+        "Derived requirements (1)",
+        "  der-001  [draft]  Use Elasticsearch for search",
+      ].join("\n"),
+    );
+  });
+
+  test("prints acceptance criteria", () => {
+    writeFileSync(
+      join(testDir, "desgin-duck", "requirements", "main.yaml"),
+      MAIN_YAML +
+        "    acceptanceCriteria:\n" +
+        "      - Results appear within 1 second\n" +
+        "      - { given: a product named Mug, when: the user searches mug, then: Mug is listed }\n",
+      "utf-8",
+    );
+
+    show("req-001", {}, testDir);
+
+    expect(output()).toContain(
+      [
+        "Acceptance criteria (2)",
+        "  - Results appear within 1 second",
+        "  - Given a product named Mug, when the user searches mug, then Mug is listed",
+      ].join("\n"),
+    );
+  });
+
+  test("prints a derived requirement with its parents", () => {
+    show("der-001", {}, testDir);
+
+    expect(output()).toContain("der-001 (derived)");
+    expect(output()).toContain("Derived from (1)\n  req-001  [review]  Users need to search products");
+  });
+
+  test("prints JSON with the linked requirements", () => {
+    show("req-001", { json: true }, testDir);
+
+    const json = JSON.parse(output());
+    expect(json.kind).toBe("main");
+    expect(json.id).toBe("req-001");
+    expect(json.derived.map((d: { id: string }) => d.id)).toEqual(["der-001"]);
+  });
+
+  test("exits with code 1 for an unknown ID", () => {
+    show("req-999", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toBe("Requirement req-999 not found.");
+  });
+});
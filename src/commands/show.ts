@@ -0,0 +1,125 @@
+/**
+ * Prints one requirement with its traceability links: the derived
+ * requirements of a main requirement, or the parents of a derived one.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  readConfig,
+} from "../infrastructure/file-store";
+import { formatAcceptanceCriterion } from "../domain/requirements/requirement";
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { buildDerivedMap, findParents } from "../domain/requirements/traceability";
+
+export interface ShowOptions {
+  /** Print JSON instead of text. */
+  json?: boolean;
+}
+
+/**
+ * Prints the requirement with the given ID.
+ *
+ * @param id - ID of a main or derived requirement
+ * @param options - Output format
+ * @param targetDir - Directory containing desgin-duck/requirements/ folder (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 on failure
+ */
+export function show(id: string, options: ShowOptions = {}, targetDir: string = process.cwd()): void {
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:show] targetDir:", targetDir);
+    console.error("[design-duck:show] id:", id);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let main: MainRequirement[];
+  let derived: DerivedRequirement[];
+  try {
+    const { vocabulary } = readConfig(duckDir);
+    main = readMainRequirements(reqDir, vocabulary);
+    derived = readDerivedRequirements(reqDir, vocabulary);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' to see every problem.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const mainReq = main.find((r) => r.id === id);
+  const derivedReq = derived.find((r) => r.id === id);
+
+  if (mainReq) {
+    const children = buildDerivedMap(derived).get(id) ?? [];
+    if (options.json) {
+      console.log(JSON.stringify({ kind: "main", ...mainReq, derived: children }, null, 2));
+    } else {
+      printFields(mainReq.id, "main", [
+        ["Description", mainReq.description],
+        ["User value", mainReq.userValue],
+        ["Priority", mainReq.priority],
+        ["Status", mainReq.status],
+      ]);
+      printCriteria(mainReq.acceptanceCriteria ?? []);
+      printLinks(`Derived requirements (${children.length})`, children);
+    }
+  } else if (derivedReq) {
+    const parents = findParents(derivedReq, main);
+    if (options.json) {
+      console.log(JSON.stringify({ kind: "derived", ...derivedReq, parents }, null, 2));
+    } else {
+      printFields(derivedReq.id, "derived", [
+        ["Description", derivedReq.description],
+        ["Rationale", derivedReq.rationale],
+        ["Category", derivedReq.category],
+        ["Priority", derivedReq.priority],
+        ["Status", derivedReq.status],
+      ]);
+      printLinks(`Derived from (${parents.length})`, parents);
+    }
+  } else {
+    console.error(`Requirement ${id} not found.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  process.exitCode = 0;
+}
+
+function printFields(id: string, kind: string, fields: [string, string][]): void {
+  console.log(`${id} (${kind})`);
+  const width = Math.max(...fields.map(([label]) => label.length)) + 1;
+  for (const [label, value] of fields) {
+    console.log(`  ${`${label}:`.padEnd(width)}  ${value}`);
+  }
+}
+
+function printCriteria(criteria: NonNullable<MainRequirement["acceptanceCriteria"]>): void {
+  if (criteria.length === 0) return;
+  console.log("");
+  console.log(`Acceptance criteria (${criteria.length})`);
+  for (const criterion of criteria) {
+    console.log(`  - ${formatAcceptanceCriterion(criterion)}`);
+  }
+}
+
+function printLinks(heading: string, requirements: { id: string; description: string; status: string }[]): void {
+  console.log("");
+  console.log(heading);
+  if (requirements.length === 0) {
+    console.log("  (none)");
+  }
+  for (const r of requirements) {
+    console.log(`  ${r.id}  [${r.status}]  ${r.description}`);
+  }
+}
@@ -0,0 +1,181 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { status, ACTOR_ENV } from "./status";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: review   # waiting for sign-off
+  - id: req-002
+    description: Users can save wishlists
+    userValue: Return to considered items
+    priority: medium
+    status: draft
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom:
+      - req-001
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: review
+`;
+
+describe("status", () => {
+  let testDir: string;
+  let reqDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+  const originalActor = process.env[ACTOR_ENV];
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    delete process.env[ACTOR_ENV];
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    if (originalActor === undefined) delete process.env[ACTOR_ENV];
+    else process.env[ACTOR_ENV] = originalActor;
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+  const errors = () => errorSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+  const readFile = (name: string) => readFileSync(join(reqDir, name), "utf-8");
+
+  const writeConfig = (content: string) => writeFileSync(join(testDir, "desgin-duck", "config.yaml"), content, "utf-8");
+
+  test("changes the status in place, keeping the comment", () => {
+    status("req-001", "approved", {}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toBe("✓ req-001: review → approved");
+    expect(readFile("main.yaml")).toBe(MAIN_YAML.replace("status: review   #", "status: approved   #"));
+  });
+
+  test("changes the status in the file that holds the requirement", () => {
+    mkdirSync(join(reqDir, "search"));
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []\n", "utf-8");
+    writeFileSync(join(reqDir, "search", "derived.yaml"), DERIVED_YAML, "utf-8");
+
+    status("der-001", "draft", {}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(readFile("search/derived.yaml")).toBe(DERIVED_YAML.replace("status: review", "status: draft"));
+  });
+
+  test("refuses a transition the workflow doesn't allow", () => {
+    status("req-002", "approved", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toBe(
+      "✗ Cannot change req-002: draft → approved is not an allowed transition (allowed from draft: review)",
+    );
+    expect(readFile("main.yaml")).toBe(MAIN_YAML);
+  });
+
+  test("refuses approving a main requirement with draft derived requirements", () => {
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML.replace("status: review", "status: draft"), "utf-8");
+
+    status("req-001", "approved", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("req-001 is approved but derived requirement(s) der-001 are still draft");
+  });
+
+  test("refuses approving a derived requirement whose parent is still draft", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML.replace("status: review", "status: draft"), "utf-8");
+
+    status("der-001", "approved", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("der-001 is approved but it derives from req-001, still draft");
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML);
+  });
+
+  test("refuses moving a derived requirement of an approved one back to draft", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML.replace("status: review", "status: approved"), "utf-8");
+
+    status("der-001", "draft", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(readFile("derived.yaml")).toBe(DERIVED_YAML);
+  });
+
+  test("uses the configured transitions and actors", () => {
+    writeConfig(`workflow:
+  transitions:
+    - { from: review, to: approved, by: [human] }
+`);
+
+    status("req-001", "approved", { actor: "agent" }, testDir);
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("review → approved may only be made by: human (not agent)");
+
+    process.env[ACTOR_ENV] = "human";
+    status("req-001", "approved", {}, testDir);
+    expect(process.exitCode).toBe(0);
+  });
+
+  test("uses the configured statuses", () => {
+    writeConfig(`vocabulary:
+  statuses: [draft, review, approved, done]
+workflow:
+  transitions:
+    - { from: review, to: done }
+`);
+
+    status("req-001", "done", {}, testDir);
+    expect(process.exitCode).toBe(0);
+    expect(readFile("main.yaml")).toContain("status: done   # waiting for sign-off");
+
+    status("req-002", "closed", {}, testDir);
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("Unknown status: closed. Expected one of: draft, review, approved, done");
+  });
+
+  test("does nothing when the status is unchanged", () => {
+    status("req-002", "draft", {}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toBe("req-002 is already draft.");
+  });
+
+  test("rejects unknown statuses and requirements", () => {
+    status("req-001", "done", {}, testDir);
+    expect(errors()).toContain("Unknown status: done. Expected one of: draft, review, approved");
+    expect(process.exitCode).toBe(1);
+
+    process.exitCode = 0;
+    status("req-999", "review", {}, testDir);
+    expect(errors()).toContain("Requirement req-999 not found.");
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("fails when the requirements directory is missing", () => {
+    rmSync(testDir, { recursive: true, force: true });
+
+    status("req-001", "approved", {}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors()).toContain("Error: desgin-duck/requirements/ directory not found.");
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Changes the status of a requirement, following the project's workflow.
+ *
+ * The change must be one of the transitions allowed in desgin-duck/config.yaml
+ * (and, when the transition names who may make it, be made by one of them),
+ * and must not leave an approved main requirement with draft derived
+ * requirements, or an approved derived requirement with a draft parent.
+ * Only the status field is rewritten.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { readStoredRequirements, readConfig, updateRequirement } from "../infrastructure/file-store";
+import type { StoredRequirement } from "../infrastructure/file-store";
+import type { MainRequirement, DerivedRequirement, Status } from "../domain/requirements/requirement";
+import { vocabularyValues } from "../domain/requirements/vocabulary";
+import { checkTransition, checkApprovedRequirements } from "../domain/requirements/workflow";
+import type { DesignDuckConfig } from "../domain/config/config";
+
+/** Environment variable naming the actor when `--actor` isn't given. */
+export const ACTOR_ENV = "DESIGN_DUCK_ACTOR";
+
+export interface StatusOptions {
+  /**
+   * Who is making the change, checked against the transition's `by` list.
+   * @default process.env.DESIGN_DUCK_ACTOR
+   */
+  actor?: string;
+}
+
+/**
+ * Sets the status of requirement `id` to `status`.
+ *
+ * @param targetDir - Directory containing desgin-duck/requirements/ folder (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 when the change is refused
+ */
+export function status(
+  id: string,
+  newStatus: string,
+  options: StatusOptions = {},
+  targetDir: string = process.cwd(),
+): void {
+  const actor = options.actor ?? process.env[ACTOR_ENV];
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:status] targetDir:", targetDir);
+    console.error(`[design-duck:status] ${id} -> ${newStatus} (actor: ${actor ?? "none"})`);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let config: DesignDuckConfig;
+  try {
+    config = readConfig(duckDir);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const statuses = vocabularyValues(config.vocabulary.statuses);
+  if (!statuses.includes(newStatus)) {
+    console.error(`Unknown status: ${newStatus}. Expected one of: ${statuses.join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+  const to: Status = newStatus;
+
+  let stored: StoredRequirement[];
+  try {
+    stored = readStoredRequirements(reqDir, config.vocabulary);
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' and fix the errors before changing statuses.");
+    process.exitCode = 1;
+    return;
+  }
+
+  const target = stored.find((s) => s.requirement.id === id);
+  if (!target) {
+    console.error(`Requirement ${id} not found.`);
+    process.exitCode = 1;
+    return;
+  }
+  const main = stored.filter((s) => s.kind === "main").map((s) => s.requirement as MainRequirement);
+  const derived = stored.filter((s) => s.kind === "derived").map((s) => s.requirement as DerivedRequirement);
+
+  const from = target.requirement.status;
+  if (from === to) {
+    console.log(`${id} is already ${to}.`);
+    process.exitCode = 0;
+    return;
+  }
+
+  const transition = checkTransition(config.workflow.transitions, from, to, actor);
+  if (!transition.allowed) {
+    console.error(`✗ Cannot change ${id}: ${transition.message}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // Only report problems the change introduces, not pre-existing ones
+  const existing = new Set(checkApprovedRequirements(main, derived).map((f) => f.message));
+  const changed = <T extends { id: string; status: Status }>(list: T[]) =>
+    list.map((r) => (r.id === id ? { ...r, status: to } : r));
+  const problems = checkApprovedRequirements(changed(main), changed(derived)).filter(
+    (f) => !existing.has(f.message),
+  );
+  if (problems.length > 0) {
+    console.error(`✗ Cannot change ${id}:`);
+    for (const problem of problems) {
+      console.error(`  ${problem.message}`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    updateRequirement(reqDir, target.file, id, { status: to });
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`✓ ${id}: ${from} → ${to}`);
+  process.exitCode = 0;
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { trace } from "./trace";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: review
+  - id: req-002
+    description: Users need to export reports
+    userValue: Share results
+    priority: low
+    status: draft
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Use Elasticsearch for search
+    derivedFrom:
+      - req-001
+    rationale: Full-text search
+    category: technical
+    priority: high
+    status: review
+`;
+
+const SEARCH_TS = `// @req req-001
+export function search() {}
+`;
+
+const SEARCH_TEST_TS = `describe("search", () => {
+  // design-duck: req-001, der-001
+  test("finds products by name", () => {});
+});
+`;
+
+describe("trace", () => {
+  let testDir: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    const reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    mkdirSync(join(testDir, "src"));
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    writeFileSync(join(testDir, "src", "search.ts"), SEARCH_TS, "utf-8");
+    writeFileSync(join(testDir, "src", "search.test.ts"), SEARCH_TEST_TS, "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  const output = () => logSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+
+  test("prints the files linked to each requirement and the uncovered ones", () => {
+    trace({}, testDir);
+
+    expect(process.exitCode).toBe(0);
+    expect(output()).toBe(
+      [
+        "Scanned 2 file(s)",
+        "",
+        "req-001 (main)",
+        "  implemented by  src/search.ts:1",
+        "  verified by     src/search.test.ts:2 (finds products by name)",
+        "",
+        "der-001 (derived)",
+        "  verified by     src/search.test.ts:2 (finds products by name)",
+        "",
+        "✗ 1 requirement(s) not referenced from any file:",
+        "  req-002",
+      ].join("\n"),
+    );
+  });
+
+  test("fails on annotations that reference unknown requirements", () => {
+    writeFileSync(join(testDir, "src", "old.ts"), "\n// @req req-099\n", "utf-8");
+
+    trace({}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(output()).toContain("✗ 1 annotation(s) reference unknown requirements:\n  src/old.ts:2  req-099");
+  });
+
+  test("prints a JSON report", () => {
+    trace({ json: true }, testDir);
+
+    const report = JSON.parse(output());
+    expect(report.uncovered).toEqual(["req-002"]);
+    expect(report.requirements[0].implementedBy).toEqual([{ file: "src/search.ts", line: 1 }]);
+    expect(report.unknownReferences).toEqual([]);
+  });
+
+  test("scans the globs configured in config.yaml", () => {
+    mkdirSync(join(testDir, "lib"));
+    writeFileSync(join(testDir, "lib", "export.ts"), "// @req req-002\n", "utf-8");
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "trace:\n  include: [\"**/*.ts\"]\n  exclude: [\"**/*.test.ts\"]\n",
+      "utf-8",
+    );
+
+    trace({ json: true }, testDir);
+
+    const report = JSON.parse(output());
+    expect(report.uncovered).toEqual(["der-001"]);
+  });
+
+  test("fails when the requirements directory is missing", () => {
+    rmSync(join(testDir, "desgin-duck"), { recursive: true, force: true });
+
+    trace({}, testDir);
+
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain("desgin-duck/requirements/ directory not found");
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Maps requirements to the code that implements and the tests that verify
+ * them, by scanning the project's sources for `@req <id>` and
+ * `design-duck: <id>` annotations.
+ *
+ * Reports requirements no file references and annotations that reference
+ * unknown IDs; the latter fail the command, since they are usually typos or
+ * leftovers from a rename.
+ */
+
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  readConfig,
+} from "../infrastructure/file-store";
+import { scanSources } from "../infrastructure/source-scanner";
+import { buildTraceReport } from "../domain/requirements/trace";
+import type { TraceLink, TraceReport } from "../domain/requirements/trace";
+
+export interface TraceOptions {
+  /** Print the JSON report instead of text. */
+  json?: boolean;
+}
+
+/**
+ * Scans the project in `targetDir` and prints the trace report.
+ *
+ * @param options - Output format
+ * @param targetDir - Project root, containing desgin-duck/requirements/ (defaults to cwd)
+ * @returns void - sets process.exitCode to 1 when annotations reference unknown IDs or on failure
+ */
+export function trace(options: TraceOptions = {}, targetDir: string = process.cwd()): void {
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
+
+  if (process.env.DEBUG) {
+    console.error("[design-duck:trace] targetDir:", targetDir);
+  }
+
+  if (!existsSync(reqDir)) {
+    console.error("Error: desgin-duck/requirements/ directory not found.");
+    console.error("Run 'design-duck init' first to create the requirements structure.");
+    process.exitCode = 1;
+    return;
+  }
+
+  let report: TraceReport;
+  let fileCount: number;
+  try {
+    const config = readConfig(duckDir);
+    const main = readMainRequirements(reqDir, config.vocabulary);
+    const derived = readDerivedRequirements(reqDir, config.vocabulary);
+    const scan = scanSources(targetDir, config.trace);
+    report = buildTraceReport(main, derived, scan.annotations);
+    fileCount = scan.files.length;
+  } catch (err) {
+    console.error(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    console.error("Run 'design-duck validate' to see every problem.");
+    process.exitCode = 1;
+    return;
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(report, fileCount);
+  }
+
+  process.exitCode = report.unknownReferences.length > 0 ? 1 : 0;
+}
+
+function printReport(report: TraceReport, fileCount: number): void {
+  console.log(`Scanned ${fileCount} file(s)`);
+
+  for (const requirement of report.requirements) {
+    const { implementedBy, verifiedBy } = requirement;
+    if (implementedBy.length === 0 && verifiedBy.length === 0) continue;
+    console.log("");
+    console.log(`${requirement.id} (${requirement.kind})`);
+    for (const link of implementedBy) {
+      console.log(`  implemented by  ${formatLink(link)}`);
+    }
+    for (const link of verifiedBy) {
+      console.log(`  verified by     ${formatLink(link)}`);
+    }
+  }
+
+  console.log("");
+  if (report.uncovered.length === 0) {
+    console.log("✓ Every requirement is referenced from the code");
+  } else {
+    console.log(`✗ ${report.uncovered.length} requirement(s) not referenced from any file:`);
+    for (const id of report.uncovered) {
+      console.log(`  ${id}`);
+    }
+  }
+
+  if (report.unknownReferences.length > 0) {
+    console.log("");
+    console.log(`✗ ${report.unknownReferences.length} annotation(s) reference unknown requirements:`);
+    for (const annotation of report.unknownReferences) {
+      console.log(`  ${annotation.file}:${annotation.line}  ${annotation.requirementId}`);
+    }
+  }
+}
+
+function formatLink(link: TraceLink): string {
+  return `${link.file}:${link.line}${link.test ? ` (${link.test})` : ""}`;
+}
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { ui } from "./ui";
+import type { UiServerHandle } from "../infrastructure/ui-server";
+
+/** Reads an SSE stream until it contains `expected`, then closes it. */
+async function readEvents(url: string, expected: string, lastEventId?: string): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), 3000);
+  const res = await fetch(url, {
+    headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+    signal: controller.signal,
+  });
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  try {
+    while (!text.includes(expected)) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+  } catch {
+    // Timed out; the assertions show what arrived
+  } finally {
+    clearTimeout(timer);
+    controller.abort();
+  }
+  return text;
+}
+
+describe("ui", () => {
+  let testDir: string;
+  let distUiDir: string;
+  let handle: UiServerHandle | null;
+  let logSpy: ReturnType<typeof spyOn>;
+  let errorSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(join(testDir, "desgin-duck", "requirements"), { recursive: true });
+    writeFileSync(join(testDir, "desgin-duck", "requirements", "main.yaml"), "requirements: []\n", "utf-8");
+    distUiDir = join(testDir, "dist-ui");
+    mkdirSync(distUiDir);
+    writeFileSync(join(distUiDir, "index.html"), "<html></html>", "utf-8");
+    handle = null;
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+    errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    process.exitCode = 0;
+  });
+
+  afterEach(() => {
+    handle?.close();
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+    process.exitCode = 0;
+  });
+
+  test("serves the requirements on the given host and port", async () => {
+    handle = await ui({ port: 0, host: "127.0.0.1", open: false, distUiDir }, testDir);
+
+    expect(handle?.url).toBe(`http://127.0.0.1:${handle?.port}`);
+    const res = await fetch(`${handle?.url}/requirements/main.yaml`);
+    expect(await res.text()).toBe("requirements: []\n");
+  });
+
+  test("moves on to the next port when the port is taken", async () => {
+    const blocker: Server = createServer();
+    await new Promise<void>((resolve) => blocker.listen(0, "127.0.0.1", resolve));
+    const taken = (blocker.address() as AddressInfo).port;
+
+    try {
+      handle = await ui({ port: taken, host: "127.0.0.1", open: false, distUiDir }, testDir);
+
+      expect(handle?.port).toBeGreaterThan(taken);
+      expect(logSpy.mock.calls.map((c: unknown[]) => String(c[0]))).toContain(
+        `[design-duck:server] Port ${taken} is in use, trying ${taken + 1}`,
+      );
+    } finally {
+      await new Promise<void>((resolve) => blocker.close(() => resolve()));
+    }
+  });
+
+  test("refuses edits when read-only", async () => {
+    handle = await ui({ port: 0, host: "127.0.0.1", open: false, readOnly: true, distUiDir }, testDir);
+
+    const res = await fetch(`${handle?.url}/api/rename`, {
+      method: "POST",
+      headers: { "If-Match": "*" },
+      body: JSON.stringify({ from: "req-001", to: "req-002" }),
+    });
+    expect(res.status).toBe(403);
+  });
+
+  test("serves the requirements directory given with dir", async () => {
+    mkdirSync(join(testDir, "specs"));
+    writeFileSync(join(testDir, "specs", "main.yaml"), "requirements: [] # specs\n", "utf-8");
+
+    handle = await ui({ port: 0, host: "127.0.0.1", open: false, dir: "specs", distUiDir }, testDir);
+
+    const res = await fetch(`${handle?.url}/requirements/main.yaml`);
+    expect(await res.text()).toBe("requirements: [] # specs\n");
+  });
+
+  test("doesn't let other sites read the change events", async () => {
+    handle = await ui({ port: 0, host: "127.0.0.1", open: false, distUiDir }, testDir);
+    const controller = new AbortController();
+
+    const res = await fetch(`${handle!.url}/events`, {
+      headers: { Origin: "https://example.com" },
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBeNull();
+  });
+
+  test("sends the change events a reconnecting client missed", async () => {
+    handle = await ui({ port: 0, host: "127.0.0.1", open: false, distUiDir }, testDir);
+    const connected = await readEvents(`${handle!.url}/events`, "event: connected");
+    const lastEventId = connected.match(/^id: (.+)$/m)![1];
+
+    const listening = readEvents(`${handle!.url}/events`, "event: requirements-changed");
+    await Bun.sleep(100);
+    writeFileSync(join(testDir, "desgin-duck", "requirements", "main.yaml"), "requirements: [] # edited\n", "utf-8");
+    expect(await listening).toContain("event: requirements-changed");
+
+    const replayed = await readEvents(`${handle!.url}/events`, "event: connected", lastEventId);
+    expect(replayed).toContain('"content":"requirements: [] # edited\\n"');
+    expect(replayed.indexOf("event: requirements-changed")).toBeLessThan(replayed.indexOf("event: connected"));
+
+    const reset = await readEvents(`${handle!.url}/events`, "event: connected", "old-server-3");
+    expect(reset).toContain("event: requirements-reset");
+  });
+
+  test("warns when the API is open to the network", async () => {
+    const warnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    const warnings = () => warnSpy.mock.calls.map((c: unknown[]) => String(c[0])).join("\n");
+    try {
+      handle = await ui({ port: 0, host: "0.0.0.0", open: false, distUiDir }, testDir);
+      expect(warnings()).toContain("listening on 0.0.0.0 without --read-only");
+      handle?.close();
+      warnSpy.mockClear();
+
+      handle = await ui({ port: 0, host: "0.0.0.0", open: false, readOnly: true, distUiDir }, testDir);
+      handle?.close();
+      handle = await ui({ port: 0, host: "127.0.0.1", open: false, distUiDir }, testDir);
+      expect(warnings()).toBe("");
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+
+  test("fails when the requirements directory is missing", async () => {
+    handle = await ui({ open: false, dir: "missing", distUiDir }, testDir);
+
+    expect(handle).toBeNull();
+    expect(process.exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toBe("Requirements directory not found: missing");
+  });
+});
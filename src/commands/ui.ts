@@ -5,72 +5,72 @@
  * files from a built-in HTTP server. No Vite or build tooling needed.
  */
 
-import { join } from "node:path";
+import { join, resolve } from "node:path";
 import { existsSync } from "node:fs";
-import { startUiServer } from "../infrastructure/ui-server";
+import { findDistUiDir, startUiServer } from "../infrastructure/ui-server";
+import type { UiServerHandle } from "../infrastructure/ui-server";
 
-/**
- * Finds the dist-ui/ directory containing pre-built UI assets.
- *
- * Works both when running from source (src/commands/ui.ts) and
- * when bundled (dist/cli.js).
- */
-function findDistUiDir(): string {
-  // import.meta.dirname resolves to the directory of the running file:
-  // - Bundled: .../dist/        → ../dist-ui/ = .../dist-ui/
-  // - Source:  .../src/commands/ → ../../dist-ui/ = .../dist-ui/
-  const thisDir = import.meta.dirname;
-  const candidates = [
-    join(thisDir, "..", "dist-ui"),
-    join(thisDir, "..", "..", "dist-ui"),
-  ];
-
-  for (const dir of candidates) {
-    if (existsSync(dir)) return dir;
-  }
-
-  throw new Error(
-    "UI assets not found (dist-ui/). Run 'bun run build:ui' to build the UI first.",
-  );
+export interface UiOptions {
+  /** Port to try first. @default 3456 */
+  port?: number;
+  /** Interface to listen on. @default "localhost" */
+  host?: string;
+  /** Open the browser once the server is up. @default true */
+  open?: boolean;
+  /** Requirements directory, relative to the target directory. @default "desgin-duck/requirements" */
+  dir?: string;
+  /** Refuse edits from the UI and the API. @default false */
+  readOnly?: boolean;
+  /** Pre-built UI to serve; found next to the package when omitted. */
+  distUiDir?: string;
 }
 
-export function ui(): void {
+/**
+ * @returns The running server, or null when it couldn't be started
+ */
+export async function ui(options: UiOptions = {}, targetDir: string = process.cwd()): Promise<UiServerHandle | null> {
   if (process.env.DEBUG) {
     console.error("[design-duck:ui] Starting UI server");
   }
 
-  const requirementsDir = join(process.cwd(), "desgin-duck", "requirements");
+  const dir = options.dir ?? join("desgin-duck", "requirements");
+  const requirementsDir = resolve(targetDir, dir);
 
   if (!existsSync(requirementsDir)) {
     console.error(
-      "desgin-duck/requirements/ directory not found. Run 'design-duck init' first.",
+      options.dir === undefined
+        ? "desgin-duck/requirements/ directory not found. Run 'design-duck init' first."
+        : `Requirements directory not found: ${dir}`,
     );
     process.exitCode = 1;
-    return;
+    return null;
   }
 
   let distUiDir: string;
   try {
-    distUiDir = findDistUiDir();
+    distUiDir = options.distUiDir ?? findDistUiDir();
   } catch (err) {
     console.error(err instanceof Error ? err.message : String(err));
     process.exitCode = 1;
-    return;
+    return null;
   }
 
   console.log("Starting Design Duck UI...");
 
   try {
-    startUiServer({
+    return await startUiServer({
       distUiDir,
       requirementsDir,
-      port: 3456,
-      open: true,
+      port: options.port ?? 3456,
+      host: options.host ?? "localhost",
+      open: options.open ?? true,
+      readOnly: options.readOnly ?? false,
     });
   } catch (err) {
     console.error(
       `Failed to start UI server: ${err instanceof Error ? err.message : String(err)}`,
     );
     process.exitCode = 1;
+    return null;
   }
 }
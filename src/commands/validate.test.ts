@@ -1,10 +1,31 @@
-import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { execFileSync } from "node:child_process";
 import { mkdirSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
 import { validate } from "./validate";
 
+const MAIN_WITH_REQ_001 = `requirements:
+  - id: req-001
+    description: Users need to search products
+    userValue: Reduces time to find products
+    priority: high
+    status: draft
+`;
+
+function derivedYamlWith(id: string, derivedFrom: string[]): string {
+  return `  - id: ${id}
+    description: Derived requirement ${id}
+    derivedFrom:
+${derivedFrom.map((p) => `      - ${p}`).join("\n")}
+    rationale: Some rationale
+    category: technical
+    priority: high
+    status: draft
+`;
+}
+
 describe("validate", () => {
   let testDir: string;
   let reqDir: string;
@@ -61,7 +82,7 @@ describe("validate", () => {
     priority: high
     status: draft
 `;
-    writeFileSync(join(reqDir, "main.yaml"), "requirements: []", "utf-8");
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
     writeFileSync(join(reqDir, "derived.yaml"), derivedYaml, "utf-8");
     
     validate(testDir);
@@ -183,7 +204,7 @@ describe("validate", () => {
     rationale: Large hiring pool
     category: operational
     priority: high
-    status: approved
+    status: review
 `;
     writeFileSync(join(reqDir, "main.yaml"), mainYaml, "utf-8");
     writeFileSync(join(reqDir, "derived.yaml"), derivedYaml, "utf-8");
@@ -191,4 +212,432 @@ describe("validate", () => {
     validate(testDir);
     expect(process.exitCode).toBe(0);
   });
+
+  // --- Cross-file referential integrity ---
+
+  test("exits with code 1 when derivedFrom references an unknown main requirement", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      `requirements:\n${derivedYamlWith("der-001", ["req-999"])}`,
+      "utf-8",
+    );
+
+    validate(testDir);
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("exits with code 1 when derivedFrom references a derived requirement", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      `requirements:\n${derivedYamlWith("der-001", ["req-001"])}${derivedYamlWith("der-002", ["der-001"])}`,
+      "utf-8",
+    );
+
+    validate(testDir);
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("exits with code 1 when an id is duplicated across main.yaml and derived.yaml", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      `requirements:\n${derivedYamlWith("req-001", ["req-001"])}`,
+      "utf-8",
+    );
+
+    validate(testDir);
+    expect(process.exitCode).toBe(1);
+  });
+
+  test("exits with code 1 when an id is duplicated within derived.yaml", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      `requirements:\n${derivedYamlWith("der-001", ["req-001"])}${derivedYamlWith("der-001", ["req-001"])}`,
+      "utf-8",
+    );
+
+    validate(testDir);
+    expect(process.exitCode).toBe(1);
+  });
+
+  // --- Collecting all problems ---
+
+  test("reports every invalid requirement in one run", () => {
+    const mainYaml = `requirements:
+  - id: req-001
+    description: Bad priority
+    userValue: Value
+    priority: urgent
+    status: draft
+  - id: req-002
+    description: Bad status
+    userValue: Value
+    priority: high
+    status: done
+`;
+    writeFileSync(join(reqDir, "main.yaml"), mainYaml, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    let output: string;
+    try {
+      validate(testDir);
+      output = errorSpy.mock.calls.map((c) => String(c[0])).join("\n");
+    } finally {
+      errorSpy.mockRestore();
+    }
+
+    expect(process.exitCode).toBe(1);
+    expect(output).toContain("desgin-duck/requirements/main.yaml:5:15 priority must be one of");
+    expect(output).toContain("desgin-duck/requirements/main.yaml:11:13 status must be one of");
+  });
+
+  test("reports cross-file problems with the line of the offending field", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      `requirements:\n${derivedYamlWith("der-001", ["req-999"])}`,
+      "utf-8",
+    );
+
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    let output: string;
+    try {
+      validate(testDir);
+      output = errorSpy.mock.calls.map((c) => String(c[0])).join("\n");
+    } finally {
+      errorSpy.mockRestore();
+    }
+
+    expect(output).toContain(
+      "desgin-duck/requirements/derived.yaml:5:7 der-001: derivedFrom references unknown requirement req-999",
+    );
+  });
+
+  // --- Machine-readable formats ---
+
+  function captureStdout(run: () => void): string {
+    const logSpy = spyOn(console, "log").mockImplementation(() => {});
+    const errorSpy = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      run();
+      return logSpy.mock.calls.map((c) => String(c[0])).join("\n");
+    } finally {
+      logSpy.mockRestore();
+      errorSpy.mockRestore();
+    }
+  }
+
+  test("--format json prints a single JSON document", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      `requirements:\n${derivedYamlWith("der-001", ["req-999"])}`,
+      "utf-8",
+    );
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+    const json = JSON.parse(output);
+
+    expect(process.exitCode).toBe(1);
+    expect(json.summary.errors).toBe(1);
+    expect(json.diagnostics[0]).toEqual({
+      file: "desgin-duck/requirements/derived.yaml",
+      line: 5,
+      column: 7,
+      requirementId: "der-001",
+      field: "derivedFrom",
+      rule: "unknown-reference",
+      severity: "error",
+      message: "derivedFrom references unknown requirement req-999",
+    });
+  });
+
+  test("--format json exits 0 for a clean project", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      `requirements:\n${derivedYamlWith("der-001", ["req-001"])}`,
+      "utf-8",
+    );
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+
+    expect(process.exitCode).toBe(0);
+    expect(JSON.parse(output).diagnostics).toEqual([]);
+  });
+
+  test("--format sarif prints a SARIF log", () => {
+    writeFileSync(join(reqDir, "main.yaml"), "requirements: [invalid yaml", "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const output = captureStdout(() => validate(testDir, { format: "sarif" }));
+    const sarif = JSON.parse(output);
+
+    expect(process.exitCode).toBe(1);
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.runs[0].results[0].ruleId).toBe("yaml-syntax");
+  });
+
+  test("--format junit prints JUnit XML", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const output = captureStdout(() => validate(testDir, { format: "junit" }));
+
+    expect(output).toStartWith("<?xml");
+    expect(output).toContain(`name="req-001"`);
+  });
+
+  // --- Lint rules ---
+
+  test("reports lint findings as warnings without failing", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+    const json = JSON.parse(output);
+
+    expect(process.exitCode).toBe(0);
+    expect(json.summary).toMatchObject({ errors: 0, warnings: 1 });
+    expect(json.diagnostics[0]).toMatchObject({
+      file: "desgin-duck/requirements/main.yaml",
+      line: 2,
+      column: 5,
+      requirementId: "req-001",
+      rule: "main-without-derived",
+      severity: "warning",
+    });
+  });
+
+  test("exits with code 2 for warnings when warningsAsErrors is set", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    captureStdout(() => validate(testDir, { warningsAsErrors: true }));
+    expect(process.exitCode).toBe(2);
+  });
+
+  test("applies rule severities from config.yaml", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "lint:\n  rules:\n    main-without-derived: error\n",
+      "utf-8",
+    );
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+
+    expect(process.exitCode).toBe(1);
+    expect(JSON.parse(output).diagnostics[0].severity).toBe("error");
+  });
+
+  test("skips rules turned off in config.yaml", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "lint:\n  rules:\n    main-without-derived: off\n",
+      "utf-8",
+    );
+
+    captureStdout(() => validate(testDir, { warningsAsErrors: true }));
+    expect(process.exitCode).toBe(0);
+  });
+
+  test("reports an invalid config.yaml as an error", () => {
+    writeFileSync(join(reqDir, "main.yaml"), "requirements: []", "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "lint:\n  rules:\n    no-such-rule: error\n",
+      "utf-8",
+    );
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+    const json = JSON.parse(output);
+
+    expect(process.exitCode).toBe(1);
+    expect(json.diagnostics[0]).toMatchObject({ file: "desgin-duck/config.yaml", rule: "config" });
+    expect(json.diagnostics[0].message).toContain("no-such-rule is not a known rule");
+  });
+
+  // --- Status workflow ---
+
+  /** Commits the current files so validate has a previous version to compare with. */
+  function commitAll(): void {
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: testDir, stdio: "pipe" });
+    git("init", "-q");
+    git("add", "-A");
+    git("-c", "user.name=Test", "-c", "user.email=test@example.com", "commit", "-q", "-m", "baseline");
+  }
+
+  test("reports status changes since the last commit that skip a workflow step", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+    commitAll();
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001.replace("status: draft", "status: approved"), "utf-8");
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+    const json = JSON.parse(output);
+
+    expect(process.exitCode).toBe(1);
+    expect(json.diagnostics[0]).toMatchObject({
+      file: "desgin-duck/requirements/main.yaml",
+      line: 6,
+      requirementId: "req-001",
+      field: "status",
+      rule: "status-transition",
+      severity: "error",
+    });
+  });
+
+  test("accepts status changes the workflow allows", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+    commitAll();
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001.replace("status: draft", "status: review"), "utf-8");
+
+    captureStdout(() => validate(testDir));
+    expect(process.exitCode).toBe(0);
+  });
+
+  test("reports an approved main requirement with draft derived requirements", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001.replace("status: draft", "status: approved"), "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements:\n" + derivedYamlWith("der-001", ["req-001"]), "utf-8");
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+    const json = JSON.parse(output);
+
+    expect(process.exitCode).toBe(1);
+    expect(json.diagnostics).toContainEqual(
+      expect.objectContaining({ requirementId: "req-001", rule: "approved-with-draft-derived" }),
+    );
+  });
+
+  test("reports an approved derived requirement whose parent is still draft", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(
+      join(reqDir, "derived.yaml"),
+      "requirements:\n" + derivedYamlWith("der-001", ["req-001"]).replace("status: draft", "status: approved"),
+      "utf-8",
+    );
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+    const json = JSON.parse(output);
+
+    expect(process.exitCode).toBe(1);
+    expect(json.diagnostics).toContainEqual(
+      expect.objectContaining({ requirementId: "der-001", rule: "approved-with-draft-parent" }),
+    );
+  });
+
+  // --- project.yaml ---
+
+  test("validates project.yaml when present", () => {
+    writeFileSync(join(reqDir, "project.yaml"), "name: Shop\ndescription: Online store\n", "utf-8");
+    writeFileSync(join(reqDir, "main.yaml"), "requirements: []", "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const output = captureStdout(() => validate(testDir));
+
+    expect(process.exitCode).toBe(0);
+    expect(output).toContain("✓ project.yaml is valid (Shop)");
+  });
+
+  test("reports an invalid project.yaml as an error", () => {
+    writeFileSync(join(reqDir, "project.yaml"), 'name: ""\n', "utf-8");
+    writeFileSync(join(reqDir, "main.yaml"), "requirements: []", "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const output = captureStdout(() => validate(testDir, { format: "json" }));
+    const json = JSON.parse(output);
+
+    expect(process.exitCode).toBe(1);
+    expect(json.files[0]).toEqual({ file: "desgin-duck/requirements/project.yaml", requirements: 0 });
+    expect(json.diagnostics[0]).toMatchObject({
+      file: "desgin-duck/requirements/project.yaml",
+      line: 1,
+      field: "name",
+      rule: "schema",
+      severity: "error",
+    });
+  });
+
+  // --- Multi-file requirement sets ---
+
+  test("validates every main* and derived* file as one set", () => {
+    mkdirSync(join(reqDir, "checkout"));
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "main-2.yaml"), MAIN_WITH_REQ_001.replace("req-001", "req-002"), "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+    writeFileSync(
+      join(reqDir, "checkout", "derived.yaml"),
+      `requirements:\n${derivedYamlWith("der-001", ["req-002"])}`,
+      "utf-8",
+    );
+
+    const output = captureStdout(() => validate(testDir));
+
+    expect(process.exitCode).toBe(0);
+    expect(output).toContain("✓ main-2.yaml is valid (1 requirements)");
+    expect(output).toContain("✓ checkout/derived.yaml is valid (1 requirements)");
+    expect(output).toContain("All requirements are valid! (2 main, 1 derived, 1 warning(s))");
+  });
+
+  test("reports duplicates across files at the source file", () => {
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_WITH_REQ_001, "utf-8");
+    writeFileSync(join(reqDir, "main-2.yaml"), `# second page\n${MAIN_WITH_REQ_001}`, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const json = JSON.parse(captureStdout(() => validate(testDir, { format: "json" })));
+
+    expect(process.exitCode).toBe(1);
+    expect(json.files.map((f: { file: string }) => f.file)).toEqual([
+      "desgin-duck/requirements/main.yaml",
+      "desgin-duck/requirements/main-2.yaml",
+      "desgin-duck/requirements/derived.yaml",
+    ]);
+    expect(json.diagnostics[0]).toMatchObject({
+      file: "desgin-duck/requirements/main-2.yaml",
+      line: 3,
+      rule: "duplicate-id",
+      message: "Duplicate id req-001 is also used in main.yaml",
+    });
+  });
+
+  // --- Custom fields ---
+
+  test("checks custom fields against the schema in config.yaml", () => {
+    writeFileSync(
+      join(testDir, "desgin-duck", "config.yaml"),
+      "fields:\n  owner: { type: string, required: true }\n  estimate: { type: number }\n",
+      "utf-8",
+    );
+    writeFileSync(join(reqDir, "main.yaml"), `${MAIN_WITH_REQ_001}    estimate: lots\n`, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const json = JSON.parse(captureStdout(() => validate(testDir, { format: "json" })));
+
+    expect(process.exitCode).toBe(1);
+    expect(json.diagnostics.filter((d: { rule: string }) => d.rule === "custom-field")).toEqual([
+      expect.objectContaining({ requirementId: "req-001", field: "owner", line: 2, message: "owner is required" }),
+      expect.objectContaining({ field: "estimate", line: 7, column: 15, message: "estimate must be a number" }),
+    ]);
+  });
+
+  test("reports valid custom fields in the text output", () => {
+    writeFileSync(join(testDir, "desgin-duck", "config.yaml"), "fields:\n  owner: { type: string }\n", "utf-8");
+    writeFileSync(join(reqDir, "main.yaml"), `${MAIN_WITH_REQ_001}    owner: alice\n`, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), "requirements: []", "utf-8");
+
+    const output = captureStdout(() => validate(testDir));
+
+    expect(process.exitCode).toBe(0);
+    expect(output).toContain("✓ All custom fields match the schema");
+  });
 });
@@ -1,83 +1,462 @@
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import { readMainRequirements, readDerivedRequirements } from "../infrastructure/file-store";
+import {
+  readMainRequirementsWithDiagnostics,
+  readDerivedRequirementsWithDiagnostics,
+  readConfig,
+  readProjectWithDiagnostics,
+} from "../infrastructure/file-store";
+import {
+  formatParseDiagnostic,
+  parseMainRequirementsYamlWithDiagnostics,
+  parseDerivedRequirementsYamlWithDiagnostics,
+} from "../infrastructure/yaml-parser";
+import type { ParseDiagnostic, ParseResult, ProjectParseResult, RequirementSet } from "../infrastructure/yaml-parser";
+import { discoverRequirementFiles } from "../infrastructure/requirement-files";
+import {
+  formatJsonReport,
+  formatSarifReport,
+  formatJunitReport,
+} from "../infrastructure/diagnostic-formats";
+import type { ValidationReport } from "../infrastructure/diagnostic-formats";
+import { readCommittedFile } from "../infrastructure/git";
+import { checkReferentialIntegrity } from "../domain/requirements/integrity";
+import type { RequirementFileName } from "../domain/requirements/integrity";
+import { lintRequirements } from "../domain/requirements/lint";
+import { checkStatusChanges, checkApprovedRequirements } from "../domain/requirements/workflow";
+import { checkCustomFields } from "../domain/requirements/custom-fields";
+import type { Status } from "../domain/requirements/requirement";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+import { countBySeverity } from "../domain/requirements/diagnostic";
+import type { Diagnostic, Severity } from "../domain/requirements/diagnostic";
+import { DEFAULT_CONFIG } from "../domain/config/config";
+import type { DesignDuckConfig } from "../domain/config/config";
+
+export const OUTPUT_FORMATS = ["text", "json", "sarif", "junit"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export function isOutputFormat(s: string): s is OutputFormat {
+  return OUTPUT_FORMATS.includes(s as OutputFormat);
+}
+
+/** Process exit codes set by `validate`. */
+export const EXIT_CODES = {
+  /** No errors (and no warnings when warnings count as errors). */
+  ok: 0,
+  /** At least one error. */
+  errors: 1,
+  /** No errors, but warnings were found and `warningsAsErrors` is set. */
+  warnings: 2,
+} as const;
+
+export interface ValidateOptions {
+  /**
+   * Output format. "text" is for humans; the others print a single
+   * machine-readable document to stdout and nothing else.
+   * @default "text"
+   */
+  format?: OutputFormat;
+  /**
+   * Fail with exit code 2 when there are warnings but no errors.
+   * @default false
+   */
+  warningsAsErrors?: boolean;
+}
 
 /**
- * Validates all requirement files in the desgin-duck/requirements/ directory.
+ * Validates all requirement files in the desgin-duck/requirements/ directory
+ * (every main*.yaml and derived*.yaml file, plus the optional project.yaml),
+ * checks custom fields against the schema in desgin-duck/config.yaml,
+ * then checks IDs and derivedFrom references across the whole set,
+ * checks status changes since the last git commit against the workflow and
+ * runs the lint rules configured in desgin-duck/config.yaml.
  * Reports validation errors to stdout.
- * 
+ *
  * @param targetDir - Directory containing desgin-duck/requirements/ folder (defaults to cwd)
- * @returns void - exits with code 1 if validation fails, 0 if successful
+ * @param options - Output format and exit code behaviour
+ * @returns void - sets process.exitCode to one of EXIT_CODES
  */
-export function validate(targetDir: string = process.cwd()): void {
-  const reqDir = join(targetDir, "desgin-duck", "requirements");
+export function validate(targetDir: string = process.cwd(), options: ValidateOptions = {}): void {
+  const { format = "text", warningsAsErrors = false } = options;
+  const duckDir = join(targetDir, "desgin-duck");
+  const reqDir = join(duckDir, "requirements");
 
   if (process.env.DEBUG) {
     console.error("[design-duck:validate] targetDir:", targetDir);
     console.error("[design-duck:validate] reqDir:", reqDir);
+    console.error("[design-duck:validate] format:", format);
   }
 
   // Check if requirements directory exists
   if (!existsSync(reqDir)) {
     console.error("Error: desgin-duck/requirements/ directory not found.");
     console.error("Run 'design-duck init' first to create the requirements structure.");
-    process.exitCode = 1;
+    process.exitCode = EXIT_CODES.errors;
     return;
   }
 
-  let hasErrors = false;
-  let mainCount = 0;
-  let derivedCount = 0;
-
-  // Validate main.yaml
-  console.log("Validating main.yaml...");
+  // A broken config shouldn't hide requirement problems: report it and check with defaults
+  let config: DesignDuckConfig = DEFAULT_CONFIG;
+  const configDiagnostics: Diagnostic[] = [];
   try {
-    const mainReqs = readMainRequirements(reqDir);
-    mainCount = mainReqs.length;
-    console.log(`✓ main.yaml is valid (${mainCount} requirements)`);
-    
-    if (process.env.DEBUG) {
-      console.error(`[design-duck:validate] Successfully validated ${mainCount} main requirements`);
-    }
+    config = readConfig(duckDir);
   } catch (err) {
-    hasErrors = true;
-    const msg = err instanceof Error ? err.message : String(err);
-    console.error(`✗ main.yaml validation failed:`);
-    console.error(`  ${msg}`);
-    
+    configDiagnostics.push({
+      file: "desgin-duck/config.yaml",
+      line: null,
+      column: null,
+      requirementId: null,
+      field: null,
+      rule: "config",
+      severity: "error",
+      message: err instanceof Error ? err.message : String(err),
+    });
+  }
+
+  const project = readProjectWithDiagnostics(reqDir);
+  const projectExists = project.project !== null || project.diagnostics.length > 0;
+  const main = readMainRequirementsWithDiagnostics(reqDir, config.vocabulary);
+  const derived = readDerivedRequirementsWithDiagnostics(reqDir, config.vocabulary);
+  const setOf = (file: RequirementFileName) => (file === "main.yaml" ? main : derived);
+  const sourceOf = (file: RequirementFileName, index: number) => setOf(file).sources[index];
+  const convert = (
+    finding: Parameters<typeof fromFinding>[0],
+    severity: Severity,
+  ) => fromFinding(finding, severity, setOf(finding.file));
+
+  // Custom fields are per requirement, so they are checked on every valid one
+  const customFields = checkCustomFields(main.requirements, derived.requirements, config.fields).map(
+    (finding) => convert(finding, "error"),
+  );
+
+  // Cross-file references and lint rules only make sense once every file is
+  // fully valid; otherwise references to a broken requirement would show up
+  // as dangling and a broken derived file would orphan every main requirement.
+  let integrity: Diagnostic[] | null = null;
+  let workflow: Diagnostic[] | null = null;
+  let lint: Diagnostic[] | null = null;
+  if (main.diagnostics.length === 0 && derived.diagnostics.length === 0) {
+    const issues = checkReferentialIntegrity(main.requirements, derived.requirements, sourceOf);
+    integrity = issues.map((issue) => convert(issue, "error"));
+
+    const workflowFindings = [
+      ...checkStatusChanges(
+        committedStatuses(targetDir, reqDir, config.vocabulary),
+        main.requirements,
+        derived.requirements,
+        config.workflow.transitions,
+      ),
+      ...checkApprovedRequirements(main.requirements, derived.requirements),
+    ];
+    workflow = workflowFindings.map((finding) => convert(finding, "error"));
+
+    const findings = lintRequirements(main.requirements, derived.requirements, config.lint.rules);
+    lint = findings.map((finding) => convert(finding, finding.severity));
+
     if (process.env.DEBUG) {
-      console.error(`[design-duck:validate] main.yaml error:`, err);
+      console.error(`[design-duck:validate] Integrity check found ${issues.length} issue(s)`);
+      console.error(`[design-duck:validate] Workflow check found ${workflowFindings.length} problem(s)`);
+      console.error(`[design-duck:validate] Lint found ${findings.length} finding(s)`);
     }
   }
 
-  // Validate derived.yaml
-  console.log("Validating derived.yaml...");
-  try {
-    const derivedReqs = readDerivedRequirements(reqDir);
-    derivedCount = derivedReqs.length;
-    console.log(`✓ derived.yaml is valid (${derivedCount} requirements)`);
-    
-    if (process.env.DEBUG) {
-      console.error(`[design-duck:validate] Successfully validated ${derivedCount} derived requirements`);
+  const report: ValidationReport = {
+    files: [
+      ...(projectExists ? [{ file: displayPath("project.yaml"), requirementIds: [] }] : []),
+      ...filesOf(main, "main.yaml").map((file) => ({
+        file: displayPath(file),
+        requirementIds: main.requirements.filter((_, i) => main.sources[i] === file).map((r) => r.id),
+      })),
+      ...filesOf(derived, "derived.yaml").map((file) => ({
+        file: displayPath(file),
+        requirementIds: derived.requirements.filter((_, i) => derived.sources[i] === file).map((r) => r.id),
+      })),
+    ],
+    diagnostics: [
+      ...configDiagnostics,
+      ...project.diagnostics.map(fromParseDiagnostic),
+      ...main.diagnostics.map(fromParseDiagnostic),
+      ...derived.diagnostics.map(fromParseDiagnostic),
+      ...customFields,
+      ...(integrity ?? []),
+      ...(workflow ?? []),
+      ...(lint ?? []),
+    ],
+  };
+
+  switch (format) {
+    case "json":
+      console.log(formatJsonReport(report));
+      break;
+    case "sarif":
+      console.log(formatSarifReport(report));
+      break;
+    case "junit":
+      console.log(formatJunitReport(report));
+      break;
+    case "text":
+      printTextReport(
+        project,
+        main,
+        derived,
+        configDiagnostics,
+        config,
+        customFields,
+        integrity,
+        workflow,
+        lint,
+        report.diagnostics,
+      );
+      break;
+  }
+
+  const counts = countBySeverity(report.diagnostics);
+  if (counts.error > 0) {
+    process.exitCode = EXIT_CODES.errors;
+  } else if (counts.warning > 0 && warningsAsErrors) {
+    process.exitCode = EXIT_CODES.warnings;
+  } else {
+    process.exitCode = EXIT_CODES.ok;
+  }
+}
+
+/**
+ * Status of each requirement as of the last git commit, read from the
+ * committed version of every requirements file that exists now. Empty when
+ * there is no commit to compare with; requirements that were invalid then
+ * (or lived in files that have since been removed) are left out.
+ */
+function committedStatuses(targetDir: string, reqDir: string, vocabularies: Vocabularies): Map<string, Status> {
+  const statuses = new Map<string, Status>();
+  const files = discoverRequirementFiles(reqDir);
+  const read = (file: string) => readCommittedFile(targetDir, displayPath(file));
+  const requirements = [
+    ...files.main.flatMap((file) => {
+      const content = read(file);
+      return content === null ? [] : parseMainRequirementsYamlWithDiagnostics(content, file, vocabularies).requirements;
+    }),
+    ...files.derived.flatMap((file) => {
+      const content = read(file);
+      return content === null ? [] : parseDerivedRequirementsYamlWithDiagnostics(content, file, vocabularies).requirements;
+    }),
+  ];
+  for (const req of requirements) {
+    statuses.set(req.id, req.status);
+  }
+  return statuses;
+}
+
+/**
+ * Files a requirement set was read from; the default file name when none
+ * was found, so that its file-missing diagnostic has a place in the report.
+ */
+function filesOf(set: RequirementSet<unknown>, fallback: string): string[] {
+  return set.files.length > 0 ? set.files : [fallback];
+}
+
+/**
+ * Path of a requirements file relative to the target directory, so that
+ * `path:line:column` output is clickable in editors and terminals.
+ */
+function displayPath(fileName: string): string {
+  return `desgin-duck/requirements/${fileName}`;
+}
+
+// ---------------------------------------------------------------------------
+// Conversion to the unified diagnostic shape
+// ---------------------------------------------------------------------------
+
+function fromParseDiagnostic(d: ParseDiagnostic): Diagnostic {
+  return {
+    file: displayPath(d.file),
+    line: d.line,
+    column: d.column,
+    requirementId: d.requirementId,
+    field: d.field,
+    rule: d.rule,
+    severity: "error",
+    message: d.message,
+  };
+}
+
+/**
+ * Converts an integrity issue or lint finding, resolving its file and
+ * position from the set the requirement was read from.
+ */
+function fromFinding(
+  finding: {
+    file: RequirementFileName;
+    index: number;
+    requirementId: string;
+    field: string | null;
+    rule: string;
+    message: string;
+  },
+  severity: Severity,
+  set: RequirementSet<unknown>,
+): Diagnostic {
+  const location = set.locations[finding.index];
+  const position = (finding.field && location?.fields[finding.field]) || location?.position || null;
+  return {
+    file: displayPath(set.sources[finding.index] ?? finding.file),
+    line: position?.line ?? null,
+    column: position?.column ?? null,
+    requirementId: finding.requirementId,
+    field: finding.field,
+    rule: finding.rule,
+    severity,
+    message: finding.message,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Human-readable output
+// ---------------------------------------------------------------------------
+
+/**
+ * Prints the text report.
+ *
+ * @param customFields - Custom field diagnostics (only printed when the config declares fields)
+ * @param integrity - Cross-file diagnostics, or null when the check was skipped
+ * @param workflow - Status workflow diagnostics, or null when the check was skipped
+ * @param lint - Lint diagnostics, or null when linting was skipped
+ * @param diagnostics - Every diagnostic in the report (used for the summary)
+ */
+function printTextReport<M, D>(
+  project: ProjectParseResult,
+  main: RequirementSet<M>,
+  derived: RequirementSet<D>,
+  configDiagnostics: Diagnostic[],
+  config: DesignDuckConfig,
+  customFields: Diagnostic[],
+  integrity: Diagnostic[] | null,
+  workflow: Diagnostic[] | null,
+  lint: Diagnostic[] | null,
+  diagnostics: Diagnostic[],
+): void {
+  for (const d of configDiagnostics) {
+    console.error(`✗ ${d.file}: ${d.message}`);
+  }
+
+  // Report every problem in each file, not just the first one
+  reportProject(project);
+  for (const [set, fallback] of [[main, "main.yaml"], [derived, "derived.yaml"]] as const) {
+    for (const file of filesOf(set, fallback)) {
+      reportFile(file, {
+        requirements: set.requirements.filter((_, i) => set.sources[i] === file),
+        locations: [],
+        diagnostics: set.diagnostics.filter((d) => d.file === file),
+      });
     }
-  } catch (err) {
-    hasErrors = true;
-    const msg = err instanceof Error ? err.message : String(err);
-    console.error(`✗ derived.yaml validation failed:`);
-    console.error(`  ${msg}`);
-    
-    if (process.env.DEBUG) {
-      console.error(`[design-duck:validate] derived.yaml error:`, err);
+  }
+
+  if (Object.keys(config.fields).length > 0) {
+    console.log("Checking custom fields...");
+    if (customFields.length === 0) {
+      console.log("✓ All custom fields match the schema");
+    } else {
+      console.error(`✗ Found ${customFields.length} custom field problem(s):`);
+      for (const d of customFields) {
+        console.error(`  ${where(d)} ${d.requirementId}: ${d.message}`);
+      }
+    }
+  }
+
+  if (integrity === null || workflow === null || lint === null) {
+    console.log("Skipping cross-file reference, workflow and lint checks until the errors above are fixed.");
+  } else {
+    console.log("Checking cross-file references...");
+    if (integrity.length === 0) {
+      console.log("✓ All requirement IDs are unique and all derivedFrom references resolve");
+    } else {
+      console.error(`✗ Found ${integrity.length} cross-file reference problem(s):`);
+      for (const d of integrity) {
+        console.error(`  ${where(d)} ${d.requirementId}: ${d.message}`);
+      }
+    }
+
+    console.log("Checking status workflow...");
+    if (workflow.length === 0) {
+      console.log("✓ All statuses follow the workflow");
+    } else {
+      console.error(`✗ Found ${workflow.length} workflow problem(s):`);
+      for (const d of workflow) {
+        console.error(`  ${where(d)} ${d.requirementId}: ${d.message} [${d.rule}]`);
+      }
+    }
+
+    console.log("Running lint rules...");
+    if (lint.length === 0) {
+      console.log("✓ No lint findings");
+    } else {
+      const print = lint.some((d) => d.severity === "error") ? console.error : console.log;
+      print(`${lint.some((d) => d.severity === "error") ? "✗" : "!"} Found ${lint.length} lint finding(s):`);
+      for (const d of lint) {
+        print(`  ${where(d)} ${d.severity} ${d.requirementId}: ${d.message} [${d.rule}]`);
+      }
     }
   }
 
   // Summary
+  const counts = countBySeverity(diagnostics);
   console.log("");
-  if (hasErrors) {
+  if (counts.error > 0) {
     console.error("Validation failed. Fix the errors above and try again.");
-    process.exitCode = 1;
   } else {
-    console.log(`All requirements are valid! (${mainCount} main, ${derivedCount} derived)`);
-    process.exitCode = 0;
+    const warnings = counts.warning > 0 ? `, ${counts.warning} warning(s)` : "";
+    console.log(
+      `All requirements are valid! (${main.requirements.length} main, ${derived.requirements.length} derived${warnings})`,
+    );
+  }
+}
+
+function where(d: Diagnostic): string {
+  return d.line !== null ? `${d.file}:${d.line}:${d.column}` : d.file;
+}
+
+/**
+ * Prints the outcome for project.yaml; prints nothing when the file doesn't exist.
+ */
+function reportProject(result: ProjectParseResult): void {
+  if (result.project === null && result.diagnostics.length === 0) {
+    return;
+  }
+  console.log("Validating project.yaml...");
+
+  if (result.project !== null) {
+    console.log(`✓ project.yaml is valid (${result.project.name})`);
+    return;
+  }
+
+  console.error(`✗ project.yaml validation failed (${result.diagnostics.length} problem(s)):`);
+  for (const diagnostic of result.diagnostics) {
+    console.error(`  ${formatParseDiagnostic(diagnostic, displayPath("project.yaml"))}`);
+  }
+}
+
+/**
+ * Prints the outcome for one requirements file.
+ */
+function reportFile<T>(fileName: string, result: ParseResult<T>): void {
+  console.log(`Validating ${fileName}...`);
+
+  if (result.diagnostics.length === 0) {
+    console.log(`✓ ${fileName} is valid (${result.requirements.length} requirements)`);
+
+    if (process.env.DEBUG) {
+      console.error(
+        `[design-duck:validate] Successfully validated ${result.requirements.length} requirements in ${fileName}`,
+      );
+    }
+    return;
+  }
+
+  console.error(`✗ ${fileName} validation failed (${result.diagnostics.length} problem(s)):`);
+  for (const diagnostic of result.diagnostics) {
+    console.error(`  ${formatParseDiagnostic(diagnostic, displayPath(fileName))}`);
+  }
+
+  if (process.env.DEBUG) {
+    console.error(`[design-duck:validate] ${fileName} diagnostics:`, result.diagnostics);
   }
 }
@@ -0,0 +1,46 @@
+/**
+ * Renders a priority, status or category value as a colored badge, using
+ * the label and color the project's vocabulary gives it. Values missing
+ * from the vocabulary are shown as-is in gray.
+ */
+
+import { vocabularyEntry } from "../domain/requirements/vocabulary";
+import type { BadgeColor, VocabularyEntry } from "../domain/requirements/vocabulary";
+
+/** Spelled out in full so Tailwind keeps every class in the build. */
+const COLOR_STYLES: Record<BadgeColor, string> = {
+  gray: "bg-gray-100 text-gray-700",
+  red: "bg-red-100 text-red-800",
+  orange: "bg-orange-100 text-orange-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  green: "bg-green-100 text-green-800",
+  emerald: "bg-emerald-100 text-emerald-800",
+  teal: "bg-teal-100 text-teal-800",
+  blue: "bg-blue-100 text-blue-800",
+  indigo: "bg-indigo-100 text-indigo-800",
+  purple: "bg-purple-100 text-purple-800",
+  pink: "bg-pink-100 text-pink-800",
+};
+
+export interface BadgeProps {
+  value: string;
+  /** Vocabulary the value comes from. */
+  vocabulary: VocabularyEntry[];
+  testId: string;
+  /** Narrower padding, for nested items. */
+  compact?: boolean;
+}
+
+export function Badge({ value, vocabulary, testId, compact = false }: BadgeProps) {
+  const { label, color } = vocabularyEntry(vocabulary, value);
+
+  return (
+    <span
+      className={`inline-flex items-center rounded-full ${compact ? "px-2" : "px-2.5"} py-0.5 text-xs font-semibold ${COLOR_STYLES[color]}`}
+      data-testid={testId}
+      title={label === value ? undefined : value}
+    >
+      {label}
+    </span>
+  );
+}
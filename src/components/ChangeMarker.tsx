@@ -0,0 +1,32 @@
+/**
+ * Marks a requirement that was just added or changed on disk (e.g. by an
+ * agent), naming the changed fields. Renders nothing for other requirements.
+ */
+
+import type { RequirementChange } from "../domain/requirements/diff";
+
+export interface ChangeMarkerProps {
+  id: string;
+  /** How the requirement changed; nothing is shown without one. */
+  change?: RequirementChange;
+}
+
+export function ChangeMarker({ id, change }: ChangeMarkerProps) {
+  if (!change) {
+    return null;
+  }
+
+  const label = change.change === "added"
+    ? "New"
+    : change.fields.length > 0
+      ? `Changed: ${change.fields.join(", ")}`
+      : "Changed";
+  return (
+    <span
+      className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800"
+      data-testid={`change-marker-${id}`}
+    >
+      {label}
+    </span>
+  );
+}
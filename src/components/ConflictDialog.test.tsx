@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+import { renderToString } from "react-dom/server";
+import { ConflictDialog } from "./ConflictDialog";
+import type { WriteConflict } from "../stores/requirements-store";
+
+const CONFLICT: WriteConflict = {
+  id: "req-001",
+  write: { type: "rename", from: "req-001", to: "req-100" },
+  yours: { id: "req-100", description: "Search products", priority: "high" },
+  theirs: { id: "req-001", description: "Search products", priority: "low" },
+  revision: "def",
+};
+
+describe("ConflictDialog", () => {
+  test("compares both versions field by field", () => {
+    const html = renderToString(<ConflictDialog conflict={CONFLICT} onResolve={() => {}} />);
+
+    expect(html).toContain("req-001<!-- --> was changed by someone else");
+    expect(html).toContain("rename req-001 to req-100");
+    expect(html).toMatch(/data-testid="conflict-field-priority" data-differs="true"/);
+    expect(html).toMatch(/data-testid="conflict-field-description" data-differs="false"/);
+    expect(html).toContain('data-testid="conflict-apply-mine"');
+    expect(html).not.toMatch(/<button[^>]*disabled=""[^>]*data-testid="conflict-apply-mine"/);
+  });
+
+  test("only offers to keep the current state when the requirement was deleted", () => {
+    const html = renderToString(<ConflictDialog conflict={{ ...CONFLICT, theirs: null }} onResolve={() => {}} />);
+
+    expect(html).toContain("the requirement was deleted");
+    expect(html).toMatch(/<button[^>]*disabled=""[^>]*data-testid="conflict-apply-mine"/);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Shown when a write from the UI was refused because someone else (another
+ * browser, an agent, an editor) changed the requirement first. Lists both
+ * versions field by field, differences highlighted, and lets the user keep
+ * the other change or apply theirs on top of it.
+ */
+
+import type { WriteConflict } from "../stores/requirements-store";
+
+export interface ConflictDialogProps {
+  conflict: WriteConflict;
+  onResolve: (choice: "theirs" | "mine") => void;
+}
+
+const WRITE_LABELS: Record<WriteConflict["write"]["type"], (conflict: WriteConflict) => string> = {
+  rename: ({ write }) => `rename ${write.from} to ${write.to}`,
+};
+
+export function ConflictDialog({ conflict, onResolve }: ConflictDialogProps) {
+  console.debug(`[design-duck:ui] Rendering ConflictDialog for ${conflict.id}`);
+
+  const { yours, theirs } = conflict;
+  const fields = [...new Set([...Object.keys(theirs ?? {}), ...Object.keys(yours)])];
+
+  return (
+    <div className="fixed inset-0 z-10 flex items-center justify-center bg-black/30 px-4">
+      <section
+        className="w-full max-w-2xl rounded-lg border border-gray-200 bg-white p-5 shadow-lg"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="conflict-title"
+        data-testid="conflict-dialog"
+      >
+        <h3 id="conflict-title" className="text-base font-semibold text-gray-900">
+          {conflict.id} was changed by someone else
+        </h3>
+        <p className="mt-1 text-sm text-gray-600">
+          Your change ({WRITE_LABELS[conflict.write.type](conflict)}) wasn't saved
+          {theirs ? ". Compare the versions and pick one." : ": the requirement was deleted."}
+        </p>
+
+        <table className="mt-4 w-full table-fixed text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-500">
+              <th className="w-1/4 py-1 pr-2" scope="col">Field</th>
+              <th className="py-1 pr-2" scope="col">Your version</th>
+              <th className="py-1" scope="col">Current version</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map((field) => {
+              const mine = formatValue(yours[field]);
+              const current = theirs ? formatValue(theirs[field]) : "";
+              const differs = mine !== current;
+              return (
+                <tr
+                  key={field}
+                  className={`border-t border-gray-100 align-top ${differs ? "bg-amber-50" : ""}`}
+                  data-testid={`conflict-field-${field}`}
+                  data-differs={differs}
+                >
+                  <th className="py-1 pr-2 text-left font-mono text-xs font-medium text-gray-700" scope="row">
+                    {field}
+                  </th>
+                  <td className="break-words py-1 pr-2 text-gray-800">{mine}</td>
+                  <td className="break-words py-1 text-gray-800">{current}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            type="button"
+            className="rounded border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+            onClick={() => onResolve("theirs")}
+            data-testid="conflict-keep-theirs"
+          >
+            Keep current version
+          </button>
+          <button
+            type="button"
+            className="rounded bg-gray-800 px-3 py-1.5 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
+            onClick={() => onResolve("mine")}
+            disabled={!theirs}
+            data-testid="conflict-apply-mine"
+          >
+            Apply my change anyway
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) return value.join(", ");
+  return JSON.stringify(value);
+}
@@ -0,0 +1,41 @@
+/**
+ * Lists a requirement's custom field values (owner, targetRelease, tags, ...)
+ * as declared in config.yaml. Fields without a value are left out; renders
+ * nothing when the requirement has none.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import type { RequirementKind } from "../domain/requirements/query";
+import { fieldsFor, customFieldValue, formatCustomFieldValue } from "../domain/requirements/custom-fields";
+import type { CustomFieldSchema } from "../domain/requirements/custom-fields";
+
+export interface CustomFieldListProps {
+  requirement: MainRequirement | DerivedRequirement;
+  kind: RequirementKind;
+  fields: CustomFieldSchema;
+}
+
+export function CustomFieldList({ requirement, kind, fields }: CustomFieldListProps) {
+  const values = fieldsFor(fields, kind).flatMap(([name]) => {
+    const value = customFieldValue(requirement, name);
+    return value === undefined ? [] : [[name, formatCustomFieldValue(value)] as const];
+  });
+
+  if (values.length === 0) {
+    return null;
+  }
+
+  return (
+    <dl
+      className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500"
+      data-testid={`custom-fields-${requirement.id}`}
+    >
+      {values.map(([name, value]) => (
+        <div key={name} className="flex gap-1">
+          <dt className="font-medium text-gray-600">{`${name}:`}</dt>
+          <dd>{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { renderToString } from "react-dom/server";
+import { DiagnosticsPanel } from "./DiagnosticsPanel";
+import type { ParseDiagnostic } from "../infrastructure/yaml-parser";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const DIAGNOSTICS: ParseDiagnostic[] = [
+  {
+    file: "main.yaml",
+    rule: "schema",
+    index: 2,
+    requirementId: "req-003",
+    field: "priority",
+    line: 14,
+    column: 15,
+    message: "priority must be one of: high, medium, low",
+  },
+  {
+    file: "derived.yaml",
+    rule: "schema",
+    index: 0,
+    requirementId: null,
+    field: "id",
+    line: null,
+    column: null,
+    message: "id must be a non-empty string",
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("DiagnosticsPanel", () => {
+  test("renders nothing when there are no diagnostics", () => {
+    const html = renderToString(<DiagnosticsPanel diagnostics={[]} />);
+    expect(html).toBe("");
+  });
+
+  test("renders the panel with a problem count", () => {
+    const html = renderToString(<DiagnosticsPanel diagnostics={DIAGNOSTICS} />);
+    expect(html).toContain("diagnostics-panel");
+    expect(html).toContain("2 problem(s) found");
+  });
+
+  test("renders one item per diagnostic", () => {
+    const html = renderToString(<DiagnosticsPanel diagnostics={DIAGNOSTICS} />);
+    expect(html.match(/data-testid="diagnostic-item"/g)).toHaveLength(2);
+  });
+
+  test("renders file:line:column and message for located diagnostics", () => {
+    const html = renderToString(<DiagnosticsPanel diagnostics={DIAGNOSTICS} />);
+    expect(html).toContain("main.yaml:14:15 priority must be one of: high, medium, low");
+  });
+
+  test("falls back to the requirement index when there is no position", () => {
+    const html = renderToString(<DiagnosticsPanel diagnostics={DIAGNOSTICS} />);
+    expect(html).toContain("derived.yaml requirement at index 0");
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Lists requirements that failed validation and were skipped during load,
+ * so they stay visible while the valid requirements render normally.
+ */
+
+import type { ParseDiagnostic } from "../infrastructure/yaml-parser";
+import { formatParseDiagnostic } from "../infrastructure/yaml-parser";
+
+export interface DiagnosticsPanelProps {
+  diagnostics: ParseDiagnostic[];
+}
+
+export function DiagnosticsPanel({ diagnostics }: DiagnosticsPanelProps) {
+  console.debug(`[design-duck:ui] Rendering DiagnosticsPanel: ${diagnostics.length} diagnostics`);
+
+  if (diagnostics.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      className="mb-6 rounded-lg border border-amber-200 bg-amber-50 px-5 py-4"
+      data-testid="diagnostics-panel"
+    >
+      <p className="text-sm font-medium text-amber-900">
+        {`${diagnostics.length} problem(s) found — affected requirements are not shown below`}
+      </p>
+      <ul className="mt-2 space-y-1">
+        {diagnostics.map((diagnostic, i) => (
+          <li
+            key={`${diagnostic.file}-${diagnostic.index}-${i}`}
+            className="font-mono text-xs text-amber-800"
+            data-testid="diagnostic-item"
+          >
+            {formatParseDiagnostic(diagnostic)}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,20 @@
+import { describe, expect, test } from "bun:test";
+import { renderToString } from "react-dom/server";
+import { EditableId } from "./EditableId";
+
+describe("EditableId", () => {
+  test("renders just the ID without a rename handler", () => {
+    const html = renderToString(<EditableId id="req-001" />);
+
+    expect(html).toContain("req-001");
+    expect(html).not.toContain("Rename ID");
+  });
+
+  test("renders a rename button with a rename handler", () => {
+    const html = renderToString(<EditableId id="req-001" onRename={async () => null} />);
+
+    expect(html).toContain("req-001");
+    expect(html).toContain('title="Rename ID"');
+    expect(html).toContain('data-testid="rename-button-req-001"');
+  });
+});
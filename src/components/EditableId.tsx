@@ -0,0 +1,97 @@
+/**
+ * A requirement ID label that can be renamed in place.
+ *
+ * Without an `onRename` handler it renders the plain label. With one, a
+ * pencil button turns the label into a small form; the rename itself
+ * (including updating every `derivedFrom` reference) is done by the caller.
+ */
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+
+export interface EditableIdProps {
+  id: string;
+  /** Renames the requirement; resolves with an error message, or null on success. */
+  onRename?: (newId: string) => Promise<string | null>;
+}
+
+export function EditableId({ id, onRename }: EditableIdProps) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(id);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const label = (
+    <span className="text-xs font-medium tracking-wide text-gray-400 uppercase">
+      {id}
+    </span>
+  );
+
+  if (!onRename) {
+    return label;
+  }
+
+  if (!editing) {
+    return (
+      <span className="inline-flex items-center gap-1">
+        {label}
+        <button
+          type="button"
+          className="text-xs text-gray-300 hover:text-gray-600"
+          title="Rename ID"
+          aria-label={`Rename ${id}`}
+          data-testid={`rename-button-${id}`}
+          onClick={() => {
+            setValue(id);
+            setError(null);
+            setEditing(true);
+          }}
+        >
+          ✎
+        </button>
+      </span>
+    );
+  }
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    const newId = value.trim();
+    if (newId === id) {
+      setEditing(false);
+      return;
+    }
+    setSaving(true);
+    const message = await onRename(newId);
+    setSaving(false);
+    if (message === null) {
+      setEditing(false);
+    } else {
+      setError(message);
+    }
+  };
+
+  return (
+    <form className="inline-flex flex-col" onSubmit={submit} data-testid={`rename-form-${id}`}>
+      <span className="inline-flex items-center gap-1">
+        <input
+          className="w-32 rounded border border-gray-300 px-1.5 py-0.5 font-mono text-xs"
+          value={value}
+          autoFocus
+          disabled={saving}
+          aria-label="New ID"
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setEditing(false);
+          }}
+        />
+        <button type="submit" className="text-xs font-medium text-blue-600" disabled={saving}>
+          Save
+        </button>
+        <button type="button" className="text-xs text-gray-500" onClick={() => setEditing(false)}>
+          Cancel
+        </button>
+      </span>
+      {error && <span className="mt-1 text-xs text-red-600">{error}</span>}
+    </form>
+  );
+}
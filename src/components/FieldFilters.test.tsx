@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { renderToString } from "react-dom/server";
+import { FieldFilters } from "./FieldFilters";
+import type { MainRequirement } from "../domain/requirements/requirement";
+
+const REQUIREMENTS = [
+  { id: "req-001", description: "d", userValue: "v", priority: "high", status: "draft", owner: "bob", tags: ["ui"] },
+  { id: "req-002", description: "d", userValue: "v", priority: "low", status: "draft", owner: "alice" },
+] as unknown as MainRequirement[];
+
+const noop = () => {};
+
+describe("FieldFilters", () => {
+  test("renders nothing when no custom fields are declared", () => {
+    const html = renderToString(<FieldFilters fields={{}} requirements={REQUIREMENTS} selected={{}} onChange={noop} />);
+    expect(html).toBe("");
+  });
+
+  test("offers the values that occur in the requirements, sorted", () => {
+    const html = renderToString(
+      <FieldFilters
+        fields={{ owner: { type: "string" }, tags: { type: "list" } }}
+        requirements={REQUIREMENTS}
+        selected={{}}
+        onChange={noop}
+      />,
+    );
+    expect(html).toContain('data-testid="field-filter-owner"');
+    expect(html.indexOf(">alice<")).toBeLessThan(html.indexOf(">bob<"));
+    expect(html).toContain(">ui<");
+  });
+
+  test("offers the declared values of enum fields", () => {
+    const html = renderToString(
+      <FieldFilters
+        fields={{ release: { type: "enum", values: ["2025.1", "2025.2"] } }}
+        requirements={REQUIREMENTS}
+        selected={{ release: "2025.2" }}
+        onChange={noop}
+      />,
+    );
+    expect(html).toContain(">2025.1<");
+    expect(html).toMatch(/value="2025.2" selected/);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * One drop-down per custom field declared in config.yaml, for narrowing the
+ * requirements shown. Enum fields offer their declared values; other fields
+ * offer the values that occur in the loaded requirements.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { customFieldValue, formatCustomFieldValue } from "../domain/requirements/custom-fields";
+import type { CustomFieldSchema } from "../domain/requirements/custom-fields";
+
+export interface FieldFiltersProps {
+  fields: CustomFieldSchema;
+  requirements: (MainRequirement | DerivedRequirement)[];
+  /** Selected value per field; fields without one aren't filtered on. */
+  selected: Record<string, string>;
+  onChange: (name: string, value: string | null) => void;
+}
+
+export function FieldFilters({ fields, requirements, selected, onChange }: FieldFiltersProps) {
+  const names = Object.keys(fields);
+  if (names.length === 0) {
+    return null;
+  }
+
+  const optionsFor = (name: string): string[] => {
+    const declared = fields[name].values;
+    if (declared) return declared;
+
+    const values = new Set<string>();
+    for (const requirement of requirements) {
+      const value = customFieldValue(requirement, name);
+      if (value === undefined) continue;
+      for (const v of Array.isArray(value) ? value : [formatCustomFieldValue(value)]) {
+        values.add(v);
+      }
+    }
+    return [...values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  };
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-3" data-testid="field-filters">
+      {names.map((name) => (
+        <label key={name} className="flex items-center gap-1.5 text-xs text-gray-600">
+          {name}
+          <select
+            className="rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+            value={selected[name] ?? ""}
+            onChange={(e) => onChange(name, e.target.value === "" ? null : e.target.value)}
+            data-testid={`field-filter-${name}`}
+          >
+            <option value="">any</option>
+            {optionsFor(name).map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+    </div>
+  );
+}
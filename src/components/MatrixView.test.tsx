@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { renderToString } from "react-dom/server";
+import { MatrixView } from "./MatrixView";
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+
+const MAIN: MainRequirement[] = [
+  { id: "req-001", description: "Search", userValue: "v", priority: "high", status: "draft" },
+  { id: "req-002", description: "Export", userValue: "v", priority: "low", status: "draft" },
+];
+
+const DERIVED: DerivedRequirement[] = [
+  {
+    id: "der-001",
+    description: "Index",
+    derivedFrom: ["req-001"],
+    rationale: "r",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+  },
+  {
+    id: "der-002",
+    description: "Cache",
+    derivedFrom: ["req-404"],
+    rationale: "r",
+    category: "quality",
+    priority: "low",
+    status: "draft",
+  },
+];
+
+const noop = () => {};
+
+describe("MatrixView", () => {
+  test("marks links and highlights uncovered rows and orphan columns", () => {
+    const html = renderToString(
+      <MatrixView mainRequirements={MAIN} derivedRequirements={DERIVED} groupBy="requirement" onGroupByChange={noop} />,
+    );
+
+    expect(html).toContain('data-testid="matrix-row-req-001" data-uncovered="false"');
+    expect(html).toContain('data-testid="matrix-row-req-002" data-uncovered="true"');
+    expect(html).toContain('data-testid="matrix-column-der-001" data-orphan="false"');
+    expect(html).toContain('data-testid="matrix-column-der-002" data-orphan="true"');
+    expect(html).toContain("✓");
+    expect(html).toContain("bg-red-50");
+    expect(html).toContain("bg-amber-50");
+  });
+
+  test("shows one column per category when grouped", () => {
+    const html = renderToString(
+      <MatrixView mainRequirements={MAIN} derivedRequirements={DERIVED} groupBy="category" onGroupByChange={noop} />,
+    );
+
+    expect(html).toContain('data-testid="matrix-column-technical"');
+    expect(html).toContain('data-testid="matrix-column-quality"');
+    expect(html).not.toContain("matrix-column-der-001");
+    expect(html).toMatch(/value="category" selected/);
+  });
+});
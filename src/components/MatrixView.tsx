@@ -0,0 +1,109 @@
+/**
+ * Main × derived traceability matrix, the UI counterpart of
+ * `design-duck matrix`. Rows with no derived requirements are highlighted
+ * red and columns with no parent amber.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { buildTraceabilityMatrix, MATRIX_GROUPINGS } from "../domain/requirements/matrix";
+import type { MatrixGrouping } from "../domain/requirements/matrix";
+import { DEFAULT_VOCABULARIES } from "../domain/requirements/vocabulary";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+
+export interface MatrixViewProps {
+  mainRequirements: MainRequirement[];
+  derivedRequirements: DerivedRequirement[];
+  /** One column per derived requirement, or one per category. */
+  groupBy: MatrixGrouping;
+  onGroupByChange: (groupBy: MatrixGrouping) => void;
+  /** Category order for grouped columns. */
+  vocabularies?: Vocabularies;
+}
+
+const GROUPING_LABELS: Record<MatrixGrouping, string> = {
+  requirement: "Derived requirements",
+  category: "Categories",
+};
+
+export function MatrixView({
+  mainRequirements,
+  derivedRequirements,
+  groupBy,
+  onGroupByChange,
+  vocabularies = DEFAULT_VOCABULARIES,
+}: MatrixViewProps) {
+  console.debug(`[design-duck:ui] Rendering MatrixView: ${mainRequirements.length} rows, grouped by ${groupBy}`);
+
+  const matrix = buildTraceabilityMatrix(mainRequirements, derivedRequirements, groupBy, vocabularies.categories);
+
+  return (
+    <div data-testid="matrix-view">
+      <label className="mb-3 flex items-center gap-1.5 text-xs text-gray-600">
+        Columns
+        <select
+          className="rounded border border-gray-300 bg-white px-2 py-1 text-xs"
+          value={groupBy}
+          onChange={(e) => onGroupByChange(e.target.value as MatrixGrouping)}
+          data-testid="matrix-group-by"
+        >
+          {MATRIX_GROUPINGS.map((grouping) => (
+            <option key={grouping} value={grouping}>
+              {GROUPING_LABELS[grouping]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white shadow-sm">
+        <table className="text-sm">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="px-3 py-2 text-left text-xs font-medium text-gray-500" scope="col">
+                Main requirement
+              </th>
+              {matrix.columns.map((column) => (
+                <th
+                  key={column.key}
+                  className={`px-2 py-2 font-mono text-xs font-medium ${
+                    column.orphan ? "bg-amber-50 text-amber-800" : "text-gray-600"
+                  }`}
+                  scope="col"
+                  title={column.orphan ? `${column.title} (no parent)` : column.title}
+                  data-testid={`matrix-column-${column.key}`}
+                  data-orphan={column.orphan}
+                >
+                  {column.key}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.rows.map((row) => (
+              <tr
+                key={row.id}
+                className={`border-t border-gray-100 ${row.uncovered ? "bg-red-50" : ""}`}
+                data-testid={`matrix-row-${row.id}`}
+                data-uncovered={row.uncovered}
+              >
+                <th className="px-3 py-1.5 text-left font-normal" scope="row" title={row.description}>
+                  <span className="font-mono text-xs font-semibold text-gray-700">{row.id}</span>{" "}
+                  <span className="text-gray-500">{row.description}</span>
+                </th>
+                {row.cells.map((links, i) => (
+                  <td
+                    key={matrix.columns[i].key}
+                    className={`px-2 py-1.5 text-center font-semibold text-emerald-700 ${
+                      matrix.columns[i].orphan ? "bg-amber-50" : ""
+                    }`}
+                  >
+                    {links === 0 ? "" : groupBy === "requirement" ? "✓" : links}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
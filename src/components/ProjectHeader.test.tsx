@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import { renderToString } from "react-dom/server";
+import { ProjectHeader } from "./ProjectHeader";
+import type { Project } from "../domain/project/project";
+
+const SHOP: Project = {
+  name: "Web Shop",
+  description: "Online store for outdoor gear",
+  version: "2.1.0",
+  owners: ["alice", "platform-team"],
+  links: [{ title: "Repository", url: "https://example.com/shop" }],
+};
+
+describe("ProjectHeader", () => {
+  test("falls back to the Design Duck name without a project", () => {
+    const html = renderToString(<ProjectHeader project={null} />);
+
+    expect(html).toContain("Design Duck");
+    expect(html).toContain("Requirements gathering and management");
+  });
+
+  test("shows the project name, description and version", () => {
+    const html = renderToString(<ProjectHeader project={SHOP} />);
+
+    expect(html).toContain("Web Shop");
+    expect(html).toContain("Online store for outdoor gear");
+    expect(html).toContain("v2.1.0");
+    expect(html).not.toContain("Design Duck");
+  });
+
+  test("shows owners and links", () => {
+    const html = renderToString(<ProjectHeader project={SHOP} />);
+
+    expect(html).toContain("Owners: alice, platform-team");
+    expect(html).toContain('href="https://example.com/shop"');
+    expect(html).toContain("Repository");
+  });
+
+  test("keeps the tagline when the description is empty", () => {
+    const html = renderToString(<ProjectHeader project={{ ...SHOP, description: "", owners: [], links: [] }} />);
+
+    expect(html).toContain("Requirements gathering and management");
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Page header showing the project from project.yaml: its name, description,
+ * version, owners and links. Falls back to the Design Duck name and tagline
+ * while no project is loaded.
+ */
+
+import type { Project } from "../domain/project/project";
+
+export interface ProjectHeaderProps {
+  project: Project | null;
+}
+
+export const DEFAULT_TITLE = "Design Duck";
+const DEFAULT_DESCRIPTION = "Requirements gathering and management";
+
+export function ProjectHeader({ project }: ProjectHeaderProps) {
+  const name = project?.name ?? DEFAULT_TITLE;
+  const description = project?.description || DEFAULT_DESCRIPTION;
+
+  return (
+    <header className="border-b border-gray-200 bg-white px-6 py-4 shadow-sm" data-testid="project-header">
+      <div className="flex items-baseline gap-3">
+        <h1 className="text-xl font-semibold tracking-tight">{name}</h1>
+        {project?.version && (
+          <span className="rounded bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+            {`v${project.version}`}
+          </span>
+        )}
+      </div>
+      <p className="mt-1 text-sm text-gray-500">{description}</p>
+      {project && (project.owners.length > 0 || project.links.length > 0) && (
+        <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+          {project.owners.length > 0 && <span>{`Owners: ${project.owners.join(", ")}`}</span>}
+          {project.links.map((link) => (
+            <a
+              key={link.url}
+              href={link.url}
+              className="text-blue-600 hover:underline"
+              target="_blank"
+              rel="noreferrer"
+            >
+              {link.title}
+            </a>
+          ))}
+        </div>
+      )}
+    </header>
+  );
+}
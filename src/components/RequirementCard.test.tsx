@@ -2,6 +2,7 @@ import { describe, expect, test } from "bun:test";
 import { renderToString } from "react-dom/server";
 import { RequirementCard } from "./RequirementCard";
 import type { MainRequirement } from "../domain/requirements/requirement";
+import { DEFAULT_VOCABULARIES } from "../domain/requirements/vocabulary";
 
 // ---------------------------------------------------------------------------
 // Fixtures
@@ -103,4 +104,72 @@ describe("RequirementCard", () => {
     expect(html).toContain("bg-emerald-100");
     expect(html).toContain("text-emerald-800");
   });
+
+  test("renders acceptance criteria in bullet and Given/When/Then form", () => {
+    const requirement: MainRequirement = {
+      ...HIGH_DRAFT,
+      acceptanceCriteria: [
+        "Results appear within 1 second",
+        { given: "a mug", when: "searching mug", then: "it is listed" },
+      ],
+    };
+    const html = renderToString(<RequirementCard requirement={requirement} />);
+    expect(html).toContain("acceptance-criteria-req-001");
+    expect(html).toContain("Results appear within 1 second");
+    expect(html).toContain("searching mug");
+    expect(html).toContain("it is listed");
+  });
+
+  test("omits the acceptance criteria section when there are none", () => {
+    const html = renderToString(<RequirementCard requirement={HIGH_DRAFT} />);
+    expect(html).not.toContain("acceptance-criteria-");
+  });
+
+  test("uses the labels and colors of the configured vocabularies", () => {
+    const vocabularies = {
+      ...DEFAULT_VOCABULARIES,
+      priorities: [{ value: "p0", label: "Blocker", color: "pink" as const }],
+    };
+    const html = renderToString(
+      <RequirementCard requirement={{ ...HIGH_DRAFT, priority: "p0", status: "done" }} vocabularies={vocabularies} />,
+    );
+    expect(html).toContain("Blocker");
+    expect(html).toContain("bg-pink-100");
+    // Values missing from the vocabulary are shown as-is
+    expect(html).toContain(">done<");
+  });
+
+  test("shows custom field values declared in the config", () => {
+    const requirement = { ...HIGH_DRAFT, owner: "alice", tags: ["search", "ui"], due: new Date("2025-03-01") };
+    const html = renderToString(
+      <RequirementCard
+        requirement={requirement}
+        fields={{ owner: { type: "string" }, tags: { type: "list" }, due: { type: "date" }, team: { type: "string" } }}
+      />,
+    );
+    expect(html).toContain('data-testid="custom-fields-req-001"');
+    expect(html).toContain("alice");
+    expect(html).toContain("search, ui");
+    expect(html).toContain("2025-03-01");
+    expect(html).not.toContain("team:");
+  });
+
+  test("renders no custom field list without declared fields", () => {
+    const html = renderToString(<RequirementCard requirement={{ ...HIGH_DRAFT, owner: "alice" } as MainRequirement} />);
+    expect(html).not.toContain("custom-fields-");
+    expect(html).not.toContain("alice");
+  });
+
+  test("marks a requirement that just changed", () => {
+    const changed = renderToString(
+      <RequirementCard requirement={HIGH_DRAFT} change={{ change: "modified", fields: ["status", "priority"] }} />,
+    );
+    expect(changed).toContain('data-testid="change-marker-req-001"');
+    expect(changed).toContain("Changed: status, priority");
+    expect(changed).toContain("border-amber-300");
+
+    expect(renderToString(<RequirementCard requirement={HIGH_DRAFT} change={{ change: "added", fields: [] }} />))
+      .toContain(">New<");
+    expect(renderToString(<RequirementCard requirement={HIGH_DRAFT} />)).not.toContain("change-marker-");
+  });
 });
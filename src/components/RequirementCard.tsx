@@ -1,52 +1,72 @@
 /**
- * Renders a single main requirement as a card with priority and status badges.
+ * Renders a single main requirement as a card with priority, status and
+ * verification badges, its acceptance criteria, any custom field values and the files linked to it.
+ * A requirement that just changed on disk is outlined and marked.
  */
 
-import type { MainRequirement, Priority, Status } from "../domain/requirements/requirement";
-
-const PRIORITY_STYLES: Record<Priority, string> = {
-  high: "bg-red-100 text-red-800",
-  medium: "bg-yellow-100 text-yellow-800",
-  low: "bg-green-100 text-green-800",
-};
-
-const STATUS_STYLES: Record<Status, string> = {
-  draft: "bg-gray-100 text-gray-700",
-  review: "bg-blue-100 text-blue-800",
-  approved: "bg-emerald-100 text-emerald-800",
-};
+import type { MainRequirement } from "../domain/requirements/requirement";
+import type { CustomFieldSchema } from "../domain/requirements/custom-fields";
+import { DEFAULT_VOCABULARIES } from "../domain/requirements/vocabulary";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+import type { RequirementTrace } from "../domain/requirements/trace";
+import { VERIFICATION_VOCABULARY } from "../domain/requirements/verification";
+import type { RequirementVerification } from "../domain/requirements/verification";
+import type { RequirementChange } from "../domain/requirements/diff";
+import { EditableId } from "./EditableId";
+import { CustomFieldList } from "./CustomFieldList";
+import { Badge } from "./Badge";
+import { TraceLinks } from "./TraceLinks";
+import { ChangeMarker } from "./ChangeMarker";
 
 export interface RequirementCardProps {
   requirement: MainRequirement;
+  /** When given, the ID can be renamed from the card. */
+  onRename?: (newId: string) => Promise<string | null>;
+  /** Custom fields declared in config.yaml, shown below the user value. */
+  fields?: CustomFieldSchema;
+  /** Labels and colors for the priority and status badges. */
+  vocabularies?: Vocabularies;
+  /** Files that implement and tests that verify the requirement. */
+  trace?: RequirementTrace;
+  /** Verification state from test results; no badge is shown without one. */
+  verification?: RequirementVerification;
+  /** How the requirement just changed on disk, if it did. */
+  change?: RequirementChange;
 }
 
-export function RequirementCard({ requirement }: RequirementCardProps) {
-  const { id, description, userValue, priority, status } = requirement;
+export function RequirementCard({
+  requirement,
+  onRename,
+  fields = {},
+  vocabularies = DEFAULT_VOCABULARIES,
+  trace,
+  verification,
+  change,
+}: RequirementCardProps) {
+  const { id, description, userValue, priority, status, acceptanceCriteria = [] } = requirement;
 
   console.debug(`[design-duck:ui] Rendering RequirementCard: ${id}`);
 
   return (
     <article
-      className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm transition-shadow hover:shadow-md"
+      className={`rounded-lg border bg-white p-5 shadow-sm transition-shadow hover:shadow-md ${
+        change ? "border-amber-300" : "border-gray-200"
+      }`}
       data-testid={`requirement-card-${id}`}
     >
       <div className="mb-3 flex items-center justify-between">
-        <span className="text-xs font-medium tracking-wide text-gray-400 uppercase">
-          {id}
-        </span>
+        <EditableId id={id} onRename={onRename} />
         <div className="flex gap-2">
-          <span
-            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold ${PRIORITY_STYLES[priority]}`}
-            data-testid={`priority-badge-${id}`}
-          >
-            {priority}
-          </span>
-          <span
-            className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold ${STATUS_STYLES[status]}`}
-            data-testid={`status-badge-${id}`}
-          >
-            {status}
-          </span>
+          <ChangeMarker id={id} change={change} />
+          <Badge value={priority} vocabulary={vocabularies.priorities} testId={`priority-badge-${id}`} />
+          <Badge value={status} vocabulary={vocabularies.statuses} testId={`status-badge-${id}`} />
+          {verification && (
+            <Badge
+              value={verification.state}
+              vocabulary={VERIFICATION_VOCABULARY}
+              testId={`verification-badge-${id}`}
+            />
+          )}
         </div>
       </div>
 
@@ -57,6 +77,30 @@ export function RequirementCard({ requirement }: RequirementCardProps) {
       <p className="text-sm leading-relaxed text-gray-500">
         {userValue}
       </p>
+
+      {acceptanceCriteria.length > 0 && (
+        <div className="mt-3" data-testid={`acceptance-criteria-${id}`}>
+          <p className="text-xs font-medium tracking-wide text-gray-400 uppercase">Acceptance criteria</p>
+          <ul className="mt-1 list-disc space-y-0.5 pl-5 text-sm text-gray-600">
+            {acceptanceCriteria.map((criterion, i) => (
+              <li key={i}>
+                {typeof criterion === "string" ? (
+                  criterion
+                ) : (
+                  <>
+                    <span className="font-medium text-gray-700">Given</span> {criterion.given},{" "}
+                    <span className="font-medium text-gray-700">when</span> {criterion.when},{" "}
+                    <span className="font-medium text-gray-700">then</span> {criterion.then}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <CustomFieldList requirement={requirement} kind="main" fields={fields} />
+      <TraceLinks id={id} trace={trace} />
     </article>
   );
 }
@@ -351,4 +351,79 @@ describe("RequirementTree", () => {
     expect(html).toContain("bg-teal-100");
     expect(html).toContain("text-teal-800");
   });
+
+  test("shows the files linked to main and derived requirements", () => {
+    const trace = {
+      requirements: [
+        { id: "req-001", kind: "main" as const, implementedBy: [{ file: "src/search.ts", line: 4 }], verifiedBy: [] },
+        {
+          id: "der-001",
+          kind: "derived" as const,
+          implementedBy: [],
+          verifiedBy: [{ file: "src/index.test.ts", line: 9, test: "indexes products" }],
+        },
+      ],
+      uncovered: [],
+      unknownReferences: [],
+    };
+    const html = renderToString(
+      <RequirementTree
+        mainRequirements={[MAIN_REQUIREMENTS[0]]}
+        derivedRequirements={[DERIVED_REQUIREMENTS[0], DERIVED_REQUIREMENTS[2]]}
+        loading={false}
+        error={null}
+        trace={trace}
+      />,
+    );
+    expect(html).toContain("trace-links-req-001");
+    expect(html).toContain("src/search.ts:4");
+    expect(html).toContain("trace-links-der-001");
+    expect(html).toContain("src/index.test.ts:9");
+    expect(html).not.toContain("trace-links-der-003");
+  });
+
+  test("shows verification badges only when the report has test results", () => {
+    const verification = {
+      requirements: [
+        { id: "req-001", kind: "main" as const, state: "verified" as const, tests: [] },
+        { id: "der-001", kind: "derived" as const, state: "failing" as const, tests: [] },
+      ],
+      counts: { verified: 1, failing: 1, untested: 0 },
+      testCount: 2,
+    };
+    const render = (report: typeof verification) =>
+      renderToString(
+        <RequirementTree
+          mainRequirements={[MAIN_REQUIREMENTS[0]]}
+          derivedRequirements={[DERIVED_REQUIREMENTS[0]]}
+          loading={false}
+          error={null}
+          verification={report}
+        />,
+      );
+
+    const html = render(verification);
+    expect(html).toContain('data-testid="verification-badge-req-001"');
+    expect(html).toContain("Verified");
+    expect(html).toContain('data-testid="verification-badge-der-001"');
+    expect(html).toContain("Failing");
+
+    expect(render({ ...verification, testCount: 0 })).not.toContain("verification-badge-");
+  });
+
+  test("marks the requirements that just changed", () => {
+    const html = renderToString(
+      <RequirementTree
+        mainRequirements={[MAIN_REQUIREMENTS[0]]}
+        derivedRequirements={[DERIVED_REQUIREMENTS[0]]}
+        loading={false}
+        error={null}
+        changes={{ "der-001": { change: "modified", fields: ["rationale"] } }}
+      />,
+    );
+
+    expect(html).toContain('data-testid="change-marker-der-001"');
+    expect(html).toContain("Changed: rationale");
+    expect(html).not.toContain('data-testid="change-marker-req-001"');
+  });
 });
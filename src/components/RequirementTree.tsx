@@ -5,74 +5,91 @@
  */
 
 import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { buildDerivedMap } from "../domain/requirements/traceability";
 import { RequirementCard } from "./RequirementCard";
-
-/** Style map for derived-requirement category badges. */
-const CATEGORY_STYLES: Record<string, string> = {
-  technical: "bg-purple-100 text-purple-800",
-  operational: "bg-indigo-100 text-indigo-800",
-  quality: "bg-teal-100 text-teal-800",
-  constraint: "bg-orange-100 text-orange-800",
-};
-
-const PRIORITY_STYLES: Record<string, string> = {
-  high: "bg-red-100 text-red-800",
-  medium: "bg-yellow-100 text-yellow-800",
-  low: "bg-green-100 text-green-800",
-};
+import { EditableId } from "./EditableId";
+import { CustomFieldList } from "./CustomFieldList";
+import { Badge } from "./Badge";
+import { TraceLinks } from "./TraceLinks";
+import { ChangeMarker } from "./ChangeMarker";
+import type { CustomFieldSchema } from "../domain/requirements/custom-fields";
+import { DEFAULT_VOCABULARIES } from "../domain/requirements/vocabulary";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+import type { RequirementTrace, TraceReport } from "../domain/requirements/trace";
+import { VERIFICATION_VOCABULARY } from "../domain/requirements/verification";
+import type { RequirementVerification, VerificationReport } from "../domain/requirements/verification";
+import type { RequirementChange } from "../domain/requirements/diff";
 
 export interface RequirementTreeProps {
   mainRequirements: MainRequirement[];
   derivedRequirements: DerivedRequirement[];
   loading: boolean;
   error: string | null;
+  /**
+   * When given, IDs can be renamed from the tree. Resolves with an error
+   * message, or null on success.
+   */
+  onRename?: (oldId: string, newId: string) => Promise<string | null>;
+  /** Custom fields declared in config.yaml, shown on each requirement. */
+  fields?: CustomFieldSchema;
+  /** Labels and colors for the priority, status and category badges. */
+  vocabularies?: Vocabularies;
+  /** Trace report; when given, each requirement shows the files linked to it. */
+  trace?: TraceReport | null;
+  /** Verification report; when it was built from any test results, each requirement shows its state. */
+  verification?: VerificationReport | null;
+  /** Requirements that just changed on disk, by ID; they are highlighted. */
+  changes?: Record<string, RequirementChange>;
 }
 
-/**
- * Builds a lookup from main requirement id to its derived requirements.
- */
-function buildDerivedMap(
-  derivedRequirements: DerivedRequirement[],
-): Map<string, DerivedRequirement[]> {
-  const map = new Map<string, DerivedRequirement[]>();
-  for (const derived of derivedRequirements) {
-    for (const parentId of derived.derivedFrom) {
-      const list = map.get(parentId) ?? [];
-      list.push(derived);
-      map.set(parentId, list);
-    }
-  }
-  return map;
-}
-
-function DerivedRequirementItem({ derived }: { derived: DerivedRequirement }) {
-  const categoryStyle = CATEGORY_STYLES[derived.category] ?? "bg-gray-100 text-gray-700";
-  const priorityStyle = PRIORITY_STYLES[derived.priority] ?? "bg-gray-100 text-gray-700";
-
+function DerivedRequirementItem({
+  derived,
+  onRename,
+  fields,
+  vocabularies,
+  trace,
+  verification,
+  change,
+}: {
+  derived: DerivedRequirement;
+  onRename?: (newId: string) => Promise<string | null>;
+  fields: CustomFieldSchema;
+  vocabularies: Vocabularies;
+  trace?: RequirementTrace;
+  verification?: RequirementVerification;
+  change?: RequirementChange;
+}) {
   console.debug(`[design-duck:ui] Rendering DerivedRequirementItem: ${derived.id}`);
 
   return (
     <div
-      className="rounded-md border border-gray-100 bg-gray-50 px-4 py-3"
+      className={`rounded-md border bg-gray-50 px-4 py-3 ${change ? "border-amber-300" : "border-gray-100"}`}
       data-testid={`derived-item-${derived.id}`}
     >
       <div className="mb-2 flex items-center justify-between">
-        <span className="text-xs font-medium tracking-wide text-gray-400 uppercase">
-          {derived.id}
-        </span>
+        <EditableId id={derived.id} onRename={onRename} />
         <div className="flex gap-2">
-          <span
-            className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ${categoryStyle}`}
-            data-testid={`category-badge-${derived.id}`}
-          >
-            {derived.category}
-          </span>
-          <span
-            className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-semibold ${priorityStyle}`}
-            data-testid={`priority-badge-${derived.id}`}
-          >
-            {derived.priority}
-          </span>
+          <ChangeMarker id={derived.id} change={change} />
+          <Badge
+            value={derived.category}
+            vocabulary={vocabularies.categories}
+            testId={`category-badge-${derived.id}`}
+            compact
+          />
+          <Badge
+            value={derived.priority}
+            vocabulary={vocabularies.priorities}
+            testId={`priority-badge-${derived.id}`}
+            compact
+          />
+          {verification && (
+            <Badge
+              value={verification.state}
+              vocabulary={VERIFICATION_VOCABULARY}
+              testId={`verification-badge-${derived.id}`}
+              compact
+            />
+          )}
         </div>
       </div>
 
@@ -80,6 +97,9 @@ function DerivedRequirementItem({ derived }: { derived: DerivedRequirement }) {
       <p className="mt-1 text-xs leading-relaxed text-gray-500">
         {derived.rationale}
       </p>
+
+      <CustomFieldList requirement={derived} kind="derived" fields={fields} />
+      <TraceLinks id={derived.id} trace={trace} />
     </div>
   );
 }
@@ -89,6 +109,12 @@ export function RequirementTree({
   derivedRequirements,
   loading,
   error,
+  onRename,
+  fields = {},
+  vocabularies = DEFAULT_VOCABULARIES,
+  trace = null,
+  verification = null,
+  changes = {},
 }: RequirementTreeProps) {
   console.debug(
     `[design-duck:ui] Rendering RequirementTree: ${mainRequirements.length} main, ${derivedRequirements.length} derived`,
@@ -131,6 +157,11 @@ export function RequirementTree({
   }
 
   const derivedMap = buildDerivedMap(derivedRequirements);
+  const traces = new Map((trace?.requirements ?? []).map((t) => [t.id, t]));
+  // Without any test results every requirement would read "untested"; show nothing instead
+  const verifications = new Map(
+    verification && verification.testCount > 0 ? verification.requirements.map((v) => [v.id, v]) : [],
+  );
 
   return (
     <div className="grid gap-6" data-testid="requirement-tree">
@@ -139,7 +170,15 @@ export function RequirementTree({
 
         return (
           <div key={mainReq.id} data-testid={`tree-node-${mainReq.id}`}>
-            <RequirementCard requirement={mainReq} />
+            <RequirementCard
+              requirement={mainReq}
+              onRename={onRename && ((newId) => onRename(mainReq.id, newId))}
+              fields={fields}
+              vocabularies={vocabularies}
+              trace={traces.get(mainReq.id)}
+              verification={verifications.get(mainReq.id)}
+              change={changes[mainReq.id]}
+            />
 
             {children.length > 0 && (
               <div
@@ -150,7 +189,16 @@ export function RequirementTree({
                   {`Derived Requirements (${children.length})`}
                 </p>
                 {children.map((derived) => (
-                  <DerivedRequirementItem key={derived.id} derived={derived} />
+                  <DerivedRequirementItem
+                    key={derived.id}
+                    derived={derived}
+                    onRename={onRename && ((newId) => onRename(derived.id, newId))}
+                    fields={fields}
+                    vocabularies={vocabularies}
+                    trace={traces.get(derived.id)}
+                    verification={verifications.get(derived.id)}
+                    change={changes[derived.id]}
+                  />
                 ))}
               </div>
             )}
@@ -0,0 +1,43 @@
+/**
+ * Lists the files that implement a requirement and the tests that verify
+ * it, as found by `design-duck trace`. Renders nothing when no file
+ * references the requirement.
+ */
+
+import type { RequirementTrace, TraceLink } from "../domain/requirements/trace";
+
+export interface TraceLinksProps {
+  id: string;
+  /** The requirement's entry in the trace report; nothing is shown without one. */
+  trace?: RequirementTrace;
+}
+
+function LinkList({ label, links }: { label: string; links: TraceLink[] }) {
+  return (
+    <div className="flex gap-1">
+      <dt className="font-medium text-gray-600">{`${label}:`}</dt>
+      <dd className="flex flex-wrap gap-x-2">
+        {links.map((link) => (
+          <code
+            key={`${link.file}:${link.line}`}
+            className="font-mono"
+            title={link.test}
+          >{`${link.file}:${link.line}`}</code>
+        ))}
+      </dd>
+    </div>
+  );
+}
+
+export function TraceLinks({ id, trace }: TraceLinksProps) {
+  if (!trace || (trace.implementedBy.length === 0 && trace.verifiedBy.length === 0)) {
+    return null;
+  }
+
+  return (
+    <dl className="mt-3 space-y-1 text-xs text-gray-500" data-testid={`trace-links-${id}`}>
+      {trace.implementedBy.length > 0 && <LinkList label="Implemented in" links={trace.implementedBy} />}
+      {trace.verifiedBy.length > 0 && <LinkList label="Verified by" links={trace.verifiedBy} />}
+    </dl>
+  );
+}
@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import { validateConfig, toConfig, DEFAULT_CONFIG } from "./config";
+import type { Transition } from "../requirements/workflow";
+
+describe("validateConfig", () => {
+  test("accepts an empty object", () => {
+    expect(validateConfig({})).toEqual({ valid: true });
+  });
+
+  test("accepts known rules with valid severities", () => {
+    const result = validateConfig({ lint: { rules: { "id-pattern": "error", "main-without-derived": "off" } } });
+    expect(result).toEqual({ valid: true });
+  });
+
+  test("rejects non-object config", () => {
+    expect(validateConfig([])).toEqual({ valid: false, errors: ["Config must be an object"] });
+  });
+
+  test("rejects unknown rules and invalid severities together", () => {
+    const result = validateConfig({ lint: { rules: { "no-such-rule": "error", "id-pattern": "fatal" } } });
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors).toHaveLength(2);
+      expect(result.errors[0]).toContain("lint.rules.no-such-rule is not a known rule");
+      expect(result.errors[1]).toBe("lint.rules.id-pattern must be one of: error, warning, off");
+    }
+  });
+
+  test("accepts workflow transitions with and without actors", () => {
+    const result = validateConfig({
+      workflow: { transitions: [{ from: "draft", to: "review" }, { from: "review", to: "approved", by: ["human"] }] },
+    });
+    expect(result).toEqual({ valid: true });
+  });
+
+  test("rejects invalid workflow transitions", () => {
+    const result = validateConfig({
+      workflow: { transitions: [{ from: "draft", to: "done" }, { from: "review", to: "approved", by: "human" }, "x"] },
+    });
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        "workflow.transitions[0].to must be one of: draft, review, approved",
+        "workflow.transitions[1].by must be an array of non-empty strings",
+        "workflow.transitions[2] must be an object with from and to",
+      ],
+    });
+  });
+
+  test("accepts and checks custom field declarations", () => {
+    expect(validateConfig({ fields: { owner: { type: "string", required: true } } })).toEqual({ valid: true });
+    expect(validateConfig({ fields: { owner: { type: "person" }, status: { type: "string" } } })).toEqual({
+      valid: false,
+      errors: [
+        "fields.owner.type must be one of: string, number, enum, date, list",
+        "fields.status is a built-in field and can't be redeclared",
+      ],
+    });
+    expect(validateConfig({ fields: ["owner"] })).toEqual({ valid: false, errors: ["fields must be an object"] });
+  });
+
+  test("accepts and checks vocabularies", () => {
+    expect(
+      validateConfig({ vocabulary: { priorities: ["p0", { value: "p1", label: "Normal", color: "blue" }] } }),
+    ).toEqual({ valid: true });
+    expect(validateConfig({ vocabulary: { priorities: [], severities: ["x"] } })).toEqual({
+      valid: false,
+      errors: [
+        "vocabulary.priorities must be a non-empty array",
+        "vocabulary.severities is not a known vocabulary (known: priorities, statuses, categories)",
+      ],
+    });
+  });
+
+  test("checks transitions against the configured statuses", () => {
+    const vocabulary = { statuses: ["draft", "review", "approved", "done"] };
+    expect(validateConfig({ vocabulary, workflow: { transitions: [{ from: "approved", to: "done" }] } })).toEqual({
+      valid: true,
+    });
+    expect(
+      validateConfig({
+        vocabulary: { statuses: ["open", "closed"] },
+        workflow: { transitions: [{ from: "open", to: "done" }] },
+      }),
+    ).toEqual({ valid: false, errors: ["workflow.transitions[0].to must be one of: open, closed"] });
+  });
+
+  test("requires transitions when the default statuses are replaced", () => {
+    expect(validateConfig({ vocabulary: { statuses: ["open", "closed"] } })).toEqual({
+      valid: false,
+      errors: [
+        "workflow.transitions must be given when vocabulary.statuses leaves out a default status (draft, review, approved)",
+      ],
+    });
+  });
+
+  test("checks the trace globs", () => {
+    expect(validateConfig({ trace: { include: ["src/**"], exclude: [] } })).toEqual({ valid: true });
+    expect(validateConfig({ trace: { include: "src/**", exclude: [""] } })).toEqual({
+      valid: false,
+      errors: ["trace.include must be an array of non-empty globs", "trace.exclude must be an array of non-empty globs"],
+    });
+  });
+
+  test("checks the verification settings", () => {
+    expect(validateConfig({ verification: { results: ["junit.xml"], mapping: "tests.yaml" } })).toEqual({
+      valid: true,
+    });
+    expect(validateConfig({ verification: { results: "junit.xml", mapping: "" } })).toEqual({
+      valid: false,
+      errors: [
+        "verification.results must be an array of non-empty globs",
+        "verification.mapping must be a non-empty path",
+      ],
+    });
+  });
+
+  test("rejects a non-object rules section", () => {
+    expect(validateConfig({ lint: { rules: ["id-pattern"] } })).toEqual({
+      valid: false,
+      errors: ["lint.rules must be an object"],
+    });
+  });
+});
+
+describe("toConfig", () => {
+  test("fills in defaults for missing sections", () => {
+    expect(toConfig({})).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("keeps rule overrides", () => {
+    expect(toConfig({ lint: { rules: { "id-pattern": "error" } } }).lint.rules).toEqual({ "id-pattern": "error" });
+  });
+
+  test("replaces the default transitions with the configured ones", () => {
+    const transitions: Transition[] = [{ from: "draft", to: "approved" }];
+    expect(toConfig({ workflow: { transitions } }).workflow.transitions).toEqual(transitions);
+  });
+
+  test("keeps custom field declarations", () => {
+    const fields = { tags: { type: "list" as const, kinds: ["derived" as const] } };
+    expect(toConfig({ fields }).fields).toEqual(fields);
+  });
+
+  test("normalizes configured vocabularies and keeps the defaults for the rest", () => {
+    const config = toConfig({ vocabulary: { priorities: ["p0", { value: "p1", color: "blue" }] } });
+    expect(config.vocabulary.priorities).toEqual([{ value: "p0" }, { value: "p1", color: "blue" }]);
+    expect(config.vocabulary.statuses).toEqual(DEFAULT_CONFIG.vocabulary.statuses);
+    expect(config.vocabulary.categories).toEqual(DEFAULT_CONFIG.vocabulary.categories);
+  });
+
+  test("replaces the default trace globs with the configured ones", () => {
+    const config = toConfig({ trace: { include: ["packages/**"] } });
+    expect(config.trace).toEqual({ include: ["packages/**"], exclude: [] });
+  });
+
+  test("keeps the default mapping path when only result globs are configured", () => {
+    const config = toConfig({ verification: { results: ["reports/*.xml"] } });
+    expect(config.verification).toEqual({ results: ["reports/*.xml"], mapping: "desgin-duck/test-mapping.yaml" });
+  });
+
+  test("throws with every error", () => {
+    expect(() => toConfig({ lint: "strict" })).toThrow("Invalid config: lint must be an object");
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Project configuration types and validation.
+ * Aligns with the optional desgin-duck/config.yaml file.
+ */
+
+import {
+  LINT_RULES,
+  RULE_SEVERITIES,
+} from "../requirements/lint";
+import type { LintRule, RuleSeverity } from "../requirements/lint";
+import type { ValidationResult } from "../requirements/requirement";
+import { DEFAULT_TRANSITIONS } from "../requirements/workflow";
+import type { Transition } from "../requirements/workflow";
+import { customFieldDefinitionErrors } from "../requirements/custom-fields";
+import type { CustomFieldSchema } from "../requirements/custom-fields";
+import {
+  DEFAULT_VOCABULARIES,
+  VOCABULARY_NAMES,
+  vocabularyErrors,
+  vocabularyValues,
+  toVocabulary,
+} from "../requirements/vocabulary";
+import type { Vocabularies, VocabularyName } from "../requirements/vocabulary";
+
+/** Settings for `design-duck validate` lint rules. */
+export interface LintConfig {
+  /** Severity overrides per rule; rules not listed keep their default severity. */
+  rules: Partial<Record<LintRule, RuleSeverity>>;
+}
+
+/** Settings for status changes (`design-duck status` and validate). */
+export interface WorkflowConfig {
+  /** Every allowed status change; replaces the default transitions when given. */
+  transitions: Transition[];
+}
+
+/** Settings for `design-duck trace`: which files to scan for requirement annotations. */
+export interface TraceConfig {
+  /** Globs relative to the project root; a file is scanned when it matches any of them. */
+  include: string[];
+  /** Globs for files to skip even though they match `include`. */
+  exclude: string[];
+}
+
+/** Settings for verification from test results (`design-duck coverage` and the UI badges). */
+export interface VerificationConfig {
+  /** Globs relative to the project root for JUnit XML or bun test output files. */
+  results: string[];
+  /** Path relative to the project root of the optional file mapping test names to requirement IDs. */
+  mapping: string;
+}
+
+/** Contents of desgin-duck/config.yaml. */
+export interface DesignDuckConfig {
+  lint: LintConfig;
+  workflow: WorkflowConfig;
+  /** Project-defined custom fields on requirements; none by default. */
+  fields: CustomFieldSchema;
+  /** Allowed priorities, statuses and categories, with labels and colors. */
+  vocabulary: Vocabularies;
+  trace: TraceConfig;
+  verification: VerificationConfig;
+}
+
+/** Configuration used when config.yaml is absent. */
+export const DEFAULT_CONFIG: DesignDuckConfig = {
+  lint: { rules: {} },
+  workflow: { transitions: DEFAULT_TRANSITIONS },
+  fields: {},
+  vocabulary: DEFAULT_VOCABULARIES,
+  trace: {
+    include: ["src/**", "lib/**", "app/**", "test/**", "tests/**"],
+    exclude: [],
+  },
+  verification: {
+    results: ["junit.xml", "test-results/**"],
+    mapping: "desgin-duck/test-mapping.yaml",
+  },
+};
+
+/**
+ * Validates a raw config object (as loaded from YAML).
+ * Every section is optional; unknown rule names and severities are errors.
+ */
+export function validateConfig(raw: unknown): ValidationResult {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return { valid: false, errors: ["Config must be an object"] };
+  }
+  const o = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (o.lint !== undefined) {
+    if (o.lint === null || typeof o.lint !== "object" || Array.isArray(o.lint)) {
+      errors.push("lint must be an object");
+    } else {
+      const rules = (o.lint as Record<string, unknown>).rules;
+      if (rules !== undefined) {
+        if (rules === null || typeof rules !== "object" || Array.isArray(rules)) {
+          errors.push("lint.rules must be an object");
+        } else {
+          for (const [name, severity] of Object.entries(rules)) {
+            if (!LINT_RULES.includes(name as LintRule)) {
+              errors.push(`lint.rules.${name} is not a known rule (known rules: ${LINT_RULES.join(", ")})`);
+            } else if (!RULE_SEVERITIES.includes(severity as RuleSeverity)) {
+              errors.push(`lint.rules.${name} must be one of: ${RULE_SEVERITIES.join(", ")}`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Transitions are checked against the configured statuses, so read those first
+  let statuses = vocabularyValues(DEFAULT_VOCABULARIES.statuses);
+  if (o.vocabulary !== undefined) {
+    if (o.vocabulary === null || typeof o.vocabulary !== "object" || Array.isArray(o.vocabulary)) {
+      errors.push("vocabulary must be an object");
+    } else {
+      for (const [name, entries] of Object.entries(o.vocabulary)) {
+        if (!VOCABULARY_NAMES.includes(name as VocabularyName)) {
+          errors.push(`vocabulary.${name} is not a known vocabulary (known: ${VOCABULARY_NAMES.join(", ")})`);
+          continue;
+        }
+        const entryErrors = vocabularyErrors(entries, `vocabulary.${name}`);
+        errors.push(...entryErrors);
+        if (name === "statuses" && entryErrors.length === 0) {
+          statuses = vocabularyValues(toVocabulary(entries as unknown[]));
+        }
+      }
+    }
+  }
+
+  if (o.workflow !== undefined) {
+    if (o.workflow === null || typeof o.workflow !== "object" || Array.isArray(o.workflow)) {
+      errors.push("workflow must be an object");
+    } else {
+      const transitions = (o.workflow as Record<string, unknown>).transitions;
+      if (transitions !== undefined) {
+        if (!Array.isArray(transitions)) {
+          errors.push("workflow.transitions must be an array");
+        } else {
+          for (const [i, t] of transitions.entries()) {
+            errors.push(...validateTransition(t, `workflow.transitions[${i}]`, statuses));
+          }
+        }
+      }
+    }
+  }
+
+  const transitionsGiven =
+    typeof o.workflow === "object" && o.workflow !== null && "transitions" in o.workflow;
+  const missing = vocabularyValues(DEFAULT_VOCABULARIES.statuses).filter((s) => !statuses.includes(s));
+  if (!transitionsGiven && missing.length > 0) {
+    errors.push(
+      `workflow.transitions must be given when vocabulary.statuses leaves out a default status (${missing.join(", ")})`,
+    );
+  }
+
+  if (o.fields !== undefined) {
+    if (o.fields === null || typeof o.fields !== "object" || Array.isArray(o.fields)) {
+      errors.push("fields must be an object");
+    } else {
+      for (const [name, definition] of Object.entries(o.fields)) {
+        errors.push(...customFieldDefinitionErrors(name, definition, `fields.${name}`));
+      }
+    }
+  }
+
+  if (o.trace !== undefined) {
+    if (o.trace === null || typeof o.trace !== "object" || Array.isArray(o.trace)) {
+      errors.push("trace must be an object");
+    } else {
+      for (const key of ["include", "exclude"] as const) {
+        const globs = (o.trace as Record<string, unknown>)[key];
+        if (
+          globs !== undefined &&
+          (!Array.isArray(globs) || globs.some((g) => typeof g !== "string" || g.trim() === ""))
+        ) {
+          errors.push(`trace.${key} must be an array of non-empty globs`);
+        }
+      }
+    }
+  }
+
+  if (o.verification !== undefined) {
+    if (o.verification === null || typeof o.verification !== "object" || Array.isArray(o.verification)) {
+      errors.push("verification must be an object");
+    } else {
+      const { results, mapping } = o.verification as Record<string, unknown>;
+      if (
+        results !== undefined &&
+        (!Array.isArray(results) || results.some((g) => typeof g !== "string" || g.trim() === ""))
+      ) {
+        errors.push("verification.results must be an array of non-empty globs");
+      }
+      if (mapping !== undefined && (typeof mapping !== "string" || mapping.trim() === "")) {
+        errors.push("verification.mapping must be a non-empty path");
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true };
+}
+
+function validateTransition(raw: unknown, path: string, statuses: string[]): string[] {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return [`${path} must be an object with from and to`];
+  }
+  const t = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  for (const field of ["from", "to"] as const) {
+    if (typeof t[field] !== "string" || !statuses.includes(t[field])) {
+      errors.push(`${path}.${field} must be one of: ${statuses.join(", ")}`);
+    }
+  }
+  if (
+    t.by !== undefined &&
+    (!Array.isArray(t.by) || t.by.some((actor) => typeof actor !== "string" || actor.trim() === ""))
+  ) {
+    errors.push(`${path}.by must be an array of non-empty strings`);
+  }
+  return errors;
+}
+
+/**
+ * Validates a raw config object and fills in defaults for missing sections.
+ * Throws with all errors if the config is invalid.
+ */
+export function toConfig(raw: unknown): DesignDuckConfig {
+  const result = validateConfig(raw);
+  if (!result.valid) {
+    throw new Error(`Invalid config: ${result.errors.join("; ")}`);
+  }
+  const o = raw as {
+    lint?: { rules?: LintConfig["rules"] };
+    workflow?: Partial<WorkflowConfig>;
+    fields?: CustomFieldSchema;
+    vocabulary?: Partial<Record<VocabularyName, unknown[]>>;
+    trace?: Partial<TraceConfig>;
+    verification?: Partial<VerificationConfig>;
+  };
+  return {
+    lint: { rules: { ...DEFAULT_CONFIG.lint.rules, ...o.lint?.rules } },
+    workflow: { transitions: o.workflow?.transitions ?? DEFAULT_CONFIG.workflow.transitions },
+    fields: o.fields ?? DEFAULT_CONFIG.fields,
+    vocabulary: {
+      priorities: vocabularyOrDefault(o.vocabulary?.priorities, "priorities"),
+      statuses: vocabularyOrDefault(o.vocabulary?.statuses, "statuses"),
+      categories: vocabularyOrDefault(o.vocabulary?.categories, "categories"),
+    },
+    trace: {
+      include: o.trace?.include ?? DEFAULT_CONFIG.trace.include,
+      exclude: o.trace?.exclude ?? DEFAULT_CONFIG.trace.exclude,
+    },
+    verification: {
+      results: o.verification?.results ?? DEFAULT_CONFIG.verification.results,
+      mapping: o.verification?.mapping ?? DEFAULT_CONFIG.verification.mapping,
+    },
+  };
+}
+
+function vocabularyOrDefault(raw: unknown[] | undefined, name: VocabularyName): Vocabularies[VocabularyName] {
+  return raw ? toVocabulary(raw) : DEFAULT_CONFIG.vocabulary[name];
+}
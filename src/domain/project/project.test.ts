@@ -0,0 +1,57 @@
+import { describe, expect, test } from "bun:test";
+import { projectFieldErrors, validateProject, toProject } from "./project";
+
+describe("projectFieldErrors", () => {
+  test("accepts a project with only a name", () => {
+    expect(projectFieldErrors({ name: "Shop" })).toEqual([]);
+  });
+
+  test("accepts every optional field", () => {
+    expect(
+      projectFieldErrors({
+        name: "Shop",
+        description: "Online store",
+        version: "1.2.0",
+        owners: ["alice"],
+        links: [{ title: "Repo", url: "https://example.com" }],
+      }),
+    ).toEqual([]);
+  });
+
+  test("attributes each error to its field", () => {
+    expect(
+      projectFieldErrors({ name: "", description: 3, version: "", owners: "alice", links: [{ title: "Repo" }] }),
+    ).toEqual([
+      { field: "name", message: "name must be a non-empty string" },
+      { field: "description", message: "description must be a string" },
+      { field: "version", message: "version must be a non-empty string" },
+      { field: "owners", message: "owners must be an array of non-empty strings" },
+      { field: "links", message: "links[0].url must be a non-empty string" },
+    ]);
+  });
+
+  test("rejects a non-object", () => {
+    expect(projectFieldErrors(["Shop"])).toEqual([{ field: null, message: "project.yaml must contain a YAML object" }]);
+  });
+});
+
+describe("validateProject", () => {
+  test("collects the error messages", () => {
+    expect(validateProject({})).toEqual({ valid: false, errors: ["name must be a non-empty string"] });
+  });
+});
+
+describe("toProject", () => {
+  test("fills in empty optional fields", () => {
+    expect(toProject({ name: "Shop", description: null })).toEqual({
+      name: "Shop",
+      description: "",
+      owners: [],
+      links: [],
+    });
+  });
+
+  test("throws with every error", () => {
+    expect(() => toProject({ name: 1 })).toThrow("Invalid project: name must be a non-empty string");
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Project metadata types and validation.
+ * Aligns with desgin-duck/requirements/project.yaml.
+ */
+
+import type { FieldError, ValidationResult } from "../requirements/requirement";
+
+/** A link to something outside the requirements (repository, design doc, tracker). */
+export interface ProjectLink {
+  title: string;
+  url: string;
+}
+
+/** Contents of project.yaml. */
+export interface Project {
+  name: string;
+  description: string;
+  /** Version of the product the requirements describe, if tracked. */
+  version?: string;
+  /** People or teams responsible for the requirements. */
+  owners: string[];
+  links: ProjectLink[];
+}
+
+/**
+ * Validates a raw project object (as loaded from YAML), attributing each
+ * error to its top-level field. `name` is required; `description`, `version`,
+ * `owners` and `links` are optional.
+ */
+export function projectFieldErrors(raw: unknown): FieldError[] {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return [{ field: null, message: "project.yaml must contain a YAML object" }];
+  }
+  const o = raw as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  if (typeof o.name !== "string" || o.name.trim() === "") {
+    errors.push({ field: "name", message: "name must be a non-empty string" });
+  }
+  if (o.description !== undefined && o.description !== null && typeof o.description !== "string") {
+    errors.push({ field: "description", message: "description must be a string" });
+  }
+  if (o.version !== undefined && o.version !== null && (typeof o.version !== "string" || o.version.trim() === "")) {
+    errors.push({ field: "version", message: "version must be a non-empty string" });
+  }
+  if (
+    o.owners !== undefined &&
+    o.owners !== null &&
+    (!Array.isArray(o.owners) || o.owners.some((owner) => typeof owner !== "string" || owner.trim() === ""))
+  ) {
+    errors.push({ field: "owners", message: "owners must be an array of non-empty strings" });
+  }
+  if (o.links !== undefined && o.links !== null) {
+    if (!Array.isArray(o.links)) {
+      errors.push({ field: "links", message: "links must be an array" });
+    } else {
+      for (const [i, link] of o.links.entries()) {
+        const l = (link ?? {}) as Record<string, unknown>;
+        if (typeof link !== "object" || typeof l.title !== "string" || l.title.trim() === "") {
+          errors.push({ field: "links", message: `links[${i}].title must be a non-empty string` });
+        }
+        if (typeof link !== "object" || typeof l.url !== "string" || l.url.trim() === "") {
+          errors.push({ field: "links", message: `links[${i}].url must be a non-empty string` });
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a raw project object.
+ */
+export function validateProject(raw: unknown): ValidationResult {
+  const errors = projectFieldErrors(raw);
+  if (errors.length > 0) {
+    return { valid: false, errors: errors.map((e) => e.message) };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates a raw project object and fills in empty optional fields.
+ * Throws with all errors if the project is invalid.
+ */
+export function toProject(raw: unknown): Project {
+  const result = validateProject(raw);
+  if (!result.valid) {
+    throw new Error(`Invalid project: ${result.errors.join("; ")}`);
+  }
+  const o = raw as Partial<Project>;
+  return {
+    name: o.name!,
+    description: o.description ?? "",
+    ...(o.version ? { version: o.version } : {}),
+    owners: o.owners ?? [],
+    links: (o.links ?? []).map(({ title, url }) => ({ title, url })),
+  };
+}
@@ -0,0 +1,187 @@
+import { describe, expect, test } from "bun:test";
+import {
+  customFieldDefinitionErrors,
+  customFieldErrors,
+  checkCustomFields,
+  fieldsFor,
+  formatCustomFieldValue,
+  parseCustomFieldValue,
+  customFieldMatches,
+} from "./custom-fields";
+import type { CustomFieldSchema } from "./custom-fields";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const SCHEMA: CustomFieldSchema = {
+  owner: { type: "string", required: true },
+  estimate: { type: "number" },
+  release: { type: "enum", values: ["2025.1", "2025.2"] },
+  due: { type: "date" },
+  tags: { type: "list", kinds: ["derived"] },
+};
+
+function main(id: string, extra: Record<string, unknown> = {}): MainRequirement {
+  return {
+    id,
+    description: `Main requirement ${id}`,
+    userValue: "Some user value",
+    priority: "high",
+    status: "draft",
+    ...extra,
+  } as MainRequirement;
+}
+
+function derived(id: string, extra: Record<string, unknown> = {}): DerivedRequirement {
+  return {
+    id,
+    description: `Derived requirement ${id}`,
+    derivedFrom: ["req-001"],
+    rationale: "Some rationale",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+    ...extra,
+  } as DerivedRequirement;
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("customFieldDefinitionErrors", () => {
+  test("accepts every field type", () => {
+    for (const [name, definition] of Object.entries(SCHEMA)) {
+      expect(customFieldDefinitionErrors(name, definition, `fields.${name}`)).toEqual([]);
+    }
+  });
+
+  test("rejects unknown types and malformed options", () => {
+    expect(customFieldDefinitionErrors("owner", { type: "text", required: "yes" }, "fields.owner")).toEqual([
+      "fields.owner.type must be one of: string, number, enum, date, list",
+      "fields.owner.required must be true or false",
+    ]);
+    expect(customFieldDefinitionErrors("tags", { type: "list", kinds: ["epic"] }, "fields.tags")).toEqual([
+      "fields.tags.kinds must be an array of: main, derived",
+    ]);
+  });
+
+  test("requires values for enum fields and only allows them there", () => {
+    expect(customFieldDefinitionErrors("release", { type: "enum" }, "fields.release")).toEqual([
+      "fields.release.values must be a non-empty array of strings",
+    ]);
+    expect(customFieldDefinitionErrors("owner", { type: "string", values: ["a"] }, "fields.owner")).toEqual([
+      "fields.owner.values is only allowed for enum fields",
+    ]);
+  });
+
+  test("refuses to redeclare built-in fields", () => {
+    expect(customFieldDefinitionErrors("priority", { type: "string" }, "fields.priority")).toEqual([
+      "fields.priority is a built-in field and can't be redeclared",
+    ]);
+  });
+});
+
+describe("customFieldErrors", () => {
+  test("accepts values that match their type", () => {
+    const raw = derived("der-001", {
+      owner: "alice",
+      estimate: 3,
+      release: "2025.1",
+      due: new Date("2025-03-01"),
+      tags: ["search"],
+    });
+    expect(customFieldErrors(raw as unknown as Record<string, unknown>, "derived", SCHEMA)).toEqual([]);
+  });
+
+  test("accepts dates written as quoted strings", () => {
+    const raw = main("req-001", { owner: "alice", due: "2025-03-01" });
+    expect(customFieldErrors(raw as unknown as Record<string, unknown>, "main", SCHEMA)).toEqual([]);
+  });
+
+  test("reports missing required fields and mistyped values", () => {
+    const raw = main("req-001", { estimate: "three", release: "2024.4", due: "next week" });
+    expect(customFieldErrors(raw as unknown as Record<string, unknown>, "main", SCHEMA)).toEqual([
+      { field: "owner", message: "owner is required" },
+      { field: "estimate", message: "estimate must be a number" },
+      { field: "release", message: "release must be one of: 2025.1, 2025.2" },
+      { field: "due", message: "due must be a date (YYYY-MM-DD)" },
+    ]);
+  });
+
+  test("reports fields used on a kind they don't apply to", () => {
+    const raw = main("req-001", { owner: "alice", tags: ["x"] });
+    expect(customFieldErrors(raw as unknown as Record<string, unknown>, "main", SCHEMA)).toEqual([
+      { field: "tags", message: "tags only applies to derived requirements" },
+    ]);
+  });
+
+  test("reports undeclared extra keys", () => {
+    const raw = main("req-001", { owner: "alice", onwer: "bob" });
+    expect(customFieldErrors(raw as unknown as Record<string, unknown>, "main", SCHEMA)).toEqual([
+      { field: "onwer", message: "onwer is not a declared field (declare it under fields in config.yaml)" },
+    ]);
+  });
+
+  test("checks nothing when no fields are declared", () => {
+    const raw = main("req-001", { anything: 1 });
+    expect(customFieldErrors(raw as unknown as Record<string, unknown>, "main", {})).toEqual([]);
+  });
+});
+
+describe("checkCustomFields", () => {
+  test("attributes findings to the file and index of the requirement", () => {
+    const findings = checkCustomFields(
+      [main("req-001", { owner: "alice" }), main("req-002")],
+      [derived("der-001", { owner: "bob", tags: "search" })],
+      SCHEMA,
+    );
+    expect(findings).toEqual([
+      {
+        file: "main.yaml",
+        rule: "custom-field",
+        requirementId: "req-002",
+        index: 1,
+        field: "owner",
+        message: "owner is required",
+      },
+      {
+        file: "derived.yaml",
+        rule: "custom-field",
+        requirementId: "der-001",
+        index: 0,
+        field: "tags",
+        message: "tags must be an array of non-empty strings",
+      },
+    ]);
+  });
+});
+
+describe("helpers", () => {
+  test("fieldsFor lists the fields that apply to a kind", () => {
+    expect(fieldsFor(SCHEMA, "main").map(([name]) => name)).toEqual(["owner", "estimate", "release", "due"]);
+    expect(fieldsFor(SCHEMA, "derived").map(([name]) => name)).toContain("tags");
+  });
+
+  test("formatCustomFieldValue formats dates and lists", () => {
+    expect(formatCustomFieldValue(new Date("2025-03-01"))).toBe("2025-03-01");
+    expect(formatCustomFieldValue(["a", "b"])).toBe("a, b");
+    expect(formatCustomFieldValue(3)).toBe("3");
+  });
+
+  test("parseCustomFieldValue converts command-line text to the field type", () => {
+    expect(parseCustomFieldValue("3", { type: "number" })).toBe(3);
+    expect(parseCustomFieldValue("a, b,", { type: "list" })).toEqual(["a", "b"]);
+    expect(parseCustomFieldValue("2025-03-01", { type: "date" })).toBe("2025-03-01");
+  });
+
+  test("customFieldMatches compares display values and list elements", () => {
+    expect(customFieldMatches("alice", ["alice", "bob"])).toBe(true);
+    expect(customFieldMatches(3, ["3"])).toBe(true);
+    expect(customFieldMatches(["search", "ui"], ["ui"])).toBe(true);
+    expect(customFieldMatches(new Date("2025-03-01"), ["2025-03-01"])).toBe(true);
+    expect(customFieldMatches(undefined, ["alice"])).toBe(false);
+  });
+});
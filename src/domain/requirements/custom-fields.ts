@@ -0,0 +1,243 @@
+/**
+ * Project-defined custom fields on requirements.
+ *
+ * Projects can declare extra fields (owner, targetRelease, tags, ...) in the
+ * `fields` section of desgin-duck/config.yaml. Values live next to the
+ * built-in fields in main.yaml / derived.yaml and are checked against their
+ * declared type here; once a project declares any field, undeclared extra
+ * keys are reported too, so typos don't go unnoticed.
+ */
+
+import type { MainRequirement, DerivedRequirement, FieldError } from "./requirement";
+import type { RequirementFileName } from "./integrity";
+import { REQUIREMENT_KINDS } from "./query";
+import type { RequirementKind } from "./query";
+
+export const CUSTOM_FIELD_TYPES = ["string", "number", "enum", "date", "list"] as const;
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+/** Declaration of one custom field in config.yaml. */
+export interface CustomFieldDefinition {
+  type: CustomFieldType;
+  /** Every requirement of the kinds below must have a value. @default false */
+  required?: boolean;
+  /** Allowed values; required for, and only used by, `enum` fields. */
+  values?: string[];
+  /** Kinds of requirement the field applies to. @default ["main", "derived"] */
+  kinds?: RequirementKind[];
+}
+
+/** Custom field declarations by field name, in display order. */
+export type CustomFieldSchema = Record<string, CustomFieldDefinition>;
+
+/** A custom field value as loaded from YAML; unquoted dates load as Date. */
+export type CustomFieldValue = string | number | Date | string[];
+
+/** Fields every requirement already has; custom fields can't reuse these names. */
+export const BUILT_IN_FIELDS = [
+  "id",
+  "description",
+  "userValue",
+  "acceptanceCriteria",
+  "derivedFrom",
+  "rationale",
+  "category",
+  "priority",
+  "status",
+] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validates one raw field declaration (as loaded from config.yaml).
+ *
+ * @param path - Where the declaration is, for messages (e.g. "fields.owner")
+ * @returns Error messages, empty when the declaration is valid
+ */
+export function customFieldDefinitionErrors(name: string, raw: unknown, path: string): string[] {
+  if ((BUILT_IN_FIELDS as readonly string[]).includes(name)) {
+    return [`${path} is a built-in field and can't be redeclared`];
+  }
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return [`${path} must be an object with a type`];
+  }
+  const d = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!CUSTOM_FIELD_TYPES.includes(d.type as CustomFieldType)) {
+    errors.push(`${path}.type must be one of: ${CUSTOM_FIELD_TYPES.join(", ")}`);
+  }
+  if (d.required !== undefined && typeof d.required !== "boolean") {
+    errors.push(`${path}.required must be true or false`);
+  }
+  if (d.type === "enum" || d.values !== undefined) {
+    if (
+      !Array.isArray(d.values) ||
+      d.values.length === 0 ||
+      d.values.some((v) => typeof v !== "string" || v.trim() === "")
+    ) {
+      errors.push(`${path}.values must be a non-empty array of strings`);
+    } else if (d.type !== "enum") {
+      errors.push(`${path}.values is only allowed for enum fields`);
+    }
+  }
+  if (
+    d.kinds !== undefined &&
+    (!Array.isArray(d.kinds) || d.kinds.some((k) => !REQUIREMENT_KINDS.includes(k as RequirementKind)))
+  ) {
+    errors.push(`${path}.kinds must be an array of: ${REQUIREMENT_KINDS.join(", ")}`);
+  }
+  return errors;
+}
+
+/**
+ * Checks a requirement's custom field values against the schema: required
+ * fields must be present, values must match their type, and no undeclared
+ * extra keys may be present.
+ *
+ * @param raw - The requirement as loaded from YAML, built-in fields included
+ * @returns Errors attributed to the offending field; empty when the schema is empty
+ */
+export function customFieldErrors(
+  raw: Record<string, unknown>,
+  kind: RequirementKind,
+  schema: CustomFieldSchema,
+): FieldError[] {
+  const names = Object.keys(schema);
+  if (names.length === 0) return [];
+
+  const errors: FieldError[] = [];
+  for (const name of names) {
+    const definition = schema[name];
+    const applies = !definition.kinds || definition.kinds.includes(kind);
+    const value = raw[name];
+
+    if (value === undefined || value === null) {
+      if (applies && definition.required) {
+        errors.push({ field: name, message: `${name} is required` });
+      }
+      continue;
+    }
+    if (!applies) {
+      errors.push({ field: name, message: `${name} only applies to ${definition.kinds!.join(", ")} requirements` });
+      continue;
+    }
+    const error = valueError(name, value, definition);
+    if (error) errors.push({ field: name, message: error });
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!(BUILT_IN_FIELDS as readonly string[]).includes(key) && !(key in schema)) {
+      errors.push({ field: key, message: `${key} is not a declared field (declare it under fields in config.yaml)` });
+    }
+  }
+  return errors;
+}
+
+/** A custom field problem, attributed to the offending requirement. */
+export interface CustomFieldFinding {
+  /** File that contains the offending requirement. */
+  file: RequirementFileName;
+  rule: "custom-field";
+  /** ID of the offending requirement. */
+  requirementId: string;
+  /** Position of the offending requirement in the array it was passed in. */
+  index: number;
+  /** Field the problem is about. */
+  field: string;
+  /** Human-readable description of the problem. */
+  message: string;
+}
+
+/**
+ * Checks every requirement's custom fields against the schema.
+ *
+ * @returns Findings in file order (main.yaml first), empty when the schema is empty
+ */
+export function checkCustomFields(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  schema: CustomFieldSchema,
+): CustomFieldFinding[] {
+  const findings: CustomFieldFinding[] = [];
+
+  const check = (file: RequirementFileName, kind: RequirementKind, requirements: { id: string }[]) => {
+    for (const [index, req] of requirements.entries()) {
+      for (const { field, message } of customFieldErrors(req as Record<string, unknown>, kind, schema)) {
+        findings.push({ file, rule: "custom-field", requirementId: req.id, index, field: field!, message });
+      }
+    }
+  };
+
+  check("main.yaml", "main", mainRequirements);
+  check("derived.yaml", "derived", derivedRequirements);
+  return findings;
+}
+
+/** Custom fields that apply to requirements of this kind, in schema order. */
+export function fieldsFor(schema: CustomFieldSchema, kind: RequirementKind): [string, CustomFieldDefinition][] {
+  return Object.entries(schema).filter(([, d]) => !d.kinds || d.kinds.includes(kind));
+}
+
+/** Reads a custom field value from a requirement; undefined when it has none. */
+export function customFieldValue(
+  requirement: MainRequirement | DerivedRequirement,
+  name: string,
+): CustomFieldValue | undefined {
+  const value = (requirement as unknown as Record<string, unknown>)[name];
+  return value === null ? undefined : (value as CustomFieldValue | undefined);
+}
+
+/** Formats a value for display: dates as YYYY-MM-DD, lists comma-separated. */
+export function formatCustomFieldValue(value: CustomFieldValue): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (Array.isArray(value)) return value.join(", ");
+  return String(value);
+}
+
+/**
+ * Converts a value typed on the command line to the field's type: numbers
+ * for `number` fields and comma-separated lists for `list` fields.
+ */
+export function parseCustomFieldValue(text: string, definition: CustomFieldDefinition): CustomFieldValue {
+  switch (definition.type) {
+    case "number":
+      return text.trim() === "" ? text : Number(text);
+    case "list":
+      return text.split(",").map((s) => s.trim()).filter((s) => s !== "");
+    default:
+      return text;
+  }
+}
+
+/**
+ * Whether the value matches any of the given filter values. List fields
+ * match when any element does; other values compare in their display form.
+ */
+export function customFieldMatches(value: CustomFieldValue | undefined, allowed: string[]): boolean {
+  if (value === undefined) return false;
+  if (Array.isArray(value)) return value.some((v) => allowed.includes(v));
+  return allowed.includes(formatCustomFieldValue(value));
+}
+
+function valueError(name: string, value: unknown, definition: CustomFieldDefinition): string | null {
+  switch (definition.type) {
+    case "string":
+      return typeof value === "string" && value.trim() !== "" ? null : `${name} must be a non-empty string`;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : `${name} must be a number`;
+    case "enum":
+      return typeof value === "string" && definition.values!.includes(value)
+        ? null
+        : `${name} must be one of: ${definition.values!.join(", ")}`;
+    case "date":
+      return (value instanceof Date && !Number.isNaN(value.getTime())) ||
+        (typeof value === "string" && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)))
+        ? null
+        : `${name} must be a date (YYYY-MM-DD)`;
+    case "list":
+      return Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim() !== "")
+        ? null
+        : `${name} must be an array of non-empty strings`;
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Unified diagnostic shape shared by every check `validate` runs.
+ *
+ * Parse problems, cross-file integrity issues and later lint findings are
+ * all converted into this one shape so they can be printed as text or
+ * emitted in machine-readable formats with a stable schema.
+ */
+
+export const SEVERITIES = ["error", "warning"] as const;
+export type Severity = (typeof SEVERITIES)[number];
+
+/** A single finding about a requirements file. */
+export interface Diagnostic {
+  /** Path of the file the finding is about, relative to the project root. */
+  file: string;
+  /** 1-based line, or null when unknown. */
+  line: number | null;
+  /** 1-based column, or null when unknown. */
+  column: number | null;
+  /** ID of the requirement the finding is about, or null for file-level findings. */
+  requirementId: string | null;
+  /** Field the finding is about, or null when it concerns the whole requirement/file. */
+  field: string | null;
+  /** Identifier of the check that produced the finding (e.g. "schema", "duplicate-id"). */
+  rule: string;
+  severity: Severity;
+  /** Human-readable description of the finding. */
+  message: string;
+}
+
+/** Counts diagnostics by severity. */
+export function countBySeverity(diagnostics: Diagnostic[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { error: 0, warning: 0 };
+  for (const d of diagnostics) {
+    counts[d.severity]++;
+  }
+  return counts;
+}
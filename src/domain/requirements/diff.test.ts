@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { changesById, diffRequirements, isEmptyDiff } from "./diff";
+
+describe("diffRequirements", () => {
+  test("lists added, removed and modified requirements with the changed fields", () => {
+    const before = [
+      { id: "req-001", description: "Search", status: "draft", acceptanceCriteria: ["Fast"] },
+      { id: "req-002", description: "Export" },
+    ];
+    const after = [
+      { id: "req-001", description: "Search", status: "review", acceptanceCriteria: ["Fast", "Typo-tolerant"] },
+      { id: "req-003", description: "Import" },
+    ];
+
+    expect(diffRequirements(before, after)).toEqual({
+      added: ["req-003"],
+      removed: ["req-002"],
+      modified: [{ id: "req-001", fields: ["status", "acceptanceCriteria"] }],
+    });
+  });
+
+  test("reports fields that were removed", () => {
+    const diff = diffRequirements([{ id: "req-001", owner: "bob" }], [{ id: "req-001" }]);
+
+    expect(diff.modified).toEqual([{ id: "req-001", fields: ["owner"] }]);
+  });
+
+  test("ignores entries without an ID and unchanged requirements", () => {
+    const diff = diffRequirements([{ id: "req-001" }, "junk"], [{ id: "req-001" }, { description: "No ID" }]);
+
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+});
+
+describe("changesById", () => {
+  test("merges the diffs of several files", () => {
+    const changes = changesById([
+      { added: ["req-003"], removed: ["req-002"], modified: [{ id: "req-001", fields: ["status"] }] },
+      { added: ["req-002"], removed: [], modified: [] },
+    ]);
+
+    expect(changes).toEqual({
+      "req-003": { change: "added", fields: [] },
+      "req-001": { change: "modified", fields: ["status"] },
+      "req-002": { change: "modified", fields: [] },
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Comparing two versions of a list of requirements, to tell people what
+ * changed (e.g. what an agent just edited).
+ *
+ * Requirements are matched by ID and compared field by field. Requirements
+ * are taken as they were read, valid or not, so a change that makes one
+ * invalid still shows up; entries without an ID can't be matched and are
+ * left out.
+ */
+
+/** A requirement whose fields changed. */
+export interface ModifiedRequirement {
+  id: string;
+  /** Fields that were added, removed or changed, in the order of the new version. */
+  fields: string[];
+}
+
+/** What changed between two versions of a list of requirements. */
+export interface RequirementsDiff {
+  added: string[];
+  removed: string[];
+  modified: ModifiedRequirement[];
+}
+
+/** Whether a diff found no change at all. */
+export function isEmptyDiff(diff: RequirementsDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.modified.length === 0;
+}
+
+/**
+ * Compares two versions of a list of requirements.
+ *
+ * @param before - The requirements before the change, as read
+ * @param after - The requirements after the change, as read
+ */
+export function diffRequirements(before: readonly unknown[], after: readonly unknown[]): RequirementsDiff {
+  const old = byId(before);
+  const current = byId(after);
+
+  const diff: RequirementsDiff = { added: [], removed: [], modified: [] };
+  for (const [id, requirement] of current) {
+    const previous = old.get(id);
+    if (!previous) {
+      diff.added.push(id);
+      continue;
+    }
+    const fields = changedFields(previous, requirement);
+    if (fields.length > 0) {
+      diff.modified.push({ id, fields });
+    }
+  }
+  diff.removed = [...old.keys()].filter((id) => !current.has(id));
+  return diff;
+}
+
+/** The requirements with a string ID, by ID; the first one wins when IDs repeat. */
+function byId(requirements: readonly unknown[]): Map<string, Record<string, unknown>> {
+  const map = new Map<string, Record<string, unknown>>();
+  for (const r of requirements) {
+    if (r === null || typeof r !== "object" || Array.isArray(r)) continue;
+    const o = r as Record<string, unknown>;
+    if (typeof o.id === "string" && !map.has(o.id)) {
+      map.set(o.id, o);
+    }
+  }
+  return map;
+}
+
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>): string[] {
+  const fields = [...new Set([...Object.keys(after), ...Object.keys(before)])];
+  return fields.filter((f) => JSON.stringify(before[f]) !== JSON.stringify(after[f]));
+}
+
+/** How a requirement changed lately, for highlighting it. */
+export interface RequirementChange {
+  change: "added" | "modified";
+  /** The changed fields; empty for added requirements. */
+  fields: string[];
+}
+
+/**
+ * The added and modified requirements of several diffs (e.g. one per
+ * changed file), by ID. A requirement that moved from one file to another
+ * counts as modified.
+ */
+export function changesById(diffs: readonly RequirementsDiff[]): Record<string, RequirementChange> {
+  const removed = new Set(diffs.flatMap((d) => d.removed));
+  const changes: Record<string, RequirementChange> = {};
+  for (const diff of diffs) {
+    for (const id of diff.added) {
+      changes[id] = removed.has(id) ? { change: "modified", fields: [] } : { change: "added", fields: [] };
+    }
+    for (const { id, fields } of diff.modified) {
+      changes[id] = { change: "modified", fields };
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, test } from "bun:test";
+import { checkCreate, checkDelete, checkPatch, checkReplace } from "./edit";
+import type { EditRules } from "./edit";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+import { DEFAULT_VOCABULARIES } from "./vocabulary";
+
+function main(id: string): MainRequirement {
+  return { id, description: `Main ${id}`, userValue: "Value", priority: "high", status: "draft" };
+}
+
+function derived(id: string, derivedFrom: string[]): DerivedRequirement {
+  return {
+    id,
+    description: `Derived ${id}`,
+    derivedFrom,
+    rationale: "Rationale",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+  };
+}
+
+const MAIN = [main("req-001"), main("req-002")];
+const DERIVED = [derived("der-001", ["req-001"])];
+const RULES: EditRules = { vocabularies: DEFAULT_VOCABULARIES, fields: { owner: { type: "string" } } };
+
+describe("checkCreate", () => {
+  test("accepts a valid requirement", () => {
+    const requirement = { ...derived("der-002", ["req-002"]), owner: "ann" };
+
+    expect(checkCreate(MAIN, DERIVED, "derived", requirement, RULES)).toEqual({
+      ok: true,
+      kind: "derived",
+      requirement,
+    });
+  });
+
+  test("reports every invalid field", () => {
+    const requirement = { ...main("req-003"), priority: "urgent", rationale: "x", x: 1 };
+    const check = checkCreate(MAIN, DERIVED, "main", requirement, RULES);
+
+    expect(check.ok).toBe(false);
+    if (check.ok) return;
+    expect(check.problem).toBe("invalid");
+    expect(check.errors.map((e) => e.field)).toEqual(["priority", "rationale", "x"]);
+    expect(check.message).toStartWith("Invalid requirement: priority must be one of: high, medium, low");
+  });
+
+  test("refuses a taken ID and unknown parents", () => {
+    expect(checkCreate(MAIN, DERIVED, "main", main("der-001"), RULES)).toMatchObject({
+      ok: false,
+      problem: "id-taken",
+      message: "Requirement ID der-001 already exists",
+    });
+    expect(checkCreate(MAIN, DERIVED, "derived", derived("der-002", ["req-404", "der-001"]), RULES)).toMatchObject({
+      ok: false,
+      problem: "invalid",
+      errors: [
+        { field: "derivedFrom", message: "derivedFrom references unknown requirement req-404" },
+        { field: "derivedFrom", message: expect.stringContaining("references derived requirement der-001") },
+      ],
+    });
+  });
+});
+
+describe("checkReplace", () => {
+  test("keeps the ID and refuses to change it", () => {
+    const { id: _, ...fields } = main("req-001");
+
+    expect(checkReplace(MAIN, DERIVED, "req-001", { ...fields, status: "review" }, RULES)).toEqual({
+      ok: true,
+      kind: "main",
+      requirement: { ...main("req-001"), status: "review" },
+    });
+    expect(checkReplace(MAIN, DERIVED, "req-001", main("req-100"), RULES)).toMatchObject({
+      ok: false,
+      problem: "invalid",
+      errors: [{ field: "id", message: "id must stay req-001; rename the requirement to change its ID" }],
+    });
+  });
+
+  test("reports unknown requirements", () => {
+    expect(checkReplace(MAIN, DERIVED, "req-404", main("req-404"), RULES)).toMatchObject({
+      ok: false,
+      problem: "not-found",
+    });
+  });
+});
+
+describe("checkPatch", () => {
+  test("merges the given fields and removes null ones", () => {
+    const current = [{ ...main("req-001"), acceptanceCriteria: ["Fast"] }, main("req-002")];
+
+    expect(checkPatch(current, DERIVED, "req-001", { status: "approved", acceptanceCriteria: null }, RULES)).toEqual({
+      ok: true,
+      kind: "main",
+      requirement: { ...main("req-001"), status: "approved" },
+    });
+  });
+
+  test("validates the patched requirement", () => {
+    expect(checkPatch(MAIN, DERIVED, "der-001", { category: "magic" }, RULES)).toMatchObject({
+      ok: false,
+      problem: "invalid",
+      errors: [{ field: "category" }],
+    });
+    expect(checkPatch(MAIN, DERIVED, "req-001", { userValue: null }, RULES)).toMatchObject({
+      ok: false,
+      errors: [{ field: "userValue", message: "userValue must be a non-empty string" }],
+    });
+  });
+});
+
+describe("checkDelete", () => {
+  test("refuses to delete a main requirement that is derived from", () => {
+    expect(checkDelete(MAIN, DERIVED, "req-001")).toMatchObject({
+      ok: false,
+      problem: "referenced",
+      message: "Requirement req-001 is still derived from by der-001",
+    });
+    expect(checkDelete(MAIN, DERIVED, "req-002")).toEqual({ ok: true, kind: "main", requirement: MAIN[1] });
+    expect(checkDelete(MAIN, DERIVED, "req-404")).toMatchObject({ ok: false, problem: "not-found" });
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Checking single-requirement edits: creating, replacing, patching and
+ * deleting one requirement.
+ *
+ * Like ./rename, this module only decides whether an edit can go ahead and
+ * what the requirement looks like afterwards; writing the files is up to
+ * the caller. A requirement must pass the schema validators in
+ * ./requirement and the custom field schema, and the edit must keep the set
+ * consistent (see ./integrity). IDs change only through a rename.
+ */
+
+import { mainRequirementFieldErrors, derivedRequirementFieldErrors } from "./requirement";
+import type { MainRequirement, DerivedRequirement, FieldError } from "./requirement";
+import { checkReferentialIntegrity } from "./integrity";
+import { customFieldErrors, BUILT_IN_FIELDS } from "./custom-fields";
+import type { CustomFieldSchema } from "./custom-fields";
+import type { RequirementKind } from "./query";
+import type { Vocabularies } from "./vocabulary";
+
+/**
+ * Why an edit can't go ahead:
+ * - `invalid`: the requirement fails validation or references unknown requirements
+ * - `not-found`: no requirement has the ID
+ * - `id-taken`: a new requirement reuses an existing ID
+ * - `referenced`: a main requirement to delete still has derived requirements
+ */
+export type EditProblem = "invalid" | "not-found" | "id-taken" | "referenced";
+
+export type EditCheck =
+  | { ok: true; kind: RequirementKind; requirement: MainRequirement | DerivedRequirement }
+  | { ok: false; problem: EditProblem; message: string; errors: FieldError[] };
+
+/** What a requirement is checked against. */
+export interface EditRules {
+  vocabularies: Vocabularies;
+  fields: CustomFieldSchema;
+}
+
+/** Built-in fields of each kind; the rest of BUILT_IN_FIELDS belong to the other kind. */
+const KIND_FIELDS: Record<RequirementKind, readonly string[]> = {
+  main: ["id", "description", "userValue", "acceptanceCriteria", "priority", "status"],
+  derived: ["id", "description", "derivedFrom", "rationale", "category", "priority", "status"],
+};
+
+/**
+ * Checks a requirement to add to the set.
+ *
+ * @param raw - The new requirement, as received (e.g. parsed JSON)
+ */
+export function checkCreate(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  kind: RequirementKind,
+  raw: unknown,
+  rules: EditRules,
+): EditCheck {
+  const errors = fieldErrors(raw, kind, rules);
+  if (errors.length > 0) {
+    return invalid(errors);
+  }
+
+  const requirement = raw as MainRequirement | DerivedRequirement;
+  if ([...mainRequirements, ...derivedRequirements].some((r) => r.id === requirement.id)) {
+    return {
+      ok: false,
+      problem: "id-taken",
+      message: `Requirement ID ${requirement.id} already exists`,
+      errors: [{ field: "id", message: `Requirement ID ${requirement.id} already exists` }],
+    };
+  }
+
+  const referenceErrors = kind === "derived"
+    ? parentErrors(mainRequirements, derivedRequirements, requirement as DerivedRequirement)
+    : [];
+  return referenceErrors.length > 0 ? invalid(referenceErrors) : { ok: true, kind, requirement };
+}
+
+/**
+ * Checks a full replacement of requirement `id`. The replacement may leave
+ * out its ID; giving a different one is refused.
+ */
+export function checkReplace(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  id: string,
+  raw: unknown,
+  rules: EditRules,
+): EditCheck {
+  const kind = kindOf(mainRequirements, derivedRequirements, id);
+  if (kind === null) {
+    return notFound(id);
+  }
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return invalid([{ field: null, message: "Requirement must be an object" }]);
+  }
+
+  const o = raw as Record<string, unknown>;
+  if (o.id !== undefined && o.id !== id) {
+    return invalid([{ field: "id", message: `id must stay ${id}; rename the requirement to change its ID` }]);
+  }
+  const requirement = { ...o, id };
+  const errors = fieldErrors(requirement, kind, rules);
+  if (errors.length > 0) {
+    return invalid(errors);
+  }
+
+  const others = derivedRequirements.filter((r) => r.id !== id);
+  const referenceErrors = kind === "derived"
+    ? parentErrors(mainRequirements, others, requirement as unknown as DerivedRequirement)
+    : [];
+  return referenceErrors.length > 0
+    ? invalid(referenceErrors)
+    : { ok: true, kind, requirement: requirement as unknown as MainRequirement | DerivedRequirement };
+}
+
+/**
+ * Checks a partial update of requirement `id`, applied like a JSON merge
+ * patch (RFC 7396): given fields replace the current ones and `null`
+ * removes a field.
+ */
+export function checkPatch(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  id: string,
+  patch: unknown,
+  rules: EditRules,
+): EditCheck {
+  const current = [...mainRequirements, ...derivedRequirements].find((r) => r.id === id);
+  if (!current) {
+    return notFound(id);
+  }
+  if (patch === null || typeof patch !== "object" || Array.isArray(patch)) {
+    return invalid([{ field: null, message: "Patch must be an object of fields" }]);
+  }
+
+  const patched: Record<string, unknown> = { ...current };
+  for (const [field, value] of Object.entries(patch)) {
+    if (value === null) delete patched[field];
+    else patched[field] = value;
+  }
+  return checkReplace(mainRequirements, derivedRequirements, id, patched, rules);
+}
+
+/** Checks that requirement `id` exists and that no derived requirement still derives from it. */
+export function checkDelete(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  id: string,
+): EditCheck {
+  const requirement = [...mainRequirements, ...derivedRequirements].find((r) => r.id === id);
+  if (!requirement) {
+    return notFound(id);
+  }
+
+  const dependents = derivedRequirements.filter((d) => d.derivedFrom.includes(id)).map((d) => d.id);
+  if (dependents.length > 0) {
+    const message = `Requirement ${id} is still derived from by ${dependents.join(", ")}`;
+    return { ok: false, problem: "referenced", message, errors: [{ field: null, message }] };
+  }
+  return { ok: true, kind: kindOf(mainRequirements, derivedRequirements, id)!, requirement };
+}
+
+function kindOf(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  id: string,
+): RequirementKind | null {
+  if (mainRequirements.some((r) => r.id === id)) return "main";
+  if (derivedRequirements.some((r) => r.id === id)) return "derived";
+  return null;
+}
+
+/** Schema, custom field and misplaced built-in field errors. */
+function fieldErrors(raw: unknown, kind: RequirementKind, { vocabularies, fields }: EditRules): FieldError[] {
+  const errors = kind === "main"
+    ? mainRequirementFieldErrors(raw, vocabularies)
+    : derivedRequirementFieldErrors(raw, vocabularies);
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return errors.length > 0 ? errors : [{ field: null, message: "Requirement must be an object" }];
+  }
+
+  const o = raw as Record<string, unknown>;
+  for (const key of Object.keys(o)) {
+    if ((BUILT_IN_FIELDS as readonly string[]).includes(key) && !KIND_FIELDS[kind].includes(key)) {
+      errors.push({ field: key, message: `${key} is not a field of ${kind} requirements` });
+    } else if (!(BUILT_IN_FIELDS as readonly string[]).includes(key) && !(key in fields)) {
+      errors.push({ field: key, message: `${key} is not a declared field (declare it under fields in config.yaml)` });
+    }
+  }
+  // Undeclared fields were reported above
+  const custom = customFieldErrors(o, kind, fields).filter((e) => e.field === null || e.field in fields);
+  return [...errors, ...custom];
+}
+
+/** Problems with a derived requirement's parents, within the rest of the set. */
+function parentErrors(
+  mainRequirements: MainRequirement[],
+  otherDerived: DerivedRequirement[],
+  requirement: DerivedRequirement,
+): FieldError[] {
+  return checkReferentialIntegrity(mainRequirements, [...otherDerived, requirement])
+    .filter((issue) => issue.requirementId === requirement.id && issue.field === "derivedFrom")
+    .map((issue) => ({ field: "derivedFrom", message: issue.message }));
+}
+
+function invalid(errors: FieldError[]): EditCheck {
+  return {
+    ok: false,
+    problem: "invalid",
+    message: `Invalid requirement: ${errors.map((e) => e.message).join("; ")}`,
+    errors,
+  };
+}
+
+function notFound(id: string): EditCheck {
+  const message = `Requirement ${id} not found`;
+  return { ok: false, problem: "not-found", message, errors: [{ field: null, message }] };
+}
@@ -0,0 +1,25 @@
+import { describe, expect, test } from "bun:test";
+import { nextRequirementId } from "./ids";
+
+describe("nextRequirementId", () => {
+  test("starts at 001 with the default prefix for an empty file", () => {
+    expect(nextRequirementId([], "req-")).toBe("req-001");
+  });
+
+  test("continues after the highest number", () => {
+    expect(nextRequirementId(["req-001", "req-007", "req-003"], "req-")).toBe("req-008");
+  });
+
+  test("follows the prefix and padding the file already uses", () => {
+    expect(nextRequirementId(["REQ_0009", "REQ_0010"], "req-")).toBe("REQ_0011");
+    expect(nextRequirementId(["story-1", "story-2"], "req-")).toBe("story-3");
+  });
+
+  test("uses the most common prefix when the file mixes several", () => {
+    expect(nextRequirementId(["req-001", "req-002", "legacy-40"], "req-")).toBe("req-003");
+  });
+
+  test("skips IDs taken elsewhere in the project", () => {
+    expect(nextRequirementId(["der-001"], "der-", ["der-001", "der-002"])).toBe("der-003");
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Requirement ID allocation.
+ *
+ * IDs are a prefix followed by a zero-padded number (`req-001`, `der-012`).
+ * New IDs follow whatever prefix and padding the file already uses, so a
+ * project that numbers its requirements `REQ_0001` keeps doing so.
+ */
+
+const NUMBERED_ID = /^(.*?)(\d+)$/;
+
+/** Padding used when a file has no numbered IDs yet. */
+const DEFAULT_WIDTH = 3;
+
+/**
+ * Returns the next free ID for a requirements file.
+ *
+ * Uses the prefix shared by most of `fileIds` (the default prefix when none
+ * are numbered), the widest zero-padding seen with that prefix, and one more
+ * than the highest number. Skips any ID that is already in `takenIds`.
+ *
+ * @param fileIds - IDs of the requirements in the target file
+ * @param defaultPrefix - Prefix for the first ID in an empty file (e.g. "req-")
+ * @param takenIds - Every ID in use across the project (defaults to `fileIds`)
+ */
+export function nextRequirementId(
+  fileIds: string[],
+  defaultPrefix: string,
+  takenIds: Iterable<string> = fileIds,
+): string {
+  const numbersByPrefix = new Map<string, string[]>();
+  for (const id of fileIds) {
+    const match = NUMBERED_ID.exec(id);
+    if (!match) continue;
+    const [, prefix, digits] = match;
+    numbersByPrefix.set(prefix, [...(numbersByPrefix.get(prefix) ?? []), digits]);
+  }
+
+  let prefix = defaultPrefix;
+  let numbers: string[] = [];
+  for (const [candidate, candidateNumbers] of numbersByPrefix) {
+    if (candidateNumbers.length > numbers.length) {
+      prefix = candidate;
+      numbers = candidateNumbers;
+    }
+  }
+
+  const width = numbers.length > 0 ? Math.max(...numbers.map((n) => n.length)) : DEFAULT_WIDTH;
+  const taken = new Set(takenIds);
+  let next = Math.max(0, ...numbers.map(Number)) + 1;
+  while (taken.has(format(prefix, next, width))) {
+    next++;
+  }
+  return format(prefix, next, width);
+}
+
+function format(prefix: string, n: number, width: number): string {
+  return `${prefix}${String(n).padStart(width, "0")}`;
+}
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import { checkReferentialIntegrity } from "./integrity";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function main(id: string): MainRequirement {
+  return {
+    id,
+    description: `Main requirement ${id}`,
+    userValue: "Some user value",
+    priority: "high",
+    status: "draft",
+  };
+}
+
+function derived(id: string, derivedFrom: string[]): DerivedRequirement {
+  return {
+    id,
+    description: `Derived requirement ${id}`,
+    derivedFrom,
+    rationale: "Some rationale",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("checkReferentialIntegrity", () => {
+  test("returns no issues for a consistent requirement set", () => {
+    const issues = checkReferentialIntegrity(
+      [main("req-001"), main("req-002")],
+      [derived("der-001", ["req-001"]), derived("der-002", ["req-001", "req-002"])],
+    );
+    expect(issues).toEqual([]);
+  });
+
+  test("returns no issues for empty files", () => {
+    expect(checkReferentialIntegrity([], [])).toEqual([]);
+  });
+
+  test("reports derivedFrom references to unknown requirements", () => {
+    const issues = checkReferentialIntegrity(
+      [main("req-001")],
+      [derived("der-001", ["req-001", "req-999"])],
+    );
+    expect(issues).toEqual([
+      {
+        file: "derived.yaml",
+        rule: "unknown-reference",
+        requirementId: "der-001",
+        index: 0,
+        field: "derivedFrom",
+        message: "derivedFrom references unknown requirement req-999",
+      },
+    ]);
+  });
+
+  test("reports derivedFrom references to other derived requirements", () => {
+    const issues = checkReferentialIntegrity(
+      [main("req-001")],
+      [derived("der-001", ["req-001"]), derived("der-002", ["der-001"])],
+    );
+    expect(issues).toHaveLength(1);
+    expect(issues[0].requirementId).toBe("der-002");
+    expect(issues[0].rule).toBe("derived-reference");
+    expect(issues[0].message).toContain("derived requirement der-001");
+  });
+
+  test("reports duplicate ids within main.yaml", () => {
+    const issues = checkReferentialIntegrity([main("req-001"), main("req-001")], []);
+    expect(issues).toEqual([
+      {
+        file: "main.yaml",
+        rule: "duplicate-id",
+        requirementId: "req-001",
+        index: 1,
+        field: "id",
+        message: "Duplicate id req-001 in main.yaml",
+      },
+    ]);
+  });
+
+  test("reports duplicate ids within derived.yaml", () => {
+    const issues = checkReferentialIntegrity(
+      [main("req-001")],
+      [derived("der-001", ["req-001"]), derived("der-001", ["req-001"])],
+    );
+    expect(issues).toEqual([
+      {
+        file: "derived.yaml",
+        rule: "duplicate-id",
+        requirementId: "der-001",
+        index: 1,
+        field: "id",
+        message: "Duplicate id der-001 in derived.yaml",
+      },
+    ]);
+  });
+
+  test("reports ids used in both main.yaml and derived.yaml", () => {
+    const issues = checkReferentialIntegrity(
+      [main("req-001")],
+      [derived("req-001", ["req-001"])],
+    );
+    expect(issues).toEqual([
+      {
+        file: "derived.yaml",
+        rule: "duplicate-id",
+        requirementId: "req-001",
+        index: 0,
+        field: "id",
+        message: "Duplicate id req-001 is also used in main.yaml",
+      },
+    ]);
+  });
+
+  test("names the files the copies of a duplicate came from", () => {
+    const sources = { "main.yaml": ["main.yaml", "checkout/main.yaml"], "derived.yaml": ["derived-2.yaml"] };
+    const issues = checkReferentialIntegrity(
+      [main("req-001"), main("req-001")],
+      [derived("req-001", ["req-001"])],
+      (file, index) => sources[file][index],
+    );
+    expect(issues.map((i) => i.message)).toEqual([
+      "Duplicate id req-001 is also used in main.yaml",
+      "Duplicate id req-001 is also used in main.yaml",
+    ]);
+  });
+
+  test("names the file when both copies of a duplicate are in it", () => {
+    const issues = checkReferentialIntegrity(
+      [main("req-001"), main("req-001")],
+      [],
+      () => "checkout/main.yaml",
+    );
+    expect(issues.map((i) => i.message)).toEqual(["Duplicate id req-001 in checkout/main.yaml"]);
+  });
+
+  test("reports every problem rather than stopping at the first", () => {
+    const issues = checkReferentialIntegrity(
+      [main("req-001"), main("req-001")],
+      [derived("der-001", ["req-404"]), derived("der-002", ["der-001", "req-500"])],
+    );
+    expect(issues.map((i) => i.requirementId)).toEqual([
+      "req-001",
+      "der-001",
+      "der-002",
+      "der-002",
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Cross-file referential integrity checks (main + derived).
+ *
+ * The per-requirement validators in ./requirement look at one object at a
+ * time. These checks look at main.yaml and derived.yaml together so that
+ * renamed or deleted IDs don't silently break traceability.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+/** Requirement file an integrity issue was found in. */
+export type RequirementFileName = "main.yaml" | "derived.yaml";
+
+/**
+ * Rule that produced an integrity issue:
+ * - `duplicate-id`: the ID is already used by another requirement
+ * - `unknown-reference`: a derivedFrom entry matches no requirement
+ * - `derived-reference`: a derivedFrom entry points at a derived requirement
+ */
+export type IntegrityRule = "duplicate-id" | "unknown-reference" | "derived-reference";
+
+/** A single cross-file problem, attributed to the offending requirement. */
+export interface IntegrityIssue {
+  /** File that contains the offending requirement. */
+  file: RequirementFileName;
+  /** Rule that produced the issue. */
+  rule: IntegrityRule;
+  /** ID of the offending requirement. */
+  requirementId: string;
+  /** Position of the offending requirement in the array it was passed in. */
+  index: number;
+  /** Field the problem is about. */
+  field: "id" | "derivedFrom";
+  /** Human-readable description of the problem. */
+  message: string;
+}
+
+/**
+ * Maps a requirement's position in the set to the file it was read from,
+ * for sets that are split over several files.
+ */
+export type SourceOf = (file: RequirementFileName, index: number) => string;
+
+/**
+ * Checks a full requirement set for:
+ * - duplicate IDs within main.yaml or within derived.yaml
+ * - IDs used in both main.yaml and derived.yaml
+ * - `derivedFrom` entries that point at a derived requirement
+ * - `derivedFrom` entries that point at no requirement at all
+ *
+ * @param sourceOf - Names the file each requirement came from in duplicate-id
+ *   messages; defaults to main.yaml / derived.yaml
+ * @returns Issues in file order (main.yaml first), empty when the set is consistent
+ */
+export function checkReferentialIntegrity(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  sourceOf: SourceOf = (file) => file,
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+
+  // Where each ID was first seen, to name the other copy of a duplicate
+  const mainIds = new Map<string, string>();
+  const derivedIds = new Map<string, string>();
+
+  const checkIds = (
+    file: RequirementFileName,
+    requirements: { id: string }[],
+    seen: Map<string, string>,
+    other: Map<string, string> | null,
+  ) => {
+    for (const [index, req] of requirements.entries()) {
+      const source = sourceOf(file, index);
+      const first = seen.get(req.id) ?? other?.get(req.id);
+      if (first !== undefined) {
+        issues.push({
+          file,
+          rule: "duplicate-id",
+          requirementId: req.id,
+          index,
+          field: "id",
+          message: first === source
+            ? `Duplicate id ${req.id} in ${source}`
+            : `Duplicate id ${req.id} is also used in ${first}`,
+        });
+      }
+      if (!seen.has(req.id)) seen.set(req.id, source);
+    }
+  };
+
+  checkIds("main.yaml", mainRequirements, mainIds, null);
+  checkIds("derived.yaml", derivedRequirements, derivedIds, mainIds);
+
+  for (const [index, req] of derivedRequirements.entries()) {
+    for (const parentId of req.derivedFrom) {
+      if (mainIds.has(parentId)) continue;
+
+      const isDerived = derivedIds.has(parentId);
+      issues.push({
+        file: "derived.yaml",
+        rule: isDerived ? "derived-reference" : "unknown-reference",
+        requirementId: req.id,
+        index,
+        field: "derivedFrom",
+        message: isDerived
+          ? `derivedFrom references derived requirement ${parentId}; only main requirements can be parents`
+          : `derivedFrom references unknown requirement ${parentId}`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,169 @@
+import { describe, expect, test } from "bun:test";
+import { lintRequirements, findAmbiguousTerm } from "./lint";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function main(id: string, overrides: Partial<MainRequirement> = {}): MainRequirement {
+  return {
+    id,
+    description: `Users need to export reports (${id})`,
+    userValue: "Reports can be shared with stakeholders",
+    priority: "high",
+    status: "draft",
+    ...overrides,
+  };
+}
+
+function derived(id: string, derivedFrom: string[], overrides: Partial<DerivedRequirement> = {}): DerivedRequirement {
+  return {
+    id,
+    description: `Generate PDF exports (${id})`,
+    derivedFrom,
+    rationale: "PDF is the format stakeholders already use",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+    ...overrides,
+  };
+}
+
+const rulesOf = (findings: { rule: string }[]) => findings.map((f) => f.rule);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("lintRequirements", () => {
+  test("returns no findings for a well-formed requirement set", () => {
+    expect(lintRequirements([main("req-001")], [derived("der-001", ["req-001"])])).toEqual([]);
+  });
+
+  test("flags ambiguous wording with the offending field", () => {
+    const findings = lintRequirements(
+      [main("req-001", { description: "Search must be fast" })],
+      [derived("der-001", ["req-001"], { rationale: "Caching, indexing etc." })],
+    );
+
+    expect(findings).toEqual([
+      {
+        file: "main.yaml",
+        rule: "ambiguous-wording",
+        severity: "warning",
+        requirementId: "req-001",
+        index: 0,
+        field: "description",
+        message: `description uses ambiguous term "fast"`,
+      },
+      {
+        file: "derived.yaml",
+        rule: "ambiguous-wording",
+        severity: "warning",
+        requirementId: "der-001",
+        index: 0,
+        field: "rationale",
+        message: `rationale uses ambiguous term "etc."`,
+      },
+    ]);
+  });
+
+  test("flags quality requirements without a measurable target", () => {
+    const findings = lintRequirements(
+      [main("req-001")],
+      [
+        derived("der-001", ["req-001"], { category: "quality", description: "Search responds promptly" }),
+        derived("der-002", ["req-001"], { category: "quality", description: "Search responds within 200 ms" }),
+      ],
+    );
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ rule: "measurable-quality", requirementId: "der-001" });
+  });
+
+  test("flags userValue that restates the description", () => {
+    const findings = lintRequirements(
+      [main("req-001", { description: "Users can export reports.", userValue: "users can export reports" })],
+      [derived("der-001", ["req-001"])],
+    );
+
+    expect(rulesOf(findings)).toEqual(["user-value-restates-description"]);
+  });
+
+  test("flags IDs that don't follow the req-NNN / der-NNN pattern", () => {
+    const findings = lintRequirements([main("REQ1")], [derived("der-01", ["REQ1"])]);
+
+    expect(findings.map((f) => f.message)).toEqual([
+      "id REQ1 does not match the req-NNN pattern",
+      "id der-01 does not match the der-NNN pattern",
+    ]);
+  });
+
+  test("flags main requirements with no derived children", () => {
+    const findings = lintRequirements([main("req-001"), main("req-002")], [derived("der-001", ["req-001"])]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      rule: "main-without-derived",
+      requirementId: "req-002",
+      index: 1,
+      field: null,
+      message: "req-002 has no derived requirements",
+    });
+  });
+
+  test("flags approved main requirements without acceptance criteria", () => {
+    const findings = lintRequirements(
+      [
+        main("req-001", { status: "approved" }),
+        main("req-002", { status: "approved", acceptanceCriteria: ["Exports open in Excel"] }),
+      ],
+      [derived("der-001", ["req-001", "req-002"])],
+    );
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      rule: "approved-without-acceptance-criteria",
+      requirementId: "req-001",
+      field: "status",
+      message: "req-001 is approved but has no acceptance criteria",
+    });
+  });
+
+  test("flags ambiguous wording in acceptance criteria", () => {
+    const findings = lintRequirements(
+      [main("req-001", { acceptanceCriteria: [{ given: "a report", when: "exported", then: "it loads fast" }] })],
+      [derived("der-001", ["req-001"])],
+    );
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      rule: "ambiguous-wording",
+      field: "acceptanceCriteria",
+      message: 'acceptanceCriteria uses ambiguous term "fast"',
+    });
+  });
+
+  test("applies severity overrides and skips rules that are off", () => {
+    const findings = lintRequirements([main("req-001", { description: "Easy export" })], [], {
+      "ambiguous-wording": "error",
+      "main-without-derived": "off",
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ rule: "ambiguous-wording", severity: "error" });
+  });
+});
+
+describe("findAmbiguousTerm", () => {
+  test("matches whole words case-insensitively", () => {
+    expect(findAmbiguousTerm("A Simple flow")).toBe("simple");
+    expect(findAmbiguousTerm("Must be user-friendly")).toBe("user-friendly");
+  });
+
+  test("ignores terms inside other words", () => {
+    expect(findAmbiguousTerm("Breakfast menu")).toBeNull();
+    expect(findAmbiguousTerm("Simplest possible")).toBeNull();
+  });
+});
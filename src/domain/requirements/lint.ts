@@ -0,0 +1,206 @@
+/**
+ * Quality lint rules for requirements.
+ *
+ * Schema validation (./requirement) decides whether a requirement is usable
+ * at all; these rules flag requirements that are valid but weak: vague
+ * wording, unmeasurable quality targets, restated user value, off-pattern
+ * IDs, main requirements nothing has been derived from yet and approved
+ * requirements without acceptance criteria.
+ *
+ * Each rule has a default severity that projects can override (or turn off)
+ * from the `lint.rules` section of desgin-duck/config.yaml.
+ */
+
+import { formatAcceptanceCriterion } from "./requirement";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+import type { RequirementFileName } from "./integrity";
+import type { Severity } from "./diagnostic";
+
+export const RULE_SEVERITIES = ["error", "warning", "off"] as const;
+export type RuleSeverity = (typeof RULE_SEVERITIES)[number];
+
+export const LINT_RULES = [
+  "ambiguous-wording",
+  "measurable-quality",
+  "user-value-restates-description",
+  "id-pattern",
+  "main-without-derived",
+  "approved-without-acceptance-criteria",
+] as const;
+export type LintRule = (typeof LINT_RULES)[number];
+
+/** Severity each rule runs at when the project config doesn't mention it. */
+export const DEFAULT_RULE_SEVERITIES: Record<LintRule, RuleSeverity> = {
+  "ambiguous-wording": "warning",
+  "measurable-quality": "warning",
+  "user-value-restates-description": "warning",
+  "id-pattern": "warning",
+  "main-without-derived": "warning",
+  "approved-without-acceptance-criteria": "warning",
+};
+
+/** Words and phrases that make a requirement impossible to verify. */
+export const AMBIGUOUS_TERMS = [
+  "fast",
+  "quick",
+  "quickly",
+  "easy",
+  "easily",
+  "simple",
+  "user-friendly",
+  "intuitive",
+  "seamless",
+  "flexible",
+  "robust",
+  "efficient",
+  "as appropriate",
+  "as needed",
+  "and/or",
+  "etc.",
+] as const;
+
+const MAIN_ID_PATTERN = /^req-\d{3,}$/;
+const DERIVED_ID_PATTERN = /^der-\d{3,}$/;
+
+/** A single lint finding, attributed to the offending requirement. */
+export interface LintFinding {
+  /** File that contains the offending requirement. */
+  file: RequirementFileName;
+  /** Rule that produced the finding. */
+  rule: LintRule;
+  severity: Severity;
+  /** ID of the offending requirement. */
+  requirementId: string;
+  /** Position of the offending requirement in the array it was passed in. */
+  index: number;
+  /** Field the finding is about, or null when it concerns the whole requirement. */
+  field: string | null;
+  /** Human-readable description of the finding. */
+  message: string;
+}
+
+/**
+ * Runs every enabled lint rule over a full requirement set.
+ *
+ * @param severities - Per-rule overrides; rules not listed use DEFAULT_RULE_SEVERITIES
+ * @returns Findings in file order (main.yaml first)
+ */
+export function lintRequirements(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  severities: Partial<Record<LintRule, RuleSeverity>> = {},
+): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const severityOf = (rule: LintRule) => severities[rule] ?? DEFAULT_RULE_SEVERITIES[rule];
+
+  const report = (finding: Omit<LintFinding, "severity">) => {
+    const severity = severityOf(finding.rule);
+    if (severity !== "off") findings.push({ ...finding, severity });
+  };
+
+  const parentIds = new Set(derivedRequirements.flatMap((d) => d.derivedFrom));
+
+  for (const [index, req] of mainRequirements.entries()) {
+    const base = { file: "main.yaml" as const, requirementId: req.id, index };
+
+    for (const field of ["description", "userValue"] as const) {
+      const term = findAmbiguousTerm(req[field]);
+      if (term) {
+        report({ ...base, rule: "ambiguous-wording", field, message: `${field} uses ambiguous term "${term}"` });
+      }
+    }
+
+    for (const criterion of req.acceptanceCriteria ?? []) {
+      const term = findAmbiguousTerm(formatAcceptanceCriterion(criterion));
+      if (term) {
+        report({
+          ...base,
+          rule: "ambiguous-wording",
+          field: "acceptanceCriteria",
+          message: `acceptanceCriteria uses ambiguous term "${term}"`,
+        });
+        break;
+      }
+    }
+
+    if (restates(req.userValue, req.description)) {
+      report({
+        ...base,
+        rule: "user-value-restates-description",
+        field: "userValue",
+        message: "userValue repeats the description instead of saying why it matters to users",
+      });
+    }
+
+    if (!MAIN_ID_PATTERN.test(req.id)) {
+      report({ ...base, rule: "id-pattern", field: "id", message: `id ${req.id} does not match the req-NNN pattern` });
+    }
+
+    if (!parentIds.has(req.id)) {
+      report({
+        ...base,
+        rule: "main-without-derived",
+        field: null,
+        message: `${req.id} has no derived requirements`,
+      });
+    }
+
+    if (req.status === "approved" && (req.acceptanceCriteria ?? []).length === 0) {
+      report({
+        ...base,
+        rule: "approved-without-acceptance-criteria",
+        field: "status",
+        message: `${req.id} is approved but has no acceptance criteria`,
+      });
+    }
+  }
+
+  for (const [index, req] of derivedRequirements.entries()) {
+    const base = { file: "derived.yaml" as const, requirementId: req.id, index };
+
+    for (const field of ["description", "rationale"] as const) {
+      const term = findAmbiguousTerm(req[field]);
+      if (term) {
+        report({ ...base, rule: "ambiguous-wording", field, message: `${field} uses ambiguous term "${term}"` });
+      }
+    }
+
+    if (req.category === "quality" && !/\d/.test(req.description)) {
+      report({
+        ...base,
+        rule: "measurable-quality",
+        field: "description",
+        message: "quality requirement has no measurable target (e.g. a number, percentage or duration)",
+      });
+    }
+
+    if (!DERIVED_ID_PATTERN.test(req.id)) {
+      report({ ...base, rule: "id-pattern", field: "id", message: `id ${req.id} does not match the der-NNN pattern` });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Returns the first ambiguous term in `text`, matched as a whole word
+ * (case-insensitive), or null.
+ */
+export function findAmbiguousTerm(text: string): string | null {
+  const lower = text.toLowerCase();
+  for (const term of AMBIGUOUS_TERMS) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+    // Terms ending in punctuation ("etc.") can't use a trailing \b
+    const pattern = /\w$/.test(term) ? `(^|[^\\w-])${escaped}\\b` : `(^|[^\\w-])${escaped}`;
+    if (new RegExp(pattern).test(lower)) {
+      return term;
+    }
+  }
+  return null;
+}
+
+/** True when `a` is the same sentence as `b` give or take case, punctuation and spacing. */
+function restates(a: string, b: string): boolean {
+  const normalize = (s: string) => s.toLowerCase().replace(/[^\w\s]/g, "").replace(/\s+/g, " ").trim();
+  return normalize(a) === normalize(b);
+}
@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test";
+import { buildTraceabilityMatrix, isMatrixGrouping } from "./matrix";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MAIN: MainRequirement[] = [
+  { id: "req-001", description: "Search", userValue: "v", priority: "high", status: "draft" },
+  { id: "req-002", description: "Export", userValue: "v", priority: "low", status: "draft" },
+  { id: "req-003", description: "Share", userValue: "v", priority: "low", status: "draft" },
+];
+
+const derived = (id: string, derivedFrom: string[], category: string): DerivedRequirement => ({
+  id,
+  description: `Derived ${id}`,
+  derivedFrom,
+  rationale: "r",
+  category,
+  priority: "high",
+  status: "draft",
+});
+
+const DERIVED: DerivedRequirement[] = [
+  derived("der-001", ["req-001"], "technical"),
+  derived("der-002", ["req-001", "req-002"], "quality"),
+  derived("der-003", ["req-999"], "technical"),
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("buildTraceabilityMatrix", () => {
+  test("marks the derivedFrom links between main and derived requirements", () => {
+    const matrix = buildTraceabilityMatrix(MAIN, DERIVED);
+
+    expect(matrix.columns).toEqual([
+      { key: "der-001", title: "Derived der-001", orphan: false },
+      { key: "der-002", title: "Derived der-002", orphan: false },
+      { key: "der-003", title: "Derived der-003", orphan: true },
+    ]);
+    expect(matrix.rows).toEqual([
+      { id: "req-001", description: "Search", cells: [1, 1, 0], uncovered: false },
+      { id: "req-002", description: "Export", cells: [0, 1, 0], uncovered: false },
+      { id: "req-003", description: "Share", cells: [0, 0, 0], uncovered: true },
+    ]);
+  });
+
+  test("groups columns by category in vocabulary order, counting links", () => {
+    const matrix = buildTraceabilityMatrix(MAIN, [...DERIVED, derived("der-004", ["req-002"], "legal")], "category");
+
+    expect(matrix.columns.map((c) => c.key)).toEqual(["technical", "quality", "legal"]);
+    expect(matrix.columns[0].title).toBe("2 requirement(s)");
+    expect(matrix.rows.map((r) => r.cells)).toEqual([
+      [1, 1, 0],
+      [0, 1, 1],
+      [0, 0, 0],
+    ]);
+  });
+});
+
+describe("isMatrixGrouping", () => {
+  test("accepts the known groupings only", () => {
+    expect(isMatrixGrouping("category")).toBe(true);
+    expect(isMatrixGrouping("status")).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Main × derived traceability matrix, for reviews.
+ *
+ * Rows are main requirements and columns derived requirements, or derived
+ * categories when grouped; a cell counts the `derivedFrom` links between
+ * its row and column. Rows without any link are main requirements nothing
+ * was derived from yet, and columns without any link have no valid parent.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+import { DEFAULT_VOCABULARIES, vocabularyValues } from "./vocabulary";
+import type { VocabularyEntry } from "./vocabulary";
+
+export const MATRIX_GROUPINGS = ["requirement", "category"] as const;
+/** What the columns are: one per derived requirement, or one per category. */
+export type MatrixGrouping = (typeof MATRIX_GROUPINGS)[number];
+
+export function isMatrixGrouping(s: string): s is MatrixGrouping {
+  return MATRIX_GROUPINGS.includes(s as MatrixGrouping);
+}
+
+export interface MatrixColumn {
+  /** Derived requirement ID, or the category when grouped by category. */
+  key: string;
+  /** Description of the derived requirement, or the number of requirements in the category. */
+  title: string;
+  /** True when no row links to the column. */
+  orphan: boolean;
+}
+
+export interface MatrixRow {
+  id: string;
+  description: string;
+  /** Links per column, in column order. */
+  cells: number[];
+  /** True when nothing links to the row. */
+  uncovered: boolean;
+}
+
+export interface TraceabilityMatrix {
+  groupBy: MatrixGrouping;
+  columns: MatrixColumn[];
+  rows: MatrixRow[];
+}
+
+/**
+ * Builds the matrix for a requirement set.
+ *
+ * @param categories - Category vocabulary; grouped columns follow its order,
+ *   with categories missing from it last
+ */
+export function buildTraceabilityMatrix(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  groupBy: MatrixGrouping = "requirement",
+  categories: VocabularyEntry[] = DEFAULT_VOCABULARIES.categories,
+): TraceabilityMatrix {
+  const groups =
+    groupBy === "requirement" ? byRequirement(derivedRequirements) : byCategory(derivedRequirements, categories);
+
+  const rows = mainRequirements.map((main) => {
+    const cells = groups.map((g) => g.members.filter((d) => d.derivedFrom.includes(main.id)).length);
+    return { id: main.id, description: main.description, cells, uncovered: cells.every((n) => n === 0) };
+  });
+  const columns = groups.map((g, i) => ({
+    key: g.key,
+    title: g.title,
+    orphan: rows.every((row) => row.cells[i] === 0),
+  }));
+
+  return { groupBy, columns, rows };
+}
+
+interface ColumnGroup {
+  key: string;
+  title: string;
+  members: DerivedRequirement[];
+}
+
+function byRequirement(derivedRequirements: DerivedRequirement[]): ColumnGroup[] {
+  return derivedRequirements.map((d) => ({ key: d.id, title: d.description, members: [d] }));
+}
+
+function byCategory(derivedRequirements: DerivedRequirement[], categories: VocabularyEntry[]): ColumnGroup[] {
+  const order = vocabularyValues(categories);
+  const rank = (category: string) => (order.includes(category) ? order.indexOf(category) : order.length);
+  const present = [...new Set(derivedRequirements.map((d) => d.category))].sort((a, b) => rank(a) - rank(b));
+
+  return present.map((category) => {
+    const members = derivedRequirements.filter((d) => d.category === category);
+    return { key: category, title: `${members.length} requirement(s)`, members };
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import { toEntries, filterRequirements, sortRequirements } from "./query";
+import type { MainRequirement, DerivedRequirement, Priority, Status } from "./requirement";
+import { DEFAULT_VOCABULARIES } from "./vocabulary";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+function main(id: string, priority: Priority, status: Status): MainRequirement {
+  return { id, description: `Main ${id}`, userValue: "Value", priority, status };
+}
+
+function derived(id: string, priority: Priority, status: Status): DerivedRequirement {
+  return {
+    id,
+    description: `Derived ${id}`,
+    derivedFrom: ["req-1"],
+    rationale: "Rationale",
+    category: id === "der-2" ? "quality" : "technical",
+    priority,
+    status,
+  };
+}
+
+const ENTRIES = toEntries(
+  [main("req-10", "low", "approved"), main("req-2", "high", "draft")],
+  [derived("der-1", "medium", "review"), derived("der-2", "high", "review")],
+);
+
+const ids = (entries: { requirement: { id: string } }[]) => entries.map((e) => e.requirement.id);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("filterRequirements", () => {
+  test("returns everything for an empty filter", () => {
+    expect(ids(filterRequirements(ENTRIES, {}))).toEqual(["req-10", "req-2", "der-1", "der-2"]);
+  });
+
+  test("combines criteria with AND and values with OR", () => {
+    const result = filterRequirements(ENTRIES, { statuses: ["review", "draft"], priorities: ["high"] });
+    expect(ids(result)).toEqual(["req-2", "der-2"]);
+  });
+
+  test("filters by kind", () => {
+    expect(ids(filterRequirements(ENTRIES, { kinds: ["main"] }))).toEqual(["req-10", "req-2"]);
+  });
+
+  test("excludes main requirements when filtering by category", () => {
+    expect(ids(filterRequirements(ENTRIES, { categories: ["quality"] }))).toEqual(["der-2"]);
+  });
+});
+
+describe("sortRequirements", () => {
+  test("sorts IDs naturally", () => {
+    expect(ids(sortRequirements(ENTRIES, "id"))).toEqual(["der-1", "der-2", "req-2", "req-10"]);
+  });
+
+  test("sorts priorities from high to low, then by ID", () => {
+    expect(ids(sortRequirements(ENTRIES, "priority"))).toEqual(["der-2", "req-2", "der-1", "req-10"]);
+  });
+
+  test("sorts statuses in workflow order", () => {
+    expect(ids(sortRequirements(ENTRIES, "status"))).toEqual(["req-2", "der-1", "der-2", "req-10"]);
+  });
+
+  test("sorts in the order of the given vocabulary, unknown values last", () => {
+    const vocabularies = {
+      ...DEFAULT_VOCABULARIES,
+      priorities: [{ value: "low" }, { value: "medium" }],
+    };
+    expect(ids(sortRequirements(ENTRIES, "priority", vocabularies))).toEqual(["req-10", "der-1", "der-2", "req-2"]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Filtering and sorting across main and derived requirements.
+ *
+ * Both kinds are handled as one list of tagged entries so that commands
+ * can show them side by side (e.g. `design-duck list`).
+ */
+
+import type {
+  MainRequirement,
+  DerivedRequirement,
+  Priority,
+  Status,
+  DerivedCategory,
+} from "./requirement";
+import { customFieldValue, customFieldMatches } from "./custom-fields";
+import { DEFAULT_VOCABULARIES, vocabularyValues } from "./vocabulary";
+import type { Vocabularies } from "./vocabulary";
+
+export const REQUIREMENT_KINDS = ["main", "derived"] as const;
+export type RequirementKind = (typeof REQUIREMENT_KINDS)[number];
+
+export function isRequirementKind(s: string): s is RequirementKind {
+  return REQUIREMENT_KINDS.includes(s as RequirementKind);
+}
+
+export const SORT_KEYS = ["id", "priority", "status"] as const;
+export type SortKey = (typeof SORT_KEYS)[number];
+
+export function isSortKey(s: string): s is SortKey {
+  return SORT_KEYS.includes(s as SortKey);
+}
+
+/** A main or derived requirement, tagged with its kind. */
+export type RequirementEntry =
+  | { kind: "main"; requirement: MainRequirement }
+  | { kind: "derived"; requirement: DerivedRequirement };
+
+/**
+ * Criteria for filterRequirements. Each criterion matches any of the listed
+ * values; omitted or empty criteria match everything.
+ */
+export interface RequirementFilter {
+  kinds?: RequirementKind[];
+  statuses?: Status[];
+  priorities?: Priority[];
+  /** Only derived requirements have a category, so this excludes main requirements. */
+  categories?: DerivedCategory[];
+  /**
+   * Allowed values per custom field. Requirements without a value for the
+   * field don't match; list fields match when any element does.
+   */
+  fields?: Record<string, string[]>;
+}
+
+/** Tags main and derived requirements and joins them, main first. */
+export function toEntries(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+): RequirementEntry[] {
+  return [
+    ...mainRequirements.map((requirement) => ({ kind: "main" as const, requirement })),
+    ...derivedRequirements.map((requirement) => ({ kind: "derived" as const, requirement })),
+  ];
+}
+
+/** Returns the entries that match every criterion in `filter`. */
+export function filterRequirements(
+  entries: RequirementEntry[],
+  filter: RequirementFilter,
+): RequirementEntry[] {
+  const matches = <T>(allowed: T[] | undefined, value: T) =>
+    !allowed || allowed.length === 0 || allowed.includes(value);
+
+  return entries.filter(
+    (entry) =>
+      matches(filter.kinds, entry.kind) &&
+      matches(filter.statuses, entry.requirement.status) &&
+      matches(filter.priorities, entry.requirement.priority) &&
+      (!filter.categories ||
+        filter.categories.length === 0 ||
+        (entry.kind === "derived" && filter.categories.includes(entry.requirement.category))) &&
+      Object.entries(filter.fields ?? {}).every(
+        ([name, allowed]) =>
+          allowed.length === 0 || customFieldMatches(customFieldValue(entry.requirement, name), allowed),
+      ),
+  );
+}
+
+/**
+ * Returns the entries sorted by `key`. Priorities and statuses sort in
+ * vocabulary order (high to low; draft, review, approved by default), with
+ * values missing from the vocabulary last; ties and IDs sort naturally, so
+ * `req-2` comes before `req-10`.
+ */
+export function sortRequirements(
+  entries: RequirementEntry[],
+  key: SortKey,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): RequirementEntry[] {
+  const byId = (a: RequirementEntry, b: RequirementEntry) =>
+    a.requirement.id.localeCompare(b.requirement.id, undefined, { numeric: true });
+
+  const order = (values: string[], value: string) => {
+    const index = values.indexOf(value);
+    return index === -1 ? values.length : index;
+  };
+  const priorities = vocabularyValues(vocabularies.priorities);
+  const statuses = vocabularyValues(vocabularies.statuses);
+
+  const rank = (entry: RequirementEntry): number => {
+    switch (key) {
+      case "priority":
+        return order(priorities, entry.requirement.priority);
+      case "status":
+        return order(statuses, entry.requirement.status);
+      case "id":
+        return 0;
+    }
+  };
+
+  return [...entries].sort((a, b) => rank(a) - rank(b) || byId(a, b));
+}
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { planRename } from "./rename";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+function main(id: string): MainRequirement {
+  return { id, description: `Main ${id}`, userValue: "Value", priority: "high", status: "draft" };
+}
+
+function derived(id: string, derivedFrom: string[]): DerivedRequirement {
+  return {
+    id,
+    description: `Derived ${id}`,
+    derivedFrom,
+    rationale: "Rationale",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+  };
+}
+
+describe("planRename", () => {
+  const MAIN = [main("req-001"), main("req-002")];
+  const DERIVED = [
+    derived("der-001", ["req-001"]),
+    derived("der-002", ["req-002"]),
+    derived("der-003", ["req-002", "req-001"]),
+  ];
+
+  test("renames a main requirement and every derivedFrom reference to it", () => {
+    expect(planRename(MAIN, DERIVED, "req-001", "req-100")).toEqual({
+      ok: true,
+      edits: [
+        { file: "main.yaml", id: "req-001", changes: { id: "req-100" } },
+        { file: "derived.yaml", id: "der-001", changes: { derivedFrom: ["req-100"] } },
+        { file: "derived.yaml", id: "der-003", changes: { derivedFrom: ["req-002", "req-100"] } },
+      ],
+    });
+  });
+
+  test("renames a derived requirement", () => {
+    expect(planRename(MAIN, DERIVED, "der-002", "der-200")).toEqual({
+      ok: true,
+      edits: [{ file: "derived.yaml", id: "der-002", changes: { id: "der-200" } }],
+    });
+  });
+
+  test("combines the rename and the reference update of a self-referencing derived requirement", () => {
+    const plan = planRename(MAIN, [derived("der-001", ["der-001"])], "der-001", "der-100");
+
+    expect(plan).toEqual({
+      ok: true,
+      edits: [{ file: "derived.yaml", id: "der-001", changes: { id: "der-100", derivedFrom: ["der-100"] } }],
+    });
+  });
+
+  test("refuses a new ID that is already used by a main or derived requirement", () => {
+    expect(planRename(MAIN, DERIVED, "req-001", "req-002")).toEqual({
+      ok: false,
+      problem: "id-taken",
+      message: "Requirement ID req-002 already exists",
+    });
+    expect(planRename(MAIN, DERIVED, "req-001", "der-001")).toMatchObject({ ok: false, problem: "id-taken" });
+  });
+
+  test("refuses an unknown requirement", () => {
+    expect(planRename(MAIN, DERIVED, "req-999", "req-100")).toEqual({
+      ok: false,
+      problem: "not-found",
+      message: "Requirement req-999 not found",
+    });
+  });
+
+  test("refuses an empty ID or one containing whitespace", () => {
+    expect(planRename(MAIN, DERIVED, "req-001", "")).toMatchObject({ ok: false, problem: "invalid-id" });
+    expect(planRename(MAIN, DERIVED, "req-001", "req 100")).toMatchObject({ ok: false, problem: "invalid-id" });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Planning a requirement ID rename.
+ *
+ * Renaming touches the requirement itself and every `derivedFrom` list that
+ * references it, so traceability survives the rename. This module only
+ * decides what has to change; applying the edits is up to the caller.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+import type { RequirementFileName } from "./integrity";
+
+/** A change to the fields of one requirement. */
+export interface RequirementEdit {
+  file: RequirementFileName;
+  /** ID of the requirement to change (before the rename). */
+  id: string;
+  changes: Partial<Record<keyof MainRequirement | keyof DerivedRequirement, unknown>>;
+}
+
+/** Why a rename can't go ahead. */
+export type RenameProblem = "invalid-id" | "not-found" | "id-taken";
+
+export type RenamePlan =
+  | { ok: true; edits: RequirementEdit[] }
+  | { ok: false; problem: RenameProblem; message: string };
+
+/**
+ * Works out the edits needed to rename `oldId` to `newId`.
+ *
+ * @returns The edits in file order (the renamed requirement first), or the
+ *   reason the rename is refused: the new ID is empty or contains
+ *   whitespace, `oldId` doesn't exist, or `newId` is already used by a main
+ *   or derived requirement.
+ */
+export function planRename(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  oldId: string,
+  newId: string,
+): RenamePlan {
+  if (newId.trim() === "" || /\s/.test(newId)) {
+    return { ok: false, problem: "invalid-id", message: `New ID "${newId}" must be non-empty and contain no whitespace` };
+  }
+
+  const file: RequirementFileName | null = mainRequirements.some((r) => r.id === oldId)
+    ? "main.yaml"
+    : derivedRequirements.some((r) => r.id === oldId)
+      ? "derived.yaml"
+      : null;
+  if (file === null) {
+    return { ok: false, problem: "not-found", message: `Requirement ${oldId} not found` };
+  }
+
+  if ([...mainRequirements, ...derivedRequirements].some((r) => r.id === newId)) {
+    return { ok: false, problem: "id-taken", message: `Requirement ID ${newId} already exists` };
+  }
+
+  const edits: RequirementEdit[] = [{ file, id: oldId, changes: { id: newId } }];
+  for (const derived of derivedRequirements) {
+    if (!derived.derivedFrom.includes(oldId)) continue;
+    const derivedFrom = derived.derivedFrom.map((parent) => (parent === oldId ? newId : parent));
+    // A derived requirement being renamed gets both changes in one edit
+    const existing = edits.find((e) => e.file === "derived.yaml" && e.id === derived.id);
+    if (existing) {
+      existing.changes.derivedFrom = derivedFrom;
+    } else {
+      edits.push({ file: "derived.yaml", id: derived.id, changes: { derivedFrom } });
+    }
+  }
+
+  return { ok: true, edits };
+}
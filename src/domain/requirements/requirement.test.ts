@@ -4,6 +4,9 @@ import {
   validateDerivedRequirement,
   assertMainRequirement,
   assertDerivedRequirement,
+  mainRequirementFieldErrors,
+  derivedRequirementFieldErrors,
+  formatAcceptanceCriterion,
 } from "./requirement";
 
 describe("validateMainRequirement", () => {
@@ -166,3 +169,88 @@ describe("assertDerivedRequirement", () => {
     );
   });
 });
+
+describe("mainRequirementFieldErrors", () => {
+  test("returns no errors for a valid main requirement", () => {
+    const r = {
+      id: "req-001",
+      description: "x",
+      userValue: "y",
+      priority: "high",
+      status: "draft",
+    };
+    expect(mainRequirementFieldErrors(r)).toEqual([]);
+  });
+
+  test("attributes each error to its field", () => {
+    const r = { id: "req-001", description: "x", priority: "critical", status: "draft" };
+    expect(mainRequirementFieldErrors(r)).toEqual([
+      { field: "userValue", message: "userValue must be a non-empty string" },
+      { field: "priority", message: "priority must be one of: high, medium, low" },
+    ]);
+  });
+
+  test("accepts bullet and Given/When/Then acceptance criteria", () => {
+    const r = {
+      id: "req-001",
+      description: "x",
+      userValue: "y",
+      priority: "high",
+      status: "draft",
+      acceptanceCriteria: [
+        "Results appear within 1 second",
+        { given: "a product", when: "searched", then: "it is listed" },
+      ],
+    };
+    expect(mainRequirementFieldErrors(r)).toEqual([]);
+  });
+
+  test("rejects malformed acceptance criteria", () => {
+    const base = { id: "req-001", description: "x", userValue: "y", priority: "high", status: "draft" };
+    expect(mainRequirementFieldErrors({ ...base, acceptanceCriteria: "works" })).toEqual([
+      { field: "acceptanceCriteria", message: "acceptanceCriteria must be an array" },
+    ]);
+    expect(mainRequirementFieldErrors({ ...base, acceptanceCriteria: ["ok", { given: "a", when: "b" }] })).toEqual([
+      {
+        field: "acceptanceCriteria",
+        message: "acceptanceCriteria[1] must be a non-empty string or have non-empty given, when and then",
+      },
+    ]);
+    expect(mainRequirementFieldErrors({ ...base, acceptanceCriteria: [" "] })).toEqual([
+      { field: "acceptanceCriteria", message: "acceptanceCriteria[0] must be a non-empty string" },
+    ]);
+  });
+
+  test("uses a null field for non-objects", () => {
+    expect(mainRequirementFieldErrors(null)).toEqual([
+      { field: null, message: "Requirement must be an object" },
+    ]);
+  });
+});
+
+describe("derivedRequirementFieldErrors", () => {
+  test("attributes each error to its field", () => {
+    const r = {
+      id: "der-001",
+      description: "x",
+      derivedFrom: "req-001",
+      rationale: "y",
+      category: "security",
+      priority: "high",
+      status: "draft",
+    };
+    expect(derivedRequirementFieldErrors(r).map((e) => e.field)).toEqual([
+      "derivedFrom",
+      "category",
+    ]);
+  });
+});
+
+describe("formatAcceptanceCriterion", () => {
+  test("keeps bullets and joins scenarios into one line", () => {
+    expect(formatAcceptanceCriterion("Works offline")).toBe("Works offline");
+    expect(formatAcceptanceCriterion({ given: "a cart", when: "the user pays", then: "an order is created" })).toBe(
+      "Given a cart, when the user pays, then an order is created",
+    );
+  });
+});
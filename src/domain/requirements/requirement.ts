@@ -3,19 +3,29 @@
  * Aligns with requirements/main.yaml and requirements/derived.yaml structure.
  */
 
-export const PRIORITIES = ["high", "medium", "low"] as const;
-export type Priority = (typeof PRIORITIES)[number];
+import { DEFAULT_VOCABULARIES, vocabularyValues } from "./vocabulary";
+import type { Vocabularies } from "./vocabulary";
 
-export const STATUSES = ["draft", "review", "approved"] as const;
-export type Status = (typeof STATUSES)[number];
+/**
+ * Default priorities, highest first. Projects can replace them (and the
+ * statuses and categories below) in config.yaml; see ./vocabulary.
+ */
+export const PRIORITIES: readonly string[] = vocabularyValues(DEFAULT_VOCABULARIES.priorities);
+export type Priority = string;
 
-export const DERIVED_CATEGORIES = [
-  "technical",
-  "operational",
-  "quality",
-  "constraint",
-] as const;
-export type DerivedCategory = (typeof DERIVED_CATEGORIES)[number];
+/** Default statuses, in workflow order. */
+export const STATUSES: readonly string[] = vocabularyValues(DEFAULT_VOCABULARIES.statuses);
+export type Status = string;
+
+/** Default derived requirement categories. */
+export const DERIVED_CATEGORIES: readonly string[] = vocabularyValues(DEFAULT_VOCABULARIES.categories);
+export type DerivedCategory = string;
+
+/**
+ * A condition a main requirement must meet to be accepted: a plain bullet
+ * ("Results appear within 1 second") or a Given/When/Then scenario.
+ */
+export type AcceptanceCriterion = string | { given: string; when: string; then: string };
 
 /** User-value requirement (main.yaml). */
 export interface MainRequirement {
@@ -24,6 +34,7 @@ export interface MainRequirement {
   userValue: string;
   priority: Priority;
   status: Status;
+  acceptanceCriteria?: AcceptanceCriterion[];
 }
 
 /** Technical/enabling requirement (derived.yaml). */
@@ -48,15 +59,15 @@ function nonEmptyString(value: unknown, field: string): string | null {
   return null;
 }
 
-function oneOf<T extends string>(
+function oneOf(
   value: unknown,
   field: string,
-  allowed: readonly T[],
+  allowed: readonly string[],
 ): string | null {
   if (typeof value !== "string") {
     return `${field} must be a string`;
   }
-  if (!allowed.includes(value as T)) {
+  if (!allowed.includes(value)) {
     return `${field} must be one of: ${allowed.join(", ")}`;
   }
   return null;
@@ -75,73 +86,134 @@ function stringArray(value: unknown, field: string): string | null {
   return null;
 }
 
+function acceptanceCriteria(value: unknown, field: string): string | null {
+  if (value === undefined) {
+    return null;
+  }
+  if (!Array.isArray(value)) {
+    return `${field} must be an array`;
+  }
+  const filled = (v: unknown) => typeof v === "string" && v.trim() !== "";
+  for (const [i, item] of value.entries()) {
+    if (typeof item === "string") {
+      if (!filled(item)) return `${field}[${i}] must be a non-empty string`;
+      continue;
+    }
+    const o = item as Record<string, unknown> | null;
+    if (
+      o === null ||
+      typeof o !== "object" ||
+      Array.isArray(o) ||
+      !filled(o.given) ||
+      !filled(o.when) ||
+      !filled(o.then)
+    ) {
+      return `${field}[${i}] must be a non-empty string or have non-empty given, when and then`;
+    }
+  }
+  return null;
+}
+
+/** A validation error attributed to the field it came from (null for the whole object). */
+export interface FieldError {
+  field: string | null;
+  message: string;
+}
+
+function collectFieldErrors(
+  checks: Array<[field: string, error: string | null]>,
+): FieldError[] {
+  const errors: FieldError[] = [];
+  for (const [field, message] of checks) {
+    if (message) errors.push({ field, message });
+  }
+  return errors;
+}
+
+function toValidationResult(errors: FieldError[]): ValidationResult {
+  if (errors.length > 0) {
+    return { valid: false, errors: errors.map((e) => e.message) };
+  }
+  return { valid: true };
+}
+
 /**
- * Validates a main (user-value) requirement.
+ * Validates a main (user-value) requirement, attributing each error to its field.
+ *
+ * @param vocabularies - Allowed priorities and statuses
  */
-export function validateMainRequirement(
+export function mainRequirementFieldErrors(
   raw: unknown,
-): ValidationResult {
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): FieldError[] {
   if (raw === null || typeof raw !== "object") {
-    return { valid: false, errors: ["Requirement must be an object"] };
+    return [{ field: null, message: "Requirement must be an object" }];
   }
   const o = raw as Record<string, unknown>;
-  const errors: string[] = [];
-
-  const idErr = nonEmptyString(o.id, "id");
-  if (idErr) errors.push(idErr);
-  const descErr = nonEmptyString(o.description, "description");
-  if (descErr) errors.push(descErr);
-  const uvErr = nonEmptyString(o.userValue, "userValue");
-  if (uvErr) errors.push(uvErr);
-  const priErr = oneOf(o.priority, "priority", PRIORITIES);
-  if (priErr) errors.push(priErr);
-  const statusErr = oneOf(o.status, "status", STATUSES);
-  if (statusErr) errors.push(statusErr);
 
-  if (errors.length > 0) {
-    return { valid: false, errors };
-  }
-  return { valid: true };
+  return collectFieldErrors([
+    ["id", nonEmptyString(o.id, "id")],
+    ["description", nonEmptyString(o.description, "description")],
+    ["userValue", nonEmptyString(o.userValue, "userValue")],
+    ["acceptanceCriteria", acceptanceCriteria(o.acceptanceCriteria, "acceptanceCriteria")],
+    ["priority", oneOf(o.priority, "priority", vocabularyValues(vocabularies.priorities))],
+    ["status", oneOf(o.status, "status", vocabularyValues(vocabularies.statuses))],
+  ]);
 }
 
 /**
- * Validates a derived (technical/enabling) requirement.
+ * Validates a derived (technical/enabling) requirement, attributing each error to its field.
+ *
+ * @param vocabularies - Allowed categories, priorities and statuses
  */
-export function validateDerivedRequirement(
+export function derivedRequirementFieldErrors(
   raw: unknown,
-): ValidationResult {
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): FieldError[] {
   if (raw === null || typeof raw !== "object") {
-    return { valid: false, errors: ["Requirement must be an object"] };
+    return [{ field: null, message: "Requirement must be an object" }];
   }
   const o = raw as Record<string, unknown>;
-  const errors: string[] = [];
-
-  const idErr = nonEmptyString(o.id, "id");
-  if (idErr) errors.push(idErr);
-  const descErr = nonEmptyString(o.description, "description");
-  if (descErr) errors.push(descErr);
-  const dfErr = stringArray(o.derivedFrom, "derivedFrom");
-  if (dfErr) errors.push(dfErr);
-  const ratErr = nonEmptyString(o.rationale, "rationale");
-  if (ratErr) errors.push(ratErr);
-  const catErr = oneOf(o.category, "category", DERIVED_CATEGORIES);
-  if (catErr) errors.push(catErr);
-  const priErr = oneOf(o.priority, "priority", PRIORITIES);
-  if (priErr) errors.push(priErr);
-  const statusErr = oneOf(o.status, "status", STATUSES);
-  if (statusErr) errors.push(statusErr);
 
-  if (errors.length > 0) {
-    return { valid: false, errors };
-  }
-  return { valid: true };
+  return collectFieldErrors([
+    ["id", nonEmptyString(o.id, "id")],
+    ["description", nonEmptyString(o.description, "description")],
+    ["derivedFrom", stringArray(o.derivedFrom, "derivedFrom")],
+    ["rationale", nonEmptyString(o.rationale, "rationale")],
+    ["category", oneOf(o.category, "category", vocabularyValues(vocabularies.categories))],
+    ["priority", oneOf(o.priority, "priority", vocabularyValues(vocabularies.priorities))],
+    ["status", oneOf(o.status, "status", vocabularyValues(vocabularies.statuses))],
+  ]);
+}
+
+/**
+ * Validates a main (user-value) requirement.
+ */
+export function validateMainRequirement(
+  raw: unknown,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): ValidationResult {
+  return toValidationResult(mainRequirementFieldErrors(raw, vocabularies));
+}
+
+/**
+ * Validates a derived (technical/enabling) requirement.
+ */
+export function validateDerivedRequirement(
+  raw: unknown,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): ValidationResult {
+  return toValidationResult(derivedRequirementFieldErrors(raw, vocabularies));
 }
 
 /**
  * Asserts that a value is a valid MainRequirement; throws with errors if not.
  */
-export function assertMainRequirement(raw: unknown): asserts raw is MainRequirement {
-  const result = validateMainRequirement(raw);
+export function assertMainRequirement(
+  raw: unknown,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): asserts raw is MainRequirement {
+  const result = validateMainRequirement(raw, vocabularies);
   if (!result.valid) {
     throw new Error(`Invalid main requirement: ${result.errors.join("; ")}`);
   }
@@ -150,9 +222,18 @@ export function assertMainRequirement(raw: unknown): asserts raw is MainRequirem
 /**
  * Asserts that a value is a valid DerivedRequirement; throws with errors if not.
  */
-export function assertDerivedRequirement(raw: unknown): asserts raw is DerivedRequirement {
-  const result = validateDerivedRequirement(raw);
+export function assertDerivedRequirement(
+  raw: unknown,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): asserts raw is DerivedRequirement {
+  const result = validateDerivedRequirement(raw, vocabularies);
   if (!result.valid) {
     throw new Error(`Invalid derived requirement: ${result.errors.join("; ")}`);
   }
 }
+
+/** Formats a criterion as one line: bullets as-is, scenarios as "Given …, when …, then …". */
+export function formatAcceptanceCriterion(criterion: AcceptanceCriterion): string {
+  if (typeof criterion === "string") return criterion;
+  return `Given ${criterion.given}, when ${criterion.when}, then ${criterion.then}`;
+}
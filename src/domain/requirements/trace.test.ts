@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { findAnnotations, buildTraceReport, isTestFile } from "./trace";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MAIN: MainRequirement[] = [
+  { id: "req-001", description: "Search", userValue: "v", priority: "high", status: "draft" },
+  { id: "req-002", description: "Export", userValue: "v", priority: "low", status: "draft" },
+];
+
+const DERIVED: DerivedRequirement[] = [
+  {
+    id: "der-001",
+    description: "Index",
+    derivedFrom: ["req-001"],
+    rationale: "r",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("isTestFile", () => {
+  test("recognizes common test file layouts", () => {
+    expect(isTestFile("src/search.test.ts")).toBe(true);
+    expect(isTestFile("src/search.spec.tsx")).toBe(true);
+    expect(isTestFile("tests/search.py")).toBe(true);
+    expect(isTestFile("src/__tests__/search.js")).toBe(true);
+    expect(isTestFile("app/test_search.py")).toBe(true);
+    expect(isTestFile("src/search.ts")).toBe(false);
+    expect(isTestFile("src/testing.ts")).toBe(false);
+  });
+});
+
+describe("findAnnotations", () => {
+  test("finds both tag styles with one or more IDs", () => {
+    const content = ["// @req req-001", "export const x = 1; // design-duck: req-002, der-001"].join("\n");
+
+    expect(findAnnotations(content, "src/a.ts")).toEqual([
+      { file: "src/a.ts", line: 1, requirementId: "req-001", test: null },
+      { file: "src/a.ts", line: 2, requirementId: "req-002", test: null },
+      { file: "src/a.ts", line: 2, requirementId: "der-001", test: null },
+    ]);
+  });
+
+  test("leaves a sentence's full stop out of the ID", () => {
+    expect(findAnnotations("// Implements @req req-001.", "src/a.ts")).toEqual([
+      { file: "src/a.ts", line: 1, requirementId: "req-001", test: null },
+    ]);
+  });
+
+  test("stops the ID list at prose after a comma", () => {
+    expect(findAnnotations("// design-duck: der-004, req-2.1, and more", "src/a.ts")).toEqual([
+      { file: "src/a.ts", line: 1, requirementId: "der-004", test: null },
+      { file: "src/a.ts", line: 1, requirementId: "req-2.1", test: null },
+    ]);
+  });
+
+  test("ignores log prefixes that look like tags", () => {
+    expect(findAnnotations('console.log("[design-duck:store] Loading")', "src/a.ts")).toEqual([]);
+  });
+
+  test("attributes tags in test files to their test case", () => {
+    const content = [
+      "// @req req-001",
+      'describe("search", () => {',
+      "  // Covers the happy path",
+      "  // @req req-002",
+      '  test("finds products by name", () => {',
+      "    // design-duck: der-001",
+      "    expect(1).toBe(1);",
+      "  });",
+      '  it("ignores case", () => {}); // @req req-001',
+      "});",
+      "def test_export(): # @req req-002",
+    ].join("\n");
+
+    expect(findAnnotations(content, "src/search.test.ts").map((a) => [a.requirementId, a.test])).toEqual([
+      ["req-001", null],
+      ["req-002", "finds products by name"],
+      ["der-001", "finds products by name"],
+      ["req-001", "ignores case"],
+      ["req-002", "test_export"],
+    ]);
+  });
+});
+
+describe("buildTraceReport", () => {
+  test("splits implementations from verifications and reports gaps", () => {
+    const report = buildTraceReport(MAIN, DERIVED, [
+      { file: "src/search.ts", line: 3, requirementId: "req-001", test: null },
+      { file: "src/search.test.ts", line: 7, requirementId: "req-001", test: "finds products" },
+      { file: "tests/index.py", line: 1, requirementId: "der-001", test: null },
+      { file: "src/old.ts", line: 9, requirementId: "req-999", test: null },
+    ]);
+
+    expect(report.requirements).toEqual([
+      {
+        id: "req-001",
+        kind: "main",
+        implementedBy: [{ file: "src/search.ts", line: 3 }],
+        verifiedBy: [{ file: "src/search.test.ts", line: 7, test: "finds products" }],
+      },
+      { id: "req-002", kind: "main", implementedBy: [], verifiedBy: [] },
+      { id: "der-001", kind: "derived", implementedBy: [], verifiedBy: [{ file: "tests/index.py", line: 1 }] },
+    ]);
+    expect(report.uncovered).toEqual(["req-002"]);
+    expect(report.unknownReferences).toEqual([{ file: "src/old.ts", line: 9, requirementId: "req-999", test: null }]);
+  });
+});
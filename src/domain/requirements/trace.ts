@@ -0,0 +1,168 @@
+/**
+ * Requirement-to-code traceability.
+ *
+ * Source and test files reference requirements with tags in comments:
+ * `@req req-001` or `design-duck: der-004`, optionally listing several IDs
+ * (`@req req-001, req-002`). An annotation in a test file (`*.test.ts`,
+ * `tests/...`, `test_*.py`, ...) counts as verifying the requirement and is
+ * attributed to the test case it belongs to; anywhere else it counts as
+ * implementing it.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+import type { RequirementKind } from "./query";
+
+/** One reference to a requirement found in a source file. */
+export interface TraceAnnotation {
+  /** File path relative to the project root, with forward slashes. */
+  file: string;
+  /** 1-based line of the tag. */
+  line: number;
+  requirementId: string;
+  /** Name of the test case the tag belongs to; null outside test files and test cases. */
+  test: string | null;
+}
+
+/** Where a requirement is implemented or verified. */
+export interface TraceLink {
+  file: string;
+  line: number;
+  /** Test case name; only set on links that verify the requirement. */
+  test?: string;
+}
+
+/** Files that implement and tests that verify one requirement. */
+export interface RequirementTrace {
+  id: string;
+  kind: RequirementKind;
+  implementedBy: TraceLink[];
+  verifiedBy: TraceLink[];
+}
+
+/** Result of tracing a requirement set against the project's sources. */
+export interface TraceReport {
+  /** Every requirement, main first, in file order. */
+  requirements: RequirementTrace[];
+  /** IDs of requirements no file references. */
+  uncovered: string[];
+  /** Annotations whose ID isn't a known requirement. */
+  unknownReferences: TraceAnnotation[];
+}
+
+/**
+ * `@req` or `design-duck:` followed by whitespace and one or more
+ * comma-separated IDs. The whitespace keeps log prefixes such as
+ * `[design-duck:store]` from counting. An ID can't end in `.` or `-`, so a
+ * sentence's full stop isn't part of it, and the list only goes on after a
+ * comma when the next word has a digit, like IDs do: prose such as
+ * `der-004, and more` isn't read as IDs.
+ */
+const TAG_PATTERN =
+  /(?:@req|design-duck:)\s+([A-Za-z](?:[\w.-]*\w)?(?:\s*,\s*(?=[A-Za-z][\w.-]*\d)[A-Za-z](?:[\w.-]*\w)?)*)/g;
+
+/** Opening of a test case: `test("name"`, `it('name'`, or a Python `def test_name`. */
+const TEST_PATTERN = /\b(?:test|it)(?:\.\w+)?\s*\(\s*(["'`])(.*?)\1|\bdef\s+(test_\w+)/;
+
+/** Paths of files that only hold tests. */
+const TEST_FILE_PATTERN = /(^|\/)(tests?|__tests__)\/|\.(test|spec)\.[^/]+$|(^|\/)test_[^/]+\.py$/;
+
+/** Whether the file holds tests, judging by its path. */
+export function isTestFile(path: string): boolean {
+  return TEST_FILE_PATTERN.test(path);
+}
+
+/**
+ * Finds every requirement annotation in a file.
+ *
+ * In test files, a tag in the comments right above a test case or on its
+ * first line is attributed to that test case; any other tag belongs to the
+ * closest test case opened above it.
+ *
+ * @param file - Path the annotations are attributed to
+ */
+export function findAnnotations(content: string, file: string): TraceAnnotation[] {
+  const lines = content.split("\n");
+  const annotations: TraceAnnotation[] = [];
+
+  for (const [index, text] of lines.entries()) {
+    for (const match of text.matchAll(TAG_PATTERN)) {
+      const test = isTestFile(file) ? testCaseAt(lines, index) : null;
+      for (const requirementId of match[1].split(",").map((id) => id.trim())) {
+        annotations.push({ file, line: index + 1, requirementId, test });
+      }
+    }
+  }
+  return annotations;
+}
+
+/**
+ * Builds the trace report for a requirement set.
+ *
+ * @returns Links per requirement, plus uncovered requirements and unknown references
+ */
+export function buildTraceReport(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  annotations: TraceAnnotation[],
+): TraceReport {
+  const traces = new Map<string, RequirementTrace>();
+  for (const [kind, requirements] of [
+    ["main", mainRequirements],
+    ["derived", derivedRequirements],
+  ] as const) {
+    for (const req of requirements) {
+      traces.set(req.id, { id: req.id, kind, implementedBy: [], verifiedBy: [] });
+    }
+  }
+
+  const unknownReferences: TraceAnnotation[] = [];
+  for (const annotation of annotations) {
+    const trace = traces.get(annotation.requirementId);
+    if (!trace) {
+      unknownReferences.push(annotation);
+    } else if (isTestFile(annotation.file)) {
+      trace.verifiedBy.push({
+        file: annotation.file,
+        line: annotation.line,
+        ...(annotation.test !== null && { test: annotation.test }),
+      });
+    } else {
+      trace.implementedBy.push({ file: annotation.file, line: annotation.line });
+    }
+  }
+
+  const requirements = [...traces.values()];
+  return {
+    requirements,
+    uncovered: requirements
+      .filter((t) => t.implementedBy.length === 0 && t.verifiedBy.length === 0)
+      .map((t) => t.id),
+    unknownReferences,
+  };
+}
+
+/**
+ * Name of the test case a tag on `index` belongs to: one opened on that
+ * line or right below its comment block, else the closest one above.
+ */
+function testCaseAt(lines: string[], index: number): string | null {
+  for (let i = index; i < lines.length; i++) {
+    const name = testName(lines[i]);
+    if (name !== null) return name;
+    if (i > index && !isComment(lines[i])) break;
+  }
+  for (let i = index - 1; i >= 0; i--) {
+    const name = testName(lines[i]);
+    if (name !== null) return name;
+  }
+  return null;
+}
+
+function testName(line: string): string | null {
+  const match = TEST_PATTERN.exec(line);
+  return match ? (match[2] ?? match[3]) : null;
+}
+
+function isComment(line: string): boolean {
+  return /^\s*(\/\/|\/?\*|#)/.test(line);
+}
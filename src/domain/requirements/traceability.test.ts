@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+import { buildDerivedMap, findParents } from "./traceability";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+function main(id: string): MainRequirement {
+  return { id, description: `Main ${id}`, userValue: "Value", priority: "high", status: "draft" };
+}
+
+function derived(id: string, derivedFrom: string[]): DerivedRequirement {
+  return {
+    id,
+    description: `Derived ${id}`,
+    derivedFrom,
+    rationale: "Rationale",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+  };
+}
+
+describe("buildDerivedMap", () => {
+  test("lists each derived requirement under every parent", () => {
+    const map = buildDerivedMap([derived("der-001", ["req-001", "req-002"]), derived("der-002", ["req-001"])]);
+
+    expect(map.get("req-001")?.map((d) => d.id)).toEqual(["der-001", "der-002"]);
+    expect(map.get("req-002")?.map((d) => d.id)).toEqual(["der-001"]);
+    expect(map.get("req-003")).toBeUndefined();
+  });
+});
+
+describe("findParents", () => {
+  test("returns parents in derivedFrom order and skips unknown IDs", () => {
+    const parents = findParents(derived("der-001", ["req-002", "req-999", "req-001"]), [main("req-001"), main("req-002")]);
+
+    expect(parents.map((p) => p.id)).toEqual(["req-002", "req-001"]);
+  });
+});
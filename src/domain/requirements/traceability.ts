@@ -0,0 +1,39 @@
+/**
+ * Relationships between main and derived requirements.
+ *
+ * A derived requirement traces back to one or more main requirements via
+ * its `derivedFrom` list; these helpers answer the question in both
+ * directions.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+
+/**
+ * Builds a lookup from main requirement id to its derived requirements,
+ * in the order they appear in `derivedRequirements`.
+ */
+export function buildDerivedMap(
+  derivedRequirements: DerivedRequirement[],
+): Map<string, DerivedRequirement[]> {
+  const map = new Map<string, DerivedRequirement[]>();
+  for (const derived of derivedRequirements) {
+    for (const parentId of derived.derivedFrom) {
+      const list = map.get(parentId) ?? [];
+      list.push(derived);
+      map.set(parentId, list);
+    }
+  }
+  return map;
+}
+
+/**
+ * Returns the main requirements a derived requirement traces back to, in
+ * `derivedFrom` order. References to unknown requirements are skipped.
+ */
+export function findParents(
+  derived: DerivedRequirement,
+  mainRequirements: MainRequirement[],
+): MainRequirement[] {
+  const byId = new Map(mainRequirements.map((r) => [r.id, r]));
+  return derived.derivedFrom.flatMap((id) => byId.get(id) ?? []);
+}
@@ -0,0 +1,137 @@
+import { describe, expect, test } from "bun:test";
+import { buildVerificationReport, toTestMapping, testMappingErrors, verifiedPercent } from "./verification";
+import type { TestResult } from "./verification";
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+import type { TraceReport } from "./trace";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MAIN: MainRequirement[] = [
+  { id: "req-1", description: "Search", userValue: "v", priority: "high", status: "draft" },
+  { id: "req-10", description: "Export", userValue: "v", priority: "low", status: "draft" },
+];
+
+const DERIVED: DerivedRequirement[] = [
+  {
+    id: "der-1",
+    description: "Index",
+    derivedFrom: ["req-1"],
+    rationale: "r",
+    category: "technical",
+    priority: "high",
+    status: "draft",
+  },
+];
+
+const states = (results: TestResult[], sources = {}) =>
+  buildVerificationReport(MAIN, DERIVED, results, sources).requirements.map((r) => [r.id, r.state]);
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("buildVerificationReport", () => {
+  test("maps tests by the requirement IDs in their names, as whole words", () => {
+    const report = buildVerificationReport(MAIN, DERIVED, [
+      { name: "req-1: finds products", suite: "search", outcome: "passed" },
+      { name: "builds the index", suite: "der-1", outcome: "passed" },
+    ]);
+
+    expect(report.requirements).toEqual([
+      {
+        id: "req-1",
+        kind: "main",
+        state: "verified",
+        tests: [{ name: "search > req-1: finds products", outcome: "passed" }],
+      },
+      { id: "req-10", kind: "main", state: "untested", tests: [] },
+      {
+        id: "der-1",
+        kind: "derived",
+        state: "verified",
+        tests: [{ name: "der-1 > builds the index", outcome: "passed" }],
+      },
+    ]);
+    expect(report.counts).toEqual({ verified: 2, failing: 0, untested: 1 });
+    expect(report.testCount).toBe(2);
+  });
+
+  test("is failing when any test fails, and untested when its tests were skipped", () => {
+    expect(
+      states([
+        { name: "req-1 finds products", suite: "", outcome: "passed" },
+        { name: "req-1 ranks products", suite: "", outcome: "failed" },
+        { name: "req-10 exports", suite: "", outcome: "skipped" },
+      ]),
+    ).toEqual([
+      ["req-1", "failing"],
+      ["req-10", "untested"],
+      ["der-1", "untested"],
+    ]);
+  });
+
+  test("maps tests through the mapping, by full or short name", () => {
+    const mapping = { "export > writes a CSV": ["req-10"], "builds the index": ["der-1"] };
+    expect(
+      states(
+        [
+          { name: "writes a CSV", suite: "export", outcome: "passed" },
+          { name: "builds the index", suite: "index", outcome: "failed" },
+        ],
+        { mapping },
+      ),
+    ).toEqual([
+      ["req-1", "untested"],
+      ["req-10", "verified"],
+      ["der-1", "failing"],
+    ]);
+  });
+
+  test("maps tests annotated with @req through the trace report", () => {
+    const trace: TraceReport = {
+      requirements: [
+        {
+          id: "req-10",
+          kind: "main",
+          implementedBy: [],
+          verifiedBy: [{ file: "src/export.test.ts", line: 3, test: "writes a CSV" }],
+        },
+      ],
+      uncovered: [],
+      unknownReferences: [],
+    };
+    expect(states([{ name: "writes a CSV", suite: "export", outcome: "passed" }], { trace })).toEqual([
+      ["req-1", "untested"],
+      ["req-10", "verified"],
+      ["der-1", "untested"],
+    ]);
+  });
+});
+
+describe("verifiedPercent", () => {
+  test("rounds the verified share down", () => {
+    const report = buildVerificationReport(MAIN, DERIVED, [{ name: "req-1", suite: "", outcome: "passed" }]);
+    expect(verifiedPercent(report)).toBe(33);
+    expect(verifiedPercent(buildVerificationReport([], [], []))).toBe(100);
+  });
+});
+
+describe("toTestMapping", () => {
+  test("accepts single IDs and lists", () => {
+    expect(toTestMapping({ "finds products": "req-1", "export > writes a CSV": ["req-10", "der-1"] })).toEqual({
+      "finds products": ["req-1"],
+      "export > writes a CSV": ["req-10", "der-1"],
+    });
+  });
+
+  test("rejects anything but IDs", () => {
+    expect(testMappingErrors(["req-1"])).toEqual(["Test mapping must be an object from test names to requirement IDs"]);
+    expect(testMappingErrors({ "finds products": [], exports: 3 })).toEqual([
+      '"finds products" must map to a requirement ID or a list of IDs',
+      '"exports" must map to a requirement ID or a list of IDs',
+    ]);
+    expect(() => toTestMapping({ exports: "" })).toThrow("Invalid test mapping");
+  });
+});
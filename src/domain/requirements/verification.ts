@@ -0,0 +1,187 @@
+/**
+ * Verification status from test results.
+ *
+ * Test results (imported from JUnit XML or bun test output) are mapped back
+ * to requirements in three ways: a requirement ID in the test or suite name
+ * (`test("req-001 finds products")`), an entry in the project's test mapping
+ * file, or an `@req` annotation on the test found by `design-duck trace`.
+ * A requirement is then verified when all its tests pass, failing when any
+ * of them fails, and untested when no test maps to it.
+ */
+
+import type { MainRequirement, DerivedRequirement } from "./requirement";
+import type { RequirementKind } from "./query";
+import type { TraceReport } from "./trace";
+import type { VocabularyEntry } from "./vocabulary";
+
+export type TestOutcome = "passed" | "failed" | "skipped";
+
+/** One test case from a result file. */
+export interface TestResult {
+  /** Test case name, without its suite. */
+  name: string;
+  /** Enclosing suites joined with " > " (the JUnit classname); empty at the top level. */
+  suite: string;
+  outcome: TestOutcome;
+}
+
+export const VERIFICATION_STATES = ["verified", "failing", "untested"] as const;
+export type VerificationState = (typeof VERIFICATION_STATES)[number];
+
+/** Badge labels and colors for the verification states. */
+export const VERIFICATION_VOCABULARY: VocabularyEntry[] = [
+  { value: "verified", label: "Verified", color: "green" },
+  { value: "failing", label: "Failing", color: "red" },
+  { value: "untested", label: "Untested", color: "gray" },
+];
+
+/** Test names (`name` or `suite > name`) mapped to the requirement IDs they verify. */
+export type TestMapping = Record<string, string[]>;
+
+/** A test that verifies a requirement. */
+export interface VerifyingTest {
+  /** Full name: `suite > name`, or just the name at the top level. */
+  name: string;
+  outcome: TestOutcome;
+}
+
+export interface RequirementVerification {
+  id: string;
+  kind: RequirementKind;
+  state: VerificationState;
+  tests: VerifyingTest[];
+}
+
+/** Verification state of a requirement set. */
+export interface VerificationReport {
+  /** Every requirement, main first, in file order. */
+  requirements: RequirementVerification[];
+  /** Number of requirements in each state. */
+  counts: Record<VerificationState, number>;
+  /** Number of test results the report was built from. */
+  testCount: number;
+}
+
+/** Where test results are mapped to requirements from, besides the test names. */
+export interface VerificationSources {
+  mapping?: TestMapping;
+  /** Tests annotated with `@req`, matched to results by test name. */
+  trace?: TraceReport | null;
+}
+
+/** Full name of a test result, as used in reports and mapping files. */
+export function testFullName(result: TestResult): string {
+  return result.suite ? `${result.suite} > ${result.name}` : result.name;
+}
+
+/**
+ * Validates a raw test mapping (as loaded from YAML): an object from test
+ * names to a requirement ID or a list of IDs.
+ */
+export function testMappingErrors(raw: unknown): string[] {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return ["Test mapping must be an object from test names to requirement IDs"];
+  }
+  const errors: string[] = [];
+  for (const [name, ids] of Object.entries(raw)) {
+    const list = Array.isArray(ids) ? ids : [ids];
+    if (list.length === 0 || list.some((id) => typeof id !== "string" || id.trim() === "")) {
+      errors.push(`"${name}" must map to a requirement ID or a list of IDs`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates a raw test mapping and normalizes single IDs to lists.
+ * Throws with all errors if the mapping is invalid.
+ */
+export function toTestMapping(raw: unknown): TestMapping {
+  const errors = testMappingErrors(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid test mapping: ${errors.join("; ")}`);
+  }
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, string | string[]>).map(([name, ids]) => [
+      name,
+      Array.isArray(ids) ? ids : [ids],
+    ]),
+  );
+}
+
+/**
+ * Maps test results to requirements and computes each requirement's state.
+ * Skipped tests count as not run: they don't verify a requirement.
+ */
+export function buildVerificationReport(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  results: TestResult[],
+  sources: VerificationSources = {},
+): VerificationReport {
+  const { mapping = {}, trace = null } = sources;
+  const entries = [
+    ...mainRequirements.map((r) => ({ id: r.id, kind: "main" as const })),
+    ...derivedRequirements.map((r) => ({ id: r.id, kind: "derived" as const })),
+  ];
+  const tests = new Map<string, VerifyingTest[]>(entries.map((e) => [e.id, []]));
+
+  // Test names annotated in the sources, per requirement
+  const annotated = new Map<string, Set<string>>();
+  for (const requirement of trace?.requirements ?? []) {
+    for (const link of requirement.verifiedBy) {
+      if (link.test === undefined) continue;
+      const ids = annotated.get(link.test) ?? new Set<string>();
+      ids.add(requirement.id);
+      annotated.set(link.test, ids);
+    }
+  }
+
+  for (const result of results) {
+    const fullName = testFullName(result);
+    const ids = new Set([
+      ...entries.filter((e) => mentions(fullName, e.id)).map((e) => e.id),
+      ...(mapping[fullName] ?? mapping[result.name] ?? []),
+      ...(annotated.get(result.name) ?? []),
+    ]);
+    for (const id of ids) {
+      tests.get(id)?.push({ name: fullName, outcome: result.outcome });
+    }
+  }
+
+  const counts: Record<VerificationState, number> = { verified: 0, failing: 0, untested: 0 };
+  const requirements = entries.map(({ id, kind }) => {
+    const linked = tests.get(id) ?? [];
+    const state = verificationState(linked);
+    counts[state]++;
+    return { id, kind, state, tests: linked };
+  });
+
+  return { requirements, counts, testCount: results.length };
+}
+
+/** Share of requirements that are verified, as a whole percentage (100 for an empty set). */
+export function verifiedPercent(report: VerificationReport): number {
+  const total = report.requirements.length;
+  return total === 0 ? 100 : Math.floor((report.counts.verified / total) * 100);
+}
+
+function verificationState(tests: VerifyingTest[]): VerificationState {
+  if (tests.some((t) => t.outcome === "failed")) return "failing";
+  if (tests.some((t) => t.outcome === "passed")) return "verified";
+  return "untested";
+}
+
+/** Whether `text` contains `id` as a whole word, so req-1 doesn't match req-10. */
+function mentions(text: string, id: string): boolean {
+  let from = text.indexOf(id);
+  while (from !== -1) {
+    const before = text[from - 1];
+    const after = text[from + id.length];
+    if ((before === undefined || !/[\w.-]/.test(before)) && (after === undefined || !/[\w-]/.test(after))) {
+      return true;
+    }
+    from = text.indexOf(id, from + 1);
+  }
+  return false;
+}
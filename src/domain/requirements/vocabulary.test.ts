@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_VOCABULARIES,
+  vocabularyValues,
+  vocabularyEntry,
+  vocabularyErrors,
+  toVocabulary,
+} from "./vocabulary";
+import { PRIORITIES, STATUSES, DERIVED_CATEGORIES } from "./requirement";
+
+describe("DEFAULT_VOCABULARIES", () => {
+  test("match the default priorities, statuses and categories", () => {
+    expect(vocabularyValues(DEFAULT_VOCABULARIES.priorities)).toEqual([...PRIORITIES]);
+    expect(vocabularyValues(DEFAULT_VOCABULARIES.statuses)).toEqual([...STATUSES]);
+    expect(vocabularyValues(DEFAULT_VOCABULARIES.categories)).toEqual([...DERIVED_CATEGORIES]);
+  });
+});
+
+describe("vocabularyEntry", () => {
+  const entries = [{ value: "p0", label: "Blocker", color: "red" as const }, { value: "p1" }];
+
+  test("fills in the label and color", () => {
+    expect(vocabularyEntry(entries, "p0")).toEqual({ value: "p0", label: "Blocker", color: "red" });
+    expect(vocabularyEntry(entries, "p1")).toEqual({ value: "p1", label: "p1", color: "gray" });
+  });
+
+  test("shows values missing from the vocabulary as-is", () => {
+    expect(vocabularyEntry(entries, "p9")).toEqual({ value: "p9", label: "p9", color: "gray" });
+  });
+});
+
+describe("vocabularyErrors", () => {
+  test("accepts plain values and objects", () => {
+    expect(vocabularyErrors(["p0", { value: "p1", label: "Normal", color: "blue" }], "vocabulary.priorities")).toEqual(
+      [],
+    );
+  });
+
+  test("rejects empty and non-array vocabularies", () => {
+    expect(vocabularyErrors([], "vocabulary.statuses")).toEqual(["vocabulary.statuses must be a non-empty array"]);
+    expect(vocabularyErrors("p0", "vocabulary.statuses")).toEqual(["vocabulary.statuses must be a non-empty array"]);
+  });
+
+  test("reports every bad entry", () => {
+    expect(
+      vocabularyErrors(["p0", "p0", { label: "x" }, { value: "p2", color: "brown", label: "" }, 3], "v"),
+    ).toEqual([
+      "v[1]: p0 is listed more than once",
+      "v[2].value must be a non-empty string",
+      "v[3].label must be a non-empty string",
+      "v[3].color must be one of: gray, red, orange, yellow, green, emerald, teal, blue, indigo, purple, pink",
+      "v[4] must be a string or an object with a value",
+    ]);
+  });
+});
+
+describe("toVocabulary", () => {
+  test("turns plain values into entries and drops unknown keys", () => {
+    expect(toVocabulary(["p0", { value: "p1", color: "blue", note: "x" }])).toEqual([
+      { value: "p0" },
+      { value: "p1", color: "blue" },
+    ]);
+  });
+});
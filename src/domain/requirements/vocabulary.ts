@@ -0,0 +1,125 @@
+/**
+ * Project vocabularies: the allowed priorities, statuses and derived
+ * categories, with optional display labels and badge colors.
+ *
+ * Projects can replace any of them in the `vocabulary` section of
+ * desgin-duck/config.yaml; the values below are used otherwise. Order
+ * matters: priorities are listed highest first and statuses in workflow
+ * order, which is how `design-duck list --sort` ranks them.
+ */
+
+/** Colors a badge can be shown in (Tailwind palette names). */
+export const BADGE_COLORS = [
+  "gray",
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "emerald",
+  "teal",
+  "blue",
+  "indigo",
+  "purple",
+  "pink",
+] as const;
+export type BadgeColor = (typeof BADGE_COLORS)[number];
+
+/** One allowed value, e.g. a status. */
+export interface VocabularyEntry {
+  value: string;
+  /** Shown instead of the value in the UI. @default the value */
+  label?: string;
+  /** @default "gray" */
+  color?: BadgeColor;
+}
+
+export const VOCABULARY_NAMES = ["priorities", "statuses", "categories"] as const;
+export type VocabularyName = (typeof VOCABULARY_NAMES)[number];
+
+/** Every vocabulary of a project. */
+export type Vocabularies = Record<VocabularyName, VocabularyEntry[]>;
+
+/** Vocabularies used when config.yaml doesn't override them. */
+export const DEFAULT_VOCABULARIES: Vocabularies = {
+  priorities: [
+    { value: "high", color: "red" },
+    { value: "medium", color: "yellow" },
+    { value: "low", color: "green" },
+  ],
+  statuses: [
+    { value: "draft", color: "gray" },
+    { value: "review", color: "blue" },
+    { value: "approved", color: "emerald" },
+  ],
+  categories: [
+    { value: "technical", color: "purple" },
+    { value: "operational", color: "indigo" },
+    { value: "quality", color: "teal" },
+    { value: "constraint", color: "orange" },
+  ],
+};
+
+/** The allowed values of a vocabulary, in order. */
+export function vocabularyValues(entries: VocabularyEntry[]): string[] {
+  return entries.map((e) => e.value);
+}
+
+/**
+ * Returns the entry for `value`, or a gray entry labelled with the value
+ * itself when the vocabulary doesn't have it.
+ */
+export function vocabularyEntry(entries: VocabularyEntry[], value: string): Required<VocabularyEntry> {
+  const entry = entries.find((e) => e.value === value);
+  return { value, label: entry?.label ?? value, color: entry?.color ?? "gray" };
+}
+
+/**
+ * Validates one raw vocabulary (as loaded from config.yaml). Entries are
+ * either a plain value or an object with a value and optional label/color.
+ *
+ * @param path - Where the vocabulary is, for messages (e.g. "vocabulary.statuses")
+ * @returns Error messages, empty when the vocabulary is valid
+ */
+export function vocabularyErrors(raw: unknown, path: string): string[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return [`${path} must be a non-empty array`];
+  }
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  for (const [i, item] of raw.entries()) {
+    const at = `${path}[${i}]`;
+    const entry = typeof item === "string" ? { value: item } : item;
+    if (entry === null || typeof entry !== "object" || Array.isArray(entry)) {
+      errors.push(`${at} must be a string or an object with a value`);
+      continue;
+    }
+    const e = entry as Record<string, unknown>;
+    if (typeof e.value !== "string" || e.value.trim() === "") {
+      errors.push(`${at}.value must be a non-empty string`);
+    } else if (seen.has(e.value)) {
+      errors.push(`${at}: ${e.value} is listed more than once`);
+    } else {
+      seen.add(e.value);
+    }
+    if (e.label !== undefined && (typeof e.label !== "string" || e.label.trim() === "")) {
+      errors.push(`${at}.label must be a non-empty string`);
+    }
+    if (e.color !== undefined && !BADGE_COLORS.includes(e.color as BadgeColor)) {
+      errors.push(`${at}.color must be one of: ${BADGE_COLORS.join(", ")}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Normalizes a vocabulary that passed vocabularyErrors: plain values become
+ * entries, unknown keys are dropped.
+ */
+export function toVocabulary(raw: unknown[]): VocabularyEntry[] {
+  return raw.map((item) => {
+    if (typeof item === "string") return { value: item };
+    const { value, label, color } = item as VocabularyEntry;
+    return { value, ...(label !== undefined && { label }), ...(color !== undefined && { color }) };
+  });
+}
@@ -0,0 +1,156 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_TRANSITIONS,
+  checkTransition,
+  checkStatusChanges,
+  checkApprovedRequirements,
+} from "./workflow";
+import type { Transition } from "./workflow";
+import type { MainRequirement, DerivedRequirement, Status } from "./requirement";
+
+function main(id: string, status: Status): MainRequirement {
+  return { id, description: `Main ${id}`, userValue: "Value", priority: "high", status };
+}
+
+function derived(id: string, derivedFrom: string[], status: Status): DerivedRequirement {
+  return {
+    id,
+    description: `Derived ${id}`,
+    derivedFrom,
+    rationale: "Rationale",
+    category: "technical",
+    priority: "high",
+    status,
+  };
+}
+
+describe("checkTransition", () => {
+  test("allows the default draft → review → approved steps", () => {
+    expect(checkTransition(DEFAULT_TRANSITIONS, "draft", "review")).toEqual({ allowed: true });
+    expect(checkTransition(DEFAULT_TRANSITIONS, "review", "approved")).toEqual({ allowed: true });
+  });
+
+  test("refuses skipping review and lists the allowed targets", () => {
+    expect(checkTransition(DEFAULT_TRANSITIONS, "draft", "approved")).toEqual({
+      allowed: false,
+      message: "draft → approved is not an allowed transition (allowed from draft: review)",
+    });
+  });
+
+  test("says when a status has no way out", () => {
+    const transitions: Transition[] = [{ from: "draft", to: "approved" }];
+
+    expect(checkTransition(transitions, "approved", "draft")).toEqual({
+      allowed: false,
+      message: "approved → draft is not an allowed transition (approved is final)",
+    });
+  });
+
+  test("limits transitions to the listed actors", () => {
+    const transitions: Transition[] = [{ from: "review", to: "approved", by: ["human"] }];
+
+    expect(checkTransition(transitions, "review", "approved", "human")).toEqual({ allowed: true });
+    expect(checkTransition(transitions, "review", "approved", "agent")).toEqual({
+      allowed: false,
+      message: "review → approved may only be made by: human (not agent)",
+    });
+    expect(checkTransition(transitions, "review", "approved")).toEqual({
+      allowed: false,
+      message: "review → approved may only be made by: human",
+    });
+  });
+});
+
+describe("checkStatusChanges", () => {
+  test("reports changes the workflow doesn't allow", () => {
+    const previous = new Map<string, Status>([
+      ["req-001", "draft"],
+      ["req-002", "draft"],
+      ["der-001", "review"],
+    ]);
+
+    const findings = checkStatusChanges(
+      previous,
+      [main("req-001", "approved"), main("req-002", "review")],
+      [derived("der-001", ["req-001"], "review")],
+      DEFAULT_TRANSITIONS,
+    );
+
+    expect(findings).toEqual([
+      {
+        file: "main.yaml",
+        rule: "status-transition",
+        requirementId: "req-001",
+        index: 0,
+        field: "status",
+        message:
+          "status changed since the last commit: draft → approved is not an allowed transition (allowed from draft: review)",
+      },
+    ]);
+  });
+
+  test("ignores new requirements and actor limits", () => {
+    const transitions: Transition[] = [{ from: "review", to: "approved", by: ["human"] }];
+
+    const findings = checkStatusChanges(
+      new Map([["req-001", "review"]]),
+      [main("req-001", "approved"), main("req-002", "approved")],
+      [],
+      transitions,
+    );
+
+    expect(findings).toEqual([]);
+  });
+});
+
+describe("checkApprovedRequirements", () => {
+  test("reports an approved main requirement with draft derived requirements", () => {
+    const findings = checkApprovedRequirements(
+      [main("req-001", "review"), main("req-002", "approved")],
+      [
+        derived("der-001", ["req-002"], "draft"),
+        derived("der-002", ["req-002"], "review"),
+        derived("der-003", ["req-001", "req-002"], "draft"),
+      ],
+    );
+
+    expect(findings).toEqual([
+      {
+        file: "main.yaml",
+        rule: "approved-with-draft-derived",
+        requirementId: "req-002",
+        index: 1,
+        field: "status",
+        message: "req-002 is approved but derived requirement(s) der-001, der-003 are still draft",
+      },
+    ]);
+  });
+
+  test("reports an approved derived requirement that derives from a draft", () => {
+    const findings = checkApprovedRequirements(
+      [main("req-001", "draft"), main("req-002", "review")],
+      [
+        derived("der-001", ["req-002"], "approved"),
+        derived("der-002", ["req-001", "req-002", "der-003"], "approved"),
+        derived("der-003", ["req-002"], "draft"),
+      ],
+    );
+
+    expect(findings).toEqual([
+      {
+        file: "derived.yaml",
+        rule: "approved-with-draft-parent",
+        requirementId: "der-002",
+        index: 1,
+        field: "status",
+        message: "der-002 is approved but it derives from req-001, der-003, still draft",
+      },
+    ]);
+  });
+
+  test("accepts approved requirements whose derived requirements are past draft", () => {
+    expect(
+      checkApprovedRequirements([main("req-001", "approved")], [derived("der-001", ["req-001"], "review")]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Status workflow rules.
+ *
+ * A requirement's status moves through a configurable set of transitions
+ * (draft → review → approved by default). Each transition can be limited to
+ * certain actors, e.g. so that only a human may approve. On top of the
+ * transitions, the statuses of linked requirements have to agree: an
+ * approved main requirement can't rest on derived requirements that are
+ * still drafts, and a derived requirement can't be approved while a
+ * requirement it derives from is still a draft.
+ */
+
+import type { MainRequirement, DerivedRequirement, Status } from "./requirement";
+import type { RequirementFileName } from "./integrity";
+
+/** An allowed status change. */
+export interface Transition {
+  from: Status;
+  to: Status;
+  /** Actors allowed to make this change; anyone may when omitted. */
+  by?: string[];
+}
+
+/** Transitions used when the project config doesn't list any. */
+export const DEFAULT_TRANSITIONS: Transition[] = [
+  { from: "draft", to: "review" },
+  { from: "review", to: "draft" },
+  { from: "review", to: "approved" },
+  { from: "approved", to: "review" },
+];
+
+export type TransitionCheck =
+  | { allowed: true }
+  | { allowed: false; message: string };
+
+/**
+ * Checks whether `actor` may change a requirement's status from `from` to `to`.
+ *
+ * @param actor - Who is making the change; transitions limited to certain
+ *   actors are refused when this is undefined
+ */
+export function checkTransition(
+  transitions: Transition[],
+  from: Status,
+  to: Status,
+  actor?: string,
+): TransitionCheck {
+  const transition = transitions.find((t) => t.from === from && t.to === to);
+  if (!transition) {
+    return { allowed: false, message: notAllowed(transitions, from, to) };
+  }
+  if (transition.by && (actor === undefined || !transition.by.includes(actor))) {
+    return {
+      allowed: false,
+      message: `${from} → ${to} may only be made by: ${transition.by.join(", ")}${actor === undefined ? "" : ` (not ${actor})`}`,
+    };
+  }
+  return { allowed: true };
+}
+
+/**
+ * Rule that produced a workflow finding:
+ * - `status-transition`: the status changed in a way the workflow doesn't allow
+ * - `approved-with-draft-derived`: an approved main requirement has derived requirements in draft
+ * - `approved-with-draft-parent`: an approved derived requirement derives from a requirement in draft
+ */
+export type WorkflowRule = "status-transition" | "approved-with-draft-derived" | "approved-with-draft-parent";
+
+/** A single workflow problem, attributed to the offending requirement. */
+export interface WorkflowFinding {
+  /** File that contains the offending requirement. */
+  file: RequirementFileName;
+  /** Rule that produced the finding. */
+  rule: WorkflowRule;
+  /** ID of the offending requirement. */
+  requirementId: string;
+  /** Position of the offending requirement in the array it was passed in. */
+  index: number;
+  field: "status";
+  /** Human-readable description of the problem. */
+  message: string;
+}
+
+/**
+ * Compares statuses with an earlier version of the requirements (usually
+ * the last commit) and reports every change the workflow doesn't allow.
+ * Requirements that are new since then are not checked. Actor limits are
+ * ignored, since there is no telling who edited the file.
+ *
+ * @param previous - Earlier status per requirement ID
+ * @returns Findings in file order (main.yaml first)
+ */
+export function checkStatusChanges(
+  previous: ReadonlyMap<string, Status>,
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+  transitions: Transition[],
+): WorkflowFinding[] {
+  const findings: WorkflowFinding[] = [];
+
+  const check = (file: RequirementFileName, requirements: { id: string; status: Status }[]) => {
+    for (const [index, req] of requirements.entries()) {
+      const before = previous.get(req.id);
+      if (before === undefined || before === req.status) continue;
+      if (!transitions.some((t) => t.from === before && t.to === req.status)) {
+        findings.push({
+          file,
+          rule: "status-transition",
+          requirementId: req.id,
+          index,
+          field: "status",
+          message: `status changed since the last commit: ${notAllowed(transitions, before, req.status)}`,
+        });
+      }
+    }
+  };
+
+  check("main.yaml", mainRequirements);
+  check("derived.yaml", derivedRequirements);
+  return findings;
+}
+
+/**
+ * Reports every approved main requirement that has derived requirements
+ * still in draft, and every approved derived requirement that derives from
+ * one still in draft.
+ *
+ * @returns Findings in file order (main.yaml first)
+ */
+export function checkApprovedRequirements(
+  mainRequirements: MainRequirement[],
+  derivedRequirements: DerivedRequirement[],
+): WorkflowFinding[] {
+  const findings: WorkflowFinding[] = [];
+
+  for (const [index, req] of mainRequirements.entries()) {
+    if (req.status !== "approved") continue;
+    const drafts = derivedRequirements
+      .filter((d) => d.status === "draft" && d.derivedFrom.includes(req.id))
+      .map((d) => d.id);
+    if (drafts.length > 0) {
+      findings.push({
+        file: "main.yaml",
+        rule: "approved-with-draft-derived",
+        requirementId: req.id,
+        index,
+        field: "status",
+        message: `${req.id} is approved but derived requirement(s) ${drafts.join(", ")} are still draft`,
+      });
+    }
+  }
+
+  const statuses = new Map<string, Status>(
+    [...mainRequirements, ...derivedRequirements].map((r) => [r.id, r.status]),
+  );
+  for (const [index, req] of derivedRequirements.entries()) {
+    if (req.status !== "approved") continue;
+    const drafts = req.derivedFrom.filter((parent) => statuses.get(parent) === "draft");
+    if (drafts.length > 0) {
+      findings.push({
+        file: "derived.yaml",
+        rule: "approved-with-draft-parent",
+        requirementId: req.id,
+        index,
+        field: "status",
+        message: `${req.id} is approved but it derives from ${drafts.join(", ")}, still draft`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function notAllowed(transitions: Transition[], from: Status, to: Status): string {
+  const targets = transitions.filter((t) => t.from === from).map((t) => t.to);
+  const hint = targets.length > 0 ? `allowed from ${from}: ${targets.join(", ")}` : `${from} is final`;
+  return `${from} → ${to} is not an allowed transition (${hint})`;
+}
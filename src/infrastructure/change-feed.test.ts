@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { createChangeFeed } from "./change-feed";
+import { contentRevision } from "./revisions";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: Search
+    userValue: Find things
+    priority: high
+    status: draft
+`;
+
+describe("createChangeFeed", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(join(testDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(testDir, "derived.yaml"), "requirements: []\n", "utf-8");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("describes the changed files with their revision, content and diff", () => {
+    const feed = createChangeFeed(testDir);
+    const changed = MAIN_YAML.replace("status: draft", "status: review")
+      + "  - id: req-002\n    description: Export\n    userValue: Share\n    priority: low\n    status: draft\n";
+    writeFileSync(join(testDir, "main.yaml"), changed, "utf-8");
+
+    const event = feed.record();
+
+    expect(event?.id).toBe(feed.lastEventId());
+    expect(event?.files).toEqual([
+      {
+        file: "main.yaml",
+        revision: contentRevision(changed),
+        content: changed,
+        diff: { added: ["req-002"], removed: [], modified: [{ id: "req-001", fields: ["status"] }] },
+      },
+    ]);
+    expect(event?.revisions).toEqual({
+      "main.yaml": contentRevision(changed),
+      "derived.yaml": contentRevision("requirements: []\n"),
+    });
+  });
+
+  test("records nothing when no file changed", () => {
+    const feed = createChangeFeed(testDir);
+    writeFileSync(join(testDir, "main.yaml"), MAIN_YAML, "utf-8");
+
+    expect(feed.record()).toBeNull();
+  });
+
+  test("reports deleted files without a revision", () => {
+    const feed = createChangeFeed(testDir);
+    unlinkSync(join(testDir, "main.yaml"));
+
+    const event = feed.record();
+
+    expect(event?.files).toEqual([
+      { file: "main.yaml", revision: null, content: null, diff: { added: [], removed: ["req-001"], modified: [] } },
+    ]);
+  });
+
+  test("leaves the diff empty for files that can't be parsed", () => {
+    const feed = createChangeFeed(testDir);
+    writeFileSync(join(testDir, "main.yaml"), "requirements: [", "utf-8");
+
+    expect(feed.record()?.files[0].diff).toEqual({ added: [], removed: [], modified: [] });
+  });
+
+  test("replays the events after an ID", () => {
+    const feed = createChangeFeed(testDir);
+    const start = feed.lastEventId();
+    writeFileSync(join(testDir, "derived.yaml"), "requirements: [] # 1\n", "utf-8");
+    const first = feed.record();
+    writeFileSync(join(testDir, "derived.yaml"), "requirements: [] # 2\n", "utf-8");
+    const second = feed.record();
+
+    expect(feed.since(start)).toEqual([first!, second!]);
+    expect(feed.since(first!.id)).toEqual([second!]);
+    expect(feed.since(second!.id)).toEqual([]);
+  });
+
+  test("can't replay events from another feed or beyond its history", () => {
+    const feed = createChangeFeed(testDir, { historySize: 1 });
+    const start = feed.lastEventId();
+    for (const n of [1, 2]) {
+      writeFileSync(join(testDir, "derived.yaml"), `requirements: [] # ${n}\n`, "utf-8");
+      feed.record();
+    }
+
+    expect(feed.since(start)).toBeNull();
+    expect(feed.since("elsewhere-1")).toBeNull();
+    expect(feed.since(`${start.slice(0, start.lastIndexOf("-"))}-99`)).toBeNull();
+    expect(feed.since(feed.lastEventId())).toEqual([]);
+  });
+});
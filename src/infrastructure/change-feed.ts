@@ -0,0 +1,155 @@
+/**
+ * The history of changes to the requirement files, for the UI server's
+ * `/events` stream and the Vite plugin.
+ *
+ * The feed remembers what every requirement file (and project.yaml)
+ * contained. When the file watcher fires, record() compares that with the
+ * files on disk and describes the difference as one event: the files that
+ * changed with their new revision and content, and which requirements were
+ * added, removed or modified in each. Browsers apply the new contents
+ * without fetching anything and highlight the changed requirements.
+ *
+ * Events are numbered `<feed>-<sequence>`, and the last HISTORY_SIZE are
+ * kept, so a browser that reconnects with the ID of the last event it saw
+ * can be sent the ones it missed (see since()).
+ */
+
+import { load as parseYaml } from "js-yaml";
+import { readRequirementContents } from "./file-store";
+import { contentRevision } from "./revisions";
+import { diffRequirements } from "../domain/requirements/diff";
+import type { RequirementsDiff } from "../domain/requirements/diff";
+
+/** How one file changed. */
+export interface FileChange {
+  /** Path relative to the requirements directory. */
+  file: string;
+  /** The new revision; null when the file was deleted. */
+  revision: string | null;
+  /** The new content; null when the file was deleted. */
+  content: string | null;
+  /** Requirements added, removed or modified in the file; empty for project.yaml and unparsable files. */
+  diff: RequirementsDiff;
+}
+
+/** What the UI server and the Vite plugin tell browsers when requirement files change. */
+export interface RequirementsChangedEvent {
+  /** The event's ID, also sent as the SSE `id:` field. */
+  id: string;
+  /** The files that changed, in load order (deleted files last). */
+  files: FileChange[];
+  /** The new revision of every requirement file and of project.yaml; a deleted file has none. */
+  revisions: Record<string, string>;
+}
+
+/** Handle returned by createChangeFeed. */
+export interface ChangeFeed {
+  /** ID of the latest event (or of the feed's start); give it to clients that connect now. */
+  lastEventId: () => string;
+  /**
+   * Compares the files on disk with the last recorded state.
+   *
+   * @returns The new event, or null when no file actually changed
+   */
+  record: () => RequirementsChangedEvent | null;
+  /**
+   * The events after `lastEventId`, oldest first.
+   *
+   * @returns null when they can't be told: the ID is from another feed (e.g.
+   *   before a server restart) or older than the kept history
+   */
+  since: (lastEventId: string) => RequirementsChangedEvent[] | null;
+}
+
+/** How many events a feed keeps for clients that reconnect. */
+export const HISTORY_SIZE = 100;
+
+const NO_CHANGES: RequirementsDiff = { added: [], removed: [], modified: [] };
+
+/**
+ * Starts a change feed for a requirements directory, from the files'
+ * current contents.
+ *
+ * @param requirementsDir - Absolute path to the desgin-duck/requirements/ directory
+ */
+export function createChangeFeed(requirementsDir: string, options: { historySize?: number } = {}): ChangeFeed {
+  const { historySize = HISTORY_SIZE } = options;
+  // Tells this feed's IDs from those of an earlier server
+  const feedId = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  let sequence = 0;
+  let contents = readRequirementContents(requirementsDir);
+  const history: RequirementsChangedEvent[] = [];
+
+  const record = (): RequirementsChangedEvent | null => {
+    let current: Record<string, string>;
+    try {
+      current = readRequirementContents(requirementsDir);
+    } catch (err) {
+      // The directory itself may be gone; browsers will find out when they reload
+      if (process.env.DEBUG) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[change-feed] Could not read the requirement files: ${message}`);
+      }
+      return null;
+    }
+
+    const files = [...new Set([...Object.keys(current), ...Object.keys(contents)])]
+      .filter((file) => current[file] !== contents[file])
+      .map((file) => fileChange(file, contents[file], current[file]));
+    contents = current;
+    if (files.length === 0) {
+      return null;
+    }
+
+    sequence++;
+    const revisions = Object.fromEntries(Object.entries(current).map(([file, c]) => [file, contentRevision(c)]));
+    const event: RequirementsChangedEvent = { id: `${feedId}-${sequence}`, files, revisions };
+    history.push(event);
+    if (history.length > historySize) {
+      history.shift();
+    }
+    if (process.env.DEBUG) {
+      console.error(`[change-feed] Event ${event.id}: ${files.map((f) => f.file).join(", ")}`);
+    }
+    return event;
+  };
+
+  const since = (lastEventId: string): RequirementsChangedEvent[] | null => {
+    const dash = lastEventId.lastIndexOf("-");
+    const seen = Number(lastEventId.slice(dash + 1));
+    if (lastEventId.slice(0, dash) !== feedId || !Number.isInteger(seen) || seen < 0 || seen > sequence) {
+      return null;
+    }
+    // Every event after `seen` must still be kept
+    const oldest = history.length > 0 ? sequence - history.length + 1 : sequence + 1;
+    if (seen + 1 < oldest) {
+      return null;
+    }
+    return history.filter((_, i) => oldest + i > seen);
+  };
+
+  return { lastEventId: () => `${feedId}-${sequence}`, record, since };
+}
+
+function fileChange(file: string, before: string | undefined, after: string | undefined): FileChange {
+  const oldItems = before === undefined ? [] : requirementItems(before);
+  const newItems = after === undefined ? [] : requirementItems(after);
+  return {
+    file,
+    revision: after === undefined ? null : contentRevision(after),
+    content: after ?? null,
+    diff: file === "project.yaml" || oldItems === null || newItems === null
+      ? NO_CHANGES
+      : diffRequirements(oldItems, newItems),
+  };
+}
+
+/** The entries of a requirement file's `requirements` list, or null when the file can't be read as one. */
+function requirementItems(content: string): unknown[] | null {
+  try {
+    const doc = parseYaml(content) as { requirements?: unknown } | null;
+    return Array.isArray(doc?.requirements) ? doc.requirements : null;
+  } catch {
+    return null;
+  }
+}
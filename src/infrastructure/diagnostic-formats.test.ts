@@ -0,0 +1,149 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatJsonReport,
+  formatSarifReport,
+  formatJunitReport,
+  REPORT_SCHEMA_VERSION,
+} from "./diagnostic-formats";
+import type { ValidationReport } from "./diagnostic-formats";
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const MAIN = "desgin-duck/requirements/main.yaml";
+const DERIVED = "desgin-duck/requirements/derived.yaml";
+
+const CLEAN: ValidationReport = {
+  files: [
+    { file: MAIN, requirementIds: ["req-001", "req-002"] },
+    { file: DERIVED, requirementIds: ["der-001"] },
+  ],
+  diagnostics: [],
+};
+
+const WITH_PROBLEMS: ValidationReport = {
+  files: [
+    { file: MAIN, requirementIds: ["req-001"] },
+    { file: DERIVED, requirementIds: [] },
+  ],
+  diagnostics: [
+    {
+      file: MAIN,
+      line: 9,
+      column: 15,
+      requirementId: "req-002",
+      field: "priority",
+      rule: "schema",
+      severity: "error",
+      message: "priority must be one of: high, medium, low",
+    },
+    {
+      file: MAIN,
+      line: 3,
+      column: 5,
+      requirementId: "req-001",
+      field: "description",
+      rule: "vague-wording",
+      severity: "warning",
+      message: `description uses "fast" & "easy"`,
+    },
+    {
+      file: DERIVED,
+      line: null,
+      column: null,
+      requirementId: null,
+      field: null,
+      rule: "yaml-syntax",
+      severity: "error",
+      message: "unexpected end of the stream <here>",
+    },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe("formatJsonReport", () => {
+  test("includes schema version and summary counts", () => {
+    const json = JSON.parse(formatJsonReport(WITH_PROBLEMS));
+    expect(json.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(json.tool).toBe("design-duck");
+    expect(json.summary).toEqual({ errors: 2, warnings: 1, files: 2, requirements: 1 });
+  });
+
+  test("emits every diagnostic with the stable field set", () => {
+    const json = JSON.parse(formatJsonReport(WITH_PROBLEMS));
+    expect(json.diagnostics).toHaveLength(3);
+    expect(Object.keys(json.diagnostics[0]).sort()).toEqual(
+      ["column", "field", "file", "line", "message", "requirementId", "rule", "severity"].sort(),
+    );
+    expect(json.diagnostics[2].line).toBeNull();
+  });
+
+  test("reports an empty diagnostics list for a clean run", () => {
+    const json = JSON.parse(formatJsonReport(CLEAN));
+    expect(json.diagnostics).toEqual([]);
+    expect(json.summary.requirements).toBe(3);
+  });
+});
+
+describe("formatSarifReport", () => {
+  test("produces a SARIF 2.1.0 log with one run", () => {
+    const sarif = JSON.parse(formatSarifReport(WITH_PROBLEMS));
+    expect(sarif.version).toBe("2.1.0");
+    expect(sarif.runs).toHaveLength(1);
+    expect(sarif.runs[0].tool.driver.name).toBe("design-duck");
+  });
+
+  test("declares each rule once and references it by index", () => {
+    const sarif = JSON.parse(formatSarifReport(WITH_PROBLEMS));
+    const rules = sarif.runs[0].tool.driver.rules.map((r: { id: string }) => r.id);
+    expect(rules).toEqual(["schema", "vague-wording", "yaml-syntax"]);
+    expect(sarif.runs[0].results[1].ruleIndex).toBe(1);
+  });
+
+  test("maps severity to level and position to region", () => {
+    const [error, warning, fileLevel] = JSON.parse(formatSarifReport(WITH_PROBLEMS)).runs[0].results;
+    expect(error.level).toBe("error");
+    expect(warning.level).toBe("warning");
+    expect(error.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: MAIN },
+      region: { startLine: 9, startColumn: 15 },
+    });
+    expect(error.properties).toEqual({ requirementId: "req-002", field: "priority" });
+    expect(fileLevel.locations[0].physicalLocation.region).toBeUndefined();
+  });
+});
+
+describe("formatJunitReport", () => {
+  test("emits one passing test case per requirement for a clean run", () => {
+    const xml = formatJunitReport(CLEAN);
+    expect(xml).toStartWith(`<?xml version="1.0" encoding="UTF-8"?>`);
+    expect(xml).toContain(`<testsuites name="design-duck validate" tests="3" failures="0">`);
+    expect(xml).toContain(`<testcase classname="${MAIN}" name="req-002" />`);
+    expect(xml).not.toContain("<failure");
+  });
+
+  test("turns errors into failures and warnings into system-out", () => {
+    const xml = formatJunitReport(WITH_PROBLEMS);
+    expect(xml).toContain(`tests="3" failures="2"`);
+    expect(xml).toContain(
+      `<failure message="priority must be one of: high, medium, low" type="schema">`,
+    );
+    expect(xml).toContain("<system-out>");
+    expect(xml).toContain(`${MAIN}:3:5 [vague-wording]`);
+  });
+
+  test("groups file-level diagnostics under a case named after the file", () => {
+    const xml = formatJunitReport(WITH_PROBLEMS);
+    expect(xml).toContain(`<testcase classname="${DERIVED}" name="${DERIVED}">`);
+  });
+
+  test("escapes XML special characters", () => {
+    const xml = formatJunitReport(WITH_PROBLEMS);
+    expect(xml).toContain("&quot;fast&quot; &amp; &quot;easy&quot;");
+    expect(xml).toContain("&lt;here&gt;");
+  });
+});
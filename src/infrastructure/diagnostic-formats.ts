@@ -0,0 +1,211 @@
+/**
+ * Machine-readable renderings of validation results.
+ *
+ * Turns a list of diagnostics into JSON (our own stable schema), SARIF 2.1.0
+ * (GitHub code scanning) or JUnit XML (test reporters). The renderers are
+ * pure string builders with no Node.js imports.
+ */
+
+import type { Diagnostic } from "../domain/requirements/diagnostic";
+import { countBySeverity } from "../domain/requirements/diagnostic";
+
+/** Bumped whenever the JSON report shape changes incompatibly. */
+export const REPORT_SCHEMA_VERSION = 1;
+
+const TOOL_NAME = "design-duck";
+
+/** A requirements file that was checked, with the IDs of its valid requirements. */
+export interface ValidatedFile {
+  /** Path relative to the project root. */
+  file: string;
+  requirementIds: string[];
+}
+
+/** Everything a report renderer needs. */
+export interface ValidationReport {
+  files: ValidatedFile[];
+  diagnostics: Diagnostic[];
+}
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+/**
+ * Renders a report as JSON:
+ * `{ schemaVersion, tool, summary: { errors, warnings, files, requirements }, files, diagnostics }`.
+ */
+export function formatJsonReport(report: ValidationReport): string {
+  const counts = countBySeverity(report.diagnostics);
+  return JSON.stringify(
+    {
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      tool: TOOL_NAME,
+      summary: {
+        errors: counts.error,
+        warnings: counts.warning,
+        files: report.files.length,
+        requirements: report.files.reduce((n, f) => n + f.requirementIds.length, 0),
+      },
+      files: report.files.map((f) => ({ file: f.file, requirements: f.requirementIds.length })),
+      diagnostics: report.diagnostics.map((d) => ({
+        file: d.file,
+        line: d.line,
+        column: d.column,
+        requirementId: d.requirementId,
+        field: d.field,
+        rule: d.rule,
+        severity: d.severity,
+        message: d.message,
+      })),
+    },
+    null,
+    2,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// SARIF
+// ---------------------------------------------------------------------------
+
+/** Renders a report as a SARIF 2.1.0 log with a single run. */
+export function formatSarifReport(report: ValidationReport): string {
+  const ruleIds = [...new Set(report.diagnostics.map((d) => d.rule))];
+
+  const results = report.diagnostics.map((d) => ({
+    ruleId: d.rule,
+    ruleIndex: ruleIds.indexOf(d.rule),
+    level: d.severity,
+    message: { text: d.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: d.file },
+          ...(d.line !== null && {
+            region: { startLine: d.line, ...(d.column !== null && { startColumn: d.column }) },
+          }),
+        },
+      },
+    ],
+    properties: { requirementId: d.requirementId, field: d.field },
+  }));
+
+  return JSON.stringify(
+    {
+      $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+      version: "2.1.0",
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: TOOL_NAME,
+              rules: ruleIds.map((id) => ({ id, shortDescription: { text: id } })),
+            },
+          },
+          artifacts: report.files.map((f) => ({ location: { uri: f.file } })),
+          results,
+        },
+      ],
+    },
+    null,
+    2,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// JUnit
+// ---------------------------------------------------------------------------
+
+interface JunitCase {
+  name: string;
+  errors: Diagnostic[];
+  warnings: Diagnostic[];
+}
+
+/**
+ * Renders a report as JUnit XML: one test suite per file and one test case
+ * per requirement. Errors become `<failure>` elements; warnings are attached
+ * as `<system-out>` so they are visible without failing the test.
+ */
+export function formatJunitReport(report: ValidationReport): string {
+  const suites = report.files.map((file) => ({ file: file.file, cases: junitCases(file, report.diagnostics) }));
+
+  let tests = 0;
+  let failures = 0;
+  const lines = [`<?xml version="1.0" encoding="UTF-8"?>`];
+
+  for (const suite of suites) {
+    const suiteFailures = suite.cases.filter((c) => c.errors.length > 0).length;
+    tests += suite.cases.length;
+    failures += suiteFailures;
+
+    lines.push(
+      `  <testsuite name="${escapeXml(suite.file)}" tests="${suite.cases.length}" failures="${suiteFailures}" errors="0" skipped="0">`,
+    );
+    for (const c of suite.cases) {
+      const open = `    <testcase classname="${escapeXml(suite.file)}" name="${escapeXml(c.name)}"`;
+      if (c.errors.length === 0 && c.warnings.length === 0) {
+        lines.push(`${open} />`);
+        continue;
+      }
+      lines.push(`${open}>`);
+      if (c.errors.length > 0) {
+        const first = c.errors[0];
+        lines.push(
+          `      <failure message="${escapeXml(first.message)}" type="${escapeXml(first.rule)}">${escapeXml(c.errors.map(describeDiagnostic).join("\n"))}</failure>`,
+        );
+      }
+      if (c.warnings.length > 0) {
+        lines.push(`      <system-out>${escapeXml(c.warnings.map(describeDiagnostic).join("\n"))}</system-out>`);
+      }
+      lines.push("    </testcase>");
+    }
+    lines.push("  </testsuite>");
+  }
+
+  lines.splice(1, 0, `<testsuites name="${TOOL_NAME} validate" tests="${tests}" failures="${failures}">`);
+  lines.push("</testsuites>", "");
+  return lines.join("\n");
+}
+
+/**
+ * Groups a file's diagnostics into one case per requirement: valid
+ * requirements first, then any that only appear in diagnostics. File-level
+ * diagnostics are grouped under a case named after the file.
+ */
+function junitCases(file: ValidatedFile, diagnostics: Diagnostic[]): JunitCase[] {
+  const cases = new Map<string, JunitCase>();
+  const caseFor = (name: string) => {
+    let c = cases.get(name);
+    if (!c) {
+      c = { name, errors: [], warnings: [] };
+      cases.set(name, c);
+    }
+    return c;
+  };
+
+  for (const id of file.requirementIds) {
+    caseFor(id);
+  }
+  for (const d of diagnostics) {
+    if (d.file !== file.file) continue;
+    const c = caseFor(d.requirementId ?? file.file);
+    (d.severity === "error" ? c.errors : c.warnings).push(d);
+  }
+
+  return [...cases.values()];
+}
+
+function describeDiagnostic(d: Diagnostic): string {
+  const where = d.line !== null ? `${d.file}:${d.line}:${d.column ?? 1}` : d.file;
+  return `${where} [${d.rule}] ${d.message}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
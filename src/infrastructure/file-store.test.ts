@@ -1,9 +1,23 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
-import { readMainRequirements, readDerivedRequirements } from "./file-store";
+import {
+  readMainRequirements,
+  readDerivedRequirements,
+  readMainRequirementsWithDiagnostics,
+  readDerivedRequirementsWithDiagnostics,
+  readConfig,
+  appendRequirement,
+  updateRequirement,
+  deleteRequirement,
+  renameRequirement,
+  readProject,
+  readProjectWithDiagnostics,
+  findRequirementFile,
+} from "./file-store";
+import { DEFAULT_CONFIG } from "../domain/config/config";
 
 describe("readMainRequirements", () => {
   let testDir: string;
@@ -637,3 +651,536 @@ requirements:
     expect(() => readDerivedRequirements(testDir)).toThrow(/must have a 'requirements' array/);
   });
 });
+
+describe("readMainRequirementsWithDiagnostics", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns requirements and no diagnostics for a valid file", () => {
+    const yaml = `requirements:
+  - id: req-001
+    description: x
+    userValue: y
+    priority: high
+    status: draft
+`;
+    writeFileSync(join(testDir, "main.yaml"), yaml, "utf-8");
+
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.requirements).toHaveLength(1);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  test("keeps valid requirements and reports every invalid one", () => {
+    const yaml = `requirements:
+  - id: req-001
+    description: x
+    userValue: y
+    priority: critical
+    status: draft
+  - id: req-002
+    description: x
+    userValue: y
+    priority: high
+    status: draft
+  - id: req-003
+    description: x
+    priority: high
+    status: done
+`;
+    writeFileSync(join(testDir, "main.yaml"), yaml, "utf-8");
+
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.requirements.map((r) => r.id)).toEqual(["req-002"]);
+    expect(result.diagnostics).toHaveLength(3);
+    expect(result.diagnostics[0]).toEqual({
+      file: "main.yaml",
+      rule: "schema",
+      index: 0,
+      requirementId: "req-001",
+      field: "priority",
+      line: 5,
+      column: 15,
+      message: "priority must be one of: high, medium, low",
+    });
+    expect(result.diagnostics.slice(1).map((d) => d.index)).toEqual([2, 2]);
+    expect(result.diagnostics.slice(1).map((d) => d.requirementId)).toEqual(["req-003", "req-003"]);
+  });
+
+  test("points missing fields at the start of the requirement", () => {
+    const yaml = `# main.yaml
+requirements:
+  - id: req-001
+    description: x
+    priority: high
+    status: draft
+`;
+    writeFileSync(join(testDir, "main.yaml"), yaml, "utf-8");
+
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0]).toMatchObject({ field: "userValue", line: 3, column: 5 });
+  });
+
+  test("returns source locations for valid requirements", () => {
+    const yaml = `requirements:
+  - id: req-001
+    description: x
+    userValue: y
+    priority: high
+    status: draft
+`;
+    writeFileSync(join(testDir, "main.yaml"), yaml, "utf-8");
+
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.locations).toHaveLength(1);
+    expect(result.locations[0]?.position).toEqual({ line: 2, column: 5 });
+    expect(result.locations[0]?.fields.status).toEqual({ line: 6, column: 13 });
+  });
+
+  test("reports a null requirementId when the id is unusable", () => {
+    const yaml = `requirements:
+  - id: 42
+    description: x
+    userValue: y
+    priority: high
+    status: draft
+`;
+    writeFileSync(join(testDir, "main.yaml"), yaml, "utf-8");
+
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].requirementId).toBeNull();
+  });
+
+  test("reports a file-level diagnostic when main.yaml is missing", () => {
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.requirements).toEqual([]);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].index).toBeNull();
+    expect(result.diagnostics[0].message).toMatch(/main.yaml not found/);
+  });
+
+  test("reports a file-level diagnostic for malformed YAML", () => {
+    writeFileSync(join(testDir, "main.yaml"), "requirements:\n  - id: [unclosed\n", "utf-8");
+
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.requirements).toEqual([]);
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].index).toBeNull();
+    expect(result.diagnostics[0].line).toBeGreaterThan(1);
+    expect(result.diagnostics[0].column).not.toBeNull();
+  });
+
+  test("reports a file-level diagnostic when requirements is not an array", () => {
+    writeFileSync(join(testDir, "main.yaml"), `requirements: "nope"`, "utf-8");
+
+    const result = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(result.diagnostics[0].message).toMatch(/must have a 'requirements' array/);
+  });
+});
+
+describe("readDerivedRequirementsWithDiagnostics", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("keeps valid requirements and reports invalid ones", () => {
+    const yaml = `requirements:
+  - id: der-001
+    description: x
+    derivedFrom:
+      - req-001
+    rationale: y
+    category: technical
+    priority: high
+    status: draft
+  - id: der-002
+    description: x
+    derivedFrom: req-001
+    rationale: y
+    category: technical
+    priority: high
+    status: draft
+`;
+    writeFileSync(join(testDir, "derived.yaml"), yaml, "utf-8");
+
+    const result = readDerivedRequirementsWithDiagnostics(testDir);
+
+    expect(result.requirements.map((r) => r.id)).toEqual(["der-001"]);
+    expect(result.diagnostics).toEqual([
+      {
+        file: "derived.yaml",
+        rule: "schema",
+        index: 1,
+        requirementId: "der-002",
+        field: "derivedFrom",
+        line: 12,
+        column: 18,
+        message: "derivedFrom must be an array",
+      },
+    ]);
+  });
+
+  test("reports a file-level diagnostic when derived.yaml is missing", () => {
+    const result = readDerivedRequirementsWithDiagnostics(testDir);
+
+    expect(result.diagnostics[0].message).toMatch(/derived.yaml not found/);
+  });
+});
+
+describe("readConfig", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns the default config when config.yaml is missing", () => {
+    expect(readConfig(testDir)).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("returns the default config for an empty config.yaml", () => {
+    writeFileSync(join(testDir, "config.yaml"), "# nothing here\n", "utf-8");
+    expect(readConfig(testDir)).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("reads lint rule severities", () => {
+    writeFileSync(
+      join(testDir, "config.yaml"),
+      "lint:\n  rules:\n    id-pattern: error\n    ambiguous-wording: off\n",
+      "utf-8",
+    );
+
+    expect(readConfig(testDir).lint.rules).toEqual({ "id-pattern": "error", "ambiguous-wording": "off" });
+  });
+
+  test("throws on an invalid severity", () => {
+    writeFileSync(join(testDir, "config.yaml"), "lint:\n  rules:\n    id-pattern: fatal\n", "utf-8");
+    expect(() => readConfig(testDir)).toThrow(/lint.rules.id-pattern must be one of: error, warning, off/);
+  });
+});
+
+describe("readProject and readProjectWithDiagnostics", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns null when project.yaml is missing", () => {
+    expect(readProject(testDir)).toBeNull();
+    expect(readProjectWithDiagnostics(testDir)).toEqual({ project: null, diagnostics: [] });
+  });
+
+  test("reads the project", () => {
+    writeFileSync(join(testDir, "project.yaml"), "name: Shop\nversion: '2.0'\nowners: [alice]\n", "utf-8");
+
+    expect(readProject(testDir)).toEqual({ name: "Shop", description: "", version: "2.0", owners: ["alice"], links: [] });
+  });
+
+  test("throws on an invalid project", () => {
+    writeFileSync(join(testDir, "project.yaml"), 'name: ""\n', "utf-8");
+    expect(() => readProject(testDir)).toThrow("Invalid project: name must be a non-empty string");
+  });
+
+  test("reports invalid fields with their position", () => {
+    writeFileSync(join(testDir, "project.yaml"), "# Project\nname: Shop\nowners: alice\n", "utf-8");
+
+    expect(readProjectWithDiagnostics(testDir)).toEqual({
+      project: null,
+      diagnostics: [
+        {
+          file: "project.yaml",
+          rule: "schema",
+          index: null,
+          requirementId: null,
+          field: "owners",
+          line: 3,
+          column: 9,
+          message: "owners must be an array of non-empty strings",
+        },
+      ],
+    });
+  });
+
+  test("reports malformed YAML", () => {
+    writeFileSync(join(testDir, "project.yaml"), "name: [unclosed\n", "utf-8");
+
+    const result = readProjectWithDiagnostics(testDir);
+    expect(result.project).toBeNull();
+    expect(result.diagnostics[0].rule).toBe("yaml-syntax");
+  });
+});
+
+describe("appendRequirement", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("appends to the file and keeps the header comment", () => {
+    writeFileSync(join(testDir, "main.yaml"), "# header\nrequirements: []\n", "utf-8");
+
+    appendRequirement(testDir, "main.yaml", {
+      id: "req-001",
+      description: "d",
+      userValue: "v",
+      priority: "high",
+      status: "draft",
+    });
+
+    expect(readFileSync(join(testDir, "main.yaml"), "utf-8")).toStartWith("# header\nrequirements:\n  - id: req-001\n");
+    expect(readMainRequirements(testDir).map((r) => r.id)).toEqual(["req-001"]);
+  });
+
+  test("names the file when it has no requirements list", () => {
+    writeFileSync(join(testDir, "derived.yaml"), "other: 1\n", "utf-8");
+
+    expect(() =>
+      appendRequirement(testDir, "derived.yaml", {
+        id: "der-001",
+        description: "d",
+        derivedFrom: ["req-001"],
+        rationale: "r",
+        category: "technical",
+        priority: "high",
+        status: "draft",
+      }),
+    ).toThrow("Cannot update derived.yaml: YAML must have a 'requirements' list");
+  });
+});
+
+describe("updateRequirement and deleteRequirement", () => {
+  let testDir: string;
+
+  const MAIN = `# main.yaml - User-value requirements
+requirements:
+  - id: req-001
+    description: First
+    userValue: v
+    priority: high       # high | medium | low
+    status: draft
+  - id: req-002
+    description: Second
+    userValue: v
+    priority: low
+    status: draft
+`;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(join(testDir, "main.yaml"), MAIN, "utf-8");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("updates a field in place", () => {
+    updateRequirement(testDir, "main.yaml", "req-001", { priority: "medium" });
+
+    expect(readFileSync(join(testDir, "main.yaml"), "utf-8")).toBe(
+      MAIN.replace("priority: high       #", "priority: medium       #"),
+    );
+  });
+
+  test("deletes a requirement", () => {
+    deleteRequirement(testDir, "main.yaml", "req-001");
+
+    expect(readMainRequirements(testDir).map((r) => r.id)).toEqual(["req-002"]);
+    expect(readFileSync(join(testDir, "main.yaml"), "utf-8")).toStartWith("# main.yaml - User-value requirements\n");
+  });
+
+  test("names the file when the requirement doesn't exist", () => {
+    expect(() => deleteRequirement(testDir, "main.yaml", "req-999")).toThrow(
+      "Cannot update main.yaml: Requirement req-999 not found",
+    );
+  });
+});
+
+describe("renameRequirement", () => {
+  let testDir: string;
+
+  const MAIN = `requirements:
+  - id: req-001
+    description: First
+    userValue: v
+    priority: high
+    status: draft
+`;
+
+  const DERIVED = `requirements:
+  - id: der-001
+    description: Derived
+    derivedFrom: [req-001]
+    rationale: r
+    category: technical
+    priority: high
+    status: draft
+`;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+    writeFileSync(join(testDir, "main.yaml"), MAIN, "utf-8");
+    writeFileSync(join(testDir, "derived.yaml"), DERIVED, "utf-8");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("returns the changed file contents without writing them", () => {
+    const outcome = renameRequirement(testDir, "req-001", "req-100");
+
+    expect(outcome).toEqual({
+      ok: true,
+      changes: [
+        { file: "main.yaml", before: MAIN, after: MAIN.replace("req-001", "req-100") },
+        { file: "derived.yaml", before: DERIVED, after: DERIVED.replace("req-001", "req-100") },
+      ],
+    });
+    expect(readFileSync(join(testDir, "main.yaml"), "utf-8")).toBe(MAIN);
+  });
+
+  test("writes the changes when asked to", () => {
+    renameRequirement(testDir, "req-001", "req-100", { write: true });
+
+    expect(readMainRequirements(testDir).map((r) => r.id)).toEqual(["req-100"]);
+    expect(readDerivedRequirements(testDir)[0].derivedFrom).toEqual(["req-100"]);
+  });
+
+  test("returns the problem when the rename is refused", () => {
+    expect(renameRequirement(testDir, "req-001", "der-001", { write: true })).toEqual({
+      ok: false,
+      problem: "id-taken",
+      message: "Requirement ID der-001 already exists",
+    });
+    expect(readFileSync(join(testDir, "main.yaml"), "utf-8")).toBe(MAIN);
+  });
+});
+
+describe("multi-file requirement sets", () => {
+  let testDir: string;
+
+  const main = (id: string) => `requirements:
+  - id: ${id}
+    description: Main ${id}
+    userValue: v
+    priority: high
+    status: draft
+`;
+
+  const derived = (id: string, parent: string) => `requirements:
+  - id: ${id}
+    description: Derived ${id}
+    derivedFrom: [${parent}]
+    rationale: r
+    category: technical
+    priority: high
+    status: draft
+`;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(join(testDir, "checkout"), { recursive: true });
+    writeFileSync(join(testDir, "main.yaml"), main("req-001"), "utf-8");
+    writeFileSync(join(testDir, "main-2.yaml"), main("req-002"), "utf-8");
+    writeFileSync(join(testDir, "checkout", "main.yaml"), main("req-003"), "utf-8");
+    writeFileSync(join(testDir, "derived.yaml"), derived("der-001", "req-001"), "utf-8");
+    writeFileSync(join(testDir, "checkout", "derived.yaml"), derived("der-002", "req-003"), "utf-8");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("readMainRequirements and readDerivedRequirements merge every file", () => {
+    expect(readMainRequirements(testDir).map((r) => r.id)).toEqual(["req-001", "req-002", "req-003"]);
+    expect(readDerivedRequirements(testDir).map((r) => r.id)).toEqual(["der-001", "der-002"]);
+  });
+
+  test("errors name the file they were found in", () => {
+    writeFileSync(join(testDir, "main-2.yaml"), "requirements: nope\n", "utf-8");
+
+    expect(() => readMainRequirements(testDir)).toThrow("main-2.yaml must have a 'requirements' array");
+  });
+
+  test("readMainRequirementsWithDiagnostics records the source of each requirement", () => {
+    const set = readMainRequirementsWithDiagnostics(testDir);
+
+    expect(set.files).toEqual(["main.yaml", "main-2.yaml", "checkout/main.yaml"]);
+    expect(set.sources).toEqual(["main.yaml", "main-2.yaml", "checkout/main.yaml"]);
+    expect(set.locations).toHaveLength(3);
+    expect(set.diagnostics).toEqual([]);
+  });
+
+  test("readDerivedRequirementsWithDiagnostics attributes diagnostics to their file", () => {
+    writeFileSync(join(testDir, "checkout", "derived.yaml"), "requirements:\n  - id: der-002\n", "utf-8");
+
+    const set = readDerivedRequirementsWithDiagnostics(testDir);
+
+    expect(set.requirements.map((r) => r.id)).toEqual(["der-001"]);
+    expect(set.diagnostics.length).toBeGreaterThan(0);
+    expect(set.diagnostics.every((d) => d.file === "checkout/derived.yaml")).toBe(true);
+  });
+
+  test("findRequirementFile returns the file holding the requirement", () => {
+    expect(findRequirementFile(testDir, "req-002")).toBe("main-2.yaml");
+    expect(findRequirementFile(testDir, "der-002")).toBe("checkout/derived.yaml");
+    expect(findRequirementFile(testDir, "req-999")).toBeNull();
+  });
+
+  test("renameRequirement edits only the files that hold affected requirements", () => {
+    const outcome = renameRequirement(testDir, "req-003", "req-300", { write: true });
+
+    expect(outcome.ok && outcome.changes.map((c) => c.file)).toEqual([
+      "checkout/main.yaml",
+      "checkout/derived.yaml",
+    ]);
+    expect(readFileSync(join(testDir, "checkout", "main.yaml"), "utf-8")).toBe(main("req-003").replace("id: req-003", "id: req-300"));
+    expect(readFileSync(join(testDir, "main-2.yaml"), "utf-8")).toBe(main("req-002"));
+    expect(readDerivedRequirements(testDir)[1].derivedFrom).toEqual(["req-300"]);
+  });
+});
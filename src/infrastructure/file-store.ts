@@ -1,20 +1,50 @@
 /**
- * File system operations for reading requirement YAML files.
+ * File system operations for reading and writing requirement YAML files.
  *
- * Read functions (readMainRequirements, readDerivedRequirements) use
- * filesystem I/O and are Node/Bun only.
+ * Read functions (readMainRequirements, readDerivedRequirements, readProject
+ * and their *WithDiagnostics variants) and write functions (appendRequirement,
+ * updateRequirement, replaceRequirement, deleteRequirement, renameRequirement) use filesystem
+ * I/O and are Node/Bun only. Writes go through ./yaml-writer, which keeps
+ * comments and formatting intact.
+ *
+ * Requirements may be split over several main*.yaml / derived*.yaml files
+ * (see ./requirement-files); readers merge them into one set and writers
+ * take the path of the file to change.
  *
  * Pure parsing functions are re-exported from ./yaml-parser for
  * backward compatibility.
  */
 
-import { readFileSync } from "node:fs";
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
 import { join } from "node:path";
 import {
   parseMainRequirementsYaml,
   parseDerivedRequirementsYaml,
+  parseMainRequirementsYamlWithDiagnostics,
+  parseDerivedRequirementsYamlWithDiagnostics,
+  fileDiagnostic,
+  parseConfigYaml,
+  parseProjectYaml,
+  parseProjectYamlWithDiagnostics,
+  mergeParseResults,
 } from "./yaml-parser";
+import type { ParseResult, ProjectParseResult, RequirementSet } from "./yaml-parser";
+import { discoverRequirementFiles } from "./requirement-files";
+import {
+  appendRequirementToYaml,
+  updateRequirementInYaml,
+  deleteRequirementFromYaml,
+} from "./yaml-writer";
+import { contentRevision } from "./revisions";
+import type { RequirementKind } from "../domain/requirements/query";
+import { planRename } from "../domain/requirements/rename";
+import type { RenameProblem, RequirementEdit } from "../domain/requirements/rename";
 import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { DEFAULT_VOCABULARIES } from "../domain/requirements/vocabulary";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+import { DEFAULT_CONFIG } from "../domain/config/config";
+import type { DesignDuckConfig } from "../domain/config/config";
+import type { Project } from "../domain/project/project";
 
 // Re-export pure parsers for backward compatibility
 export { parseMainRequirementsYaml, parseDerivedRequirementsYaml } from "./yaml-parser";
@@ -28,73 +58,515 @@ export interface RequirementsFile<T> {
 // ---------------------------------------------------------------------------
 
 /**
- * Reads and parses main.yaml into validated MainRequirement objects.
+ * Reads and parses every main requirements file (main.yaml, main-2.yaml,
+ * area/main.yaml, ...) into one list of validated MainRequirement objects.
  *
  * @param requirementsDir - Path to the requirements/ directory
- * @returns Array of validated main requirements
- * @throws Error if file not found, malformed YAML, or validation fails
+ * @param vocabularies - Allowed priorities, statuses and categories
+ * @returns Array of validated main requirements, in file order
+ * @throws Error if no file is found, or any file has malformed YAML or fails validation
  */
-export function readMainRequirements(requirementsDir: string): MainRequirement[] {
-  const filePath = join(requirementsDir, "main.yaml");
+export function readMainRequirements(
+  requirementsDir: string,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): MainRequirement[] {
+  return readRequirementSet(requirementsDir, "main", (content, file) =>
+    parseMainRequirementsYaml(content, file, vocabularies),
+  ).requirements;
+}
 
-  if (process.env.DEBUG) {
-    console.error(`[file-store] Reading main requirements from: ${filePath}`);
+/**
+ * Reads and parses every derived requirements file (derived.yaml,
+ * derived-2.yaml, area/derived.yaml, ...) into one list of validated
+ * DerivedRequirement objects.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param vocabularies - Allowed priorities, statuses and categories
+ * @returns Array of validated derived requirements, in file order
+ * @throws Error if no file is found, or any file has malformed YAML or fails validation
+ */
+export function readDerivedRequirements(
+  requirementsDir: string,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): DerivedRequirement[] {
+  return readRequirementSet(requirementsDir, "derived", (content, file) =>
+    parseDerivedRequirementsYaml(content, file, vocabularies),
+  ).requirements;
+}
+
+/**
+ * Returns the file that holds the requirement with this ID, relative to the
+ * requirements directory, or null when no requirement has it.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param vocabularies - Allowed priorities, statuses and categories
+ * @throws Error if the requirement files can't be read or are invalid
+ */
+export function findRequirementFile(
+  requirementsDir: string,
+  id: string,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): string | null {
+  for (const set of [
+    readRequirementSet(requirementsDir, "main", (content, file) =>
+      parseMainRequirementsYaml(content, file, vocabularies),
+    ),
+    readRequirementSet(requirementsDir, "derived", (content, file) =>
+      parseDerivedRequirementsYaml(content, file, vocabularies),
+    ),
+  ]) {
+    const index = set.requirements.findIndex((r) => r.id === id);
+    if (index !== -1) return set.sources[index];
   }
+  return null;
+}
 
-  try {
-    const content = readFileSync(filePath, "utf-8");
+/** A requirement with its kind and the file that holds it. */
+export interface StoredRequirement {
+  kind: RequirementKind;
+  /** File path relative to the requirements directory. */
+  file: string;
+  requirement: MainRequirement | DerivedRequirement;
+}
+
+/**
+ * Reads every requirement with the file it comes from, main requirements
+ * first, each kind in load order.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param vocabularies - Allowed priorities, statuses and categories
+ * @throws Error if no file is found, or any file has malformed YAML or fails validation
+ */
+export function readStoredRequirements(
+  requirementsDir: string,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): StoredRequirement[] {
+  const main = readRequirementSet(requirementsDir, "main", (content, file) =>
+    parseMainRequirementsYaml(content, file, vocabularies),
+  );
+  const derived = readRequirementSet(requirementsDir, "derived", (content, file) =>
+    parseDerivedRequirementsYaml(content, file, vocabularies),
+  );
+  return [
+    ...main.requirements.map((requirement, i): StoredRequirement => ({
+      kind: "main",
+      file: main.sources[i],
+      requirement,
+    })),
+    ...derived.requirements.map((requirement, i): StoredRequirement => ({
+      kind: "derived",
+      file: derived.sources[i],
+      requirement,
+    })),
+  ];
+}
+
+/**
+ * Returns the contents of every requirement file and of project.yaml (when
+ * present), by path relative to the requirements directory.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ */
+export function readRequirementContents(requirementsDir: string): Record<string, string> {
+  const files = discoverRequirementFiles(requirementsDir);
+  const contents: Record<string, string> = {};
+  for (const file of [...files.main, ...files.derived, "project.yaml"]) {
+    const path = join(requirementsDir, file);
+    if (existsSync(path)) {
+      contents[file] = readFileSync(path, "utf-8");
+    }
+  }
+  return contents;
+}
+
+/**
+ * Returns the current revision of every requirement file and of
+ * project.yaml (when present), by path relative to the requirements directory.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ */
+export function readFileRevisions(requirementsDir: string): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(readRequirementContents(requirementsDir)).map(([file, content]) => [file, contentRevision(content)]),
+  );
+}
+
+/**
+ * Reads every main requirements file without throwing, returning the valid
+ * requirements merged into one set plus a diagnostic for every problem
+ * (including a missing or unreadable file).
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param vocabularies - Allowed priorities, statuses and categories
+ */
+export function readMainRequirementsWithDiagnostics(
+  requirementsDir: string,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): RequirementSet<MainRequirement> {
+  return readSetWithDiagnostics(requirementsDir, "main", (content, file) =>
+    parseMainRequirementsYamlWithDiagnostics(content, file, vocabularies),
+  );
+}
+
+/**
+ * Reads every derived requirements file without throwing, returning the
+ * valid requirements merged into one set plus a diagnostic for every problem
+ * (including a missing or unreadable file).
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param vocabularies - Allowed priorities, statuses and categories
+ */
+export function readDerivedRequirementsWithDiagnostics(
+  requirementsDir: string,
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): RequirementSet<DerivedRequirement> {
+  return readSetWithDiagnostics(requirementsDir, "derived", (content, file) =>
+    parseDerivedRequirementsYamlWithDiagnostics(content, file, vocabularies),
+  );
+}
+
+/** File reported as missing when a requirements directory has no file of a kind. */
+function defaultFileName(kind: RequirementKind): string {
+  return `${kind}.yaml`;
+}
+
+function readRequirementSet<T>(
+  requirementsDir: string,
+  kind: RequirementKind,
+  parse: (content: string, fileName: string) => T[],
+): { requirements: T[]; sources: string[] } {
+  const files = discoverRequirementFiles(requirementsDir)[kind];
+  if (files.length === 0) {
+    const fileName = defaultFileName(kind);
+    throw new Error(`${fileName} not found at ${join(requirementsDir, fileName)}`);
+  }
+
+  const set: { requirements: T[]; sources: string[] } = { requirements: [], sources: [] };
+  for (const file of files) {
+    const filePath = join(requirementsDir, file);
 
     if (process.env.DEBUG) {
-      console.error(`[file-store] Read ${content.length} bytes from main.yaml`);
+      console.error(`[file-store] Reading ${kind} requirements from: ${filePath}`);
     }
 
-    const requirements = parseMainRequirementsYaml(content);
+    const requirements = parse(readFileSync(filePath, "utf-8"), file);
 
     if (process.env.DEBUG) {
-      console.error(`[file-store] Successfully parsed ${requirements.length} main requirements`);
+      console.error(`[file-store] Successfully parsed ${requirements.length} ${kind} requirements from ${file}`);
     }
 
-    return requirements;
+    set.requirements.push(...requirements);
+    set.sources.push(...requirements.map(() => file));
+  }
+  return set;
+}
+
+function readSetWithDiagnostics<T>(
+  requirementsDir: string,
+  kind: RequirementKind,
+  parse: (content: string, fileName: string) => ParseResult<T>,
+): RequirementSet<T> {
+  const files = discoverRequirementFiles(requirementsDir)[kind];
+  if (files.length === 0) {
+    const fileName = defaultFileName(kind);
+    const set = mergeParseResults<T>([]);
+    set.diagnostics.push(
+      fileDiagnostic(fileName, "file-missing", `${fileName} not found at ${join(requirementsDir, fileName)}`),
+    );
+    return set;
+  }
+
+  return mergeParseResults(files.map((file) => ({ file, result: readWithDiagnostics(requirementsDir, file, parse) })));
+}
+
+function readWithDiagnostics<T>(
+  requirementsDir: string,
+  fileName: string,
+  parse: (content: string, fileName: string) => ParseResult<T>,
+): ParseResult<T> {
+  const filePath = join(requirementsDir, fileName);
+
+  if (process.env.DEBUG) {
+    console.error(`[file-store] Reading ${fileName} (collecting diagnostics) from: ${filePath}`);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch (err) {
+    const message = `Failed to read ${fileName}: ${err instanceof Error ? err.message : String(err)}`;
+    return {
+      requirements: [],
+      locations: [],
+      diagnostics: [fileDiagnostic(fileName, "file-missing", message)],
+    };
+  }
+
+  const result = parse(content, fileName);
+
+  if (process.env.DEBUG) {
+    console.error(
+      `[file-store] Parsed ${result.requirements.length} valid requirements and ${result.diagnostics.length} diagnostics from ${fileName}`,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Reads and parses the optional project.yaml.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @returns Validated project, or null when the file doesn't exist
+ * @throws Error if malformed YAML or validation fails
+ */
+export function readProject(requirementsDir: string): Project | null {
+  const content = readOptionalFile(join(requirementsDir, "project.yaml"));
+  return content === null ? null : parseProjectYaml(content);
+}
+
+/**
+ * Reads the optional project.yaml without throwing. A missing file is not a
+ * problem and yields no project and no diagnostics.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ */
+export function readProjectWithDiagnostics(requirementsDir: string): ProjectParseResult {
+  let content: string | null;
+  try {
+    content = readOptionalFile(join(requirementsDir, "project.yaml"));
+  } catch (err) {
+    const message = `Failed to read project.yaml: ${err instanceof Error ? err.message : String(err)}`;
+    return { project: null, diagnostics: [fileDiagnostic("project.yaml", "file-missing", message)] };
+  }
+  return content === null ? { project: null, diagnostics: [] } : parseProjectYamlWithDiagnostics(content);
+}
+
+/** Reads a file that may not exist; returns null when it doesn't. */
+function readOptionalFile(filePath: string): string | null {
+  if (process.env.DEBUG) {
+    console.error(`[file-store] Reading optional file: ${filePath}`);
+  }
+  try {
+    return readFileSync(filePath, "utf-8");
   } catch (err) {
     if (err instanceof Error && "code" in err && err.code === "ENOENT") {
-      throw new Error(`main.yaml not found at ${filePath}`);
+      return null;
     }
     throw err;
   }
 }
 
 /**
- * Reads and parses derived.yaml into validated DerivedRequirement objects.
+ * Reads and parses the optional desgin-duck/config.yaml.
  *
- * @param requirementsDir - Path to the requirements/ directory
- * @returns Array of validated derived requirements
- * @throws Error if file not found, malformed YAML, or validation fails
+ * @param duckDir - Path to the desgin-duck/ directory
+ * @returns Validated config, or the default config when the file doesn't exist
+ * @throws Error if malformed YAML or validation fails
  */
-export function readDerivedRequirements(requirementsDir: string): DerivedRequirement[] {
-  const filePath = join(requirementsDir, "derived.yaml");
+export function readConfig(duckDir: string): DesignDuckConfig {
+  const filePath = join(duckDir, "config.yaml");
 
   if (process.env.DEBUG) {
-    console.error(`[file-store] Reading derived requirements from: ${filePath}`);
+    console.error(`[file-store] Reading config from: ${filePath}`);
   }
 
+  let content: string;
   try {
-    const content = readFileSync(filePath, "utf-8");
+    content = readFileSync(filePath, "utf-8");
+  } catch (err) {
+    if (err instanceof Error && "code" in err && err.code === "ENOENT") {
+      if (process.env.DEBUG) {
+        console.error("[file-store] No config.yaml found, using defaults");
+      }
+      return DEFAULT_CONFIG;
+    }
+    throw err;
+  }
 
-    if (process.env.DEBUG) {
-      console.error(`[file-store] Read ${content.length} bytes from derived.yaml`);
+  return parseConfigYaml(content);
+}
+
+// ---------------------------------------------------------------------------
+// Filesystem writers (Node/Bun only)
+// ---------------------------------------------------------------------------
+
+/**
+ * Appends a requirement to a requirements file, keeping the file's
+ * comments and formatting intact. The caller is responsible for validating
+ * the requirement first.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param fileName - File to append to, relative to the requirements directory
+ * @param requirement - Requirement to append
+ * @throws Error if the file can't be read or has no `requirements` list
+ */
+export function appendRequirement(
+  requirementsDir: string,
+  fileName: string,
+  requirement: MainRequirement | DerivedRequirement,
+): void {
+  editRequirementsFile(requirementsDir, fileName, (content) => appendRequirementToYaml(content, requirement));
+}
+
+/**
+ * Changes fields of one requirement in a requirements file, keeping the
+ * file's comments and formatting intact. Fields set to `undefined` are
+ * removed. The caller is responsible for validating the result.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param fileName - File that contains the requirement, relative to the requirements directory
+ * @param id - ID of the requirement to change
+ * @param changes - New field values, keyed by field name
+ * @throws Error if the file can't be read or has no requirement with this ID
+ */
+export function updateRequirement(
+  requirementsDir: string,
+  fileName: string,
+  id: string,
+  changes: Partial<Record<keyof MainRequirement | keyof DerivedRequirement, unknown>>,
+): void {
+  editRequirementsFile(requirementsDir, fileName, (content) => updateRequirementInYaml(content, id, changes));
+}
+
+/**
+ * Replaces one requirement with a new version, keeping the file's comments
+ * and formatting intact. Only the fields that differ are written: changed
+ * ones in place, new ones at the end and missing ones removed. The caller
+ * is responsible for validating the new version.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param fileName - File that contains the requirement, relative to the requirements directory
+ * @param current - The requirement as it is in the file
+ * @param replacement - The new version, with the same ID
+ * @throws Error if the file can't be read or has no requirement with this ID
+ */
+export function replaceRequirement(
+  requirementsDir: string,
+  fileName: string,
+  current: MainRequirement | DerivedRequirement,
+  replacement: MainRequirement | DerivedRequirement,
+): void {
+  const before = current as unknown as Record<string, unknown>;
+  const after = replacement as unknown as Record<string, unknown>;
+  const changes: Record<string, unknown> = {};
+  for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = after[field];
     }
+  }
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+  editRequirementsFile(requirementsDir, fileName, (content) => updateRequirementInYaml(content, current.id, changes));
+}
+
+/**
+ * Removes one requirement from a requirements file, keeping the rest of the
+ * file intact.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param fileName - File that contains the requirement, relative to the requirements directory
+ * @param id - ID of the requirement to remove
+ * @throws Error if the file can't be read or has no requirement with this ID
+ */
+export function deleteRequirement(requirementsDir: string, fileName: string, id: string): void {
+  editRequirementsFile(requirementsDir, fileName, (content) => deleteRequirementFromYaml(content, id));
+}
 
-    const requirements = parseDerivedRequirementsYaml(content);
+/** The content of a requirements file before and after an operation. */
+export interface FileChange {
+  /** File path relative to the requirements directory. */
+  file: string;
+  before: string;
+  after: string;
+}
 
-    if (process.env.DEBUG) {
-      console.error(`[file-store] Successfully parsed ${requirements.length} derived requirements`);
+export type RenameOutcome =
+  | { ok: true; changes: FileChange[] }
+  | { ok: false; problem: RenameProblem; message: string };
+
+/**
+ * Renames a requirement and updates every `derivedFrom` reference to it,
+ * keeping the files' comments and formatting intact.
+ *
+ * Every affected file is computed in full before anything is written, so a
+ * failed rename leaves them all untouched.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ * @param options.write - Write the changes to disk; otherwise only compute them
+ * @param options.vocabularies - Allowed priorities, statuses and categories
+ * @returns The changed files, or why the rename was refused
+ * @throws Error if the requirement files can't be read or are invalid
+ */
+export function renameRequirement(
+  requirementsDir: string,
+  oldId: string,
+  newId: string,
+  options: { write?: boolean; vocabularies?: Vocabularies } = {},
+): RenameOutcome {
+  const { vocabularies = DEFAULT_VOCABULARIES } = options;
+  const main = readRequirementSet(requirementsDir, "main", (content, file) =>
+    parseMainRequirementsYaml(content, file, vocabularies),
+  );
+  const derived = readRequirementSet(requirementsDir, "derived", (content, file) =>
+    parseDerivedRequirementsYaml(content, file, vocabularies),
+  );
+  const plan = planRename(main.requirements, derived.requirements, oldId, newId);
+  if (!plan.ok) {
+    return plan;
+  }
+
+  // Group the edits by the file that holds each requirement, keeping load order
+  const editsByFile = new Map<string, RequirementEdit[]>();
+  for (const set of [main, derived]) {
+    for (const file of new Set(set.sources)) editsByFile.set(file, []);
+  }
+  for (const edit of plan.edits) {
+    const set = edit.file === "main.yaml" ? main : derived;
+    const file = set.sources[set.requirements.findIndex((r) => r.id === edit.id)];
+    editsByFile.get(file)!.push(edit);
+  }
+
+  const changes: FileChange[] = [];
+  for (const [file, edits] of editsByFile) {
+    if (edits.length === 0) continue;
+    const before = readFileSync(join(requirementsDir, file), "utf-8");
+    const after = edits.reduce((content, edit) => updateRequirementInYaml(content, edit.id, edit.changes), before);
+    changes.push({ file, before, after });
+  }
+
+  if (options.write) {
+    for (const change of changes) {
+      if (process.env.DEBUG) {
+        console.error(`[file-store] Writing renamed ${oldId} -> ${newId} to: ${change.file}`);
+      }
+      writeFileSync(join(requirementsDir, change.file), change.after, "utf-8");
     }
+  }
 
-    return requirements;
+  return { ok: true, changes };
+}
+
+/** Reads a requirements file, applies a pure edit and writes the result back. */
+function editRequirementsFile(
+  requirementsDir: string,
+  fileName: string,
+  edit: (content: string) => string,
+): void {
+  const filePath = join(requirementsDir, fileName);
+
+  if (process.env.DEBUG) {
+    console.error(`[file-store] Editing: ${filePath}`);
+  }
+
+  const content = readFileSync(filePath, "utf-8");
+  let updated: string;
+  try {
+    updated = edit(content);
   } catch (err) {
-    if (err instanceof Error && "code" in err && err.code === "ENOENT") {
-      throw new Error(`derived.yaml not found at ${filePath}`);
-    }
-    throw err;
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Cannot update ${fileName}: ${msg}`);
   }
+  writeFileSync(filePath, updated, "utf-8");
 }
@@ -67,7 +67,7 @@ describe("watchRequirementsDir", () => {
     // Create the file before watching
     writeFileSync(join(testDir, "main.yaml"), "requirements: []\n", "utf-8");
 
-    const onChange = mock(() => {});
+    const onChange = mock((_files: string[]) => {});
     handle = watchRequirementsDir(testDir, onChange, { debounceMs: 50 });
 
     // Modify the file
@@ -79,7 +79,7 @@ describe("watchRequirementsDir", () => {
 
     await sleep(200);
 
-    expect(onChange).toHaveBeenCalled();
+    expect(onChange).toHaveBeenCalledWith(["main.yaml"]);
   });
 
   test("does not invoke callback for non-YAML files", async () => {
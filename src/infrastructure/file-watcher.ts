@@ -1,9 +1,10 @@
 /**
  * File watcher for the requirements/ directory.
  *
- * Watches for YAML file changes (create, modify, delete) and invokes a
- * callback after a debounce period. This enables real-time UI updates when
- * an AI agent or user edits requirement files on disk.
+ * Watches for YAML file changes (create, modify, delete), including in
+ * subfolders, and invokes a callback after a debounce period. This enables
+ * real-time UI updates when an AI agent or user edits requirement files on
+ * disk.
  *
  * Uses Node/Bun `fs.watch` under the hood. The watcher is debounced so that
  * rapid successive file changes (e.g. editor save + write) result in a single
@@ -34,7 +35,8 @@ export interface FileWatcherHandle {
  * `onChange` after a debounce period.
  *
  * @param requirementsDir - Absolute or relative path to the requirements/ directory
- * @param onChange - Callback invoked when YAML files change (after debounce)
+ * @param onChange - Callback invoked when YAML files change (after debounce), with
+ *   the changed files relative to the directory; empty when the platform didn't name them
  * @param options - Optional configuration (debounce timing)
  * @returns A handle with a `close()` method to stop watching
  * @throws Error if the directory does not exist
@@ -52,7 +54,7 @@ export interface FileWatcherHandle {
  */
 export function watchRequirementsDir(
   requirementsDir: string,
-  onChange: () => void,
+  onChange: (files: string[]) => void,
   options: FileWatcherOptions = {},
 ): FileWatcherHandle {
   const { debounceMs = 100 } = options;
@@ -71,9 +73,12 @@ export function watchRequirementsDir(
 
   let debounceTimer: ReturnType<typeof setTimeout> | null = null;
   let closed = false;
+  // Files changed since the last callback
+  let changed = new Set<string>();
 
-  const debouncedOnChange = () => {
+  const debouncedOnChange = (filename: string | null) => {
     if (closed) return;
+    if (filename) changed.add(filename.split("\\").join("/"));
 
     if (debounceTimer !== null) {
       clearTimeout(debounceTimer);
@@ -85,7 +90,9 @@ export function watchRequirementsDir(
         if (process.env.DEBUG) {
           console.error("[file-watcher] Debounce elapsed, invoking onChange callback");
         }
-        onChange();
+        const files = [...changed].sort();
+        changed = new Set();
+        onChange(files);
       }
     }, debounceMs);
   };
@@ -93,13 +100,15 @@ export function watchRequirementsDir(
   let watcher: FSWatcher;
 
   try {
-    watcher = watch(requirementsDir, (eventType, filename) => {
+    // Recursive, so that requirement files in area folders are watched too
+    // (on Linux, Node supports this from version 20; see engines in package.json)
+    watcher = watch(requirementsDir, { recursive: true }, (eventType, filename) => {
       if (closed) return;
 
-      // On some platforms (macOS) filename can be null.
-      // When null, we trigger the callback defensively since we can't
-      // determine the file type.
-      if (filename === null || isYamlFile(filename)) {
+      // On some platforms (macOS) filename can be null, and Bun's recursive
+      // watcher sometimes reports none at all. Without a name, we trigger the
+      // callback defensively since we can't determine the file type.
+      if (!filename || isYamlFile(filename)) {
         if (process.env.DEBUG) {
           const target = filename
             ? join(requirementsDir, filename)
@@ -108,7 +117,7 @@ export function watchRequirementsDir(
             `[file-watcher] Detected ${eventType} on: ${target}`,
           );
         }
-        debouncedOnChange();
+        debouncedOnChange(filename);
       }
     });
   } catch (err) {
@@ -0,0 +1,31 @@
+/**
+ * Read-only access to the git history of the consumer's project.
+ *
+ * Git is optional: every function here returns null instead of throwing when
+ * git is missing, the directory isn't a repository or there is no history.
+ */
+
+import { execFileSync } from "node:child_process";
+
+/**
+ * Returns a file's content as of the last commit (HEAD).
+ *
+ * @param cwd - Directory to run git in
+ * @param path - Path of the file, relative to `cwd`
+ * @returns The committed content, or null when it can't be read (not a git
+ *   repository, no commits yet, or the file wasn't committed)
+ */
+export function readCommittedFile(cwd: string, path: string): string | null {
+  try {
+    return execFileSync("git", ["show", `HEAD:./${path}`], {
+      cwd,
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "ignore"],
+    });
+  } catch {
+    if (process.env.DEBUG) {
+      console.error(`[git] No committed version of ${path} in ${cwd}`);
+    }
+    return null;
+  }
+}
@@ -0,0 +1,167 @@
+import { describe, expect, test } from "bun:test";
+import { formatMarkdownSpec, markdownTemplateErrors, toMarkdownTemplate } from "./markdown-spec";
+import type { SpecificationSource } from "./markdown-spec";
+import { DEFAULT_VOCABULARIES } from "../domain/requirements/vocabulary";
+
+const SOURCE: SpecificationSource = {
+  project: {
+    name: "Shop",
+    description: "Online shop",
+    version: "1.0",
+    owners: ["Team A"],
+    links: [{ title: "Repo", url: "https://example.com/shop" }],
+  },
+  mainRequirements: [
+    {
+      id: "req-001",
+      description: "Search products",
+      userValue: "Find things fast",
+      priority: "high",
+      status: "approved",
+      acceptanceCriteria: ["Results within a second", { given: "a shoe", when: "I search", then: "it is listed" }],
+    },
+    { id: "req-002", description: "Export reports", userValue: "Share", priority: "low", status: "draft" },
+  ],
+  derivedRequirements: [
+    {
+      id: "der-001",
+      description: "Use an index",
+      derivedFrom: ["req-001"],
+      rationale: "Full-text search",
+      category: "technical",
+      priority: "high",
+      status: "approved",
+      owner: "bob",
+    } as SpecificationSource["derivedRequirements"][number],
+    {
+      id: "der-002",
+      description: "Cache results",
+      derivedFrom: ["req-404"],
+      rationale: "Speed",
+      category: "quality",
+      priority: "low",
+      status: "approved",
+    },
+  ],
+  vocabularies: DEFAULT_VOCABULARIES,
+  fields: { owner: { type: "string" } },
+};
+
+describe("formatMarkdownSpec", () => {
+  test("renders the metadata, contents, requirements and orphans", () => {
+    const markdown = formatMarkdownSpec(SOURCE);
+
+    expect(markdown).toStartWith(
+      [
+        "# Shop",
+        "",
+        "Online shop",
+        "",
+        "- **Version:** 1.0",
+        "- **Owners:** Team A",
+        "- **Links:** [Repo](https://example.com/shop)",
+        "",
+        "## Contents",
+        "",
+        "- [req-001: Search products](#req-001-search-products)",
+        "- [req-002: Export reports](#req-002-export-reports)",
+        "- [Appendix: Orphaned derived requirements](#appendix-orphaned-derived-requirements)",
+        "",
+        "## req-001: Search products",
+        "",
+        "**User value:** Find things fast",
+        "",
+        "- **Priority:** high",
+        "- **Status:** approved",
+        "",
+        "**Acceptance criteria**",
+        "",
+        "- Results within a second",
+        "- Given a shoe, when I search, then it is listed",
+        "",
+        "### Technical requirements",
+        "",
+        "#### der-001: Use an index",
+        "",
+        "**Rationale:** Full-text search",
+        "",
+        "- **Priority:** high",
+        "- **Status:** approved",
+        "- **owner:** bob",
+        "",
+      ].join("\n"),
+    );
+    expect(markdown).toEndWith(
+      [
+        "## Appendix: Orphaned derived requirements",
+        "",
+        "### der-002: Cache results",
+        "",
+        "**Rationale:** Speed",
+        "",
+        "- **Priority:** low",
+        "- **Status:** approved",
+        "- **Derived from:** req-404",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("only includes requirements with the given statuses", () => {
+    const markdown = formatMarkdownSpec({ ...SOURCE, statuses: ["approved"] });
+
+    expect(markdown).toContain("- **Scope:** requirements with status approved");
+    expect(markdown).toContain("## req-001: Search products");
+    expect(markdown).not.toContain("req-002");
+  });
+
+  test("lists included derived requirements whose parents are out of scope in an appendix", () => {
+    const markdown = formatMarkdownSpec({
+      ...SOURCE,
+      mainRequirements: [{ ...SOURCE.mainRequirements[0], status: "review" }],
+      derivedRequirements: [SOURCE.derivedRequirements[0]],
+      statuses: ["approved"],
+    });
+
+    expect(markdown).not.toContain("_No requirements._");
+    expect(markdown).not.toContain("## req-001");
+    expect(markdown).toContain(
+      "- [Appendix: Derived requirements whose parents are out of scope]" +
+        "(#appendix-derived-requirements-whose-parents-are-out-of-scope)",
+    );
+    expect(markdown).toContain(
+      "## Appendix: Derived requirements whose parents are out of scope\n\n### der-001: Use an index\n",
+    );
+    expect(markdown).toContain("- **Derived from:** req-001");
+  });
+
+  test("uses the template's headings", () => {
+    const template = toMarkdownTemplate({
+      title: "{{project}} – Specification",
+      requirement: "Requirement {{id}}",
+      derivedGroup: "{{category}}",
+    });
+    const markdown = formatMarkdownSpec(SOURCE, template);
+
+    expect(markdown).toStartWith("# Shop – Specification\n");
+    expect(markdown).toContain("- [Requirement req-001](#requirement-req-001)");
+    expect(markdown).toContain("\n### Technical\n");
+  });
+
+  test("gives repeated headings distinct anchors", () => {
+    const template = toMarkdownTemplate({ requirement: "Requirement" });
+    const markdown = formatMarkdownSpec({ ...SOURCE, derivedRequirements: [] }, template);
+
+    expect(markdown).toContain("- [Requirement](#requirement)\n- [Requirement](#requirement-1)");
+  });
+});
+
+describe("markdownTemplateErrors", () => {
+  test("rejects unknown and empty headings", () => {
+    expect(markdownTemplateErrors({ title: "", footer: "x" })).toEqual([
+      "title must be a non-empty string",
+      expect.stringContaining("footer is not a known heading"),
+    ]);
+    expect(() => toMarkdownTemplate("Title")).toThrow("Invalid template: Template must be an object of headings");
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Renders the requirements as a Markdown specification for stakeholders,
+ * for `design-duck export --format markdown`.
+ *
+ * The document starts with the project metadata and a table of contents,
+ * then has a section per main requirement with its derived requirements
+ * grouped by category, and ends with appendices of derived requirements
+ * whose parents don't exist, and (when filtering by status) of included
+ * derived requirements whose parents are all left out. Headings come from a template, so teams can
+ * use their own wording. The renderer is a pure string builder with no
+ * Node.js imports.
+ */
+
+import { formatAcceptanceCriterion } from "../domain/requirements/requirement";
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { buildDerivedMap } from "../domain/requirements/traceability";
+import { customFieldValue, fieldsFor, formatCustomFieldValue } from "../domain/requirements/custom-fields";
+import type { CustomFieldSchema } from "../domain/requirements/custom-fields";
+import type { RequirementKind } from "../domain/requirements/query";
+import { vocabularyEntry, vocabularyValues } from "../domain/requirements/vocabulary";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+import type { Project } from "../domain/project/project";
+
+/**
+ * Headings of the specification. `{{name}}` placeholders are replaced:
+ * `{{project}}` in the title, `{{id}}` and `{{description}}` in requirement
+ * headings and `{{category}}` in derived group headings.
+ */
+export interface MarkdownTemplate {
+  title: string;
+  contents: string;
+  requirement: string;
+  acceptanceCriteria: string;
+  derivedGroup: string;
+  derivedRequirement: string;
+  orphans: string;
+  outOfScope: string;
+}
+
+export const DEFAULT_MARKDOWN_TEMPLATE: MarkdownTemplate = {
+  title: "{{project}}",
+  contents: "Contents",
+  requirement: "{{id}}: {{description}}",
+  acceptanceCriteria: "Acceptance criteria",
+  derivedGroup: "{{category}} requirements",
+  derivedRequirement: "{{id}}: {{description}}",
+  orphans: "Appendix: Orphaned derived requirements",
+  outOfScope: "Appendix: Derived requirements whose parents are out of scope",
+};
+
+/** Everything the specification is rendered from. */
+export interface SpecificationSource {
+  project: Project | null;
+  mainRequirements: MainRequirement[];
+  derivedRequirements: DerivedRequirement[];
+  vocabularies: Vocabularies;
+  fields: CustomFieldSchema;
+  /** Only requirements with one of these statuses are included; all when omitted. */
+  statuses?: string[];
+}
+
+/**
+ * Validates a raw template (as loaded from YAML). Every heading is optional;
+ * unknown headings are errors.
+ */
+export function markdownTemplateErrors(raw: unknown): string[] {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return ["Template must be an object of headings"];
+  }
+  const known = Object.keys(DEFAULT_MARKDOWN_TEMPLATE);
+  const errors: string[] = [];
+  for (const [name, value] of Object.entries(raw)) {
+    if (!known.includes(name)) {
+      errors.push(`${name} is not a known heading (known: ${known.join(", ")})`);
+    } else if (typeof value !== "string" || value.trim() === "") {
+      errors.push(`${name} must be a non-empty string`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates a raw template and fills in the default headings.
+ * Throws with all errors if the template is invalid.
+ */
+export function toMarkdownTemplate(raw: unknown): MarkdownTemplate {
+  const errors = markdownTemplateErrors(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid template: ${errors.join("; ")}`);
+  }
+  return { ...DEFAULT_MARKDOWN_TEMPLATE, ...(raw as Partial<MarkdownTemplate>) };
+}
+
+/** Renders the specification. */
+export function formatMarkdownSpec(
+  source: SpecificationSource,
+  template: MarkdownTemplate = DEFAULT_MARKDOWN_TEMPLATE,
+): string {
+  const { project, vocabularies, fields, statuses } = source;
+  const included = (r: { status: string }) => !statuses || statuses.includes(r.status);
+  const main = source.mainRequirements.filter(included);
+  const derived = source.derivedRequirements.filter(included);
+  const derivedMap = buildDerivedMap(derived);
+  // Orphans have no parent in the whole set, not just among the included ones
+  const mainIds = new Set(source.mainRequirements.map((r) => r.id));
+  const orphans = derived.filter((d) => !d.derivedFrom.some((id) => mainIds.has(id)));
+  // Derived requirements in scope whose existing parents all fall outside it
+  const includedIds = new Set(main.map((r) => r.id));
+  const outOfScope = derived.filter(
+    (d) => !orphans.includes(d) && !d.derivedFrom.some((id) => includedIds.has(id)),
+  );
+
+  const anchors = new Map<string, number>();
+  const ctx: RenderContext = {
+    template,
+    vocabularies,
+    fields,
+    heading: (level, text) => ({ line: `${"#".repeat(level)} ${text}`, anchor: slug(text, anchors) }),
+  };
+  const { heading } = ctx;
+
+  const out: string[] = [];
+  out.push(heading(1, fill(template.title, { project: project?.name ?? "Requirements Specification" })).line, "");
+  if (project?.description) {
+    out.push(project.description.trim(), "");
+  }
+  const scope = statuses?.map((v) => label(vocabularies.statuses, v)).join(" or ");
+  const metadata = [
+    project?.version && `- **Version:** ${project.version}`,
+    project?.owners.length && `- **Owners:** ${project.owners.join(", ")}`,
+    project?.links.length && `- **Links:** ${project.links.map((l) => `[${l.title}](${l.url})`).join(", ")}`,
+    scope && `- **Scope:** requirements with status ${scope}`,
+  ].filter((line): line is string => typeof line === "string");
+  if (metadata.length > 0) {
+    out.push(...metadata, "");
+  }
+
+  // Headings are built in document order, so repeated ones get the same anchors as on GitHub
+  const contentsHeading = heading(2, template.contents);
+  const body: string[] = [];
+  const contents: string[] = [];
+
+  if (main.length === 0 && outOfScope.length === 0) {
+    body.push("_No requirements._", "");
+  }
+  for (const req of main) {
+    const h = heading(2, fill(template.requirement, { id: req.id, description: oneLine(req.description) }));
+    contents.push(`- [${h.line.slice(3)}](#${h.anchor})`);
+    body.push(h.line, "", `**User value:** ${req.userValue}`, "");
+    body.push(...properties(req, "main", ctx), "");
+
+    const criteria = req.acceptanceCriteria ?? [];
+    if (criteria.length > 0) {
+      body.push(`**${template.acceptanceCriteria}**`, "");
+      body.push(...criteria.map((c) => `- ${formatAcceptanceCriterion(c)}`), "");
+    }
+
+    for (const [category, members] of byCategory(derivedMap.get(req.id) ?? [], vocabularies)) {
+      const group = capitalize(fill(template.derivedGroup, { category: label(vocabularies.categories, category) }));
+      body.push(heading(3, group).line, "");
+      for (const d of members) {
+        body.push(...derivedSection(d, 4, req.id, ctx));
+      }
+    }
+  }
+
+  for (const [title, members] of [
+    [template.outOfScope, outOfScope],
+    [template.orphans, orphans],
+  ] as const) {
+    if (members.length === 0) continue;
+    const h = heading(2, title);
+    contents.push(`- [${title}](#${h.anchor})`);
+    body.push(h.line, "");
+    for (const d of members) {
+      body.push(...derivedSection(d, 3, null, ctx));
+    }
+  }
+
+  if (contents.length > 0) {
+    out.push(contentsHeading.line, "", ...contents, "");
+  }
+  out.push(...body);
+  return out.join("\n").replace(/\n+$/, "\n");
+}
+
+interface RenderContext {
+  template: MarkdownTemplate;
+  vocabularies: Vocabularies;
+  fields: CustomFieldSchema;
+  /** Builds a heading line and its unique anchor. */
+  heading: (level: number, text: string) => { line: string; anchor: string };
+}
+
+/** A derived requirement under its parent (or in the appendix, when `parentId` is null). */
+function derivedSection(d: DerivedRequirement, level: number, parentId: string | null, ctx: RenderContext): string[] {
+  const title = fill(ctx.template.derivedRequirement, { id: d.id, description: oneLine(d.description) });
+  const lines = [ctx.heading(level, title).line];
+  lines.push("", `**Rationale:** ${d.rationale}`, "");
+  lines.push(...properties(d, "derived", ctx));
+  const others = d.derivedFrom.filter((id) => id !== parentId);
+  if (others.length > 0) {
+    lines.push(`- **${parentId === null ? "Derived from" : "Also derived from"}:** ${others.join(", ")}`);
+  }
+  lines.push("");
+  return lines;
+}
+
+/** Priority, status and custom fields as a bullet list. */
+function properties(
+  requirement: MainRequirement | DerivedRequirement,
+  kind: RequirementKind,
+  { vocabularies, fields }: RenderContext,
+): string[] {
+  const lines = [
+    `- **Priority:** ${label(vocabularies.priorities, requirement.priority)}`,
+    `- **Status:** ${label(vocabularies.statuses, requirement.status)}`,
+  ];
+  for (const [name] of fieldsFor(fields, kind)) {
+    const value = customFieldValue(requirement, name);
+    if (value !== undefined) {
+      lines.push(`- **${name}:** ${formatCustomFieldValue(value)}`);
+    }
+  }
+  return lines;
+}
+
+/** Groups derived requirements by category, in vocabulary order with unknown categories last. */
+function byCategory(derived: DerivedRequirement[], vocabularies: Vocabularies): [string, DerivedRequirement[]][] {
+  const order = vocabularyValues(vocabularies.categories);
+  const rank = (category: string) => (order.includes(category) ? order.indexOf(category) : order.length);
+  const groups = new Map<string, DerivedRequirement[]>();
+  for (const d of derived) {
+    groups.set(d.category, [...(groups.get(d.category) ?? []), d]);
+  }
+  return [...groups].sort(([a], [b]) => rank(a) - rank(b));
+}
+
+function label(vocabulary: Vocabularies[keyof Vocabularies], value: string): string {
+  return vocabularyEntry(vocabulary, value).label;
+}
+
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ").trim();
+}
+
+/** GitHub-style heading anchor; repeated headings get -1, -2, ... like GitHub does. */
+function slug(text: string, seen: Map<string, number>): string {
+  const base = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+  const count = seen.get(base) ?? 0;
+  seen.set(base, count + 1);
+  return count === 0 ? base : `${base}-${count}`;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { formatMatrixCsv, formatMatrixHtml, formatMatrixMarkdown } from "./matrix-formats";
+import type { TraceabilityMatrix } from "../domain/requirements/matrix";
+
+const MATRIX: TraceabilityMatrix = {
+  groupBy: "requirement",
+  columns: [
+    { key: "der-001", title: "Use an index", orphan: false },
+    { key: "der-002", title: "Old <cache>", orphan: true },
+  ],
+  rows: [
+    { id: "req-001", description: "Search, by name", cells: [1, 0], uncovered: false },
+    { id: "req-002", description: 'Export "reports" | CSV', cells: [0, 0], uncovered: true },
+  ],
+};
+
+describe("formatMatrixMarkdown", () => {
+  test("renders a table and lists the rows and columns without links", () => {
+    expect(formatMatrixMarkdown(MATRIX)).toBe(
+      [
+        "| Main requirement | der-001 | der-002 |",
+        "| --- | :---: | :---: |",
+        "| **req-001** Search, by name | ✓ |  |",
+        '| **req-002** Export "reports" \\| CSV |  |  |',
+        "",
+        "**Main requirements without derived requirements:** req-002",
+        "",
+        "**Derived requirements without a parent:** der-002",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatMatrixCsv", () => {
+  test("quotes fields that need it", () => {
+    expect(formatMatrixCsv(MATRIX)).toBe(
+      'id,description,der-001,der-002\r\nreq-001,"Search, by name",x,\r\nreq-002,"Export ""reports"" | CSV",,\r\n',
+    );
+  });
+
+  test("counts links when grouped by category", () => {
+    const grouped: TraceabilityMatrix = {
+      ...MATRIX,
+      groupBy: "category",
+      rows: [{ ...MATRIX.rows[0], cells: [2, 0] }],
+    };
+    expect(formatMatrixCsv(grouped)).toContain("req-001,\"Search, by name\",2,\r\n");
+  });
+});
+
+describe("formatMatrixHtml", () => {
+  test("renders an escaped, standalone page with highlighted rows and columns", () => {
+    const html = formatMatrixHtml(MATRIX, "Shop – Traceability matrix");
+
+    expect(html).toStartWith("<!DOCTYPE html>");
+    expect(html).toContain("<title>Shop – Traceability matrix</title>");
+    expect(html).toContain('<th scope="col" class="orphan" title="Old &lt;cache&gt;">der-002</th>');
+    expect(html).toContain(
+      '<tr class="uncovered"><th scope="row" title="Export &quot;reports&quot; | CSV">req-002</th>',
+    );
+    expect(html).toContain('<td class="link">✓</td><td class="orphan"></td>');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Renderings of the traceability matrix for `design-duck matrix`.
+ *
+ * Markdown for pasting into review documents, CSV for spreadsheets and a
+ * standalone HTML page. Rows nothing was derived from and columns without
+ * a parent are flagged in each of them. The renderers are pure string
+ * builders with no Node.js imports.
+ */
+
+import type { TraceabilityMatrix } from "../domain/requirements/matrix";
+
+/** Cell text: a check mark per link, or the number of links when grouped by category. */
+function cellText(matrix: TraceabilityMatrix, links: number): string {
+  if (links === 0) return "";
+  return matrix.groupBy === "requirement" ? "✓" : String(links);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/** Renders the matrix as a Markdown table, followed by the rows and columns without links. */
+export function formatMatrixMarkdown(matrix: TraceabilityMatrix): string {
+  const escape = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  const lines = [
+    `| Main requirement | ${matrix.columns.map((c) => escape(c.key)).join(" | ")} |`,
+    `| --- | ${matrix.columns.map(() => ":---:").join(" | ")} |`,
+    ...matrix.rows.map((row) => {
+      const cells = row.cells.map((n) => cellText(matrix, n)).join(" | ");
+      return `| **${escape(row.id)}** ${escape(row.description)} | ${cells} |`;
+    }),
+  ];
+
+  const uncovered = matrix.rows.filter((r) => r.uncovered).map((r) => r.id);
+  const orphans = matrix.columns.filter((c) => c.orphan).map((c) => c.key);
+  if (uncovered.length > 0) {
+    lines.push("", `**Main requirements without derived requirements:** ${uncovered.join(", ")}`);
+  }
+  if (orphans.length > 0) {
+    const label = matrix.groupBy === "requirement" ? "Derived requirements" : "Categories";
+    lines.push("", `**${label} without a parent:** ${orphans.join(", ")}`);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Renders the matrix as CSV (RFC 4180): an `id,description` column pair, then one column per matrix column. */
+export function formatMatrixCsv(matrix: TraceabilityMatrix): string {
+  const field = (text: string) => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+  const mark = (links: number) => (links === 0 ? "" : matrix.groupBy === "requirement" ? "x" : String(links));
+  const lines = [
+    ["id", "description", ...matrix.columns.map((c) => c.key)].map(field).join(","),
+    ...matrix.rows.map((row) => [row.id, row.description, ...row.cells.map(mark)].map(field).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+const HTML_STYLE = `body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+table { border-collapse: collapse; font-size: 0.875rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.25rem 0.5rem; }
+thead th { background: #f9fafb; }
+td.link { text-align: center; color: #047857; font-weight: 600; }
+tr.uncovered th, tr.uncovered td { background: #fef2f2; }
+.orphan { background: #fffbeb; }
+p.legend { color: #6b7280; font-size: 0.875rem; }`;
+
+/** Renders the matrix as a standalone HTML page. */
+export function formatMatrixHtml(matrix: TraceabilityMatrix, title = "Traceability matrix"): string {
+  const orphanClass = (i: number) => (matrix.columns[i].orphan ? ` class="orphan"` : "");
+  const header = matrix.columns
+    .map((c, i) => `<th scope="col"${orphanClass(i)} title="${escapeHtml(c.title)}">${escapeHtml(c.key)}</th>`)
+    .join("");
+  const rows = matrix.rows.map((row) => {
+    const cells = row.cells
+      .map((n, i) => {
+        const classes = [n > 0 && "link", matrix.columns[i].orphan && "orphan"].filter(Boolean).join(" ");
+        return `<td${classes ? ` class="${classes}"` : ""}>${cellText(matrix, n)}</td>`;
+      })
+      .join("");
+    const label = `<th scope="row" title="${escapeHtml(row.description)}">${escapeHtml(row.id)}</th>`;
+    return `      <tr${row.uncovered ? ` class="uncovered"` : ""}>${label}${cells}</tr>`;
+  });
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en">`,
+    "<head>",
+    `  <meta charset="utf-8">`,
+    `  <title>${escapeHtml(title)}</title>`,
+    `  <style>\n${HTML_STYLE}\n  </style>`,
+    "</head>",
+    "<body>",
+    `  <h1>${escapeHtml(title)}</h1>`,
+    "  <table>",
+    `    <thead><tr><th scope="col">Main requirement</th>${header}</tr></thead>`,
+    "    <tbody>",
+    ...rows,
+    "    </tbody>",
+    "  </table>",
+    `  <p class="legend">Red rows have no derived requirements; yellow columns have no parent.</p>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
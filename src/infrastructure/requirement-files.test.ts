@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { discoverRequirementFiles, requirementFileKind } from "./requirement-files";
+
+describe("requirementFileKind", () => {
+  test("recognises main and derived files by name", () => {
+    expect(requirementFileKind("main.yaml")).toBe("main");
+    expect(requirementFileKind("main-2.yml")).toBe("main");
+    expect(requirementFileKind("checkout/derived.yaml")).toBe("derived");
+    expect(requirementFileKind("derived_payments.yaml")).toBe("derived");
+  });
+
+  test("returns null for other files", () => {
+    expect(requirementFileKind("project.yaml")).toBeNull();
+    expect(requirementFileKind("main.json")).toBeNull();
+    expect(requirementFileKind("main/notes.yaml")).toBeNull();
+    expect(requirementFileKind("domain.yaml")).toBeNull();
+  });
+});
+
+describe("discoverRequirementFiles", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(testDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const touch = (...paths: string[]) => {
+    for (const path of paths) {
+      mkdirSync(join(testDir, path, ".."), { recursive: true });
+      writeFileSync(join(testDir, path), "requirements: []\n", "utf-8");
+    }
+  };
+
+  test("finds the classic two-file layout", () => {
+    touch("main.yaml", "derived.yaml", "project.yaml");
+
+    expect(discoverRequirementFiles(testDir)).toEqual({ main: ["main.yaml"], derived: ["derived.yaml"] });
+  });
+
+  test("returns empty lists when there are no requirement files", () => {
+    expect(discoverRequirementFiles(testDir)).toEqual({ main: [], derived: [] });
+  });
+
+  test("sorts top-level files first and numbers numerically", () => {
+    touch("checkout/main.yaml", "main-10.yaml", "main-2.yaml", "main.yaml", "accounts/main.yaml");
+
+    expect(discoverRequirementFiles(testDir).main).toEqual([
+      "main.yaml",
+      "main-2.yaml",
+      "main-10.yaml",
+      "accounts/main.yaml",
+      "checkout/main.yaml",
+    ]);
+  });
+
+  test("skips hidden folders and node_modules", () => {
+    touch("derived.yaml", ".archive/derived.yaml", "node_modules/pkg/derived.yaml");
+
+    expect(discoverRequirementFiles(testDir).derived).toEqual(["derived.yaml"]);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Discovery of the YAML files that make up a requirement set.
+ *
+ * Large projects split their requirements over several files: `main.yaml`
+ * plus `main-2.yaml`, `main-3.yaml` for pagination, or one folder per area
+ * (`checkout/main.yaml`, `checkout/derived.yaml`). Every `main*.yaml` file
+ * holds main requirements and every `derived*.yaml` file holds derived
+ * requirements, at any depth below the requirements directory.
+ *
+ * Node/Bun only.
+ */
+
+import { readdirSync } from "node:fs";
+import { join } from "node:path";
+import type { RequirementKind } from "../domain/requirements/query";
+
+/** Requirement files found in a requirements directory, relative to it, in load order. */
+export interface RequirementFiles {
+  main: string[];
+  derived: string[];
+}
+
+const FILE_PATTERNS: Record<RequirementKind, RegExp> = {
+  main: /^main[^/]*\.ya?ml$/,
+  derived: /^derived[^/]*\.ya?ml$/,
+};
+
+/** Directories that never hold requirements. */
+const SKIPPED_DIRS = new Set(["node_modules"]);
+
+/**
+ * Returns the kind of requirements a file holds, judging by its name, or
+ * null when it isn't a requirements file.
+ *
+ * @param path - File path; only the last segment is looked at
+ */
+export function requirementFileKind(path: string): RequirementKind | null {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  if (FILE_PATTERNS.main.test(name)) return "main";
+  if (FILE_PATTERNS.derived.test(name)) return "derived";
+  return null;
+}
+
+/**
+ * Finds every main and derived requirements file below `requirementsDir`.
+ *
+ * Paths use forward slashes. Files directly in the directory come first,
+ * then files in subfolders; within a folder, files sort by name with
+ * numbers compared numerically, so `main.yaml` < `main-2.yaml` < `main-10.yaml`.
+ * Hidden folders and node_modules are skipped.
+ *
+ * @param requirementsDir - Path to the requirements/ directory
+ */
+export function discoverRequirementFiles(requirementsDir: string): RequirementFiles {
+  const files: RequirementFiles = { main: [], derived: [] };
+
+  for (const path of listYamlFiles(requirementsDir, "").sort(compareFilePaths)) {
+    const kind = requirementFileKind(path);
+    if (kind) files[kind].push(path);
+  }
+
+  if (process.env.DEBUG) {
+    console.error(
+      `[requirement-files] Found main: ${files.main.join(", ") || "(none)"}; derived: ${files.derived.join(", ") || "(none)"}`,
+    );
+  }
+
+  return files;
+}
+
+/**
+ * The file new requirements of a kind go to: the last file directly in the
+ * requirements directory (main-3.yaml rather than main.yaml), since area
+ * folders are meant to be filled by hand.
+ *
+ * @param files - Files of one kind, in load order (see discoverRequirementFiles)
+ */
+export function newRequirementFile(files: string[]): string {
+  const topLevel = files.filter((f) => !f.includes("/"));
+  return topLevel[topLevel.length - 1] ?? files[files.length - 1];
+}
+
+function listYamlFiles(root: string, prefix: string): string[] {
+  const paths: string[] = [];
+  for (const entry of readdirSync(join(root, prefix), { withFileTypes: true })) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && !SKIPPED_DIRS.has(entry.name)) {
+        paths.push(...listYamlFiles(root, path));
+      }
+    } else if (/\.ya?ml$/.test(entry.name)) {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+/** Shallower paths first, then by name without the extension, numbers compared numerically. */
+function compareFilePaths(a: string, b: string): number {
+  const depth = (p: string) => p.split("/").length;
+  const stem = (p: string) => p.replace(/\.ya?ml$/, "");
+  return depth(a) - depth(b) || stem(a).localeCompare(stem(b), undefined, { numeric: true });
+}
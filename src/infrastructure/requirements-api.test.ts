@@ -0,0 +1,430 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from "bun:test";
+import { createServer, request } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { handleApiRequest, MAX_BODY_BYTES, sendApiFailure } from "./requirements-api";
+import { contentRevision, requirementRevision } from "./revisions";
+
+const MAIN_YAML = `requirements:
+  - id: req-001
+    description: First
+    userValue: v
+    priority: high
+    status: draft
+  - id: req-002
+    description: Second
+    userValue: v
+    priority: low
+    status: draft
+`;
+
+const DERIVED_YAML = `requirements:
+  - id: der-001
+    description: Derived
+    derivedFrom:
+      - req-001
+    rationale: r
+    category: technical
+    priority: high
+    status: draft
+`;
+
+describe("handleApiRequest", () => {
+  let testDir: string;
+  let reqDir: string;
+  let server: Server;
+  let baseUrl: string;
+  let logSpy: ReturnType<typeof spyOn>;
+  let readOnly: boolean;
+
+  beforeEach(async () => {
+    readOnly = false;
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    reqDir = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(reqDir, { recursive: true });
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML, "utf-8");
+    writeFileSync(join(reqDir, "derived.yaml"), DERIVED_YAML, "utf-8");
+    logSpy = spyOn(console, "log").mockImplementation(() => {});
+
+    server = createServer((req, res) => {
+      const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+      handleApiRequest(req, res, pathname, reqDir, { readOnly }).catch((err) => sendApiFailure(res, err));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    logSpy.mockRestore();
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  // Writes need a revision; "*" overwrites whatever is there
+  const post = (path: string, body: unknown, ifMatch = "*") =>
+    fetch(baseUrl + path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "If-Match": ifMatch },
+      body: typeof body === "string" ? body : JSON.stringify(body),
+    });
+
+  test("POST /api/rename renames and returns a diff per changed file", async () => {
+    const res = await post("/api/rename", { from: "req-001", to: "req-100" });
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { changes: { file: string; diff: string }[] };
+    expect(body.changes.map((c) => c.file)).toEqual(["main.yaml", "derived.yaml"]);
+    expect(body.changes[1].diff).toContain("-      - req-001\n+      - req-100");
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toBe(MAIN_YAML.replace("req-001", "req-100"));
+  });
+
+  test("POST /api/rename refuses renames of a changed requirement", async () => {
+    const res = await post("/api/rename", { from: "req-001", to: "req-100" }, `"${contentRevision("old")}"`);
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({
+      current: { requirement: { id: "req-001" } },
+      yours: { id: "req-100", description: "First" },
+    });
+  });
+
+  test("a read-only server refuses writes but still answers reads", async () => {
+    readOnly = true;
+
+    const info = await (await fetch(`${baseUrl}/api/server`)).json();
+    const rename = await post("/api/rename", { from: "req-001", to: "req-100" });
+    const patch = await fetch(`${baseUrl}/api/requirements/req-001`, {
+      method: "PATCH",
+      headers: { "If-Match": "*" },
+      body: JSON.stringify({ status: "review" }),
+    });
+
+    expect(info).toEqual({ readOnly: true });
+    expect(rename.status).toBe(403);
+    expect(patch.status).toBe(403);
+    expect((await fetch(`${baseUrl}/api/requirements/req-001`)).status).toBe(200);
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toBe(MAIN_YAML);
+  });
+
+  test("POST /api/rename with dryRun leaves the files alone", async () => {
+    const res = await post("/api/rename", { from: "req-001", to: "req-100", dryRun: true });
+
+    expect(res.status).toBe(200);
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toBe(MAIN_YAML);
+  });
+
+  test("maps refused renames to HTTP status codes", async () => {
+    const taken = await post("/api/rename", { from: "req-001", to: "req-002" });
+    expect(taken.status).toBe(409);
+    expect(await taken.json()).toEqual({ error: "Requirement ID req-002 already exists" });
+
+    expect((await post("/api/rename", { from: "req-999", to: "req-100" })).status).toBe(404);
+    expect((await post("/api/rename", { from: "req-001", to: "req 100" })).status).toBe(400);
+  });
+
+  test("rejects malformed bodies", async () => {
+    expect((await post("/api/rename", "not json")).status).toBe(400);
+    expect((await post("/api/rename", { from: "req-001" })).status).toBe(400);
+  });
+
+  test("refuses request bodies over the size limit", async () => {
+    const res = await post("/api/requirements", "x".repeat(MAX_BODY_BYTES + 1));
+
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({ error: `Request body is larger than ${MAX_BODY_BYTES} bytes` });
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toBe(MAIN_YAML);
+  });
+
+  test("stops reading a streamed body once it's over the size limit", async () => {
+    const status = await new Promise<number>((resolve, reject) => {
+      const req = request(`${baseUrl}/api/requirements`, { method: "POST", headers: { "If-Match": "*" } }, (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      });
+      req.on("error", reject);
+      // No Content-Length: the body is sent chunked
+      for (let i = 0; i < 5; i++) req.write("x".repeat(MAX_BODY_BYTES / 4));
+      req.end();
+    });
+
+    expect(status).toBe(413);
+  });
+
+  test("returns 422 when the requirement files are invalid", async () => {
+    writeFileSync(join(reqDir, "main.yaml"), "requirements:\n  - id: req-001\n", "utf-8");
+
+    expect((await post("/api/rename", { from: "req-001", to: "req-100" })).status).toBe(422);
+  });
+
+  test("only accepts POST for /api/rename", async () => {
+    const res = await fetch(`${baseUrl}/api/rename`);
+
+    expect(res.status).toBe(405);
+    expect(res.headers.get("allow")).toBe("POST");
+  });
+
+  test("GET /api/files lists the requirement files and their revisions", async () => {
+    mkdirSync(join(reqDir, "checkout"));
+    writeFileSync(join(reqDir, "checkout", "main.yaml"), "requirements: []\n", "utf-8");
+
+    const res = await fetch(`${baseUrl}/api/files`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      main: ["main.yaml", "checkout/main.yaml"],
+      derived: ["derived.yaml"],
+      revisions: {
+        "main.yaml": contentRevision(MAIN_YAML),
+        "checkout/main.yaml": contentRevision("requirements: []\n"),
+        "derived.yaml": contentRevision(DERIVED_YAML),
+      },
+    });
+  });
+
+  test("only accepts GET for /api/files", async () => {
+    const res = await post("/api/files", {});
+
+    expect(res.status).toBe(405);
+    expect(res.headers.get("allow")).toBe("GET");
+  });
+
+  test("GET /api/config returns the config with defaults filled in", async () => {
+    writeFileSync(join(testDir, "desgin-duck", "config.yaml"), "fields:\n  owner: { type: string }\n", "utf-8");
+
+    const res = await fetch(`${baseUrl}/api/config`);
+    const config = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(config.fields).toEqual({ owner: { type: "string" } });
+    expect(config.workflow.transitions.length).toBeGreaterThan(0);
+  });
+
+  test("GET /api/config returns 422 for an invalid config", async () => {
+    writeFileSync(join(testDir, "desgin-duck", "config.yaml"), "lint: strict\n", "utf-8");
+
+    expect((await fetch(`${baseUrl}/api/config`)).status).toBe(422);
+  });
+
+  test("GET /api/trace maps requirements to annotated files", async () => {
+    mkdirSync(join(testDir, "src"));
+    writeFileSync(join(testDir, "src", "search.ts"), "// @req req-001\nexport function search() {}\n", "utf-8");
+    writeFileSync(
+      join(testDir, "src", "search.test.ts"),
+      '// design-duck: req-001, req-999\ntest("finds products", () => {});\n',
+      "utf-8",
+    );
+
+    const res = await fetch(`${baseUrl}/api/trace`);
+    const report = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(report.requirements[0]).toEqual({
+      id: "req-001",
+      kind: "main",
+      implementedBy: [{ file: "src/search.ts", line: 1 }],
+      verifiedBy: [{ file: "src/search.test.ts", line: 1, test: "finds products" }],
+    });
+    expect(report.uncovered).toEqual(["req-002", "der-001"]);
+    expect(report.unknownReferences).toMatchObject([{ requirementId: "req-999" }]);
+  });
+
+  test("GET /api/verification reads the configured test results", async () => {
+    writeFileSync(
+      join(testDir, "junit.xml"),
+      `<testsuites><testsuite name="search">
+  <testcase classname="search" name="req-001 finds products"/>
+  <testcase classname="search" name="der-001 uses the index"><failure message="expected 1"/></testcase>
+</testsuite></testsuites>`,
+      "utf-8",
+    );
+
+    const res = await fetch(`${baseUrl}/api/verification`);
+    const report = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(report.requirements.map((r: { id: string; state: string }) => [r.id, r.state])).toEqual([
+      ["req-001", "verified"],
+      ["req-002", "untested"],
+      ["der-001", "failing"],
+    ]);
+    expect(report.counts).toEqual({ verified: 1, failing: 1, untested: 1 });
+  });
+
+  const send = (method: string, path: string, body?: unknown, ifMatch = "*") =>
+    fetch(baseUrl + path, {
+      method,
+      headers: { "Content-Type": "application/json", "If-Match": ifMatch },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  test("GET /api/requirements lists every requirement with its file", async () => {
+    const res = await fetch(`${baseUrl}/api/requirements`);
+
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as { requirements: { kind: string; file: string; requirement: { id: string } }[] };
+    expect(body.requirements.map((r) => [r.kind, r.file, r.requirement.id])).toEqual([
+      ["main", "main.yaml", "req-001"],
+      ["main", "main.yaml", "req-002"],
+      ["derived", "derived.yaml", "der-001"],
+    ]);
+  });
+
+  test("GET /api/requirements/:id returns one requirement", async () => {
+    const res = await fetch(`${baseUrl}/api/requirements/der-001`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ kind: "derived", file: "derived.yaml", requirement: { id: "der-001" } });
+    expect((await fetch(`${baseUrl}/api/requirements/req-404`)).status).toBe(404);
+  });
+
+  test("rejects malformed requirement IDs", async () => {
+    const res = await fetch(`${baseUrl}/api/requirements/%E0%A4`);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: "Malformed requirement ID in /api/requirements/%E0%A4" });
+  });
+
+  test("POST /api/requirements appends a requirement", async () => {
+    const requirement = { id: "req-003", description: "Third", userValue: "v", priority: "low", status: "draft" };
+    const res = await post("/api/requirements", { kind: "main", requirement });
+
+    expect(res.status).toBe(201);
+    const content = readFileSync(join(reqDir, "main.yaml"), "utf-8");
+    expect(content).toEndWith(
+      "  - id: req-003\n    description: Third\n    userValue: v\n    priority: low\n    status: draft\n",
+    );
+    expect(await res.json()).toEqual({
+      kind: "main",
+      file: "main.yaml",
+      requirement,
+      revision: requirementRevision(requirement),
+      fileRevision: contentRevision(content),
+    });
+    expect(res.headers.get("etag")).toBe(`"${requirementRevision(requirement)}"`);
+  });
+
+  test("POST /api/requirements returns field errors", async () => {
+    const invalid = await post("/api/requirements", { kind: "main", requirement: { id: "req-003" } });
+    expect(invalid.status).toBe(400);
+    const body = (await invalid.json()) as { error: string; errors: { field: string }[] };
+    expect(body.errors.map((e) => e.field)).toEqual(["description", "userValue", "priority", "status"]);
+
+    const taken = await post("/api/requirements", {
+      kind: "main",
+      requirement: { id: "der-001", description: "d", userValue: "v", priority: "high", status: "draft" },
+    });
+    expect(taken.status).toBe(409);
+
+    expect((await post("/api/requirements", { kind: "epic", requirement: {} })).status).toBe(400);
+    expect((await post("/api/requirements", { kind: "main", file: "derived.yaml", requirement: {} })).status).toBe(400);
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toBe(MAIN_YAML);
+  });
+
+  test("PUT /api/requirements/:id replaces a requirement, changing only what differs", async () => {
+    const res = await send("PUT", "/api/requirements/req-002", {
+      description: "Second",
+      userValue: "v",
+      priority: "high",
+      status: "review",
+    });
+
+    expect(res.status).toBe(200);
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toBe(
+      MAIN_YAML.replace("priority: low\n    status: draft", "priority: high\n    status: review"),
+    );
+  });
+
+  test("PATCH /api/requirements/:id changes and removes fields", async () => {
+    const res = await send("PATCH", "/api/requirements/der-001", { derivedFrom: ["req-001", "req-002"] });
+
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as { requirement: { derivedFrom: string[] } }).requirement.derivedFrom).toEqual([
+      "req-001",
+      "req-002",
+    ]);
+    expect(readFileSync(join(reqDir, "derived.yaml"), "utf-8")).toContain("      - req-001\n      - req-002\n");
+
+    expect((await send("PATCH", "/api/requirements/der-001", { rationale: null })).status).toBe(400);
+    expect((await send("PATCH", "/api/requirements/der-404", { rationale: "r" })).status).toBe(404);
+  });
+
+  test("DELETE /api/requirements/:id removes a requirement nothing derives from", async () => {
+    const referenced = await send("DELETE", "/api/requirements/req-001");
+    expect(referenced.status).toBe(409);
+    expect(((await referenced.json()) as { error: string }).error).toBe(
+      "Requirement req-001 is still derived from by der-001",
+    );
+
+    expect((await send("DELETE", "/api/requirements/req-002")).status).toBe(200);
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).not.toContain("req-002");
+  });
+
+  test("requires If-Match on writes", async () => {
+    const missing = await fetch(`${baseUrl}/api/requirements/req-002`, { method: "DELETE" });
+
+    expect(missing.status).toBe(428);
+    expect(((await missing.json()) as { error: string }).error).toBe(
+      "If-Match is required: send the revision of Requirement req-002, or * to overwrite it",
+    );
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toBe(MAIN_YAML);
+  });
+
+  test("applies writes based on the current revision", async () => {
+    const current = await fetch(`${baseUrl}/api/requirements/req-002`);
+    const etag = current.headers.get("etag")!;
+
+    const res = await send("PATCH", "/api/requirements/req-002", { status: "review" }, etag);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("etag")).not.toBe(etag);
+    expect(readFileSync(join(reqDir, "main.yaml"), "utf-8")).toContain("priority: low\n    status: review\n");
+  });
+
+  test("refuses writes based on an old revision with both versions", async () => {
+    const etag = (await fetch(`${baseUrl}/api/requirements/req-002`)).headers.get("etag")!;
+    // Someone else edits req-002 in the meantime
+    writeFileSync(join(reqDir, "main.yaml"), MAIN_YAML.replace("priority: low", "priority: medium"), "utf-8");
+
+    const res = await send("PATCH", "/api/requirements/req-002", { status: "review" }, etag);
+
+    expect(res.status).toBe(409);
+    const body = (await res.json()) as { error: string; current: { requirement: object }; yours: object };
+    expect(body.error).toBe(`Requirement req-002 was changed by someone else since revision ${etag}`);
+    expect(body.current.requirement).toMatchObject({ id: "req-002", priority: "medium", status: "draft" });
+    expect(body.yours).toEqual({ status: "review" });
+  });
+
+  test("keeps revisions of untouched requirements when another one in the file changes", async () => {
+    const etag = (await fetch(`${baseUrl}/api/requirements/req-002`)).headers.get("etag")!;
+    expect((await send("PATCH", "/api/requirements/req-001", { status: "review" })).status).toBe(200);
+
+    expect((await send("PATCH", "/api/requirements/req-002", { status: "review" }, etag)).status).toBe(200);
+  });
+
+  test("checks new requirements against the target file's revision", async () => {
+    const requirement = { id: "req-003", description: "Third", userValue: "v", priority: "low", status: "draft" };
+
+    const stale = await post("/api/requirements", { kind: "main", requirement }, `"${contentRevision("old")}"`);
+    expect(stale.status).toBe(409);
+    expect(((await stale.json()) as { current: { content: string } }).current.content).toBe(MAIN_YAML);
+
+    const res = await post("/api/requirements", { kind: "main", requirement }, `"${contentRevision(MAIN_YAML)}"`);
+    expect(res.status).toBe(201);
+  });
+
+  test("only accepts the documented methods for /api/requirements", async () => {
+    const res = await send("DELETE", "/api/requirements");
+
+    expect(res.status).toBe(405);
+    expect(res.headers.get("allow")).toBe("GET, POST");
+    expect((await send("POST", "/api/requirements/req-001", {})).headers.get("allow")).toBe("GET, PUT, PATCH, DELETE");
+  });
+
+  test("returns 404 for unknown routes", async () => {
+    expect((await fetch(`${baseUrl}/api/nope`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,520 @@
+/**
+ * JSON API for editing requirements from the UI.
+ *
+ * Mounted under /api/ by both the built-in UI server and the Vite dev
+ * plugin, so the browser can make the same edits as the CLI. Every edit goes
+ * through ./file-store, which keeps the YAML files' formatting intact; the
+ * file watcher then tells connected browsers to reload.
+ *
+ * Routes:
+ * - `GET /api/server` → `{ readOnly }`, whether the server accepts edits
+ * - `GET /api/config` → the parsed desgin-duck/config.yaml, defaults filled in
+ * - `GET /api/files` → `{ main: [...], derived: [...], revisions }`, the requirement files in load order
+ *   and the revision of each file (and of project.yaml)
+ * - `GET /api/trace` → the trace report: the files that implement and the tests that verify each requirement
+ * - `GET /api/verification` → each requirement's verification state from the configured test result files
+ * - `POST /api/rename` `{ from, to, dryRun? }` → `{ changes: [{ file, diff }] }`
+ * - `GET /api/requirements` → `{ requirements: [resource] }`, main requirements first, where a
+ *   resource is `{ kind, file, requirement, revision, fileRevision }`
+ * - `POST /api/requirements` `{ kind, requirement, file? }` → 201 with the added resource
+ * - `GET /api/requirements/:id` → the resource, with its revision as ETag
+ * - `PUT /api/requirements/:id` with the whole requirement → the updated resource
+ * - `PATCH /api/requirements/:id` with the fields to change (`null` removes one) → the same
+ * - `DELETE /api/requirements/:id` → the deleted resource
+ *
+ * Errors are `{ error }`; refused requirement edits add the field errors as
+ * `{ error, errors: [{ field, message }] }` with status 400 (invalid), 404
+ * (no such requirement) or 409 (ID taken, or still derived from). Invalid
+ * files on disk make every requirement route answer 422.
+ *
+ * Writes are optimistic: they need an `If-Match` header with the revision
+ * they're based on (see ./revisions) — the requirement's for PUT, PATCH,
+ * DELETE and rename, the target file's for POST, or `*` to overwrite. A
+ * missing header gets 428; an old revision gets 409 with `{ error, current,
+ * yours }`, so the client can show both versions. A read-only server
+ * answers every write with 403.
+ *
+ * `/api/trace` and `/api/verification` scan the project's sources on every
+ * request, and the UI asks for both on every load and change event. That
+ * costs time in proportion to the project's size. It isn't cached because
+ * only the requirements directory is watched: a cached scan would miss `@req`
+ * tags added to the code. Narrow `trace.include` in config.yaml to make it
+ * cheaper.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import {
+  renameRequirement,
+  readConfig,
+  readMainRequirements,
+  readDerivedRequirements,
+  readStoredRequirements,
+  readFileRevisions,
+  appendRequirement,
+  replaceRequirement,
+  deleteRequirement,
+} from "./file-store";
+import type { StoredRequirement } from "./file-store";
+import { unifiedDiff } from "./text-diff";
+import { ifMatchAllows, requirementRevision, toEtag } from "./revisions";
+import { discoverRequirementFiles, newRequirementFile } from "./requirement-files";
+import { scanSources } from "./source-scanner";
+import { readTestMapping, readTestResults } from "./test-results";
+import { buildTraceReport } from "../domain/requirements/trace";
+import { buildVerificationReport } from "../domain/requirements/verification";
+import type { RenameProblem } from "../domain/requirements/rename";
+import { checkCreate, checkDelete, checkPatch, checkReplace } from "../domain/requirements/edit";
+import type { EditCheck, EditProblem } from "../domain/requirements/edit";
+import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { isRequirementKind } from "../domain/requirements/query";
+
+/** URL prefix for every API route. */
+export const API_PREFIX = "/api/";
+
+const PROBLEM_STATUS: Record<RenameProblem, number> = {
+  "invalid-id": 400,
+  "not-found": 404,
+  "id-taken": 409,
+};
+
+const EDIT_STATUS: Record<EditProblem, number> = {
+  invalid: 400,
+  "not-found": 404,
+  "id-taken": 409,
+  referenced: 409,
+};
+
+const REQUIREMENTS_ROUTE = "/api/requirements";
+
+/** Largest request body the API reads; requirement edits are far smaller. */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface ApiOptions {
+  /** Refuse every edit. @default false */
+  readOnly?: boolean;
+}
+
+/**
+ * Handles a request under API_PREFIX and writes the JSON response.
+ *
+ * @param pathname - Request path (already stripped of the query string)
+ * @param requirementsDir - Absolute path to the desgin-duck/requirements/ directory
+ */
+export async function handleApiRequest(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+  requirementsDir: string,
+  options: ApiOptions = {},
+): Promise<void> {
+  const readOnly = options.readOnly ?? false;
+
+  if (pathname === "/api/server") {
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+      return;
+    }
+    sendJson(res, 200, { readOnly });
+    return;
+  }
+
+  if (pathname === "/api/config") {
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+      return;
+    }
+    try {
+      sendJson(res, 200, readConfig(dirname(requirementsDir)));
+    } catch (err) {
+      sendJson(res, 422, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  if (pathname === "/api/files") {
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+      return;
+    }
+    sendJson(res, 200, { ...discoverRequirementFiles(requirementsDir), revisions: readFileRevisions(requirementsDir) });
+    return;
+  }
+
+  if (pathname === "/api/trace") {
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+      return;
+    }
+    try {
+      // Annotations live in the project, two levels above desgin-duck/requirements/.
+      // Scanned on every request, since source files aren't watched (see above)
+      const duckDir = dirname(requirementsDir);
+      const config = readConfig(duckDir);
+      const { annotations } = scanSources(dirname(duckDir), config.trace);
+      sendJson(
+        res,
+        200,
+        buildTraceReport(
+          readMainRequirements(requirementsDir, config.vocabulary),
+          readDerivedRequirements(requirementsDir, config.vocabulary),
+          annotations,
+        ),
+      );
+    } catch (err) {
+      sendJson(res, 422, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  if (pathname === "/api/verification") {
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" }, { Allow: "GET" });
+      return;
+    }
+    try {
+      const duckDir = dirname(requirementsDir);
+      const projectDir = dirname(duckDir);
+      const config = readConfig(duckDir);
+      const main = readMainRequirements(requirementsDir, config.vocabulary);
+      const derived = readDerivedRequirements(requirementsDir, config.vocabulary);
+      const { results } = readTestResults(projectDir, config.verification.results);
+      sendJson(
+        res,
+        200,
+        buildVerificationReport(main, derived, results, {
+          mapping: readTestMapping(join(projectDir, config.verification.mapping)),
+          trace: buildTraceReport(main, derived, scanSources(projectDir, config.trace).annotations),
+        }),
+      );
+    } catch (err) {
+      sendJson(res, 422, { error: err instanceof Error ? err.message : String(err) });
+    }
+    return;
+  }
+
+  const requirementsRoute = pathname === REQUIREMENTS_ROUTE || pathname.startsWith(`${REQUIREMENTS_ROUTE}/`);
+  if (readOnly && (pathname === "/api/rename" || requirementsRoute) && req.method !== "GET") {
+    sendJson(res, 403, { error: "The server is read-only; restart it without --read-only to edit requirements" });
+    return;
+  }
+
+  if (pathname === "/api/rename") {
+    if (req.method !== "POST") {
+      sendJson(res, 405, { error: "Method not allowed" }, { Allow: "POST" });
+      return;
+    }
+    await handleRename(req, res, requirementsDir);
+    return;
+  }
+
+  if (requirementsRoute) {
+    await handleRequirements(req, res, pathname, requirementsDir);
+    return;
+  }
+
+  sendJson(res, 404, { error: `Unknown API route: ${pathname}` });
+}
+
+/** A requirement as the API returns it. */
+interface RequirementResource extends StoredRequirement {
+  /** Revision of the requirement; send it as If-Match to change or delete it. */
+  revision: string;
+  /** Revision of the file that holds it; send it as If-Match to add requirements to the file. */
+  fileRevision: string;
+}
+
+function toResource(stored: StoredRequirement, fileRevisions: Record<string, string>): RequirementResource {
+  return { ...stored, revision: requirementRevision(stored.requirement), fileRevision: fileRevisions[stored.file] };
+}
+
+/** The requirement collection and single requirements, by ID. */
+async function handleRequirements(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+  requirementsDir: string,
+): Promise<void> {
+  let id: string | null = null;
+  if (pathname !== REQUIREMENTS_ROUTE) {
+    try {
+      id = decodeURIComponent(pathname.slice(REQUIREMENTS_ROUTE.length + 1));
+    } catch {
+      sendJson(res, 400, { error: `Malformed requirement ID in ${pathname}` });
+      return;
+    }
+  }
+  const allowed = id === null ? ["GET", "POST"] : ["GET", "PUT", "PATCH", "DELETE"];
+  if (id === "" || id?.includes("/")) {
+    sendJson(res, 404, { error: `Unknown API route: ${pathname}` });
+    return;
+  }
+  if (!allowed.includes(req.method ?? "")) {
+    sendJson(res, 405, { error: "Method not allowed" }, { Allow: allowed.join(", ") });
+    return;
+  }
+
+  let body: unknown;
+  if (req.method === "POST" || req.method === "PUT" || req.method === "PATCH") {
+    const read = await readJsonBody(req, res);
+    if (!read.ok) return;
+    body = read.body;
+  }
+
+  let config: ReturnType<typeof readConfig>;
+  let stored: StoredRequirement[];
+  let fileRevisions: Record<string, string>;
+  try {
+    config = readConfig(dirname(requirementsDir));
+    stored = readStoredRequirements(requirementsDir, config.vocabulary);
+    fileRevisions = readFileRevisions(requirementsDir);
+  } catch (err) {
+    // The files on disk are invalid; editing them would risk making things worse
+    sendJson(res, 422, { error: err instanceof Error ? err.message : String(err) });
+    return;
+  }
+
+  const main = stored.flatMap((s) => (s.kind === "main" ? [s.requirement as MainRequirement] : []));
+  const derived = stored.flatMap((s) => (s.kind === "derived" ? [s.requirement as DerivedRequirement] : []));
+  const rules = { vocabularies: config.vocabulary, fields: config.fields };
+  const stale = stored.find((s) => s.requirement.id === id);
+  const current = stale && toResource(stale, fileRevisions);
+
+  try {
+    if (id === null) {
+      if (req.method === "GET") {
+        sendJson(res, 200, { requirements: stored.map((s) => toResource(s, fileRevisions)) });
+        return;
+      }
+
+      const { kind, requirement, file } = (body ?? {}) as Record<string, unknown>;
+      if (typeof kind !== "string" || !isRequirementKind(kind) || (file !== undefined && typeof file !== "string")) {
+        sendJson(res, 400, { error: "Expected { kind: \"main\" | \"derived\", requirement: object, file?: string }" });
+        return;
+      }
+      const files = discoverRequirementFiles(requirementsDir)[kind];
+      if (file !== undefined && !files.includes(file)) {
+        const expected = files.join(", ");
+        sendJson(res, 400, { error: `${file} is not a ${kind} requirements file (expected one of: ${expected})` });
+        return;
+      }
+
+      const target = file ?? newRequirementFile(files);
+      const fileVersion = () => ({
+        file: target,
+        revision: fileRevisions[target],
+        content: readFileSync(join(requirementsDir, target), "utf-8"),
+      });
+      if (!checkPrecondition(req, res, fileRevisions[target], `the file ${target}`, fileVersion, requirement)) {
+        return;
+      }
+      const check = checkCreate(main, derived, kind, requirement, rules);
+      if (!check.ok) {
+        sendEditProblem(res, check);
+        return;
+      }
+      appendRequirement(requirementsDir, target, check.requirement);
+      console.log(`[design-duck:api] Added ${check.requirement.id} to ${target}`);
+      sendRequirement(res, 201, requirementsDir, config, check.requirement.id);
+      return;
+    }
+
+    if (req.method === "GET") {
+      if (current) sendJson(res, 200, current, { ETag: toEtag(current.revision) });
+      else sendJson(res, 404, { error: `Requirement ${id} not found` });
+      return;
+    }
+
+    // A requirement that doesn't exist can't have changed; the checks below report it
+    const yours = req.method === "DELETE" ? null : body;
+    if (current && !checkPrecondition(req, res, current.revision, `Requirement ${id}`, () => current, yours)) {
+      return;
+    }
+    const check = req.method === "DELETE"
+      ? checkDelete(main, derived, id)
+      : req.method === "PUT"
+        ? checkReplace(main, derived, id, body, rules)
+        : checkPatch(main, derived, id, body, rules);
+    if (!check.ok) {
+      sendEditProblem(res, check);
+      return;
+    }
+
+    const { file, requirement } = current!;
+    if (req.method === "DELETE") {
+      deleteRequirement(requirementsDir, file, id);
+      console.log(`[design-duck:api] Deleted ${id} from ${file}`);
+      sendJson(res, 200, current);
+      return;
+    }
+    replaceRequirement(requirementsDir, file, requirement, check.requirement);
+    console.log(`[design-duck:api] Updated ${id} in ${file}`);
+    sendRequirement(res, 200, requirementsDir, config, id);
+  } catch (err) {
+    sendJson(res, 500, { error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+/** Sends a requirement as it is on disk now, after a write, with its new revision. */
+function sendRequirement(
+  res: ServerResponse,
+  status: number,
+  requirementsDir: string,
+  config: ReturnType<typeof readConfig>,
+  id: string,
+): void {
+  const stored = readStoredRequirements(requirementsDir, config.vocabulary).find((s) => s.requirement.id === id)!;
+  const resource = toResource(stored, readFileRevisions(requirementsDir));
+  sendJson(res, status, resource, { ETag: toEtag(resource.revision) });
+}
+
+function sendEditProblem(res: ServerResponse, check: Extract<EditCheck, { ok: false }>): void {
+  sendJson(res, EDIT_STATUS[check.problem], { error: check.message, errors: check.errors });
+}
+
+/**
+ * Checks the request's If-Match header against the current revision of what
+ * it changes. Answers 428 when the header is missing and 409 with the
+ * current and the requested version when it names another revision.
+ *
+ * @param what - What the revision is of, for messages (e.g. "Requirement req-001")
+ * @param current - The current version, sent back on a mismatch
+ * @param yours - The version the request asked for
+ * @returns Whether the write may go ahead
+ */
+function checkPrecondition(
+  req: IncomingMessage,
+  res: ServerResponse,
+  revision: string | null,
+  what: string,
+  current: () => unknown,
+  yours: unknown,
+): boolean {
+  const ifMatch = req.headers["if-match"];
+  if (ifMatch === undefined) {
+    sendJson(res, 428, { error: `If-Match is required: send the revision of ${what}, or * to overwrite it` });
+    return false;
+  }
+  if (!ifMatchAllows(ifMatch, revision)) {
+    console.log(`[design-duck:api] Refused a write based on an old revision of ${what}`);
+    sendJson(res, 409, {
+      error: `${what} was changed by someone else since revision ${ifMatch}`,
+      current: current(),
+      yours,
+    });
+    return false;
+  }
+  return true;
+}
+
+async function handleRename(req: IncomingMessage, res: ServerResponse, requirementsDir: string): Promise<void> {
+  const read = await readJsonBody(req, res);
+  if (!read.ok) return;
+
+  const { from, to, dryRun = false } = (read.body ?? {}) as Record<string, unknown>;
+  if (typeof from !== "string" || typeof to !== "string" || typeof dryRun !== "boolean") {
+    sendJson(res, 400, { error: "Expected { from: string, to: string, dryRun?: boolean }" });
+    return;
+  }
+
+  try {
+    const { vocabulary } = readConfig(dirname(requirementsDir));
+    // A preview changes nothing, so it needs no revision
+    const stored = readStoredRequirements(requirementsDir, vocabulary).find((s) => s.requirement.id === from);
+    if (stored && !dryRun) {
+      const current = () => toResource(stored, readFileRevisions(requirementsDir));
+      const revision = requirementRevision(stored.requirement);
+      if (!checkPrecondition(req, res, revision, `Requirement ${from}`, current, { ...stored.requirement, id: to })) {
+        return;
+      }
+    }
+
+    const outcome = renameRequirement(requirementsDir, from, to, { write: !dryRun, vocabularies: vocabulary });
+    if (!outcome.ok) {
+      sendJson(res, PROBLEM_STATUS[outcome.problem], { error: outcome.message });
+      return;
+    }
+
+    console.log(`[design-duck:api] ${dryRun ? "Previewed" : "Applied"} rename ${from} -> ${to}`);
+    sendJson(res, 200, {
+      changes: outcome.changes.map((c) => ({ file: c.file, diff: unifiedDiff(c.before, c.after, c.file) })),
+    });
+  } catch (err) {
+    // The files on disk are invalid; renaming would risk making things worse
+    sendJson(res, 422, { error: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+/**
+ * Answers a request whose handling failed unexpectedly with a 500, for the
+ * servers that call handleApiRequest().
+ */
+export function sendApiFailure(res: ServerResponse, err: unknown): void {
+  const message = err instanceof Error ? err.message : String(err);
+  console.error(`[design-duck:api] Request failed: ${message}`);
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  sendJson(res, 500, { error: message });
+}
+
+/**
+ * Reads a JSON request body. Answers 413 when it's over MAX_BODY_BYTES
+ * (closing the connection instead of reading the rest) and 400 when it
+ * isn't JSON.
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<{ ok: true; body: unknown } | { ok: false }> {
+  const text = await readBody(req);
+  if (text === null) {
+    res.once("finish", () => req.destroy());
+    sendJson(res, 413, { error: `Request body is larger than ${MAX_BODY_BYTES} bytes` }, { Connection: "close" });
+    return { ok: false };
+  }
+  try {
+    return { ok: true, body: JSON.parse(text) };
+  } catch {
+    sendJson(res, 400, { error: "Request body must be JSON" });
+    return { ok: false };
+  }
+}
+
+/** Reads the request body, or resolves with null as soon as it's over MAX_BODY_BYTES. */
+function readBody(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+      resolve(null);
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off("data", onData);
+        req.off("end", onEnd);
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    const onEnd = () => resolve(Buffer.concat(chunks).toString("utf-8"));
+    req.on("data", onData);
+    req.on("end", onEnd);
+    req.on("error", reject);
+  });
+}
+
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8", ...headers });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,56 @@
+/**
+ * Content revisions for optimistic concurrency.
+ *
+ * The browser and scripts (or AI agents) edit the same YAML files, so every
+ * write through the API must name the revision it was based on (`If-Match`);
+ * a write based on an older revision is refused instead of clobbering the
+ * other change. A file's revision is a hash of its content, a requirement's
+ * a hash of its fields as parsed, so editing one requirement doesn't
+ * invalidate the revisions of the others in the same file.
+ *
+ * The hash only detects changes; it isn't meant to resist tampering. Like
+ * ./yaml-parser, this module has NO Node.js imports, so the UI computes the
+ * same revisions as the server.
+ */
+
+/** Revision of a file's content. */
+export function contentRevision(content: string): string {
+  return hash53(content).toString(16).padStart(14, "0");
+}
+
+/** Revision of a requirement, from its fields in file order. */
+export function requirementRevision(requirement: object): string {
+  return contentRevision(JSON.stringify(requirement));
+}
+
+/** The revision as an HTTP entity tag. */
+export function toEtag(revision: string): string {
+  return `"${revision}"`;
+}
+
+/**
+ * Whether an `If-Match` header allows changing something at `revision`:
+ * one of its entity tags names the revision, or it is `*` and the thing
+ * exists (`revision` isn't null). Weak tags compare like strong ones.
+ */
+export function ifMatchAllows(header: string, revision: string | null): boolean {
+  if (revision === null) return false;
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === toEtag(revision));
+}
+
+/** cyrb53: a fast 53-bit string hash with good distribution. */
+function hash53(text: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
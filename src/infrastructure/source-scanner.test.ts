@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { globToRegExp, scanSources } from "./source-scanner";
+
+describe("globToRegExp", () => {
+  test("matches * within a folder and ** across folders", () => {
+    expect(globToRegExp("src/*.ts").test("src/a.ts")).toBe(true);
+    expect(globToRegExp("src/*.ts").test("src/lib/a.ts")).toBe(false);
+    expect(globToRegExp("src/**").test("src/lib/deep/a.ts")).toBe(true);
+    expect(globToRegExp("src/**/*.ts").test("src/a.ts")).toBe(true);
+    expect(globToRegExp("src/**/*.ts").test("src/lib/a.ts")).toBe(true);
+    expect(globToRegExp("**/*.test.ts").test("a.test.ts")).toBe(true);
+  });
+
+  test("supports ? and {a,b} alternatives", () => {
+    expect(globToRegExp("src/?.ts").test("src/a.ts")).toBe(true);
+    expect(globToRegExp("src/**/*.{ts,tsx}").test("src/ui/App.tsx")).toBe(true);
+    expect(globToRegExp("src/**/*.{ts,tsx}").test("src/ui/App.js")).toBe(false);
+  });
+
+  test("treats other characters literally", () => {
+    expect(globToRegExp("src/a.ts").test("src/abts")).toBe(false);
+  });
+});
+
+describe("scanSources", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(join(testDir, "src", "generated"), { recursive: true });
+    mkdirSync(join(testDir, "node_modules", "dep"), { recursive: true });
+    mkdirSync(join(testDir, "docs"), { recursive: true });
+    writeFileSync(join(testDir, "src", "search.ts"), "// @req req-001\n", "utf-8");
+    writeFileSync(join(testDir, "src", "generated", "api.ts"), "// @req req-002\n", "utf-8");
+    writeFileSync(join(testDir, "node_modules", "dep", "index.js"), "// @req req-003\n", "utf-8");
+    writeFileSync(join(testDir, "docs", "notes.md"), "@req req-004\n", "utf-8");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("scans the included files, minus excluded ones and node_modules", () => {
+    const scan = scanSources(testDir, { include: ["src/**", "node_modules/**"], exclude: ["src/generated/**"] });
+
+    expect(scan.files).toEqual(["src/search.ts"]);
+    expect(scan.annotations).toEqual([{ file: "src/search.ts", line: 1, requirementId: "req-001", test: null }]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Scans a project's source and test files for requirement annotations
+ * (`@req req-001`, `// design-duck: der-004`).
+ *
+ * Which files are scanned is decided by the `trace` section of
+ * desgin-duck/config.yaml: paths relative to the project root are matched
+ * against its include and exclude globs. Hidden folders and node_modules
+ * are never entered.
+ *
+ * Node/Bun only.
+ */
+
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { findAnnotations } from "../domain/requirements/trace";
+import type { TraceAnnotation } from "../domain/requirements/trace";
+import type { TraceConfig } from "../domain/config/config";
+
+/** Result of scanning a project. */
+export interface SourceScan {
+  /** Scanned files relative to the project root, sorted. */
+  files: string[];
+  /** Annotations in file order. */
+  annotations: TraceAnnotation[];
+}
+
+/** Directories that never hold the project's own sources. */
+const SKIPPED_DIRS = new Set(["node_modules"]);
+
+/** Files larger than this are assumed to be generated or binary and skipped. */
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Converts a glob to a regular expression matching whole relative paths.
+ * Supports `*` (within a folder), `**` (any number of folders), `?` and
+ * `{a,b}` alternatives (without wildcards inside).
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escape = (s: string) => s.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" may match no folder at all; a trailing "**" matches everything below
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (c === "*") {
+      source += "[^/]*";
+    } else if (c === "?") {
+      source += "[^/]";
+    } else if (c === "{" && glob.indexOf("}", i) !== -1) {
+      const end = glob.indexOf("}", i);
+      source += `(?:${glob.slice(i + 1, end).split(",").map(escape).join("|")})`;
+      i = end;
+    } else {
+      source += escape(c);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Finds the files matched by the trace settings and collects their annotations.
+ *
+ * @param rootDir - Project root; globs and reported paths are relative to it
+ */
+export function scanSources(rootDir: string, settings: TraceConfig): SourceScan {
+  const files = findFiles(rootDir, settings.include, settings.exclude);
+  const annotations: TraceAnnotation[] = [];
+  for (const file of files) {
+    const path = join(rootDir, file);
+    if (statSync(path).size > MAX_FILE_SIZE) continue;
+    annotations.push(...findAnnotations(readFileSync(path, "utf-8"), file));
+  }
+
+  if (process.env.DEBUG) {
+    console.error(`[source-scanner] Scanned ${files.length} file(s) in ${rootDir}, found ${annotations.length} annotation(s)`);
+  }
+
+  return { files, annotations };
+}
+
+/**
+ * Lists the files under `rootDir` matching any of the `include` globs and
+ * none of the `exclude` globs, skipping hidden folders and node_modules.
+ *
+ * @returns Paths relative to `rootDir`, with forward slashes, sorted
+ */
+export function findFiles(rootDir: string, include: string[], exclude: string[] = []): string[] {
+  const includes = include.map(globToRegExp);
+  const excludes = exclude.map(globToRegExp);
+  const matches = (path: string) => includes.some((re) => re.test(path)) && !excludes.some((re) => re.test(path));
+  return listFiles(rootDir, "").filter(matches).sort();
+}
+
+function listFiles(root: string, prefix: string): string[] {
+  const paths: string[] = [];
+  for (const entry of readdirSync(join(root, prefix), { withFileTypes: true })) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && !SKIPPED_DIRS.has(entry.name)) {
+        paths.push(...listFiles(root, path));
+      }
+    } else if (entry.isFile()) {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import { bundleStaticHtml, readEmbeddedSnapshot, SNAPSHOT_ELEMENT_ID } from "./static-export";
+import type { RequirementsSnapshot } from "./static-export";
+import { DEFAULT_CONFIG } from "../domain/config/config";
+
+const INDEX_HTML = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>Design Duck</title>
+    <script type="module" crossorigin src="/assets/index-abc.js"></script>
+    <link rel="modulepreload" crossorigin href="/assets/vendor-def.js">
+    <link rel="stylesheet" crossorigin href="/assets/index-abc.css">
+    <link rel="stylesheet" href="https://fonts.example.com/font.css">
+  </head>
+  <body>
+    <div id="root"></div>
+  </body>
+</html>
+`;
+
+const ASSETS: Record<string, string> = {
+  "/assets/index-abc.js": 'console.log("</script>");',
+  "/assets/index-abc.css": "body{margin:0}",
+};
+
+const SNAPSHOT: RequirementsSnapshot = {
+  exportedAt: "2026-01-02T03:04:05.000Z",
+  files: { main: ["main.yaml"], derived: [] },
+  contents: { "main.yaml": "requirements:\n  - id: req-001\n    description: </script><b>bold</b>\n" },
+  config: DEFAULT_CONFIG,
+  trace: null,
+  verification: null,
+};
+
+describe("bundleStaticHtml", () => {
+  const html = bundleStaticHtml(INDEX_HTML, (path) => ASSETS[path], SNAPSHOT);
+
+  test("inlines local scripts and stylesheets", () => {
+    expect(html).toContain('<script type="module">console.log("<\\/script>");</script>');
+    expect(html).toContain("<style>body{margin:0}</style>");
+    expect(html).not.toContain("/assets/");
+  });
+
+  test("leaves remote assets alone", () => {
+    expect(html).toContain('<link rel="stylesheet" href="https://fonts.example.com/font.css">');
+  });
+
+  test("embeds the snapshot so it can't close its script element", () => {
+    const json = html.match(/<script type="application\/json" id="design-duck-snapshot">(.*?)<\/script>/)?.[1];
+
+    expect(json).toBeDefined();
+    expect(json).not.toContain("<");
+    expect(JSON.parse(json!)).toEqual(SNAPSHOT);
+  });
+
+  test("embeds requirement text containing replacement patterns as it is", () => {
+    const content = "requirements:\n  - id: req-001\n    description: Costs $$100, $' and $& or $1\n";
+    const exported = bundleStaticHtml(INDEX_HTML, (path) => ASSETS[path], {
+      ...SNAPSHOT,
+      contents: { "main.yaml": content },
+    });
+    const json = exported.match(/<script type="application\/json" id="design-duck-snapshot">(.*?)<\/script>/)?.[1];
+
+    expect(JSON.parse(json!).contents["main.yaml"]).toBe(content);
+    expect(exported.match(/<\/html>/g)).toHaveLength(1);
+  });
+
+  test("doesn't rewrite tags that only appear inside the inlined bundles", () => {
+    const script = 'const head = "</head>"; const link = \'<link rel="stylesheet" href="/x.css">\';';
+    const exported = bundleStaticHtml(INDEX_HTML, (path) => (path.endsWith(".js") ? script : ASSETS[path]), SNAPSHOT);
+
+    expect(exported).toContain(`<script type="module">${script}</script>`);
+    expect(exported.match(/id="design-duck-snapshot"/g)).toHaveLength(1);
+  });
+
+  test("reports missing assets", () => {
+    expect(() =>
+      bundleStaticHtml(
+        INDEX_HTML,
+        (path) => {
+          throw new Error(`${path} not found`);
+        },
+        SNAPSHOT,
+      ),
+    ).toThrow("/assets/index-abc.js not found");
+  });
+});
+
+describe("readEmbeddedSnapshot", () => {
+  test("parses the embedded snapshot, or returns null without one", () => {
+    const element = { textContent: JSON.stringify(SNAPSHOT) } as HTMLElement;
+    const doc = (el: HTMLElement | null) => ({
+      getElementById: (id: string) => (id === SNAPSHOT_ELEMENT_ID ? el : null),
+    });
+
+    expect(readEmbeddedSnapshot(doc(element))).toEqual(SNAPSHOT);
+    expect(readEmbeddedSnapshot(doc(null))).toBeNull();
+  });
+});
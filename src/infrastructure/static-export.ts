@@ -0,0 +1,98 @@
+/**
+ * Builds the self-contained HTML snapshot of the UI for
+ * `design-duck export --format html`.
+ *
+ * The built UI (dist-ui/index.html) loads its script and stylesheet from
+ * /assets/. The snapshot inlines both and embeds the requirement files, the
+ * config and the trace and verification reports as JSON, so the page opens
+ * straight from disk without the UI server. On load, the UI finds the
+ * embedded data with readEmbeddedSnapshot() and shows it read-only instead
+ * of fetching and watching. No Node.js imports, so the UI can share it.
+ */
+
+import type { RequirementFiles } from "./requirement-files";
+import type { DesignDuckConfig } from "../domain/config/config";
+import type { TraceReport } from "../domain/requirements/trace";
+import type { VerificationReport } from "../domain/requirements/verification";
+
+/** ID of the `<script type="application/json">` element holding the snapshot. */
+export const SNAPSHOT_ELEMENT_ID = "design-duck-snapshot";
+
+/** Everything the UI loads from the server, captured at export time. */
+export interface RequirementsSnapshot {
+  /** When the snapshot was taken, as an ISO timestamp. */
+  exportedAt: string;
+  files: RequirementFiles;
+  /** Contents of every requirement file and of project.yaml (when present), by path in the requirements directory. */
+  contents: Record<string, string>;
+  config: DesignDuckConfig;
+  trace: TraceReport | null;
+  verification: VerificationReport | null;
+}
+
+/**
+ * Turns the built UI's index.html into a single page with its scripts and
+ * stylesheets inlined and the snapshot embedded.
+ *
+ * @param indexHtml - Contents of dist-ui/index.html
+ * @param readAsset - Returns the contents of a local asset, given its URL path (e.g. `/assets/index-abc.js`)
+ */
+export function bundleStaticHtml(
+  indexHtml: string,
+  readAsset: (path: string) => string,
+  snapshot: RequirementsSnapshot,
+): string {
+  const data = `<script type="application/json" id="${SNAPSHOT_ELEMENT_ID}">${embedJson(snapshot)}</script>`;
+
+  // One pass over the page's own tags, so the inlined bundles and the snapshot
+  // (which may contain `<link` or `</head>`) are never rewritten themselves
+  return indexHtml.replace(
+    /<script\b([^>]*)><\/script>|<link\b([^>]*)>|<\/head>/g,
+    (tag, scriptAttrs: string | undefined, linkAttrs: string | undefined) => {
+      if (scriptAttrs !== undefined) {
+        const src = localUrl(attribute(scriptAttrs, "src"));
+        return src ? `<script type="module">${inline(readAsset(src), "script")}</script>` : tag;
+      }
+      if (linkAttrs !== undefined) {
+        const rel = attribute(linkAttrs, "rel");
+        const href = localUrl(attribute(linkAttrs, "href"));
+        if (!href) return tag;
+        if (rel === "stylesheet") return `<style>${inline(readAsset(href), "style")}</style>`;
+        // Preloads only speed up fetches the snapshot no longer makes
+        if (rel === "modulepreload" || rel === "preload") return "";
+        return tag;
+      }
+      return `  ${data}\n  </head>`;
+    },
+  );
+}
+
+/**
+ * Reads the snapshot embedded by bundleStaticHtml(), or null when the page
+ * is served by the UI server.
+ */
+export function readEmbeddedSnapshot(doc: Pick<Document, "getElementById">): RequirementsSnapshot | null {
+  const element = doc.getElementById(SNAPSHOT_ELEMENT_ID);
+  if (!element?.textContent) return null;
+  return JSON.parse(element.textContent) as RequirementsSnapshot;
+}
+
+function attribute(attrs: string, name: string): string | null {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`));
+  return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/** The URL when it points into the built UI, rather than to another host. */
+function localUrl(url: string | null): string | null {
+  return url && !/^([a-z][a-z0-9+.-]*:|\/\/)/i.test(url) ? url : null;
+}
+
+/** Keeps inlined code from closing its element early. */
+function inline(code: string, element: "script" | "style"): string {
+  return code.replace(new RegExp(`</(${element})`, "gi"), "<\\/$1");
+}
+
+/** JSON that can sit inside a script element: `<` only occurs in strings, where `\u003c` means the same. */
+function embedJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
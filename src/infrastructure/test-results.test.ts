@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { parseBunTestOutput, parseJUnitXml, parseTestResults, readTestMapping, readTestResults } from "./test-results";
+
+const JUNIT_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <testsuite name="src/search.test.ts" tests="3">
+    <testcase name="req-001 finds &quot;shoes&quot;" classname="search" time="0.01" />
+    <testcase name='ranks results' classname="search">
+      <failure message="expected 1 to be 2" type="AssertionError">stack</failure>
+    </testcase>
+    <testcase name="exports" classname="export"><skipped /></testcase>
+  </testsuite>
+</testsuites>
+`;
+
+const BUN_OUTPUT = `bun test v1.2.0
+
+src/search.test.ts:
+(pass) search > req-001 finds products [0.12ms]
+(fail) search > ranks results [1.00ms]
+(skip) exports
+\x1b[32m✓\x1b[0m index > der-001 builds the index [0.05ms]
+
+ 2 pass
+ 1 fail
+`;
+
+describe("parseJUnitXml", () => {
+  test("reads test cases with their suite and outcome", () => {
+    expect(parseJUnitXml(JUNIT_XML)).toEqual([
+      { name: 'req-001 finds "shoes"', suite: "search", outcome: "passed" },
+      { name: "ranks results", suite: "search", outcome: "failed" },
+      { name: "exports", suite: "export", outcome: "skipped" },
+    ]);
+  });
+
+  test("leaves character references outside Unicode undecoded", () => {
+    const xml = '<testsuite><testcase name="req-001 &#x2713; &#99999999; &#x110000;" classname="a" /></testsuite>';
+
+    expect(parseJUnitXml(xml)).toEqual([
+      { name: "req-001 \u2713 &#99999999; &#x110000;", suite: "a", outcome: "passed" },
+    ]);
+  });
+});
+
+describe("parseBunTestOutput", () => {
+  test("reads result lines and ignores the rest", () => {
+    expect(parseBunTestOutput(BUN_OUTPUT)).toEqual([
+      { name: "req-001 finds products", suite: "search", outcome: "passed" },
+      { name: "ranks results", suite: "search", outcome: "failed" },
+      { name: "exports", suite: "", outcome: "skipped" },
+      { name: "der-001 builds the index", suite: "index", outcome: "passed" },
+    ]);
+  });
+});
+
+describe("parseTestResults", () => {
+  test("tells the formats apart by their content", () => {
+    expect(parseTestResults(JUNIT_XML)).toHaveLength(3);
+    expect(parseTestResults(BUN_OUTPUT)).toHaveLength(4);
+  });
+});
+
+describe("readTestResults and readTestMapping", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    mkdirSync(join(testDir, "test-results"), { recursive: true });
+    writeFileSync(join(testDir, "junit.xml"), JUNIT_XML, "utf-8");
+    writeFileSync(join(testDir, "test-results", "bun.txt"), BUN_OUTPUT, "utf-8");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("reads every file matched by the globs", () => {
+    const { files, results } = readTestResults(testDir, ["junit.xml", "test-results/**"]);
+    expect(files).toEqual(["junit.xml", "test-results/bun.txt"]);
+    expect(results).toHaveLength(7);
+  });
+
+  test("reads the mapping file, or an empty mapping when it's missing", () => {
+    writeFileSync(join(testDir, "mapping.yaml"), '"search > ranks results": req-001\n', "utf-8");
+    expect(readTestMapping(join(testDir, "mapping.yaml"))).toEqual({ "search > ranks results": ["req-001"] });
+    expect(readTestMapping(join(testDir, "missing.yaml"))).toEqual({});
+  });
+});
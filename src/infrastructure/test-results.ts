@@ -0,0 +1,136 @@
+/**
+ * Reads test results produced locally, for `design-duck coverage` and the
+ * UI's verification badges.
+ *
+ * Two formats are understood: JUnit XML (written by most test runners, and
+ * by `bun test --reporter=junit --reporter-outfile=junit.xml`) and the text
+ * bun test prints (`bun test 2>&1 | tee test-results/bun.txt`). Which files
+ * are read is decided by the `verification` section of desgin-duck/config.yaml.
+ *
+ * Node/Bun only.
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { load as parseYaml } from "js-yaml";
+import { findFiles } from "./source-scanner";
+import { toTestMapping } from "../domain/requirements/verification";
+import type { TestMapping, TestOutcome, TestResult } from "../domain/requirements/verification";
+
+/** Result of reading a project's test result files. */
+export interface TestResultSet {
+  /** Result files relative to the project root, sorted. */
+  files: string[];
+  results: TestResult[];
+}
+
+const TESTCASE_PATTERN = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** `(pass) suite > name [1.00ms]`, or `✓ suite > name` when bun writes to a terminal. */
+const BUN_LINE_PATTERN = /^\s*(\(pass\)|\(fail\)|\(skip\)|\(todo\)|✓|✗|»)\s+(.+?)(?:\s+\[[\d.]+m?s\])?\s*$/;
+
+const BUN_OUTCOMES: Record<string, TestOutcome> = {
+  "(pass)": "passed",
+  "✓": "passed",
+  "(fail)": "failed",
+  "✗": "failed",
+  "(skip)": "skipped",
+  "(todo)": "skipped",
+  "»": "skipped",
+};
+
+/**
+ * Parses a JUnit XML report. `<failure>` and `<error>` mark a test as
+ * failed, `<skipped>` as skipped; the classname becomes the suite.
+ */
+export function parseJUnitXml(content: string): TestResult[] {
+  const results: TestResult[] = [];
+  for (const match of content.matchAll(TESTCASE_PATTERN)) {
+    const attributes = parseAttributes(match[1]);
+    const body = match[2] ?? "";
+    results.push({
+      name: attributes.name ?? "",
+      suite: attributes.classname ?? "",
+      outcome: /<(failure|error)\b/.test(body) ? "failed" : /<skipped\b/.test(body) ? "skipped" : "passed",
+    });
+  }
+  return results;
+}
+
+/** Parses the text bun test prints; lines other than test results are ignored. */
+export function parseBunTestOutput(content: string): TestResult[] {
+  const results: TestResult[] = [];
+  for (const line of content.replace(/\x1b\[[\d;]*m/g, "").split("\n")) {
+    const match = BUN_LINE_PATTERN.exec(line);
+    if (!match) continue;
+    const parts = match[2].split(" > ");
+    results.push({
+      name: parts[parts.length - 1],
+      suite: parts.slice(0, -1).join(" > "),
+      outcome: BUN_OUTCOMES[match[1]],
+    });
+  }
+  return results;
+}
+
+/** Parses a result file in either format, telling them apart by the content. */
+export function parseTestResults(content: string): TestResult[] {
+  return content.trimStart().startsWith("<") ? parseJUnitXml(content) : parseBunTestOutput(content);
+}
+
+/**
+ * Reads every result file matched by the globs.
+ *
+ * @param rootDir - Project root; globs and reported paths are relative to it
+ */
+export function readTestResults(rootDir: string, globs: string[]): TestResultSet {
+  const files = findFiles(rootDir, globs);
+  const results = files.flatMap((file) => parseTestResults(readFileSync(join(rootDir, file), "utf-8")));
+
+  if (process.env.DEBUG) {
+    console.error(`[test-results] Read ${results.length} test result(s) from ${files.length} file(s) in ${rootDir}`);
+  }
+
+  return { files, results };
+}
+
+/**
+ * Reads the optional test mapping file.
+ *
+ * @param filePath - Path to the YAML file
+ * @returns The mapping, or an empty one when the file doesn't exist
+ * @throws Error if malformed YAML or validation fails
+ */
+export function readTestMapping(filePath: string): TestMapping {
+  let content: string;
+  try {
+    content = readFileSync(filePath, "utf-8");
+  } catch (err) {
+    if (err instanceof Error && "code" in err && err.code === "ENOENT") {
+      return {};
+    }
+    throw err;
+  }
+  // An empty file is an empty mapping
+  return toTestMapping(parseYaml(content) ?? {});
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: "<", gt: ">", quot: '"', apos: "'", amp: "&" };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(lt|gt|quot|apos|amp|#\d+|#x[\da-f]+);/gi, (reference, entity: string) => {
+    if (!entity.startsWith("#")) return XML_ENTITIES[entity.toLowerCase()];
+    const codePoint = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    // Invalid references are kept as written rather than failing the whole report
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+  });
+}
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+import { unifiedDiff } from "./text-diff";
+
+describe("unifiedDiff", () => {
+  test("returns an empty string when nothing changed", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n", "main.yaml")).toBe("");
+  });
+
+  test("shows a changed line with surrounding context", () => {
+    const before = "1\n2\n3\n4\n5\n6\n7\n8\n9\n";
+    const after = "1\n2\n3\n4\nfive\n6\n7\n8\n9\n";
+
+    expect(unifiedDiff(before, after, "main.yaml")).toBe(
+      ["--- a/main.yaml", "+++ b/main.yaml", "@@ -2,7 +2,7 @@", " 2", " 3", " 4", "-5", "+five", " 6", " 7", " 8", ""].join(
+        "\n",
+      ),
+    );
+  });
+
+  test("puts changes far apart into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => String(i + 1));
+    const changed = [...lines];
+    changed[1] = "two";
+    changed[17] = "eighteen";
+
+    const diff = unifiedDiff(lines.join("\n") + "\n", changed.join("\n") + "\n", "f", 1);
+
+    expect(diff.split("\n").filter((l) => l.startsWith("@@"))).toEqual(["@@ -1,3 +1,3 @@", "@@ -17,3 +17,3 @@"]);
+  });
+
+  test("shows added and removed lines", () => {
+    const diff = unifiedDiff("a\nb\n", "a\nx\ny\n", "f");
+
+    expect(diff).toContain("@@ -1,2 +1,3 @@\n a\n-b\n+x\n+y\n");
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Line-based unified diffs, for previewing file edits before they are written.
+ *
+ * This module has NO Node.js imports and is safe to bundle for the browser.
+ */
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+/**
+ * Renders the difference between two versions of a file as a unified diff
+ * (`--- a/file`, `+++ b/file`, `@@` hunks). Returns "" when they are equal.
+ *
+ * @param fileName - Path shown in the `---`/`+++` headers
+ * @param context - Unchanged lines shown around each change
+ */
+export function unifiedDiff(before: string, after: string, fileName: string, context = 3): string {
+  if (before === after) return "";
+
+  const ops = diffLines(splitLines(before), splitLines(after));
+  const lines = [`--- a/${fileName}`, `+++ b/${fileName}`];
+
+  // Indices of changed ops, grouped into hunks when their context overlaps
+  const changed = ops.flatMap((op, i) => (op.kind === " " ? [] : [i]));
+  let h = 0;
+  while (h < changed.length) {
+    const start = Math.max(0, changed[h] - context);
+    let end = changed[h];
+    while (h + 1 < changed.length && changed[h + 1] - end <= context * 2 + 1) {
+      end = changed[++h];
+    }
+    end = Math.min(ops.length - 1, end + context);
+    h++;
+
+    // 1-based line numbers where the hunk starts in each version
+    const oldStart = ops.slice(0, start).filter((op) => op.kind !== "+").length + 1;
+    const newStart = ops.slice(0, start).filter((op) => op.kind !== "-").length + 1;
+    const hunk = ops.slice(start, end + 1);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+
+    lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    lines.push(...hunk.map((op) => op.kind + op.line));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays. Common leading and trailing
+ * lines are matched directly so the quadratic LCS only runs over the part
+ * that changed, which for targeted edits is a handful of lines.
+ */
+function diffLines(a: string[], b: string[]): Op[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  // lcs[i][j] = length of the LCS of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Array<number>(midB.length + 1).fill(0));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Op[] = a.slice(0, prefix).map((line) => ({ kind: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      ops.push({ kind: " ", line: midA[i] });
+      i++;
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ kind: "-", line: midA[i++] });
+    } else {
+      ops.push({ kind: "+", line: midB[j++] });
+    }
+  }
+  ops.push(...a.slice(a.length - suffix).map((line) => ({ kind: " " as const, line })));
+  return ops;
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdirSync, rmSync, symlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { isLoopbackHost, resolveServedPath } from "./ui-server";
+
+const YAML = [".yaml", ".yml"];
+
+describe("resolveServedPath", () => {
+  let testDir: string;
+  let root: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `design-duck-test-${Date.now()}`);
+    root = join(testDir, "desgin-duck", "requirements");
+    mkdirSync(join(root, "checkout"), { recursive: true });
+    writeFileSync(join(root, "main.yaml"), "requirements: []\n", "utf-8");
+    writeFileSync(join(root, "checkout", "main 2.yaml"), "requirements: []\n", "utf-8");
+    writeFileSync(join(testDir, ".env"), "SECRET=1\n", "utf-8");
+    writeFileSync(join(testDir, "secrets.yaml"), "token: x\n", "utf-8");
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  test("resolves files inside the root, decoding the path", () => {
+    expect(resolveServedPath(root, "main.yaml", YAML)).toEqual({ ok: true, path: join(root, "main.yaml") });
+    expect(resolveServedPath(root, "checkout/main%202.yaml", YAML)).toEqual({
+      ok: true,
+      path: join(root, "checkout", "main 2.yaml"),
+    });
+  });
+
+  test("refuses paths that leave the root", () => {
+    expect(resolveServedPath(root, "../../.env")).toEqual({ ok: false, status: 403 });
+    expect(resolveServedPath(root, "%2e%2e/%2e%2e/secrets.yaml", YAML)).toEqual({ ok: false, status: 403 });
+    expect(resolveServedPath(root, "..%2f..%2fsecrets.yaml", YAML)).toEqual({ ok: false, status: 403 });
+    expect(resolveServedPath(root, "checkout%5c..%5c..%5c..%5csecrets.yaml", YAML)).toEqual({
+      ok: false,
+      status: 403,
+    });
+  });
+
+  test("refuses absolute paths", () => {
+    expect(resolveServedPath(root, encodeURIComponent(join(testDir, "secrets.yaml")), YAML)).toEqual({
+      ok: false,
+      status: 403,
+    });
+    expect(resolveServedPath(root, "C:%5Csecrets.yaml", YAML)).toEqual({ ok: false, status: 403 });
+  });
+
+  test("refuses symlinks that point outside the root", () => {
+    symlinkSync(join(testDir, "secrets.yaml"), join(root, "linked.yaml"));
+    symlinkSync(testDir, join(root, "project"));
+
+    expect(resolveServedPath(root, "linked.yaml", YAML)).toEqual({ ok: false, status: 403 });
+    expect(resolveServedPath(root, "project/secrets.yaml", YAML)).toEqual({ ok: false, status: 403 });
+  });
+
+  test("serves symlinks that stay inside the root", () => {
+    symlinkSync(join(root, "main.yaml"), join(root, "alias.yaml"));
+
+    expect(resolveServedPath(root, "alias.yaml", YAML)).toEqual({ ok: true, path: join(root, "alias.yaml") });
+  });
+
+  test("refuses extensions that aren't served", () => {
+    writeFileSync(join(root, ".env"), "SECRET=1\n", "utf-8");
+
+    expect(resolveServedPath(root, ".env", YAML)).toEqual({ ok: false, status: 403 });
+    expect(resolveServedPath(root, ".env")).toEqual({ ok: true, path: join(root, ".env") });
+  });
+
+  test("reports missing files, directories and bad encoding", () => {
+    expect(resolveServedPath(root, "derived.yaml", YAML)).toEqual({ ok: false, status: 404 });
+    expect(resolveServedPath(root, "checkout")).toEqual({ ok: false, status: 404 });
+    expect(resolveServedPath(root, "%E0%A4%A.yaml", YAML)).toEqual({ ok: false, status: 400 });
+    expect(resolveServedPath(root, "main.yaml%00.png")).toEqual({ ok: false, status: 400 });
+  });
+});
+
+describe("isLoopbackHost", () => {
+  test("tells loopback hosts from ones reachable over the network", () => {
+    for (const host of ["localhost", "127.0.0.1", "127.1.2.3", "::1", "[::1]", "::ffff:127.0.0.1"]) {
+      expect(isLoopbackHost(host)).toBe(true);
+    }
+    for (const host of ["0.0.0.0", "::", "192.168.1.20", "duck.example.com", "128.0.0.1"]) {
+      expect(isLoopbackHost(host)).toBe(false);
+    }
+  });
+});
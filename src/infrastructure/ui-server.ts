@@ -1,35 +1,52 @@
 /**
  * Built-in HTTP server for the Design Duck UI.
  *
- * Serves three things:
+ * Serves four things:
  * 1. Pre-built static UI files from dist-ui/ (shipped with the package)
  * 2. Requirements YAML files from the consumer's project (process.cwd())
- * 3. An SSE endpoint (/events) for real-time file change notifications
+ * 3. An SSE endpoint (/events) for real-time file change notifications, with
+ *    what changed (see ./change-feed); browsers that reconnect with a
+ *    Last-Event-ID header get the events they missed
+ * 4. A JSON API (/api/) for editing requirements from the UI
  *
  * This removes the need for Vite or any build tooling in consuming projects.
+ *
+ * Files are only served from inside dist-ui/ and the requirements directory
+ * (see resolveServedPath()); the requirements route only serves YAML, so the
+ * rest of the consumer's project stays private.
  */
 
 import {
   createServer,
   type IncomingMessage,
+  type Server,
   type ServerResponse,
 } from "node:http";
-import { readFileSync, existsSync } from "node:fs";
-import { join, extname } from "node:path";
+import type { AddressInfo } from "node:net";
+import { readFileSync, existsSync, realpathSync, statSync } from "node:fs";
+import { join, extname, isAbsolute, relative, resolve, sep } from "node:path";
 import { execSync } from "node:child_process";
 import { watchRequirementsDir } from "./file-watcher";
 import type { FileWatcherHandle } from "./file-watcher";
+import { createChangeFeed } from "./change-feed";
+import type { ChangeFeed, RequirementsChangedEvent } from "./change-feed";
+import { API_PREFIX, handleApiRequest, sendApiFailure } from "./requirements-api";
+import { contentRevision, toEtag } from "./revisions";
 
 /** Options for starting the UI server. */
 export interface UiServerOptions {
-  /** Port to listen on. @default 3456 */
+  /** Port to listen on; when it's taken, the next free one up to PORT_ATTEMPTS ports on. @default 3456 */
   port?: number;
+  /** Interface to listen on; `0.0.0.0` makes the UI reachable from other machines. @default "localhost" */
+  host?: string;
   /** Absolute path to the dist-ui/ directory with pre-built UI files. */
   distUiDir: string;
   /** Absolute path to the desgin-duck/requirements/ directory to serve YAML files from. */
   requirementsDir: string;
   /** Whether to open the browser automatically. @default true */
   open?: boolean;
+  /** Refuse every edit through the API. @default false */
+  readOnly?: boolean;
 }
 
 /** Handle returned by startUiServer to control the server lifecycle. */
@@ -38,6 +55,106 @@ export interface UiServerHandle {
   close: () => void;
   /** The port the server is listening on. */
   port: number;
+  /** The URL to open the UI at. */
+  url: string;
+}
+
+/** How many ports startUiServer() tries, starting at the requested one. */
+export const PORT_ATTEMPTS = 10;
+
+/**
+ * Finds the dist-ui/ directory containing pre-built UI assets.
+ *
+ * Works both when running from source (src/infrastructure/ui-server.ts)
+ * and when bundled (dist/cli.js).
+ */
+export function findDistUiDir(): string {
+  // import.meta.dirname resolves to the directory of the running file:
+  // - Bundled: .../dist/        → ../dist-ui/ = .../dist-ui/
+  // - Source:  .../src/infrastructure/ → ../../dist-ui/ = .../dist-ui/
+  const thisDir = import.meta.dirname;
+  const candidates = [
+    join(thisDir, "..", "dist-ui"),
+    join(thisDir, "..", "..", "dist-ui"),
+  ];
+
+  for (const dir of candidates) {
+    if (existsSync(dir)) return dir;
+  }
+
+  throw new Error(
+    "UI assets not found (dist-ui/). Run 'bun run build:ui' to build the UI first.",
+  );
+}
+
+/**
+ * Whether `host` only accepts connections from this machine. Anything else
+ * (a LAN address, `0.0.0.0`, a hostname) may expose the API to the network.
+ */
+export function isLoopbackHost(host: string): boolean {
+  const bare = host.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+  return bare === "localhost" || bare === "::1" || /^(::ffff:)?127(\.\d{1,3}){3}$/.test(bare);
+}
+
+/** Extensions served from the requirements directory. */
+const REQUIREMENT_FILE_EXTENSIONS = [".yaml", ".yml"];
+
+/**
+ * Outcome of resolving a request path to a file:
+ * - `400`: the path isn't valid URL encoding
+ * - `403`: the path leaves the root (`..`, an absolute path, a symlink to
+ *   elsewhere) or has an extension that isn't served
+ * - `404`: no such file
+ */
+export type ServedPath = { ok: true; path: string } | { ok: false; status: 400 | 403 | 404 };
+
+/**
+ * Resolves a path from a request URL to a file inside `root`.
+ *
+ * @param urlPath - The URL-encoded path relative to `root`, as it appears in
+ *   the request (e.g. `checkout/main.yaml`)
+ * @param extensions - Extensions to serve; any when omitted
+ */
+export function resolveServedPath(root: string, urlPath: string, extensions?: readonly string[]): ServedPath {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(urlPath);
+  } catch {
+    return { ok: false, status: 400 };
+  }
+  if (decoded.includes("\0")) {
+    return { ok: false, status: 400 };
+  }
+
+  // Check the segments as well as the result: Windows also splits on backslashes
+  if (isAbsolute(decoded) || /^[a-z]:/i.test(decoded) || decoded.split(/[\\/]/).includes("..")) {
+    return { ok: false, status: 403 };
+  }
+  const filePath = resolve(root, decoded);
+  if (!isInside(root, filePath)) {
+    return { ok: false, status: 403 };
+  }
+  if (extensions && !extensions.includes(extname(filePath).toLowerCase())) {
+    return { ok: false, status: 403 };
+  }
+
+  try {
+    if (!statSync(filePath).isFile()) {
+      return { ok: false, status: 404 };
+    }
+    // A symlink inside the root may still point outside it
+    if (!isInside(realpathSync(root), realpathSync(filePath))) {
+      return { ok: false, status: 403 };
+    }
+  } catch {
+    return { ok: false, status: 404 };
+  }
+  return { ok: true, path: filePath };
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const path = relative(resolve(root), filePath);
+  return path !== "" && path !== ".." && !path.startsWith(`..${sep}`) && !isAbsolute(path);
 }
 
 // ---------------------------------------------------------------------------
@@ -69,11 +186,11 @@ const MIME_TYPES: Record<string, string> = {
  * Starts the Design Duck UI server.
  *
  * @param options - Server configuration
- * @returns A handle with a `close()` method and the actual port
- * @throws Error if dist-ui/ or desgin-duck/requirements/ directories are missing
+ * @returns A handle with a `close()` method and the actual port, once the server is listening
+ * @throws Error if dist-ui/ or desgin-duck/requirements/ directories are missing, or no port is free
  */
-export function startUiServer(options: UiServerOptions): UiServerHandle {
-  const { port = 3456, distUiDir, requirementsDir, open = true } = options;
+export async function startUiServer(options: UiServerOptions): Promise<UiServerHandle> {
+  const { port = 3456, host = "localhost", distUiDir, requirementsDir, open = true, readOnly = false } = options;
 
   if (!existsSync(distUiDir)) {
     throw new Error(
@@ -98,14 +215,17 @@ export function startUiServer(options: UiServerOptions): UiServerHandle {
   const sseClients = new Set<ServerResponse>();
 
   // Set up file watcher to push SSE events on YAML changes
+  const feed = createChangeFeed(requirementsDir);
   let watcherHandle: FileWatcherHandle | null = null;
   try {
     watcherHandle = watchRequirementsDir(requirementsDir, () => {
+      const event = feed.record();
+      if (!event) return;
       console.log(
         `[design-duck:server] Requirements changed, notifying ${sseClients.size} client(s)`,
       );
       for (const client of sseClients) {
-        client.write("event: requirements-changed\ndata: {}\n\n");
+        client.write(formatChangeEvent(event));
       }
     });
     console.log("[design-duck:server] File watcher active on requirements/");
@@ -117,7 +237,7 @@ export function startUiServer(options: UiServerOptions): UiServerHandle {
 
   // Create HTTP server
   const server = createServer((req, res) => {
-    const url = new URL(req.url || "/", `http://localhost:${port}`);
+    const url = new URL(req.url || "/", "http://localhost");
     const pathname = url.pathname;
 
     if (process.env.DEBUG) {
@@ -126,77 +246,144 @@ export function startUiServer(options: UiServerOptions): UiServerHandle {
 
     // SSE endpoint for file change notifications
     if (pathname === "/events") {
-      handleSSE(res, sseClients);
+      handleSSE(req, res, sseClients, feed);
+      return;
+    }
+
+    // Requirement edits from the UI
+    if (pathname.startsWith(API_PREFIX)) {
+      handleApiRequest(req, res, pathname, requirementsDir, { readOnly }).catch((err) => sendApiFailure(res, err));
       return;
     }
 
     // Serve requirements YAML files from the consumer's project
     if (pathname.startsWith("/requirements/")) {
       const filename = pathname.slice("/requirements/".length);
-      const filePath = join(requirementsDir, filename);
-      serveFile(filePath, res);
+      const served = resolveServedPath(requirementsDir, filename, REQUIREMENT_FILE_EXTENSIONS);
+      if (served.ok) serveFile(served.path, res, { etag: true });
+      else sendStatus(res, served.status, pathname);
       return;
     }
 
     // Serve pre-built static UI files
-    let filePath = join(distUiDir, pathname === "/" ? "index.html" : pathname);
-    if (!existsSync(filePath)) {
+    const served = resolveServedPath(distUiDir, pathname === "/" ? "index.html" : pathname.slice(1));
+    if (served.ok) {
+      serveFile(served.path, res);
+    } else if (served.status === 404) {
       // SPA fallback: serve index.html for unmatched routes
-      filePath = join(distUiDir, "index.html");
+      serveFile(join(distUiDir, "index.html"), res);
+    } else {
+      sendStatus(res, served.status, pathname);
     }
-    serveFile(filePath, res);
   });
 
-  server.listen(port, () => {
-    const url = `http://localhost:${port}`;
-    console.log(`\nDesign Duck UI running at ${url}\n`);
-
-    if (open) {
-      openBrowser(url);
+  const close = () => {
+    console.log("[design-duck:server] Shutting down...");
+    watcherHandle?.close();
+    for (const client of sseClients) {
+      client.end();
     }
-  });
+    sseClients.clear();
+    server.close();
+  };
 
-  server.on("error", (err: NodeJS.ErrnoException) => {
-    if (err.code === "EADDRINUSE") {
-      console.error(
-        `Port ${port} is already in use. Try a different port with --port.`,
-      );
-    } else {
-      console.error(`[design-duck:server] Server error: ${err.message}`);
-    }
+  let actualPort: number;
+  try {
+    actualPort = await listen(server, port, host);
+  } catch (err) {
+    close();
+    throw err;
+  }
+  server.on("error", (err) => {
+    console.error(`[design-duck:server] Server error: ${err.message}`);
   });
 
-  return {
-    port,
-    close: () => {
-      console.log("[design-duck:server] Shutting down...");
-      watcherHandle?.close();
-      for (const client of sseClients) {
-        client.end();
+  // Browsers can't open the wildcard addresses
+  const urlHost = host === "0.0.0.0" || host === "::" ? "localhost" : host.includes(":") ? `[${host}]` : host;
+  const url = `http://${urlHost}:${actualPort}`;
+  console.log(`\nDesign Duck UI running at ${url}${readOnly ? " (read-only)" : ""}\n`);
+  if (!readOnly && !isLoopbackHost(host)) {
+    console.warn(
+      `[design-duck:server] Warning: listening on ${host} without --read-only. ` +
+        "Anyone who can reach this machine can edit the requirements; there is no authentication.",
+    );
+  }
+  if (open) {
+    openBrowser(url);
+  }
+
+  return { port: actualPort, url, close };
+}
+
+/**
+ * Listens on `port`, or on the next free port when it's taken (port 0 picks
+ * any free port).
+ *
+ * @returns The port the server listens on
+ */
+async function listen(server: Server, port: number, host: string): Promise<number> {
+  const last = port === 0 ? 0 : port + PORT_ATTEMPTS - 1;
+  for (let candidate = port; ; candidate++) {
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(candidate, host, () => {
+          server.off("error", reject);
+          resolve();
+        });
+      });
+      return (server.address() as AddressInfo).port;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EADDRINUSE") {
+        throw new Error(`Could not listen on ${host}:${candidate}: ${(err as Error).message}`);
       }
-      sseClients.clear();
-      server.close();
-    },
-  };
+      if (candidate >= last) {
+        const range = candidate === port ? `Port ${port} is` : `Ports ${port}-${candidate} are`;
+        throw new Error(`${range} already in use. Try a different port with --port.`);
+      }
+      console.log(`[design-duck:server] Port ${candidate} is in use, trying ${candidate + 1}`);
+    }
+  }
 }
 
 // ---------------------------------------------------------------------------
 // SSE handler
 // ---------------------------------------------------------------------------
 
+/**
+ * Streams change events to a browser. The `connected` event carries the
+ * latest event ID, so the browser has one to send back as Last-Event-ID
+ * even if nothing changed before it lost the connection.
+ */
 function handleSSE(
+  req: IncomingMessage,
   res: ServerResponse,
   clients: Set<ServerResponse>,
+  feed: ChangeFeed,
 ): void {
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
     "Cache-Control": "no-cache",
     Connection: "keep-alive",
-    "Access-Control-Allow-Origin": "*",
   });
 
+  const lastEventId = req.headers["last-event-id"];
+  if (typeof lastEventId === "string" && lastEventId !== "") {
+    const missed = feed.since(lastEventId);
+    if (missed === null) {
+      // Too far behind (or from before a restart): the browser has to reload everything
+      console.log(`[design-duck:server] SSE client can't catch up from ${lastEventId}, asking it to reload`);
+      res.write(`id: ${feed.lastEventId()}\nevent: requirements-reset\ndata: {}\n\n`);
+    } else {
+      console.log(`[design-duck:server] SSE client caught up from ${lastEventId} (${missed.length} event(s))`);
+      for (const event of missed) {
+        res.write(formatChangeEvent(event));
+      }
+    }
+  }
+
   // Send initial connection event
-  res.write("event: connected\ndata: {}\n\n");
+  res.write(`id: ${feed.lastEventId()}\nevent: connected\ndata: {}\n\n`);
 
   clients.add(res);
   console.log(
@@ -211,21 +398,43 @@ function handleSSE(
   });
 }
 
+function formatChangeEvent(event: RequirementsChangedEvent): string {
+  return `id: ${event.id}\nevent: requirements-changed\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
 // ---------------------------------------------------------------------------
 // Static file serving
 // ---------------------------------------------------------------------------
 
-function serveFile(filePath: string, res: ServerResponse): void {
+/**
+ * @param options.etag - Send the content's revision as ETag, for files that
+ *   clients may edit through the API
+ */
+function serveFile(filePath: string, res: ServerResponse, options: { etag?: boolean } = {}): void {
   try {
     const content = readFileSync(filePath);
     const ext = extname(filePath).toLowerCase();
     const contentType = MIME_TYPES[ext] || "application/octet-stream";
-    res.writeHead(200, { "Content-Type": contentType });
+    const headers: Record<string, string> = { "Content-Type": contentType };
+    if (options.etag) {
+      headers.ETag = toEtag(contentRevision(content.toString("utf-8")));
+    }
+    res.writeHead(200, headers);
     res.end(content);
   } catch {
-    res.writeHead(404, { "Content-Type": "text/plain" });
-    res.end("Not Found");
+    sendStatus(res, 404);
+  }
+}
+
+const STATUS_TEXT: Record<number, string> = { 400: "Bad Request", 403: "Forbidden", 404: "Not Found" };
+
+/** Ends the response with a plain-text error; `pathname` is logged for refused requests. */
+function sendStatus(res: ServerResponse, status: 400 | 403 | 404, pathname?: string): void {
+  if (status !== 404 && pathname) {
+    console.warn(`[design-duck:server] Refused ${pathname} (${status} ${STATUS_TEXT[status]})`);
   }
+  res.writeHead(status, { "Content-Type": "text/plain" });
+  res.end(STATUS_TEXT[status]);
 }
 
 // ---------------------------------------------------------------------------
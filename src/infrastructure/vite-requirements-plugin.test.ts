@@ -48,6 +48,7 @@ describe("requirementsWatcherPlugin", () => {
         config: { root: testDir },
         ws: { send: sendMock },
         httpServer: { on: onMock },
+        middlewares: { use: mock(() => {}) },
       };
 
       // Should not throw
@@ -55,6 +56,8 @@ describe("requirementsWatcherPlugin", () => {
 
       // httpServer.on("close", ...) should have been registered
       expect(onMock).toHaveBeenCalledWith("close", expect.any(Function));
+      // ...and the /api/ middleware mounted
+      expect(mockServer.middlewares.use).toHaveBeenCalledWith(expect.any(Function));
     } finally {
       rmSync(testDir, { recursive: true, force: true });
     }
@@ -74,6 +77,7 @@ describe("requirementsWatcherPlugin", () => {
         config: { root: testDir },
         ws: { send: sendMock },
         httpServer: { on: onMock },
+        middlewares: { use: mock(() => {}) },
       };
 
       (plugin.configureServer as Function)(mockServer);
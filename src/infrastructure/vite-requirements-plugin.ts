@@ -4,12 +4,15 @@
  *
  * Uses the existing file-watcher infrastructure to detect filesystem changes
  * and sends a "design-duck:requirements-changed" HMR event so the Zustand
- * store can auto-reload requirements without polling.
+ * store can auto-reload requirements without polling. Also mounts the same
+ * /api/ routes as the built-in UI server so edits work in dev mode.
  */
 
 import { join } from "node:path";
 import { existsSync } from "node:fs";
 import { watchRequirementsDir } from "./file-watcher";
+import { createChangeFeed } from "./change-feed";
+import { API_PREFIX, handleApiRequest, sendApiFailure } from "./requirements-api";
 import type { Plugin } from "vite";
 
 /**
@@ -46,14 +49,26 @@ export function requirementsWatcherPlugin(): Plugin {
         `[design-duck:vite] Watching ${requirementsDir} for YAML changes`,
       );
 
+      server.middlewares.use((req, res, next) => {
+        const pathname = new URL(req.url || "/", "http://localhost").pathname;
+        if (!pathname.startsWith(API_PREFIX)) {
+          next();
+          return;
+        }
+        handleApiRequest(req, res, pathname, requirementsDir).catch((err) => sendApiFailure(res, err));
+      });
+
+      const feed = createChangeFeed(requirementsDir);
       const handle = watchRequirementsDir(requirementsDir, () => {
+        const event = feed.record();
+        if (!event) return;
         console.log(
           "[design-duck:vite] Requirements changed, notifying browser",
         );
         server.ws.send({
           type: "custom",
           event: "design-duck:requirements-changed",
-          data: {},
+          data: event,
         });
       });
 
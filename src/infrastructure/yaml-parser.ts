@@ -9,31 +9,107 @@
  * so it can be safely bundled for browser use by Vite.
  */
 
-import { load as parseYaml } from "js-yaml";
-import type { MainRequirement, DerivedRequirement } from "../domain/requirements/requirement";
+import { load as parseYaml, YAMLException } from "js-yaml";
+import type {
+  MainRequirement,
+  DerivedRequirement,
+  FieldError,
+} from "../domain/requirements/requirement";
 import {
   assertMainRequirement,
   assertDerivedRequirement,
+  mainRequirementFieldErrors,
+  derivedRequirementFieldErrors,
 } from "../domain/requirements/requirement";
+import { DEFAULT_VOCABULARIES } from "../domain/requirements/vocabulary";
+import type { Vocabularies } from "../domain/requirements/vocabulary";
+import { toConfig, DEFAULT_CONFIG } from "../domain/config/config";
+import type { DesignDuckConfig } from "../domain/config/config";
+import { projectFieldErrors, toProject } from "../domain/project/project";
+import type { Project } from "../domain/project/project";
+import { locateRequirements, locateFields } from "./yaml-source-map";
+import type { RequirementSourceLocation } from "./yaml-source-map";
+
+/**
+ * Rule that produced a parse diagnostic:
+ * - `file-missing`: the file does not exist or can't be read
+ * - `yaml-syntax`: the file is not well-formed YAML
+ * - `file-structure`: the file has no top-level `requirements` array
+ * - `schema`: a requirement does not match the requirement schema
+ */
+export type ParseRule = "file-missing" | "yaml-syntax" | "file-structure" | "schema";
+
+/** A single problem found while parsing a requirements file. */
+export interface ParseDiagnostic {
+  /** File name the problem was found in (e.g. "main.yaml"). */
+  file: string;
+  /** Rule that produced the diagnostic. */
+  rule: ParseRule;
+  /** Index in the `requirements` array, or null for file-level problems. */
+  index: number | null;
+  /** The requirement's id when it has a usable one, otherwise null. */
+  requirementId: string | null;
+  /** Field the problem is about, or null when it concerns the whole requirement/file. */
+  field: string | null;
+  /** 1-based line of the problem in the file, or null when unknown. */
+  line: number | null;
+  /** 1-based column of the problem in the file, or null when unknown. */
+  column: number | null;
+  /** Human-readable description of the problem. */
+  message: string;
+}
+
+/** Result of a non-throwing parse: the valid requirements plus every problem found. */
+export interface ParseResult<T> {
+  requirements: T[];
+  /** Source location of each entry in `requirements` (same order), null when unknown. */
+  locations: (RequirementSourceLocation | null)[];
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Requirements of one kind merged from several files (main.yaml,
+ * main-2.yaml, area/main.yaml, ...). `requirements`, `locations` and
+ * `sources` line up index by index.
+ */
+export interface RequirementSet<T> extends ParseResult<T> {
+  /** File each requirement came from, relative to the requirements directory. */
+  sources: string[];
+  /** Every file the set was read from, in load order. */
+  files: string[];
+}
+
+/** Result of a non-throwing project.yaml parse. */
+export interface ProjectParseResult {
+  /** The project, or null when the file is missing or invalid. */
+  project: Project | null;
+  diagnostics: ParseDiagnostic[];
+}
 
 /**
  * Parses a YAML string into validated MainRequirement objects.
  *
  * @param content - Raw YAML string from main.yaml
+ * @param fileName - Name used in error messages (e.g. "main-2.yaml")
+ * @param vocabularies - Allowed priorities, statuses and categories
  * @returns Array of validated main requirements
  * @throws Error if malformed YAML or validation fails
  */
-export function parseMainRequirementsYaml(content: string): MainRequirement[] {
+export function parseMainRequirementsYaml(
+  content: string,
+  fileName = "main.yaml",
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): MainRequirement[] {
   const parsed = parseYaml(content) as unknown;
 
   if (!parsed || typeof parsed !== "object") {
-    throw new Error("main.yaml must contain a YAML object");
+    throw new Error(`${fileName} must contain a YAML object`);
   }
 
   const file = parsed as Record<string, unknown>;
 
   if (!Array.isArray(file.requirements)) {
-    throw new Error("main.yaml must have a 'requirements' array");
+    throw new Error(`${fileName} must have a 'requirements' array`);
   }
 
   const requirements: MainRequirement[] = [];
@@ -41,11 +117,11 @@ export function parseMainRequirementsYaml(content: string): MainRequirement[] {
   for (let i = 0; i < file.requirements.length; i++) {
     const raw = file.requirements[i];
     try {
-      assertMainRequirement(raw);
+      assertMainRequirement(raw, vocabularies);
       requirements.push(raw);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      throw new Error(`main.yaml requirement at index ${i}: ${msg}`);
+      throw new Error(`${fileName} requirement at index ${i}: ${msg}`);
     }
   }
 
@@ -56,20 +132,26 @@ export function parseMainRequirementsYaml(content: string): MainRequirement[] {
  * Parses a YAML string into validated DerivedRequirement objects.
  *
  * @param content - Raw YAML string from derived.yaml
+ * @param fileName - Name used in error messages (e.g. "derived-2.yaml")
+ * @param vocabularies - Allowed priorities, statuses and categories
  * @returns Array of validated derived requirements
  * @throws Error if malformed YAML or validation fails
  */
-export function parseDerivedRequirementsYaml(content: string): DerivedRequirement[] {
+export function parseDerivedRequirementsYaml(
+  content: string,
+  fileName = "derived.yaml",
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): DerivedRequirement[] {
   const parsed = parseYaml(content) as unknown;
 
   if (!parsed || typeof parsed !== "object") {
-    throw new Error("derived.yaml must contain a YAML object");
+    throw new Error(`${fileName} must contain a YAML object`);
   }
 
   const file = parsed as Record<string, unknown>;
 
   if (!Array.isArray(file.requirements)) {
-    throw new Error("derived.yaml must have a 'requirements' array");
+    throw new Error(`${fileName} must have a 'requirements' array`);
   }
 
   const requirements: DerivedRequirement[] = [];
@@ -77,13 +159,256 @@ export function parseDerivedRequirementsYaml(content: string): DerivedRequiremen
   for (let i = 0; i < file.requirements.length; i++) {
     const raw = file.requirements[i];
     try {
-      assertDerivedRequirement(raw);
+      assertDerivedRequirement(raw, vocabularies);
       requirements.push(raw);
     } catch (err) {
       const msg = err instanceof Error ? err.message : String(err);
-      throw new Error(`derived.yaml requirement at index ${i}: ${msg}`);
+      throw new Error(`${fileName} requirement at index ${i}: ${msg}`);
     }
   }
 
   return requirements;
 }
+
+/**
+ * Parses a YAML string into a validated project config.
+ *
+ * An empty file (or one with only comments) yields the default config.
+ *
+ * @param content - Raw YAML string from config.yaml
+ * @returns Validated config with defaults filled in
+ * @throws Error if malformed YAML or validation fails
+ */
+export function parseConfigYaml(content: string): DesignDuckConfig {
+  const parsed = parseYaml(content) as unknown;
+
+  if (parsed === undefined || parsed === null) {
+    return DEFAULT_CONFIG;
+  }
+
+  return toConfig(parsed);
+}
+
+/**
+ * Parses a YAML string into validated project metadata.
+ *
+ * @param content - Raw YAML string from project.yaml
+ * @returns Validated project with empty optional fields filled in
+ * @throws Error if malformed YAML or validation fails
+ */
+export function parseProjectYaml(content: string): Project {
+  return toProject(parseYaml(content));
+}
+
+/**
+ * Parses a YAML string into project metadata without throwing, reporting
+ * every problem with its position.
+ *
+ * @param content - Raw YAML string from project.yaml
+ * @returns The project when valid, plus diagnostics for everything wrong with it
+ */
+export function parseProjectYamlWithDiagnostics(content: string): ProjectParseResult {
+  const file = "project.yaml";
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(content);
+  } catch (err) {
+    return { project: null, diagnostics: [yamlErrorDiagnostic(file, err)] };
+  }
+
+  const errors = projectFieldErrors(parsed);
+  if (errors.length === 0) {
+    return { project: toProject(parsed), diagnostics: [] };
+  }
+
+  const fields = locateFields(content);
+  const diagnostics = errors.map(({ field, message }): ParseDiagnostic => {
+    const position = field ? fields[field] : undefined;
+    return {
+      ...fileDiagnostic(file, field === null ? "file-structure" : "schema", message),
+      field,
+      line: position?.line ?? null,
+      column: position?.column ?? null,
+    };
+  });
+  return { project: null, diagnostics };
+}
+
+/**
+ * Parses a YAML string into MainRequirement objects without throwing.
+ *
+ * Invalid requirements are skipped and reported, so callers can work with
+ * the valid ones and show every problem at once.
+ *
+ * @param content - Raw YAML string from main.yaml
+ * @param fileName - File the diagnostics are attributed to (e.g. "main-2.yaml")
+ * @param vocabularies - Allowed priorities, statuses and categories
+ * @returns Valid main requirements plus diagnostics for everything else
+ */
+export function parseMainRequirementsYamlWithDiagnostics(
+  content: string,
+  fileName = "main.yaml",
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): ParseResult<MainRequirement> {
+  return collectRequirements<MainRequirement>(content, fileName, (raw) =>
+    mainRequirementFieldErrors(raw, vocabularies),
+  );
+}
+
+/**
+ * Parses a YAML string into DerivedRequirement objects without throwing.
+ *
+ * Invalid requirements are skipped and reported, so callers can work with
+ * the valid ones and show every problem at once.
+ *
+ * @param content - Raw YAML string from derived.yaml
+ * @param fileName - File the diagnostics are attributed to (e.g. "derived-2.yaml")
+ * @param vocabularies - Allowed priorities, statuses and categories
+ * @returns Valid derived requirements plus diagnostics for everything else
+ */
+export function parseDerivedRequirementsYamlWithDiagnostics(
+  content: string,
+  fileName = "derived.yaml",
+  vocabularies: Vocabularies = DEFAULT_VOCABULARIES,
+): ParseResult<DerivedRequirement> {
+  return collectRequirements<DerivedRequirement>(content, fileName, (raw) =>
+    derivedRequirementFieldErrors(raw, vocabularies),
+  );
+}
+
+/**
+ * Merges the parse results of several files into one requirement set,
+ * keeping file order and remembering where each requirement came from.
+ *
+ * @param results - One parse result per file, in load order
+ */
+export function mergeParseResults<T>(results: { file: string; result: ParseResult<T> }[]): RequirementSet<T> {
+  const set: RequirementSet<T> = { requirements: [], locations: [], diagnostics: [], sources: [], files: [] };
+  for (const { file, result } of results) {
+    set.files.push(file);
+    set.requirements.push(...result.requirements);
+    set.locations.push(...result.locations);
+    set.diagnostics.push(...result.diagnostics);
+    set.sources.push(...result.requirements.map(() => file));
+  }
+  return set;
+}
+
+/**
+ * Formats a diagnostic as a single line.
+ *
+ * Located diagnostics use the `file:line:column message` form editors and
+ * terminals recognise for jump-to-error, e.g.
+ * "main.yaml:42:15 priority must be one of: high, medium, low". Diagnostics
+ * without a position fall back to the requirement index.
+ *
+ * @param diagnostic - Diagnostic to format
+ * @param displayPath - Path to show instead of the bare file name (e.g. relative to cwd)
+ */
+export function formatParseDiagnostic(
+  diagnostic: ParseDiagnostic,
+  displayPath: string = diagnostic.file,
+): string {
+  if (diagnostic.line !== null) {
+    const column = diagnostic.column ?? 1;
+    return `${displayPath}:${diagnostic.line}:${column} ${diagnostic.message}`;
+  }
+  if (diagnostic.index === null) {
+    return `${displayPath}: ${diagnostic.message}`;
+  }
+  const id = diagnostic.requirementId ? ` (${diagnostic.requirementId})` : "";
+  return `${displayPath} requirement at index ${diagnostic.index}${id}: ${diagnostic.message}`;
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function collectRequirements<T>(
+  content: string,
+  file: string,
+  fieldErrors: (raw: unknown) => FieldError[],
+): ParseResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(content);
+  } catch (err) {
+    return { requirements: [], locations: [], diagnostics: [yamlErrorDiagnostic(file, err)] };
+  }
+
+  if (!parsed || typeof parsed !== "object") {
+    return {
+      requirements: [],
+      locations: [],
+      diagnostics: [fileDiagnostic(file, "file-structure", `${file} must contain a YAML object`)],
+    };
+  }
+
+  const list = (parsed as Record<string, unknown>).requirements;
+
+  if (!Array.isArray(list)) {
+    return {
+      requirements: [],
+      locations: [],
+      diagnostics: [fileDiagnostic(file, "file-structure", `${file} must have a 'requirements' array`)],
+    };
+  }
+
+  const sourceLocations = locateRequirements(content);
+  const requirements: T[] = [];
+  const locations: (RequirementSourceLocation | null)[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+
+  for (let i = 0; i < list.length; i++) {
+    const raw: unknown = list[i];
+    const location = sourceLocations[i] ?? null;
+    const errors = fieldErrors(raw);
+
+    if (errors.length === 0) {
+      requirements.push(raw as T);
+      locations.push(location);
+      continue;
+    }
+
+    const requirementId = rawRequirementId(raw);
+    for (const { field, message } of errors) {
+      // Missing fields have no position of their own; point at the requirement.
+      const position = (field && location?.fields[field]) || location?.position || null;
+      diagnostics.push({
+        file,
+        rule: "schema",
+        index: i,
+        requirementId,
+        field,
+        line: position?.line ?? null,
+        column: position?.column ?? null,
+        message,
+      });
+    }
+  }
+
+  return { requirements, locations, diagnostics };
+}
+
+/** Builds a diagnostic about the file as a whole rather than a single requirement. */
+export function fileDiagnostic(file: string, rule: ParseRule, message: string): ParseDiagnostic {
+  return { file, rule, index: null, requirementId: null, field: null, line: null, column: null, message };
+}
+
+/** Converts a js-yaml exception into a located file-level diagnostic. */
+function yamlErrorDiagnostic(file: string, err: unknown): ParseDiagnostic {
+  if (err instanceof YAMLException) {
+    return {
+      ...fileDiagnostic(file, "yaml-syntax", err.reason || err.message),
+      line: err.mark ? err.mark.line + 1 : null,
+      column: err.mark ? err.mark.column + 1 : null,
+    };
+  }
+  return fileDiagnostic(file, "yaml-syntax", err instanceof Error ? err.message : String(err));
+}
+
+function rawRequirementId(raw: unknown): string | null {
+  if (raw === null || typeof raw !== "object") return null;
+  const id = (raw as Record<string, unknown>).id;
+  return typeof id === "string" && id.trim() !== "" ? id : null;
+}
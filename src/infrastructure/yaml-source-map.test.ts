@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import { locateRequirements, locateFields } from "./yaml-source-map";
+
+describe("locateRequirements", () => {
+  test("locates each requirement and its field values", () => {
+    const yaml = `# main.yaml - User-value requirements
+requirements:
+  - id: req-001
+    description: Search products
+    priority: high # inline comment
+
+  - id: req-002
+    status: draft
+`;
+    const locations = locateRequirements(yaml);
+
+    expect(locations).toHaveLength(2);
+    expect(locations[0].position).toEqual({ line: 3, column: 5 });
+    expect(locations[0].fields.id).toEqual({ line: 3, column: 9 });
+    expect(locations[0].fields.description).toEqual({ line: 4, column: 18 });
+    expect(locations[0].fields.priority).toEqual({ line: 5, column: 15 });
+    expect(locations[1].position).toEqual({ line: 7, column: 5 });
+    expect(locations[1].fields.status).toEqual({ line: 8, column: 13 });
+  });
+
+  test("points empty values at their key", () => {
+    const yaml = `requirements:
+  - id: req-001
+    priority:
+`;
+    const [location] = locateRequirements(yaml);
+
+    expect(location.fields.priority).toEqual({ line: 3, column: 5 });
+  });
+
+  test("locates list-valued fields at their first entry", () => {
+    const yaml = `requirements:
+  - id: der-001
+    derivedFrom:
+      - req-001
+`;
+    const [location] = locateRequirements(yaml);
+
+    expect(location.fields.derivedFrom).toEqual({ line: 4, column: 7 });
+  });
+
+  test("locates non-mapping entries without fields", () => {
+    const [location] = locateRequirements(`requirements:\n  - just a string\n`);
+
+    expect(location.position).toEqual({ line: 2, column: 5 });
+    expect(location.fields).toEqual({});
+  });
+
+  test("returns an empty list when there is no requirements sequence", () => {
+    expect(locateRequirements("")).toEqual([]);
+    expect(locateRequirements("just a string")).toEqual([]);
+    expect(locateRequirements(`requirements: "nope"`)).toEqual([]);
+  });
+});
+
+describe("locateFields", () => {
+  test("locates each top-level field's value", () => {
+    const content = `# Project metadata
+name: Shop
+description:
+owners:
+  - alice
+`;
+
+    expect(locateFields(content)).toEqual({
+      name: { line: 2, column: 7 },
+      description: { line: 3, column: 1 },
+      owners: { line: 5, column: 3 },
+    });
+  });
+
+  test("returns nothing for content that isn't a mapping", () => {
+    expect(locateFields("- a\n- b\n")).toEqual({});
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Source positions for requirements inside a YAML file.
+ *
+ * js-yaml's `load` returns plain objects with no location information, so
+ * this module re-reads the same content with the `yaml` package's document
+ * API to find where each requirement and each of its fields starts. The
+ * positions are used to turn "requirement at index 3" into "main.yaml:42:15".
+ *
+ * Like ./yaml-parser, this module has NO Node.js imports and is safe to
+ * bundle for the browser.
+ */
+
+import { LineCounter, isMap, isNode, isScalar, isSeq, parseDocument } from "yaml";
+import type { YAMLMap } from "yaml";
+
+/** A 1-based line/column position in a source file. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/** Where a single requirement and its fields live in the source file. */
+export interface RequirementSourceLocation {
+  /** Start of the requirement's list item. */
+  position: SourcePosition;
+  /** Start of each field's value (or its key, when the value is empty), keyed by field name. */
+  fields: Record<string, SourcePosition>;
+}
+
+/**
+ * Locates every entry of the top-level `requirements` sequence.
+ *
+ * @param content - Raw YAML string
+ * @returns One location per requirements entry, in file order. Empty when the
+ *   content has no `requirements` sequence.
+ */
+export function locateRequirements(content: string): RequirementSourceLocation[] {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  const list = isMap(doc.contents) ? doc.contents.get("requirements", true) : null;
+
+  if (!isSeq(list)) {
+    return [];
+  }
+
+  const toPosition = positionsOf(lineCounter);
+
+  return list.items.map((item) => {
+    const start = isNode(item) ? (item.range?.[0] ?? 0) : 0;
+    return {
+      position: toPosition(start),
+      fields: isMap(item) ? fieldPositions(item, start, toPosition) : {},
+    };
+  });
+}
+
+/**
+ * Locates the fields of a file whose top level is a mapping (e.g. project.yaml).
+ *
+ * @param content - Raw YAML string
+ * @returns Start of each top-level field's value, keyed by field name. Empty
+ *   when the content is not a mapping.
+ */
+export function locateFields(content: string): Record<string, SourcePosition> {
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(content, { lineCounter });
+  if (!isMap(doc.contents)) {
+    return {};
+  }
+  return fieldPositions(doc.contents, doc.contents.range?.[0] ?? 0, positionsOf(lineCounter));
+}
+
+function positionsOf(lineCounter: LineCounter): (offset: number) => SourcePosition {
+  return (offset) => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+}
+
+function fieldPositions(
+  map: YAMLMap,
+  start: number,
+  toPosition: (offset: number) => SourcePosition,
+): Record<string, SourcePosition> {
+  const fields: Record<string, SourcePosition> = {};
+  for (const pair of map.items) {
+    if (!isScalar(pair.key)) continue;
+    const keyStart = pair.key.range?.[0] ?? start;
+    const valueRange = isNode(pair.value) ? pair.value.range : null;
+    // Empty values (`priority:`) have a zero-width range at the end of the
+    // line; point at the key instead so the column is useful.
+    const offset = valueRange && valueRange[1] > valueRange[0] ? valueRange[0] : keyStart;
+    fields[String(pair.key.value)] = toPosition(offset);
+  }
+  return fields;
+}
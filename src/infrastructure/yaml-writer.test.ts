@@ -0,0 +1,199 @@
+import { describe, expect, test } from "bun:test";
+import { appendRequirementToYaml, updateRequirementInYaml, deleteRequirementFromYaml } from "./yaml-writer";
+
+const NEW_REQ = {
+  id: "req-003",
+  description: "Users can export: CSV",
+  userValue: "Share data",
+  priority: "low",
+  status: "draft",
+};
+
+describe("appendRequirementToYaml", () => {
+  test("appends after the last entry and keeps comments and spacing", () => {
+    const yaml = `# main.yaml - User-value requirements
+requirements:
+  - id: req-001
+    description: "Quoted description"   # inline comment
+    priority: high       # high | medium | low
+
+  - id: req-002
+    description: Second
+
+# footer
+`;
+
+    expect(appendRequirementToYaml(yaml, NEW_REQ)).toBe(`# main.yaml - User-value requirements
+requirements:
+  - id: req-001
+    description: "Quoted description"   # inline comment
+    priority: high       # high | medium | low
+
+  - id: req-002
+    description: Second
+
+  - id: req-003
+    description: "Users can export: CSV"
+    userValue: Share data
+    priority: low
+    status: draft
+
+# footer
+`);
+  });
+
+  test("matches the indentation of existing entries", () => {
+    const yaml = "requirements:\n- id: req-001\n  description: First";
+
+    expect(appendRequirementToYaml(yaml, { id: "req-002", derivedFrom: ["req-001"] })).toBe(
+      "requirements:\n- id: req-001\n  description: First\n- id: req-002\n  derivedFrom:\n    - req-001\n",
+    );
+  });
+
+  test("turns an empty flow list into a block list", () => {
+    const yaml = "# derived.yaml - Technical/enabling requirements\nrequirements: []  # none yet\n";
+
+    expect(appendRequirementToYaml(yaml, { id: "der-001" })).toBe(
+      "# derived.yaml - Technical/enabling requirements\nrequirements: # none yet\n  - id: der-001\n",
+    );
+  });
+
+  test("throws when there is no requirements list", () => {
+    expect(() => appendRequirementToYaml("other: 1\n", NEW_REQ)).toThrow("YAML must have a 'requirements' list");
+  });
+
+  test("throws on invalid YAML", () => {
+    expect(() => appendRequirementToYaml("requirements: [", NEW_REQ)).toThrow(/Invalid YAML/);
+  });
+});
+
+const FILE = `# main.yaml - User-value requirements
+requirements:
+  - id: req-001
+    description: "Quoted description"   # inline comment
+    derivedFrom:
+      - req-010
+      - req-011
+    tags: [a, b]
+    priority: high       # high | medium | low
+    status: draft
+
+  - id: req-002
+    description: 'Single quoted'
+    priority: low
+    status: review
+
+  - id: req-003
+    description: Plain
+    priority: medium
+    status: draft
+`;
+
+describe("updateRequirementInYaml", () => {
+  test("replaces values in place, keeping comments and quoting style", () => {
+    const result = updateRequirementInYaml(FILE, "req-001", {
+      description: "New description",
+      priority: "low",
+    });
+
+    expect(result).toBe(
+      FILE.replace(`"Quoted description"   # inline`, `"New description"   # inline`).replace(
+        "priority: high       #",
+        "priority: low       #",
+      ),
+    );
+  });
+
+  test("escapes quotes for the original style", () => {
+    const result = updateRequirementInYaml(FILE, "req-002", { description: "It's done" });
+    expect(result).toContain("    description: 'It''s done'\n");
+  });
+
+  test("quotes plain values only when needed", () => {
+    const result = updateRequirementInYaml(FILE, "req-003", { description: "Key: value" });
+    expect(result).toContain(`    description: "Key: value"\n`);
+  });
+
+  test("keeps block and flow lists in their style", () => {
+    const result = updateRequirementInYaml(FILE, "req-001", { derivedFrom: ["req-012"], tags: ["c", "d"] });
+    expect(result).toContain("    derivedFrom:\n      - req-012\n    tags: [c, d]\n");
+  });
+
+  test("adds new fields after the last field and removes undefined ones", () => {
+    const result = updateRequirementInYaml(FILE, "req-002", { status: undefined, owner: "alice" });
+    expect(result).toContain("  - id: req-002\n    description: 'Single quoted'\n    priority: low\n    owner: alice\n\n");
+  });
+
+  test("fills in an empty value", () => {
+    const result = updateRequirementInYaml("requirements:\n  - id: req-001\n    description:\n", "req-001", {
+      description: "Filled",
+    });
+    expect(result).toBe("requirements:\n  - id: req-001\n    description: Filled\n");
+  });
+
+  test("can change the id itself", () => {
+    const result = updateRequirementInYaml(FILE, "req-003", { id: "req-030" });
+    expect(result).toContain("  - id: req-030\n    description: Plain\n");
+  });
+
+  test("throws for an unknown requirement", () => {
+    expect(() => updateRequirementInYaml(FILE, "req-999", { priority: "low" })).toThrow("Requirement req-999 not found");
+  });
+
+  test("refuses to remove the field that starts the entry", () => {
+    expect(() => updateRequirementInYaml(FILE, "req-001", { id: undefined })).toThrow(/first field/);
+  });
+});
+
+describe("deleteRequirementFromYaml", () => {
+  test("removes a middle entry and one of the blank lines around it", () => {
+    const result = deleteRequirementFromYaml(FILE, "req-002");
+    expect(result).toBe(FILE.replace("  - id: req-002\n    description: 'Single quoted'\n    priority: low\n    status: review\n\n", ""));
+  });
+
+  test("removes the first entry and the blank line after it", () => {
+    const result = deleteRequirementFromYaml(FILE, "req-001");
+    expect(result).toStartWith("# main.yaml - User-value requirements\nrequirements:\n  - id: req-002\n");
+  });
+
+  test("removes the last entry", () => {
+    const result = deleteRequirementFromYaml(FILE, "req-003");
+    expect(result).toEndWith("    status: review\n");
+  });
+
+  test("leaves an empty list when the only entry is removed", () => {
+    const result = deleteRequirementFromYaml("# header\nrequirements:\n  - id: req-001\n    status: draft\n# footer\n", "req-001");
+    expect(result).toBe("# header\nrequirements: []\n# footer\n");
+  });
+
+  test("removes the comment lines directly above the entry", () => {
+    const content = [
+      "requirements:",
+      "  # Search",
+      "  - id: req-001",
+      "    status: draft",
+      "",
+      "  # Wishlists, see the design doc",
+      "  # for the sharing rules",
+      "  - id: req-002",
+      "    status: draft",
+      "",
+      "  # Export",
+      "  - id: req-003",
+      "    status: draft",
+      "",
+    ].join("\n");
+
+    expect(deleteRequirementFromYaml(content, "req-002")).toBe(
+      "requirements:\n  # Search\n  - id: req-001\n    status: draft\n\n" +
+        "  # Export\n  - id: req-003\n    status: draft\n",
+    );
+    expect(deleteRequirementFromYaml(content, "req-001")).toStartWith(
+      "requirements:\n  # Wishlists, see the design doc\n",
+    );
+  });
+
+  test("throws for an unknown requirement", () => {
+    expect(() => deleteRequirementFromYaml(FILE, "req-999")).toThrow("Requirement req-999 not found");
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Pure YAML editing functions for requirement files.
+ *
+ * Edits are applied as text splices at the positions the `yaml` package
+ * reports for each node, so everything outside the edited requirement
+ * (header comments, inline comments, blank lines, key order, quoting) stays
+ * byte-for-byte as the author wrote it. Replaced values keep the quoting
+ * style of the value they replace.
+ *
+ * Like ./yaml-parser, this module has NO Node.js imports and is safe to
+ * bundle for the browser.
+ */
+
+import { isMap, isNode, isScalar, isSeq, parseDocument, stringify } from "yaml";
+import type { Document, Node, Pair, Scalar, YAMLMap, YAMLSeq } from "yaml";
+
+/** A text replacement: `content.slice(start, end)` becomes `text`. */
+interface Splice {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Appends a requirement to the end of the top-level `requirements` sequence.
+ *
+ * The new entry uses the indentation of the existing entries and is
+ * separated by a blank line when the existing entries are. An empty flow
+ * sequence (`requirements: []`) is turned into a block sequence.
+ *
+ * @param content - Raw YAML string of main.yaml or derived.yaml
+ * @param requirement - Requirement to append; keys are written in object order
+ * @returns The updated YAML string
+ * @throws Error if the content is not valid YAML or has no `requirements` sequence
+ */
+export function appendRequirementToYaml(content: string, requirement: object): string {
+  const { doc, seq } = findRequirementsSeq(content);
+
+  if (seq.flow) {
+    if (seq.items.length > 0) {
+      throw new Error("Cannot edit a flow-style 'requirements' list; rewrite it as a block list first");
+    }
+    return appendToEmptyFlowSeq(content, doc, seq, requirement);
+  }
+
+  const items = seq.items as Node[];
+  const indent = columnOf(content, seq.range![0]);
+
+  // Separate entries the way the author does: look at the gap between the first two
+  const blankLineBetween =
+    items.length > 1 && /\n[ \t]*\n/.test(content.slice(contentEnd(content, items[0].range![1]), items[1].range![0]));
+
+  const insertAt = endOfLine(content, contentEnd(content, items[items.length - 1].range![1]));
+  const before = content.slice(0, insertAt);
+  const prefix = (before.endsWith("\n") ? "" : "\n") + (blankLineBetween ? "\n" : "");
+
+  return before + prefix + renderItem(requirement, indent) + content.slice(insertAt);
+}
+
+/**
+ * Changes fields of one requirement in place.
+ *
+ * Existing fields keep their position, trailing comment and quoting style;
+ * new fields are added after the requirement's last field; fields set to
+ * `undefined` are removed.
+ *
+ * @param content - Raw YAML string of main.yaml or derived.yaml
+ * @param id - ID of the requirement to change
+ * @param changes - New field values, keyed by field name
+ * @returns The updated YAML string
+ * @throws Error if the content is not valid YAML, has no `requirements`
+ *   sequence, or has no requirement with this ID
+ */
+export function updateRequirementInYaml(
+  content: string,
+  id: string,
+  changes: Record<string, unknown>,
+): string {
+  const { seq } = findRequirementsSeq(content);
+  const item = findRequirement(seq, id);
+  const pairs = item.items as Pair<Scalar, Node | null>[];
+
+  const splices: Splice[] = [];
+  const added: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(changes)) {
+    const pair = pairs.find((p) => isScalar(p.key) && p.key.value === key);
+    if (!pair) {
+      if (value !== undefined) added[key] = value;
+    } else if (value === undefined) {
+      splices.push(removePair(content, id, pair));
+    } else {
+      splices.push(replaceValue(content, pair, value));
+    }
+  }
+
+  if (Object.keys(added).length > 0) {
+    const last = pairs[pairs.length - 1];
+    const insertAt = endOfLine(content, contentEnd(content, (last.value?.range ?? last.key.range!)[1]));
+    const pad = " ".repeat(columnOf(content, pairs[0].key.range![0]));
+    const lines = stringify(added, { lineWidth: 0 }).trimEnd().split("\n");
+    const newline = content.slice(0, insertAt).endsWith("\n") ? "" : "\n";
+    splices.push({ start: insertAt, end: insertAt, text: newline + lines.map((l) => pad + l).join("\n") + "\n" });
+  }
+
+  return applySplices(content, splices);
+}
+
+/**
+ * Removes one requirement, together with the comment lines directly above
+ * it, its trailing comment and one of the blank lines around it. Removing the
+ * last requirement leaves `requirements: []`.
+ *
+ * @param content - Raw YAML string of main.yaml or derived.yaml
+ * @param id - ID of the requirement to remove
+ * @returns The updated YAML string
+ * @throws Error if the content is not valid YAML, has no `requirements`
+ *   sequence, or has no requirement with this ID
+ */
+export function deleteRequirementFromYaml(content: string, id: string): string {
+  const { doc, seq } = findRequirementsSeq(content);
+  const item = findRequirement(seq, id);
+
+  let start = lineStart(content, item.range![0]);
+  let end = endOfLine(content, contentEnd(content, item.range![1]));
+
+  // Own-line comments right above the entry describe it, not the next one
+  while (start > 0) {
+    const above = lineStart(content, start - 1);
+    if (!/^[ \t]*#/.test(content.slice(above, start - 1))) break;
+    start = above;
+  }
+
+  // Keep entries separated by a single blank line: drop the one above, or the one below for the first entry
+  const blankAbove = /\n[ \t]*\n$/.exec(content.slice(0, start));
+  const blankBelow = /^[ \t]*\n/.exec(content.slice(end));
+  if (blankAbove && seq.items[0] !== item) {
+    start -= blankAbove[0].length - 1;
+  } else if (blankBelow && seq.items.length > 1) {
+    end += blankBelow[0].length;
+  }
+
+  const splices: Splice[] = [{ start, end, text: "" }];
+
+  if (seq.items.length === 1) {
+    // An empty block sequence would parse as null, so leave an explicit empty list
+    const key = requirementsKey(doc);
+    const colon = content.indexOf(":", key.range![1]);
+    splices.push({ start: colon + 1, end: colon + 1, text: " []" });
+  }
+
+  return applySplices(content, splices);
+}
+
+// ---------------------------------------------------------------------------
+// Internal helpers
+// ---------------------------------------------------------------------------
+
+function findRequirementsSeq(content: string): { doc: Document; seq: YAMLSeq } {
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new Error(`Invalid YAML: ${doc.errors[0].message}`);
+  }
+  const seq = isMap(doc.contents) ? doc.contents.get("requirements", true) : null;
+  if (!isSeq(seq) || !seq.range) {
+    throw new Error("YAML must have a 'requirements' list");
+  }
+  return { doc, seq };
+}
+
+function findRequirement(seq: YAMLSeq, id: string): YAMLMap {
+  if (seq.flow) {
+    throw new Error("Cannot edit a flow-style 'requirements' list; rewrite it as a block list first");
+  }
+  const item = seq.items.find((i) => isMap(i) && i.get("id") === id);
+  if (!isMap(item) || !item.range) {
+    throw new Error(`Requirement ${id} not found`);
+  }
+  return item;
+}
+
+function requirementsKey(doc: Document): Scalar {
+  const pair = isMap(doc.contents)
+    ? doc.contents.items.find((p) => isScalar(p.key) && p.key.value === "requirements")
+    : undefined;
+  return pair!.key as Scalar;
+}
+
+/** Replaces `requirements: []` with a block sequence holding one entry. */
+function appendToEmptyFlowSeq(content: string, doc: Document, seq: YAMLSeq, requirement: object): string {
+  const key = requirementsKey(doc);
+  const indent = columnOf(content, key.range![0]) + 2;
+
+  // Drop the `[]` and the spaces after it, keeping any trailing comment on the key line
+  const [start, end] = seq.range!;
+  const afterFlow = content.slice(end).match(/^[ \t]*/)![0].length;
+  const commentSpace = content[end + afterFlow] === "#" ? " " : "";
+  const withoutFlow = content.slice(0, start).trimEnd() + commentSpace + content.slice(end + afterFlow);
+
+  const insertAt = endOfLine(withoutFlow, start - 1);
+  const before = withoutFlow.slice(0, insertAt);
+  return before + (before.endsWith("\n") ? "" : "\n") + renderItem(requirement, indent) + withoutFlow.slice(insertAt);
+}
+
+/**
+ * Replaces a field's value, keeping the key, any trailing comment and (for
+ * strings) the original quoting style. Block collections stay block; flow
+ * collections and scalars replaced by a collection become flow collections
+ * so the field stays on its line.
+ */
+function replaceValue(content: string, pair: Pair<Scalar, Node | null>, value: unknown): Splice {
+  const old = pair.value;
+
+  if (!isNode(old) || !old.range) {
+    const colon = content.indexOf(":", pair.key.range![1]);
+    return { start: colon + 1, end: colon + 1, text: " " + renderValue(value, null, 0) };
+  }
+
+  const [start, end] = old.range;
+  const isBlockCollection = (isSeq(old) || isMap(old)) && !old.flow;
+  const indent = isBlockCollection ? columnOf(content, start) : columnOf(content, pair.key.range![0]) + 2;
+  let rendered = renderValue(value, old, indent);
+
+  // The renderer pads flow collections (`[ a, b ]`); follow the author if they don't
+  if ((isSeq(old) || isMap(old)) && old.flow && !/^[[{]\s/.test(content.slice(start, end))) {
+    rendered = rendered.replace(/^([[{]) /, "$1").replace(/ ([\]}])$/, "$1");
+  }
+
+  // An empty value sits right after the colon and needs a separating space
+  return { start, end: contentEnd(content, end), text: (start === end ? " " : "") + rendered };
+}
+
+/** Removes a field and its value, from the start of the key's line to the end of the value. */
+function removePair(content: string, id: string, pair: Pair<Scalar, Node | null>): Splice {
+  const keyStart = pair.key.range![0];
+  const start = lineStart(content, keyStart);
+  if (content.slice(start, keyStart).trim() !== "") {
+    throw new Error(`Cannot remove ${String(pair.key.value)} from ${id}: it is the first field of the entry`);
+  }
+  const valueEnd = (pair.value?.range ?? pair.key.range!)[1];
+  return { start, end: endOfLine(content, contentEnd(content, valueEnd)), text: "" };
+}
+
+/**
+ * Renders a value for the position of `old`; continuation lines are indented
+ * by `indent` spaces.
+ */
+function renderValue(value: unknown, old: Node | null, indent: number): string {
+  let rendered: string;
+  if (value !== null && typeof value === "object") {
+    const block = (isSeq(old) || isMap(old)) && !old.flow;
+    rendered = stringify(value, { lineWidth: 0, collectionStyle: block ? "block" : "flow" });
+  } else if (typeof value === "string" && isScalar(old) && old.type) {
+    rendered = stringify(value, { lineWidth: 0, defaultStringType: old.type });
+  } else {
+    rendered = stringify(value, { lineWidth: 0 });
+  }
+
+  const pad = " ".repeat(indent);
+  return rendered
+    .trimEnd()
+    .split("\n")
+    .map((line, i) => (i === 0 || line === "" ? line : pad + line))
+    .join("\n");
+}
+
+/** Renders a requirement as a block sequence entry, indented by `indent` spaces. */
+function renderItem(requirement: object, indent: number): string {
+  const pad = " ".repeat(indent);
+  return stringify([requirement], { lineWidth: 0 })
+    .trimEnd()
+    .split("\n")
+    .map((line) => pad + line)
+    .join("\n") + "\n";
+}
+
+/** Applies non-overlapping splices, last first so earlier offsets stay valid. */
+function applySplices(content: string, splices: Splice[]): string {
+  let result = content;
+  for (const { start, end, text } of [...splices].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+  return result;
+}
+
+/** 0-based column of `offset` within its line. */
+function columnOf(content: string, offset: number): number {
+  return offset - lineStart(content, offset);
+}
+
+/** Offset of the first character of the line containing `offset`. */
+function lineStart(content: string, offset: number): number {
+  return content.lastIndexOf("\n", offset - 1) + 1;
+}
+
+/**
+ * Node ranges can extend over trailing blank lines; returns the offset just
+ * past the last non-whitespace character before `offset`.
+ */
+function contentEnd(content: string, offset: number): number {
+  return content.slice(0, offset).trimEnd().length;
+}
+
+/** Offset just past the newline that ends the line containing `offset` (or the end of content). */
+function endOfLine(content: string, offset: number): number {
+  const newline = content.indexOf("\n", offset);
+  return newline === -1 ? content.length : newline + 1;
+}
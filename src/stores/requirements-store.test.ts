@@ -1,5 +1,7 @@
 import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
 import { useRequirementsStore, _getWatcherInternals } from "./requirements-store";
+import { DEFAULT_CONFIG } from "../domain/config/config";
+import { requirementRevision } from "../infrastructure/revisions";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -81,11 +83,20 @@ describe("useRequirementsStore", () => {
   beforeEach(() => {
     // Reset store to initial state before each test
     useRequirementsStore.setState({
+      project: null,
+      config: DEFAULT_CONFIG,
+      trace: null,
+      verification: null,
       mainRequirements: [],
       derivedRequirements: [],
+      diagnostics: [],
       loading: false,
       error: null,
       watching: false,
+      exportedAt: null,
+      readOnly: false,
+      conflict: null,
+      recentChanges: {},
     });
 
     // Ensure watcher is stopped between tests
@@ -143,10 +154,16 @@ describe("useRequirementsStore", () => {
 
     await useRequirementsStore.getState().loadFromFiles("/custom/path");
 
-    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledTimes(8);
     const calls = fetchMock.mock.calls.map((c) => c[0]);
+    expect(calls).toContain("/api/files");
+    expect(calls).toContain("/api/config");
+    expect(calls).toContain("/api/server");
+    expect(calls).toContain("/api/trace");
+    expect(calls).toContain("/api/verification");
     expect(calls).toContain("/custom/path/main.yaml");
     expect(calls).toContain("/custom/path/derived.yaml");
+    expect(calls).toContain("/custom/path/project.yaml");
   });
 
   test("loadFromFiles() defaults to /requirements path", async () => {
@@ -159,6 +176,83 @@ describe("useRequirementsStore", () => {
     expect(calls).toContain("/requirements/derived.yaml");
   });
 
+  test("loadFromFiles() loads and merges every file listed by the server", async () => {
+    const files: Record<string, string> = {
+      "/requirements/main.yaml": VALID_MAIN_YAML,
+      "/requirements/checkout/main.yaml": VALID_MAIN_YAML.replace(/req-00/g, "req-10"),
+      "/requirements/derived.yaml": VALID_DERIVED_YAML,
+    };
+    globalThis.fetch = mock((url: string | URL | Request) => {
+      const urlStr = String(url);
+      if (urlStr === "/api/files") {
+        return Promise.resolve(
+          makeResponse(JSON.stringify({ main: ["main.yaml", "checkout/main.yaml"], derived: ["derived.yaml"] })),
+        );
+      }
+      return Promise.resolve(
+        urlStr in files ? makeResponse(files[urlStr]) : makeResponse("", false, 404),
+      );
+    }) as unknown as typeof fetch;
+
+    await useRequirementsStore.getState().loadFromFiles();
+
+    const state = useRequirementsStore.getState();
+    expect(state.error).toBeNull();
+    expect(state.mainRequirements.map((r) => r.id)).toEqual(["req-001", "req-002", "req-101", "req-102"]);
+    expect(state.derivedRequirements.map((r) => r.id)).toEqual(["der-001"]);
+  });
+
+  test("loadFromFiles() loads the project config", async () => {
+    const stub = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    globalThis.fetch = mock((url: string | URL | Request) =>
+      String(url) === "/api/config"
+        ? Promise.resolve(makeResponse(JSON.stringify({ ...DEFAULT_CONFIG, fields: { owner: { type: "string" } } })))
+        : stub(url),
+    ) as unknown as typeof fetch;
+
+    await useRequirementsStore.getState().loadFromFiles();
+
+    expect(useRequirementsStore.getState().config.fields).toEqual({ owner: { type: "string" } });
+  });
+
+  test("loadFromFiles() falls back to the default config", async () => {
+    stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+
+    await useRequirementsStore.getState().loadFromFiles();
+
+    expect(useRequirementsStore.getState().config).toEqual(DEFAULT_CONFIG);
+  });
+
+  test("loadFromFiles() loads the trace report, or null when it's unavailable", async () => {
+    const report = { requirements: [], uncovered: ["req-001"], unknownReferences: [] };
+    const stub = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    globalThis.fetch = mock((url: string | URL | Request) =>
+      String(url) === "/api/trace" ? Promise.resolve(makeResponse(JSON.stringify(report))) : stub(url),
+    ) as unknown as typeof fetch;
+
+    await useRequirementsStore.getState().loadFromFiles();
+    expect(useRequirementsStore.getState().trace).toEqual(report);
+
+    stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    expect(useRequirementsStore.getState().trace).toBeNull();
+  });
+
+  test("loadFromFiles() loads the verification report, or null when it's unavailable", async () => {
+    const report = { requirements: [], counts: { verified: 0, failing: 0, untested: 0 }, testCount: 0 };
+    const stub = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    globalThis.fetch = mock((url: string | URL | Request) =>
+      String(url) === "/api/verification" ? Promise.resolve(makeResponse(JSON.stringify(report))) : stub(url),
+    ) as unknown as typeof fetch;
+
+    await useRequirementsStore.getState().loadFromFiles();
+    expect(useRequirementsStore.getState().verification).toEqual(report);
+
+    stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    expect(useRequirementsStore.getState().verification).toBeNull();
+  });
+
   // --- Fetch errors ---
 
   test("loadFromFiles() sets error when main.yaml fetch fails", async () => {
@@ -196,7 +290,7 @@ describe("useRequirementsStore", () => {
     expect(state.loading).toBe(false);
   });
 
-  test("loadFromFiles() sets error when main.yaml has invalid requirement", async () => {
+  test("loadFromFiles() reports invalid main requirements as diagnostics", async () => {
     const badMain = `requirements:
   - id: req-001
     description: x
@@ -208,12 +302,43 @@ describe("useRequirementsStore", () => {
     await useRequirementsStore.getState().loadFromFiles();
 
     const state = useRequirementsStore.getState();
-    expect(state.error).toBeTruthy();
+    expect(state.error).toBeNull();
     expect(state.loading).toBe(false);
     expect(state.mainRequirements).toEqual([]);
+    expect(state.diagnostics.length).toBeGreaterThan(0);
+    expect(state.diagnostics.every((d) => d.requirementId === "req-001")).toBe(true);
   });
 
-  test("loadFromFiles() sets error when derived.yaml has invalid requirement", async () => {
+  test("loadFromFiles() keeps valid requirements alongside invalid ones", async () => {
+    const mixedMain = `${VALID_MAIN_YAML}  - id: req-003
+    description: Broken
+    userValue: Broken
+    priority: urgent
+    status: draft
+`;
+    stubFetch(mixedMain, VALID_DERIVED_YAML);
+
+    await useRequirementsStore.getState().loadFromFiles();
+
+    const state = useRequirementsStore.getState();
+    expect(state.error).toBeNull();
+    expect(state.mainRequirements.map((r) => r.id)).toEqual(["req-001", "req-002"]);
+    expect(state.derivedRequirements).toHaveLength(1);
+    expect(state.diagnostics).toHaveLength(1);
+    expect(state.diagnostics[0]).toMatchObject({ file: "main.yaml", index: 2, requirementId: "req-003" });
+  });
+
+  test("loadFromFiles() clears diagnostics once the file is fixed", async () => {
+    stubFetch(`requirements:\n  - id: req-001\n    description: x\n`, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    expect(useRequirementsStore.getState().diagnostics.length).toBeGreaterThan(0);
+
+    stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    expect(useRequirementsStore.getState().diagnostics).toEqual([]);
+  });
+
+  test("loadFromFiles() reports invalid derived requirements as diagnostics", async () => {
     const badDerived = `requirements:
   - id: der-001
     description: x
@@ -228,8 +353,11 @@ describe("useRequirementsStore", () => {
     await useRequirementsStore.getState().loadFromFiles();
 
     const state = useRequirementsStore.getState();
-    expect(state.error).toBeTruthy();
+    expect(state.error).toBeNull();
     expect(state.loading).toBe(false);
+    expect(state.mainRequirements).toHaveLength(2);
+    expect(state.derivedRequirements).toEqual([]);
+    expect(state.diagnostics.map((d) => d.file)).toEqual(["derived.yaml", "derived.yaml"]);
   });
 
   // --- Loading state ---
@@ -420,6 +548,270 @@ describe("useRequirementsStore", () => {
 
     useRequirementsStore.getState().stopWatching();
   });
+
+  // --- Project ---
+
+  test("loadFromFiles() loads project.yaml when it is served", async () => {
+    const fileFetch = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    globalThis.fetch = mock((url: string) =>
+      url.endsWith("/project.yaml")
+        ? Promise.resolve(makeResponse("name: Shop\ndescription: Online store\n"))
+        : fileFetch(url),
+    ) as unknown as typeof globalThis.fetch;
+
+    await useRequirementsStore.getState().loadFromFiles();
+
+    const state = useRequirementsStore.getState();
+    expect(state.project).toEqual({ name: "Shop", description: "Online store", owners: [], links: [] });
+    expect(state.error).toBeNull();
+  });
+
+  test("loadFromFiles() reports an invalid project.yaml without failing the load", async () => {
+    const fileFetch = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    globalThis.fetch = mock((url: string) =>
+      url.endsWith("/project.yaml") ? Promise.resolve(makeResponse("name: 42\n")) : fileFetch(url),
+    ) as unknown as typeof globalThis.fetch;
+
+    await useRequirementsStore.getState().loadFromFiles();
+
+    const state = useRequirementsStore.getState();
+    expect(state.project).toBeNull();
+    expect(state.error).toBeNull();
+    expect(state.mainRequirements).toHaveLength(2);
+    expect(state.diagnostics[0]).toMatchObject({ file: "project.yaml", field: "name" });
+  });
+
+  test("loadFromFiles() leaves project null when project.yaml is missing", async () => {
+    stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+
+    await useRequirementsStore.getState().loadFromFiles();
+
+    expect(useRequirementsStore.getState().project).toBeNull();
+  });
+
+  // --- Snapshots ---
+
+  test("loadFromSnapshot() parses the embedded files without fetching", () => {
+    const fetchMock = stubFetch(null, null);
+
+    useRequirementsStore.getState().loadFromSnapshot({
+      exportedAt: "2026-01-02T03:04:05.000Z",
+      files: { main: ["main.yaml"], derived: ["derived.yaml"] },
+      contents: { "main.yaml": VALID_MAIN_YAML, "derived.yaml": VALID_DERIVED_YAML, "project.yaml": "name: Shop\n" },
+      config: DEFAULT_CONFIG,
+      trace: null,
+      verification: null,
+    });
+
+    const state = useRequirementsStore.getState();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(state.mainRequirements).toHaveLength(2);
+    expect(state.derivedRequirements[0].id).toBe("der-001");
+    expect(state.project?.name).toBe("Shop");
+    expect(state.exportedAt).toBe("2026-01-02T03:04:05.000Z");
+    expect(state.error).toBeNull();
+  });
+
+  test("a snapshot is read-only and isn't watched", async () => {
+    const fetchMock = stubFetch(null, null);
+    useRequirementsStore.getState().loadFromSnapshot({
+      exportedAt: "2026-01-02T03:04:05.000Z",
+      files: { main: ["main.yaml"], derived: [] },
+      contents: { "main.yaml": VALID_MAIN_YAML },
+      config: DEFAULT_CONFIG,
+      trace: null,
+      verification: null,
+    });
+
+    useRequirementsStore.getState().startWatching();
+    const result = await useRequirementsStore.getState().renameRequirement("req-001", "req-100");
+
+    expect(useRequirementsStore.getState().watching).toBe(false);
+    expect(result).toBe("Requirements can't be renamed in an exported snapshot");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  // --- Renaming ---
+
+  test("renameRequirement() posts to the rename API with the requirement's revision and reloads", async () => {
+    const fileFetch = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    const requirement = useRequirementsStore.getState().mainRequirements[0];
+    const fetchMock = mock((url: string, init?: RequestInit) =>
+      url === "/api/rename"
+        ? Promise.resolve(new Response(JSON.stringify({ changes: [] }), { status: 200 }))
+        : fileFetch(url),
+    );
+    globalThis.fetch = fetchMock as unknown as typeof globalThis.fetch;
+
+    const result = await useRequirementsStore.getState().renameRequirement("req-001", "req-100");
+
+    expect(result).toBeNull();
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("/api/rename");
+    expect(init.method).toBe("POST");
+    expect((init.headers as Record<string, string>)["If-Match"]).toBe(`"${requirementRevision(requirement)}"`);
+    expect(JSON.parse(init.body as string)).toEqual({ from: "req-001", to: "req-100" });
+    expect(useRequirementsStore.getState().mainRequirements).toHaveLength(2);
+  });
+
+  test("renameRequirement() is refused without a request when the server is read-only", async () => {
+    const fileFetch = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    const fetchMock = mock((url: string) =>
+      url === "/api/server"
+        ? Promise.resolve(new Response(JSON.stringify({ readOnly: true }), { status: 200 }))
+        : fileFetch(url),
+    );
+    globalThis.fetch = fetchMock as unknown as typeof globalThis.fetch;
+    await useRequirementsStore.getState().loadFromFiles();
+
+    const result = await useRequirementsStore.getState().renameRequirement("req-001", "req-100");
+
+    expect(useRequirementsStore.getState().readOnly).toBe(true);
+    expect(result).toContain("read-only");
+    expect(fetchMock.mock.calls.some(([url]) => url === "/api/rename")).toBe(false);
+  });
+
+  test("renameRequirement() returns the server's error message", async () => {
+    stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    globalThis.fetch = mock(() =>
+      Promise.resolve(new Response(JSON.stringify({ error: "Requirement ID req-002 already exists" }), { status: 409 })),
+    ) as unknown as typeof globalThis.fetch;
+
+    const result = await useRequirementsStore.getState().renameRequirement("req-001", "req-002");
+
+    expect(result).toBe("Requirement ID req-002 already exists");
+    expect(useRequirementsStore.getState().conflict).toBeNull();
+  });
+
+  test("renameRequirement() keeps both versions when someone else changed the requirement", async () => {
+    stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    const theirs = {
+      id: "req-001",
+      description: "Changed elsewhere",
+      userValue: "V",
+      priority: "low",
+      status: "draft",
+    };
+    globalThis.fetch = mock(() =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({
+            error: "Requirement req-001 was changed by someone else since revision \"abc\"",
+            current: { requirement: theirs, revision: "def" },
+          }),
+          { status: 409 },
+        ),
+      ),
+    ) as unknown as typeof globalThis.fetch;
+
+    const result = await useRequirementsStore.getState().renameRequirement("req-001", "req-100");
+
+    expect(result).toContain("was changed by someone else");
+    const conflict = useRequirementsStore.getState().conflict;
+    expect(conflict?.id).toBe("req-001");
+    expect(conflict?.theirs).toEqual(theirs);
+    expect(conflict?.yours).toMatchObject({ id: "req-100", description: "Users need to search products" });
+    expect(conflict?.revision).toBe("def");
+  });
+
+  // --- Change events ---
+
+  test("applyChanges() applies the new file contents without refetching them", async () => {
+    const fetchMock = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    fetchMock.mockClear();
+    const content = VALID_MAIN_YAML.replace("status: draft", "status: approved");
+
+    await useRequirementsStore.getState().applyChanges({
+      id: "feed-1",
+      files: [
+        {
+          file: "main.yaml",
+          revision: "abc",
+          content,
+          diff: { added: [], removed: [], modified: [{ id: "req-001", fields: ["status"] }] },
+        },
+      ],
+      revisions: { "main.yaml": "abc" },
+    });
+
+    const state = useRequirementsStore.getState();
+    expect(state.mainRequirements.find((r) => r.id === "req-001")?.status).toBe("approved");
+    expect(state.derivedRequirements).toHaveLength(1);
+    expect(state.recentChanges).toEqual({ "req-001": { change: "modified", fields: ["status"] } });
+    expect(fetchMock.mock.calls.some(([url]) => String(url).endsWith(".yaml"))).toBe(false);
+  });
+
+  test("applyChanges() reloads when a requirement file was added", async () => {
+    const fetchMock = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    await useRequirementsStore.getState().loadFromFiles();
+    fetchMock.mockClear();
+
+    await useRequirementsStore.getState().applyChanges({
+      id: "feed-2",
+      files: [
+        {
+          file: "extra.yaml",
+          revision: "def",
+          content: EMPTY_YAML,
+          diff: { added: ["req-009"], removed: [], modified: [] },
+        },
+      ],
+      revisions: { "extra.yaml": "def" },
+    });
+
+    expect(fetchMock.mock.calls.some(([url]) => String(url).endsWith("main.yaml"))).toBe(true);
+    expect(useRequirementsStore.getState().recentChanges).toEqual({ "req-009": { change: "added", fields: [] } });
+  });
+
+  test("resolveConflict('mine') resends the write against the current revision", async () => {
+    const fileFetch = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    const fetchMock = mock((url: string, init?: RequestInit) =>
+      url === "/api/rename"
+        ? Promise.resolve(new Response(JSON.stringify({ changes: [] }), { status: 200 }))
+        : fileFetch(url),
+    );
+    globalThis.fetch = fetchMock as unknown as typeof globalThis.fetch;
+    useRequirementsStore.setState({
+      conflict: {
+        id: "req-001",
+        write: { type: "rename", from: "req-001", to: "req-100" },
+        yours: { id: "req-100" },
+        theirs: { id: "req-001" },
+        revision: "def",
+      },
+    });
+
+    const result = await useRequirementsStore.getState().resolveConflict("mine");
+
+    expect(result).toBeNull();
+    expect(useRequirementsStore.getState().conflict).toBeNull();
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("/api/rename");
+    expect((init.headers as Record<string, string>)["If-Match"]).toBe('"def"');
+  });
+
+  test("resolveConflict('theirs') drops the write and reloads", async () => {
+    const fetchMock = stubFetch(VALID_MAIN_YAML, VALID_DERIVED_YAML);
+    useRequirementsStore.setState({
+      conflict: {
+        id: "req-001",
+        write: { type: "rename", from: "req-001", to: "req-100" },
+        yours: { id: "req-100" },
+        theirs: { id: "req-001" },
+        revision: "def",
+      },
+    });
+
+    await useRequirementsStore.getState().resolveConflict("theirs");
+
+    expect(useRequirementsStore.getState().conflict).toBeNull();
+    expect(fetchMock.mock.calls.some(([url]) => String(url) === "/api/rename")).toBe(false);
+    expect(useRequirementsStore.getState().mainRequirements).toHaveLength(2);
+  });
 });
 
 function sleep(ms: number): Promise<void> {
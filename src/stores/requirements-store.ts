@@ -1,25 +1,57 @@
 /**
  * Zustand store for managing requirements state.
  *
- * Fetches main.yaml and derived.yaml over HTTP (served by the built-in
- * Design Duck server), then parses and validates them using the shared
- * file-store parsing logic.
+ * Asks the server which requirement files exist (/api/files), fetches each
+ * of them and the optional project.yaml over HTTP (served by the built-in
+ * Design Duck server), then parses, validates and merges them using the
+ * shared file-store parsing logic. The project config (/api/config) comes
+ * along so the UI knows the custom fields to show, the trace report
+ * (/api/trace) so it can show the files linked to each requirement, and the
+ * verification report (/api/verification) for the test result badges. Invalid
+ * requirements don't block the load: the valid ones are kept and the broken
+ * ones are listed in `diagnostics`.
  *
  * Supports auto-reload via file watching:
  * - Primary: connects to the server's SSE endpoint (/events) for instant
- *   notifications when YAML files change on disk
+ *   notifications when YAML files change on disk. The events carry the
+ *   changed files' new contents, so only those are parsed again, and what
+ *   changed in them, which ends up in `recentChanges` for highlighting.
  * - Fallback: polls at a configurable interval if SSE is unavailable
+ *
+ * Writes send the revision of the requirement they're based on (If-Match).
+ * When someone else changed it in the meantime, the server refuses the
+ * write and the store keeps both versions in `conflict` until the user
+ * picks one with resolveConflict().
+ *
+ * A page exported with `design-duck export --format html` carries all of
+ * this as an embedded snapshot instead; loadFromSnapshot() parses it the
+ * same way and leaves the store read-only, without watching.
  */
 
 import { create } from "zustand";
 import {
-  parseMainRequirementsYaml,
-  parseDerivedRequirementsYaml,
+  parseMainRequirementsYamlWithDiagnostics,
+  parseDerivedRequirementsYamlWithDiagnostics,
+  parseProjectYamlWithDiagnostics,
+  formatParseDiagnostic,
+  mergeParseResults,
 } from "../infrastructure/yaml-parser";
+import type { ParseDiagnostic, ParseResult } from "../infrastructure/yaml-parser";
+import type { RequirementFiles } from "../infrastructure/requirement-files";
+import type { RequirementsSnapshot } from "../infrastructure/static-export";
+import type { RequirementsChangedEvent } from "../infrastructure/change-feed";
+import { requirementRevision, toEtag } from "../infrastructure/revisions";
 import type {
   MainRequirement,
   DerivedRequirement,
 } from "../domain/requirements/requirement";
+import type { Project } from "../domain/project/project";
+import { DEFAULT_CONFIG } from "../domain/config/config";
+import type { DesignDuckConfig } from "../domain/config/config";
+import type { TraceReport } from "../domain/requirements/trace";
+import type { VerificationReport } from "../domain/requirements/verification";
+import { changesById } from "../domain/requirements/diff";
+import type { RequirementChange } from "../domain/requirements/diff";
 
 /** Options for configuring file watching behavior. */
 export interface WatchOptions {
@@ -40,27 +72,95 @@ export interface WatchOptions {
   eventsUrl?: string;
 }
 
+/** A write the store can send again. */
+export type PendingWrite = { type: "rename"; from: string; to: string };
+
+/** A write the server refused because the requirement changed since it was loaded. */
+export interface WriteConflict {
+  /** ID of the requirement the write was for. */
+  id: string;
+  write: PendingWrite;
+  /** The requirement as this page last loaded it, with the refused change applied. */
+  yours: Record<string, unknown>;
+  /** The requirement as it is on disk now, or null when it no longer exists. */
+  theirs: Record<string, unknown> | null;
+  /** Revision of `theirs`, to apply the write on top of it. */
+  revision: string | null;
+}
+
 export interface RequirementsState {
+  /** Project metadata from project.yaml, or null when it is missing or invalid. */
+  project: Project | null;
+  /** Project config (custom fields, workflow, ...); the defaults when the server can't provide it. */
+  config: DesignDuckConfig;
   /** Validated main (user-value) requirements. */
   mainRequirements: MainRequirement[];
   /** Validated derived (technical/enabling) requirements. */
   derivedRequirements: DerivedRequirement[];
+  /** Files that implement and tests that verify each requirement; null when the server can't scan. */
+  trace: TraceReport | null;
+  /** Verification state of each requirement from test results; null when the server can't read them. */
+  verification: VerificationReport | null;
+  /** Problems with individual requirements that were skipped during the last load. */
+  diagnostics: ParseDiagnostic[];
   /** True while a loadFromFiles() call is in progress. */
   loading: boolean;
-  /** Human-readable error message from the last failed load, or null. */
+  /**
+   * Human-readable error message from the last failed load, or null.
+   * Set when a file can't be fetched or isn't a usable requirements file at all.
+   */
   error: string | null;
   /** Whether the store is actively watching for file changes. */
   watching: boolean;
+  /** Requirements added or modified by the last change on disk, by ID. */
+  recentChanges: Record<string, RequirementChange>;
+  /** The last write refused because of someone else's change, until it is resolved. */
+  conflict: WriteConflict | null;
+  /** When the requirements come from an exported snapshot, the time it was taken; the store is then read-only. */
+  exportedAt: string | null;
+  /** Whether the server refuses edits (`design-duck ui --read-only`). */
+  readOnly: boolean;
 
   /**
-   * Fetches main.yaml and derived.yaml from the given base path, parses them,
-   * and replaces the current store state with the result.
+   * Fetches every requirement file and project.yaml from the given base path, parses them,
+   * and replaces the current store state with the merged result.
    *
    * @param requirementsPath - URL path prefix where the YAML files are served.
    *   Defaults to "/requirements" (served by the built-in Design Duck server).
    */
   loadFromFiles: (requirementsPath?: string) => Promise<void>;
 
+  /**
+   * Applies a change event from the server: parses the changed files' new
+   * contents in place of the old ones and refreshes the trace and
+   * verification reports. Reloads everything instead when files were added
+   * or deleted, or nothing was loaded yet.
+   */
+  applyChanges: (event: RequirementsChangedEvent) => Promise<void>;
+
+  /**
+   * Loads the requirements embedded in an exported page and makes the store
+   * read-only: renames are refused and watching is a no-op.
+   */
+  loadFromSnapshot: (snapshot: RequirementsSnapshot) => void;
+
+  /**
+   * Renames a requirement through the server API, which also updates every
+   * `derivedFrom` reference, then reloads.
+   *
+   * @returns An error message when the rename was refused, or null on success;
+   *   when someone else changed the requirement, `conflict` is set as well
+   */
+  renameRequirement: (oldId: string, newId: string) => Promise<string | null>;
+
+  /**
+   * Settles `conflict`: "theirs" drops the refused write and reloads,
+   * "mine" applies it on top of the other change.
+   *
+   * @returns An error message when the write was refused again, or null
+   */
+  resolveConflict: (choice: "theirs" | "mine") => Promise<string | null>;
+
   /**
    * Starts watching for requirement file changes.
    * Connects to the server's SSE endpoint for instant notifications,
@@ -84,73 +184,388 @@ export interface RequirementsState {
 let pollingTimer: ReturnType<typeof setInterval> | null = null;
 let eventSource: EventSource | null = null;
 
+/** What the last successful loadFromFiles() fetched, for applying change events to. */
+let loaded: {
+  requirementsPath: string;
+  config: DesignDuckConfig;
+  files: RequirementFiles;
+  main: LoadedFile[];
+  derived: LoadedFile[];
+  projectYaml: string | null;
+} | null = null;
+
 /** Exported for testing — returns current internal watcher state. */
 export function _getWatcherInternals() {
   return { pollingTimer, eventSource };
 }
 
+/** The body of a 409 response for a write based on an old revision. */
+interface ConflictBody {
+  error: string;
+  current: { requirement: Record<string, unknown>; revision: string } | null;
+}
+
+/**
+ * Sends a write with If-Match set to `revision`.
+ *
+ * @returns null on success, otherwise the error and, when the requirement
+ *   changed in the meantime, its current version
+ */
+async function sendWrite(
+  write: PendingWrite,
+  revision: string,
+): Promise<{ error: string; current?: ConflictBody["current"] } | null> {
+  try {
+    const res = await fetch("/api/rename", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "If-Match": toEtag(revision) },
+      body: JSON.stringify({ from: write.from, to: write.to }),
+    });
+    if (!res.ok) {
+      const body = (await res.json().catch(() => null)) as Partial<ConflictBody> | null;
+      const error = body?.error ?? `Rename failed: ${res.status} ${res.statusText}`;
+      // An ID that is already taken is a 409 too, but without a current version
+      return res.status === 409 && body && "current" in body ? { error, current: body.current } : { error };
+    }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+  return null;
+}
+
+/** The requirement with a write applied, as the user expects it to end up. */
+function applyWrite(requirement: Record<string, unknown>, write: PendingWrite): Record<string, unknown> {
+  return { ...requirement, id: write.to };
+}
+
+/** Files loaded when the server can't list them (e.g. a plain static host). */
+const DEFAULT_FILES: RequirementFiles = { main: ["main.yaml"], derived: ["derived.yaml"] };
+
+async function fetchFileList(): Promise<RequirementFiles> {
+  try {
+    const res = await fetch("/api/files");
+    if (res.ok) {
+      return (await res.json()) as RequirementFiles;
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  console.log("[design-duck:store] File list unavailable, loading main.yaml and derived.yaml");
+  return DEFAULT_FILES;
+}
+
+/** The project config; the defaults when it's unavailable or invalid (validate reports the latter). */
+async function fetchConfig(): Promise<DesignDuckConfig> {
+  try {
+    const res = await fetch("/api/config");
+    if (res.ok) {
+      return (await res.json()) as DesignDuckConfig;
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  console.log("[design-duck:store] Config unavailable, using defaults");
+  return DEFAULT_CONFIG;
+}
+
+/** Whether the server refuses edits; servers without the API can't take them either. */
+async function fetchReadOnly(): Promise<boolean> {
+  try {
+    const res = await fetch("/api/server");
+    if (res.ok) {
+      return ((await res.json()) as { readOnly: boolean }).readOnly;
+    }
+  } catch {
+    // Fall through
+  }
+  return false;
+}
+
+/** The trace report; null when it's unavailable (e.g. a plain static host). */
+async function fetchTrace(): Promise<TraceReport | null> {
+  try {
+    const res = await fetch("/api/trace");
+    if (res.ok) {
+      return (await res.json()) as TraceReport;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/** The verification report; null when it's unavailable. */
+async function fetchVerification(): Promise<VerificationReport | null> {
+  try {
+    const res = await fetch("/api/verification");
+    if (res.ok) {
+      return (await res.json()) as VerificationReport;
+    }
+  } catch {
+    // Fall through
+  }
+  return null;
+}
+
+/** A requirement file's path and contents. */
+interface LoadedFile {
+  file: string;
+  content: string;
+}
+
+/** Fetches every file of one kind, in load order. */
+function fetchSet(requirementsPath: string, files: string[]): Promise<LoadedFile[]> {
+  return Promise.all(
+    files.map(async (file) => {
+      const res = await fetch(`${requirementsPath}/${file}`);
+      if (!res.ok) {
+        throw new Error(`Failed to fetch ${file}: ${res.status} ${res.statusText}`);
+      }
+      return { file, content: await res.text() };
+    }),
+  );
+}
+
+/** Parses every file of one kind, merged in load order. */
+function parseSet<T>(files: LoadedFile[], parse: (content: string, fileName: string) => ParseResult<T>) {
+  return mergeParseResults(files.map(({ file, content }) => ({ file, result: parse(content, file) })));
+}
+
+/**
+ * Parses a fetched or embedded requirement set into store state.
+ * Throws when a file is unusable as a whole.
+ */
+function parseRequirementSet(
+  config: DesignDuckConfig,
+  mainFiles: LoadedFile[],
+  derivedFiles: LoadedFile[],
+  projectYaml: string | null,
+) {
+  // The config's vocabularies decide which priorities and statuses are valid
+  const main = parseSet(mainFiles, (content, file) =>
+    parseMainRequirementsYamlWithDiagnostics(content, file, config.vocabulary),
+  );
+  const derived = parseSet(derivedFiles, (content, file) =>
+    parseDerivedRequirementsYamlWithDiagnostics(content, file, config.vocabulary),
+  );
+  const diagnostics = [...main.diagnostics, ...derived.diagnostics];
+
+  // File-level problems (malformed YAML, missing requirements array)
+  // leave nothing to render, so they fail the whole load.
+  const fileErrors = diagnostics.filter((d) => d.index === null);
+  if (fileErrors.length > 0) {
+    throw new Error(fileErrors.map((d) => formatParseDiagnostic(d)).join("\n"));
+  }
+
+  // project.yaml is optional, and a broken one only costs the header its name
+  const project = projectYaml !== null
+    ? parseProjectYamlWithDiagnostics(projectYaml)
+    : { project: null, diagnostics: [] };
+
+  console.log(
+    `[design-duck:store] Loaded ${main.requirements.length} main and ${derived.requirements.length} derived requirements (${diagnostics.length} diagnostics)`,
+  );
+
+  return {
+    project: project.project,
+    mainRequirements: main.requirements,
+    derivedRequirements: derived.requirements,
+    diagnostics: [...project.diagnostics, ...diagnostics],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Store
 // ---------------------------------------------------------------------------
 
 export const useRequirementsStore = create<RequirementsState>()((set, get) => ({
+  project: null,
+  config: DEFAULT_CONFIG,
+  trace: null,
+  verification: null,
   mainRequirements: [],
   derivedRequirements: [],
+  diagnostics: [],
   loading: false,
   error: null,
   watching: false,
+  recentChanges: {},
+  conflict: null,
+  exportedAt: null,
+  readOnly: false,
 
   loadFromFiles: async (requirementsPath = "/requirements") => {
     console.log("[design-duck:store] Loading requirements...");
     set({ loading: true, error: null });
 
     try {
-      const [mainRes, derivedRes] = await Promise.all([
-        fetch(`${requirementsPath}/main.yaml`),
-        fetch(`${requirementsPath}/derived.yaml`),
+      const [files, config, readOnly] = await Promise.all([fetchFileList(), fetchConfig(), fetchReadOnly()]);
+      const [main, derived, projectRes, trace, verification] = await Promise.all([
+        fetchSet(requirementsPath, files.main),
+        fetchSet(requirementsPath, files.derived),
+        fetch(`${requirementsPath}/project.yaml`),
+        fetchTrace(),
+        fetchVerification(),
       ]);
-
-      if (!mainRes.ok) {
-        throw new Error(
-          `Failed to fetch main.yaml: ${mainRes.status} ${mainRes.statusText}`,
-        );
-      }
-      if (!derivedRes.ok) {
-        throw new Error(
-          `Failed to fetch derived.yaml: ${derivedRes.status} ${derivedRes.statusText}`,
-        );
-      }
-
-      const mainContent = await mainRes.text();
-      const derivedContent = await derivedRes.text();
-
-      const mainRequirements = parseMainRequirementsYaml(mainContent);
-      const derivedRequirements = parseDerivedRequirementsYaml(derivedContent);
+      const projectYaml = projectRes.ok ? await projectRes.text() : null;
 
       set({
-        mainRequirements,
-        derivedRequirements,
+        ...parseRequirementSet(config, main, derived, projectYaml),
+        config,
+        trace,
+        verification,
+        readOnly,
         loading: false,
         error: null,
       });
-
-      console.log(
-        `[design-duck:store] Loaded ${mainRequirements.length} main and ${derivedRequirements.length} derived requirements`,
-      );
+      loaded = { requirementsPath, config, files, main, derived, projectYaml };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       console.error(
         `[design-duck:store] Failed to load requirements: ${message}`,
       );
-      set({ loading: false, error: message });
+      loaded = null;
+      set({ loading: false, error: message, diagnostics: [] });
+    }
+  },
+
+  applyChanges: async (event) => {
+    const recentChanges = changesById(event.files.map((f) => f.diff));
+    const state = loaded;
+    const isLoaded = (file: string) =>
+      file === "project.yaml" || state!.files.main.includes(file) || state!.files.derived.includes(file);
+
+    if (!state || event.files.some((f) => f.content === null || !isLoaded(f.file))) {
+      console.log("[design-duck:store] Requirement files were added or deleted, reloading requirements");
+      set({ recentChanges });
+      await get().loadFromFiles(state?.requirementsPath);
+      return;
+    }
+
+    console.log(`[design-duck:store] Applying changes to ${event.files.map((f) => f.file).join(", ")}`);
+    const contents = new Map(event.files.map((f) => [f.file, f.content as string]));
+    const update = (files: LoadedFile[]) =>
+      files.map(({ file, content }) => ({ file, content: contents.get(file) ?? content }));
+    loaded = {
+      ...state,
+      main: update(state.main),
+      derived: update(state.derived),
+      projectYaml: contents.get("project.yaml") ?? state.projectYaml,
+    };
+
+    try {
+      set({
+        ...parseRequirementSet(state.config, loaded.main, loaded.derived, loaded.projectYaml),
+        recentChanges,
+        error: null,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[design-duck:store] Failed to apply changes: ${message}`);
+      set({ error: message, diagnostics: [], recentChanges });
+      return;
+    }
+
+    // Which files and tests reference the requirements may have changed too
+    const [trace, verification] = await Promise.all([fetchTrace(), fetchVerification()]);
+    set({ trace, verification });
+  },
+
+  loadFromSnapshot: (snapshot) => {
+    console.log(`[design-duck:store] Loading snapshot exported at ${snapshot.exportedAt}`);
+    const { files, contents, config } = snapshot;
+    const loaded = (file: string): LoadedFile => ({ file, content: contents[file] ?? "" });
+    const projectYaml = contents["project.yaml"] ?? null;
+
+    try {
+      set({
+        ...parseRequirementSet(config, files.main.map(loaded), files.derived.map(loaded), projectYaml),
+        config,
+        trace: snapshot.trace,
+        verification: snapshot.verification,
+        exportedAt: snapshot.exportedAt,
+        loading: false,
+        error: null,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[design-duck:store] Failed to load snapshot: ${message}`);
+      set({ loading: false, error: message, diagnostics: [], exportedAt: snapshot.exportedAt });
     }
   },
 
+  renameRequirement: async (oldId, newId) => {
+    if (get().exportedAt !== null) {
+      return "Requirements can't be renamed in an exported snapshot";
+    }
+    if (get().readOnly) {
+      return "The server is read-only; restart it without --read-only to edit requirements";
+    }
+    console.log(`[design-duck:store] Renaming ${oldId} to ${newId}`);
+
+    const { mainRequirements, derivedRequirements } = get();
+    const requirement = [...mainRequirements, ...derivedRequirements].find((r) => r.id === oldId);
+    if (!requirement) {
+      return `Requirement ${oldId} not found`;
+    }
+
+    const write: PendingWrite = { type: "rename", from: oldId, to: newId };
+    const refused = await sendWrite(write, requirementRevision(requirement));
+    if (refused) {
+      if (refused.current !== undefined) {
+        console.warn(`[design-duck:store] ${oldId} was changed by someone else, asking which version to keep`);
+        set({
+          conflict: {
+            id: oldId,
+            write,
+            yours: applyWrite(requirement as unknown as Record<string, unknown>, write),
+            theirs: refused.current?.requirement ?? null,
+            revision: refused.current?.revision ?? null,
+          },
+        });
+      }
+      return refused.error;
+    }
+
+    await get().loadFromFiles();
+    return null;
+  },
+
+  resolveConflict: async (choice) => {
+    const { conflict } = get();
+    if (!conflict) {
+      return null;
+    }
+    set({ conflict: null });
+
+    if (choice === "mine" && conflict.revision !== null) {
+      console.log(`[design-duck:store] Applying the ${conflict.write.type} of ${conflict.id} over the other change`);
+      const refused = await sendWrite(conflict.write, conflict.revision);
+      if (refused?.current !== undefined) {
+        // Changed yet again in the meantime
+        const current = refused.current;
+        set({ conflict: { ...conflict, theirs: current?.requirement ?? null, revision: current?.revision ?? null } });
+      }
+      if (refused) {
+        console.warn(`[design-duck:store] ${conflict.write.type} of ${conflict.id} refused again: ${refused.error}`);
+      }
+      await get().loadFromFiles();
+      return refused?.error ?? null;
+    }
+
+    await get().loadFromFiles();
+    return null;
+  },
+
   startWatching: (options?: WatchOptions) => {
     if (get().watching) {
       console.log("[design-duck:store] Already watching, skipping");
       return;
     }
+    if (get().exportedAt !== null) {
+      console.log("[design-duck:store] Showing an exported snapshot, nothing to watch");
+      return;
+    }
 
     const {
       intervalMs = 2000,
@@ -169,9 +584,23 @@ export const useRequirementsStore = create<RequirementsState>()((set, get) => ({
 
         const es = new EventSource(eventsUrl);
 
-        es.addEventListener("requirements-changed", () => {
+        es.addEventListener("requirements-changed", (message) => {
+          let event: RequirementsChangedEvent;
+          try {
+            event = JSON.parse((message as MessageEvent<string>).data) as RequirementsChangedEvent;
+          } catch {
+            console.warn("[design-duck:store] Unreadable SSE event, reloading requirements");
+            get().loadFromFiles(requirementsPath);
+            return;
+          }
+          console.log(`[design-duck:store] SSE event ${event.id} received`);
+          void get().applyChanges(event);
+        });
+
+        // Sent when the server can't replay what was missed while disconnected
+        es.addEventListener("requirements-reset", () => {
           console.log(
-            "[design-duck:store] SSE event received, reloading requirements",
+            "[design-duck:store] SSE stream reset, reloading requirements",
           );
           get().loadFromFiles(requirementsPath);
         });
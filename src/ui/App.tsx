@@ -3,22 +3,58 @@
  * Renders the main layout shell for viewing and managing requirements.
  */
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useRequirementsStore } from "../stores/requirements-store";
+import { readEmbeddedSnapshot } from "../infrastructure/static-export";
 import { RequirementTree } from "../components/RequirementTree";
+import { DiagnosticsPanel } from "../components/DiagnosticsPanel";
+import { ProjectHeader, DEFAULT_TITLE } from "../components/ProjectHeader";
+import { FieldFilters } from "../components/FieldFilters";
+import { MatrixView } from "../components/MatrixView";
+import { ConflictDialog } from "../components/ConflictDialog";
+import { toEntries, filterRequirements } from "../domain/requirements/query";
+import type { DerivedRequirement } from "../domain/requirements/requirement";
+import type { MatrixGrouping } from "../domain/requirements/matrix";
+
+type View = "tree" | "matrix";
+
+const VIEW_LABELS: Record<View, string> = { tree: "Tree", matrix: "Matrix" };
 
 export function App() {
   const {
+    project,
+    config,
+    trace,
+    verification,
     mainRequirements,
     derivedRequirements,
+    diagnostics,
     loading,
     error,
+    exportedAt,
+    readOnly,
+    recentChanges,
+    conflict,
     loadFromFiles,
+    loadFromSnapshot,
+    renameRequirement,
+    resolveConflict,
     startWatching,
     stopWatching,
   } = useRequirementsStore();
+  const [fieldFilter, setFieldFilter] = useState<Record<string, string>>({});
+  const [view, setView] = useState<View>("tree");
+  const [matrixGroupBy, setMatrixGroupBy] = useState<MatrixGrouping>("requirement");
 
   useEffect(() => {
+    // A page exported with `design-duck export --format html` has no server to talk to
+    const snapshot = readEmbeddedSnapshot(document);
+    if (snapshot) {
+      console.log("[design-duck:ui] App mounted, loading the embedded snapshot");
+      loadFromSnapshot(snapshot);
+      return;
+    }
+
     console.log("[design-duck:ui] App mounted, loading requirements");
     loadFromFiles();
     startWatching();
@@ -26,28 +62,103 @@ export function App() {
     return () => {
       stopWatching();
     };
-  }, [loadFromFiles, startWatching, stopWatching]);
+  }, [loadFromFiles, loadFromSnapshot, startWatching, stopWatching]);
+
+  useEffect(() => {
+    document.title = project ? `${project.name} – ${DEFAULT_TITLE}` : DEFAULT_TITLE;
+  }, [project]);
+
+  const setFilterValue = (name: string, value: string | null) => {
+    const next = { ...fieldFilter };
+    if (value === null) delete next[name];
+    else next[name] = value;
+    setFieldFilter(next);
+  };
+
+  // Filter on custom fields the config still declares (it may change while watching)
+  const matching = filterRequirements(toEntries(mainRequirements, derivedRequirements), {
+    fields: Object.fromEntries(
+      Object.entries(fieldFilter)
+        .filter(([name]) => name in config.fields)
+        .map(([name, value]) => [name, [value]]),
+    ),
+  });
+  const shownDerived = matching.flatMap((e): DerivedRequirement[] => (e.kind === "derived" ? [e.requirement] : []));
+  // Keep the parents of matching derived requirements, so the tree can show them
+  const parentIds = new Set(shownDerived.flatMap((d) => d.derivedFrom));
+  const matchingMain = new Set(matching.map((e) => e.requirement));
+  const shownMain = mainRequirements.filter((r) => matchingMain.has(r) || parentIds.has(r.id));
 
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900">
-      <header className="border-b border-gray-200 bg-white px-6 py-4 shadow-sm">
-        <h1 className="text-xl font-semibold tracking-tight">Design Duck</h1>
-        <p className="mt-1 text-sm text-gray-500">
-          Requirements gathering and management
-        </p>
-      </header>
+      <ProjectHeader project={project} />
 
       <main className="mx-auto max-w-5xl px-6 py-8">
-        <h2 className="mb-4 text-lg font-semibold text-gray-800">
-          Requirements Traceability
-        </h2>
-        <RequirementTree
-          mainRequirements={mainRequirements}
-          derivedRequirements={derivedRequirements}
-          loading={loading}
-          error={error}
-        />
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-800">
+            Requirements Traceability
+          </h2>
+          <div className="flex rounded-md border border-gray-300 text-xs" role="group">
+            {(Object.keys(VIEW_LABELS) as View[]).map((v) => (
+              <button
+                key={v}
+                type="button"
+                className={`px-3 py-1 ${
+                  view === v ? "bg-gray-800 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+                }`}
+                aria-pressed={view === v}
+                onClick={() => setView(v)}
+                data-testid={`view-${v}`}
+              >
+                {VIEW_LABELS[v]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {exportedAt && (
+          <p className="mb-4 text-xs text-gray-500" data-testid="snapshot-notice">
+            Read-only snapshot exported {new Date(exportedAt).toLocaleString()}
+          </p>
+        )}
+        {readOnly && (
+          <p className="mb-4 text-xs text-gray-500" data-testid="read-only-notice">
+            Read-only: the server was started with --read-only
+          </p>
+        )}
+        {!loading && !error && <DiagnosticsPanel diagnostics={diagnostics} />}
+        {!loading && !error && (
+          <FieldFilters
+            fields={config.fields}
+            requirements={[...mainRequirements, ...derivedRequirements]}
+            selected={fieldFilter}
+            onChange={setFilterValue}
+          />
+        )}
+        {view === "matrix" && !loading && !error ? (
+          <MatrixView
+            mainRequirements={shownMain}
+            derivedRequirements={shownDerived}
+            groupBy={matrixGroupBy}
+            onGroupByChange={setMatrixGroupBy}
+            vocabularies={config.vocabulary}
+          />
+        ) : (
+          <RequirementTree
+            mainRequirements={shownMain}
+            derivedRequirements={shownDerived}
+            loading={loading}
+            error={error}
+            onRename={exportedAt || readOnly ? undefined : renameRequirement}
+            fields={config.fields}
+            vocabularies={config.vocabulary}
+            trace={trace}
+            verification={verification}
+            changes={recentChanges}
+          />
+        )}
       </main>
+
+      {conflict && <ConflictDialog conflict={conflict} onResolve={(choice) => void resolveConflict(choice)} />}
     </div>
   );
 }